@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "iot_devices" ADD COLUMN     "secret_hash" TEXT,
+ADD COLUMN     "secret_issued_at" TIMESTAMP(3);
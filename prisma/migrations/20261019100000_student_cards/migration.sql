@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "CardStatus" AS ENUM ('ACTIVE', 'LOST', 'REVOKED');
+
+-- AlterTable
+ALTER TABLE "iot_devices" ADD COLUMN     "enrollment_expires_at" TIMESTAMP(3),
+ADD COLUMN     "enrollment_student_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "student_cards" (
+    "id" TEXT NOT NULL,
+    "student_id" TEXT NOT NULL,
+    "card_uid" TEXT NOT NULL,
+    "status" "CardStatus" NOT NULL DEFAULT 'ACTIVE',
+    "issued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deactivated_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "student_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "student_cards_card_uid_key" ON "student_cards"("card_uid");
+
+-- CreateIndex
+CREATE INDEX "student_cards_student_id_idx" ON "student_cards"("student_id");
+
+-- CreateIndex
+CREATE INDEX "student_cards_status_idx" ON "student_cards"("status");
+
+-- AddForeignKey
+ALTER TABLE "student_cards" ADD CONSTRAINT "student_cards_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "iot_devices" ADD CONSTRAINT "iot_devices_enrollment_student_id_fkey" FOREIGN KEY ("enrollment_student_id") REFERENCES "students"("id") ON DELETE SET NULL ON UPDATE CASCADE;
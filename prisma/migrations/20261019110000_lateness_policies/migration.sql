@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "LatenessPolicyScope" AS ENUM ('GLOBAL', 'DEPARTMENT', 'TEACHING_ASSIGNMENT');
+
+-- CreateEnum
+CREATE TYPE "LateCutoffAction" AS ENUM ('REJECT', 'ABSENT');
+
+-- CreateTable
+CREATE TABLE "lateness_policies" (
+    "id" TEXT NOT NULL,
+    "scope" "LatenessPolicyScope" NOT NULL,
+    "department" TEXT,
+    "teaching_assignment_id" TEXT,
+    "grace_minutes" INTEGER NOT NULL,
+    "cutoff_minutes" INTEGER,
+    "cutoff_action" "LateCutoffAction" NOT NULL DEFAULT 'REJECT',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lateness_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lateness_policies_department_key" ON "lateness_policies"("department");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lateness_policies_teaching_assignment_id_key" ON "lateness_policies"("teaching_assignment_id");
+
+-- CreateIndex
+CREATE INDEX "lateness_policies_scope_idx" ON "lateness_policies"("scope");
+
+-- AddForeignKey
+ALTER TABLE "lateness_policies" ADD CONSTRAINT "lateness_policies_teaching_assignment_id_fkey" FOREIGN KEY ("teaching_assignment_id") REFERENCES "teaching_assignments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "scheduled_end_at" TIMESTAMP(3);
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "timetable_slots" (
+    "id" TEXT NOT NULL,
+    "teaching_assignment_id" TEXT NOT NULL,
+    "device_id" TEXT,
+    "room" TEXT,
+    "day_of_week" INTEGER NOT NULL,
+    "start_time" TEXT NOT NULL,
+    "end_time" TEXT NOT NULL,
+    "valid_from" DATE NOT NULL,
+    "valid_until" DATE NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "timetable_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "timetable_slots_teaching_assignment_id_idx" ON "timetable_slots"("teaching_assignment_id");
+
+-- CreateIndex
+CREATE INDEX "timetable_slots_device_id_idx" ON "timetable_slots"("device_id");
+
+-- CreateIndex
+CREATE INDEX "timetable_slots_day_of_week_idx" ON "timetable_slots"("day_of_week");
+
+-- AddForeignKey
+ALTER TABLE "timetable_slots" ADD CONSTRAINT "timetable_slots_teaching_assignment_id_fkey" FOREIGN KEY ("teaching_assignment_id") REFERENCES "teaching_assignments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timetable_slots" ADD CONSTRAINT "timetable_slots_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "iot_devices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "teaching_assignments" ADD COLUMN     "require_explicit_opening" BOOLEAN NOT NULL DEFAULT false;
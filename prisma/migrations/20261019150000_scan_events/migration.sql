@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "scan_events" (
+    "id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "client_scan_id" TEXT NOT NULL,
+    "card_uid" TEXT NOT NULL,
+    "scanned_at" TIMESTAMP(3) NOT NULL,
+    "result" TEXT NOT NULL,
+    "outcome" JSONB NOT NULL,
+    "session_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scan_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scan_events_session_id_idx" ON "scan_events"("session_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scan_events_device_id_client_scan_id_key" ON "scan_events"("device_id", "client_scan_id");
+
+-- AddForeignKey
+ALTER TABLE "scan_events" ADD CONSTRAINT "scan_events_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "iot_devices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scan_events" ADD CONSTRAINT "scan_events_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
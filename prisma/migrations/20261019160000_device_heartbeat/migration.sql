@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "iot_devices" ADD COLUMN     "battery_level" INTEGER,
+ADD COLUMN     "firmware_version" TEXT,
+ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "last_seen_at" TIMESTAMP(3),
+ADD COLUMN     "uptime_seconds" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "iot_devices_last_seen_at_idx" ON "iot_devices"("last_seen_at");
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "DeviceCommandType" AS ENUM ('REBOOT', 'RESYNC_CLOCK', 'ENTER_ENROLLMENT', 'DISPLAY_MESSAGE', 'UPDATE_CONFIG');
+
+-- CreateEnum
+CREATE TYPE "DeviceCommandStatus" AS ENUM ('PENDING', 'DELIVERED', 'ACKNOWLEDGED', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "device_commands" (
+    "id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "type" "DeviceCommandType" NOT NULL,
+    "payload" JSONB,
+    "status" "DeviceCommandStatus" NOT NULL DEFAULT 'PENDING',
+    "issued_by_id" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "delivered_at" TIMESTAMP(3),
+    "acknowledged_at" TIMESTAMP(3),
+    "result" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "device_commands_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "device_commands_device_id_status_idx" ON "device_commands"("device_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "device_commands" ADD CONSTRAINT "device_commands_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "iot_devices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "device_commands" ADD CONSTRAINT "device_commands_issued_by_id_fkey" FOREIGN KEY ("issued_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
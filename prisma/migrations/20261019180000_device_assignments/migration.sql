@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "device_assignments" (
+    "id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "classroom_id" TEXT NOT NULL,
+    "assigned_from" TIMESTAMP(3) NOT NULL,
+    "assigned_until" TIMESTAMP(3),
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "device_assignments_device_id_assigned_from_idx" ON "device_assignments"("device_id", "assigned_from");
+
+-- CreateIndex
+CREATE INDEX "device_assignments_classroom_id_idx" ON "device_assignments"("classroom_id");
+
+-- AddForeignKey
+ALTER TABLE "device_assignments" ADD CONSTRAINT "device_assignments_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "iot_devices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "device_assignments" ADD CONSTRAINT "device_assignments_classroom_id_fkey" FOREIGN KEY ("classroom_id") REFERENCES "classrooms"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: every existing device has been in its current classroom since it was registered
+INSERT INTO "device_assignments" ("id", "device_id", "classroom_id", "assigned_from")
+SELECT gen_random_uuid()::text, "id", "classroom_id", "created_at"
+FROM "iot_devices";
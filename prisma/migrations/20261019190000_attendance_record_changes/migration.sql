@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "attendance_record_changes" (
+    "id" TEXT NOT NULL,
+    "attendance_record_id" TEXT NOT NULL,
+    "previous_status" "AttendanceStatus",
+    "new_status" "AttendanceStatus" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "changed_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attendance_record_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_record_changes_attendance_record_id_idx" ON "attendance_record_changes"("attendance_record_id");
+
+-- CreateIndex
+CREATE INDEX "attendance_record_changes_changed_by_id_idx" ON "attendance_record_changes"("changed_by_id");
+
+-- AddForeignKey
+ALTER TABLE "attendance_record_changes" ADD CONSTRAINT "attendance_record_changes_attendance_record_id_fkey" FOREIGN KEY ("attendance_record_id") REFERENCES "attendance_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_record_changes" ADD CONSTRAINT "attendance_record_changes_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "AttendanceStatus" ADD VALUE 'EXCUSED';
+
+-- CreateEnum
+CREATE TYPE "JustificationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "absence_justifications" (
+    "id" TEXT NOT NULL,
+    "student_id" TEXT NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "JustificationStatus" NOT NULL DEFAULT 'PENDING',
+    "document_key" TEXT,
+    "document_name" TEXT,
+    "document_mime_type" TEXT,
+    "document_size" INTEGER,
+    "reviewed_by_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "review_comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "absence_justifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "absence_justifications_student_id_status_idx" ON "absence_justifications"("student_id", "status");
+
+-- CreateIndex
+CREATE INDEX "absence_justifications_status_idx" ON "absence_justifications"("status");
+
+-- AddForeignKey
+ALTER TABLE "absence_justifications" ADD CONSTRAINT "absence_justifications_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "absence_justifications" ADD CONSTRAINT "absence_justifications_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
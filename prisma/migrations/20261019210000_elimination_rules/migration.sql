@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "EliminationRuleScope" AS ENUM ('GLOBAL', 'DEPARTMENT', 'SUBJECT');
+
+-- CreateTable
+CREATE TABLE "elimination_rules" (
+    "id" TEXT NOT NULL,
+    "scope" "EliminationRuleScope" NOT NULL,
+    "department" TEXT,
+    "subject_id" TEXT,
+    "max_absences" INTEGER NOT NULL,
+    "warning_absences" INTEGER,
+    "lates_per_absence" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "elimination_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "elimination_rules_department_key" ON "elimination_rules"("department");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "elimination_rules_subject_id_key" ON "elimination_rules"("subject_id");
+
+-- CreateIndex
+CREATE INDEX "elimination_rules_scope_idx" ON "elimination_rules"("scope");
+
+-- AddForeignKey
+ALTER TABLE "elimination_rules" ADD CONSTRAINT "elimination_rules_subject_id_fkey" FOREIGN KEY ("subject_id") REFERENCES "subjects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Devices now sign their requests with the secret instead of sending it, so
+-- the secret must be stored as is. Hashed secrets cannot be recovered: every
+-- device has to be provisioned with a new secret.
+
+-- AlterTable
+ALTER TABLE "iot_devices" DROP COLUMN "secret_hash",
+ADD COLUMN     "secret" TEXT;
+
+UPDATE "iot_devices" SET "secret_issued_at" = NULL;
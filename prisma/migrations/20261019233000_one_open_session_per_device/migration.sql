@@ -0,0 +1,5 @@
+-- Partial unique index, not expressible in schema.prisma: a device runs at
+-- most one OPEN session, even when sessions are opened concurrently
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_device_id_open_key" ON "sessions"("device_id") WHERE "status" = 'OPEN';
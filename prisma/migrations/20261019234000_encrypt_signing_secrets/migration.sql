@@ -0,0 +1,19 @@
+-- Signing secrets are now encrypted with SECRET_ENCRYPTION_KEY by the
+-- application, which SQL cannot do. Plain secrets are dropped:
+-- - devices have to be provisioned with a new secret;
+-- - webhook subscriptions are deactivated until an admin sets a new secret
+--   and reactivates them.
+
+-- AlterTable
+ALTER TABLE "iot_devices" DROP COLUMN "secret",
+ADD COLUMN     "secret_ciphertext" TEXT;
+
+UPDATE "iot_devices" SET "secret_issued_at" = NULL;
+
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" DROP COLUMN "secret",
+ADD COLUMN     "secret_ciphertext" TEXT NOT NULL DEFAULT '';
+
+ALTER TABLE "webhook_subscriptions" ALTER COLUMN "secret_ciphertext" DROP DEFAULT;
+
+UPDATE "webhook_subscriptions" SET "active" = false;
@@ -0,0 +1,35 @@
+-- At most one GLOBAL lateness policy and elimination rule: concurrent saves
+-- could create duplicates; the most recently updated one is kept
+
+-- DeleteDuplicates
+DELETE FROM "lateness_policies" p
+WHERE p."scope" = 'GLOBAL'
+  AND EXISTS (
+    SELECT 1 FROM "lateness_policies" q
+    WHERE q."scope" = 'GLOBAL'
+      AND (q."updated_at", q."id") > (p."updated_at", p."id")
+  );
+
+DELETE FROM "elimination_rules" r
+WHERE r."scope" = 'GLOBAL'
+  AND EXISTS (
+    SELECT 1 FROM "elimination_rules" q
+    WHERE q."scope" = 'GLOBAL'
+      AND (q."updated_at", q."id") > (r."updated_at", r."id")
+  );
+
+-- AlterTable
+ALTER TABLE "lateness_policies" ADD COLUMN "is_global" BOOLEAN;
+
+UPDATE "lateness_policies" SET "is_global" = true WHERE "scope" = 'GLOBAL';
+
+-- AlterTable
+ALTER TABLE "elimination_rules" ADD COLUMN "is_global" BOOLEAN;
+
+UPDATE "elimination_rules" SET "is_global" = true WHERE "scope" = 'GLOBAL';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lateness_policies_is_global_key" ON "lateness_policies"("is_global");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "elimination_rules_is_global_key" ON "elimination_rules"("is_global");
@@ -0,0 +1,145 @@
+/**
+ * Minimal HTTP client for the attendance API
+ * Uses the global fetch of Node 18+, no extra dependencies
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+
+/**
+ * Credentials of a simulated reader
+ */
+export interface DeviceCredentials {
+  id: string;
+  deviceUid: string;
+  secret: string;
+}
+
+/**
+ * Error response returned by the API
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+    method: string,
+    path: string,
+  ) {
+    super(
+      `${method} ${path} failed with ${status}: ${ApiError.describe(body)}`,
+    );
+  }
+
+  private static describe(body: unknown): string {
+    if (body && typeof body === 'object' && 'message' in body) {
+      const { message } = body as { message: unknown };
+      return Array.isArray(message) ? message.join(', ') : String(message);
+    }
+    return String(body);
+  }
+}
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export class ApiClient {
+  private accessToken: string | null = null;
+
+  constructor(private readonly baseUrl: string) {}
+
+  /**
+   * Log in and use the returned token for admin calls
+   */
+  async login(email: string, password: string): Promise<void> {
+    const { accessToken } = await this.request<{ accessToken: string }>(
+      'POST',
+      '/auth/login',
+      { body: { email, password }, auth: false },
+    );
+    this.accessToken = accessToken;
+  }
+
+  get<T>(path: string): Promise<T> {
+    return this.request<T>('GET', path);
+  }
+
+  post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('POST', path, { body });
+  }
+
+  put<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('PUT', path, { body });
+  }
+
+  patch<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('PATCH', path, { body });
+  }
+
+  delete(path: string): Promise<void> {
+    return this.request<void>('DELETE', path);
+  }
+
+  /**
+   * Call a device-facing endpoint, signing the request with the reader secret
+   */
+  asDevice<T>(
+    device: DeviceCredentials,
+    method: Method,
+    path: string,
+    body?: unknown,
+  ): Promise<T> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const nonce = randomUUID();
+    const rawBody = body !== undefined ? JSON.stringify(body) : '';
+    const signature = createHmac('sha256', device.secret)
+      .update(
+        `${timestamp}.${nonce}.${method} ${url.pathname}${url.search}.${rawBody}`,
+      )
+      .digest('hex');
+
+    return this.request<T>(method, path, {
+      body,
+      auth: false,
+      headers: {
+        'X-Device-Uid': device.deviceUid,
+        'X-Device-Timestamp': timestamp,
+        'X-Device-Nonce': nonce,
+        'X-Device-Signature': `sha256=${signature}`,
+      },
+    });
+  }
+
+  private async request<T>(
+    method: Method,
+    path: string,
+    options: {
+      body?: unknown;
+      auth?: boolean;
+      headers?: Record<string, string>;
+    } = {},
+  ): Promise<T> {
+    const headers: Record<string, string> = { ...options.headers };
+
+    if (options.auth !== false && this.accessToken) {
+      headers.Authorization = `Bearer ${this.accessToken}`;
+    }
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body:
+        options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+
+    const text = await response.text();
+    const body: unknown = text ? JSON.parse(text) : undefined;
+
+    if (!response.ok) {
+      throw new ApiError(response.status, body, method, path);
+    }
+
+    return body as T;
+  }
+}
@@ -0,0 +1,216 @@
+import { ApiClient, ApiError, DeviceCredentials } from './api-client';
+
+/**
+ * Prefix of everything the simulator creates, so it is easy to spot and clean
+ */
+export const SIMULATOR_PREFIX = 'SIM';
+
+export interface Classroom {
+  id: string;
+  name: string;
+  _count?: { students: number; teachingAssignments: number };
+}
+
+export interface TeachingAssignment {
+  id: string;
+  requireExplicitOpening?: boolean;
+  subject: { code: string };
+}
+
+export interface SimulatedStudent {
+  id: string;
+  studentCode: string;
+  fullName: string;
+  cardUid: string;
+}
+
+export interface Session {
+  id: string;
+  deviceId: string;
+  teachingAssignmentId: string;
+  status: string;
+}
+
+/**
+ * A classroom ready for simulation: a fake reader, an assignment to open
+ * sessions for and students holding active cards
+ */
+export interface ClassroomFixture {
+  classroom: Classroom;
+  device: DeviceCredentials;
+  assignment: TeachingAssignment;
+  students: SimulatedStudent[];
+}
+
+interface Student {
+  id: string;
+  studentCode: string;
+  fullName: string;
+}
+
+interface StudentCard {
+  cardUid: string;
+  status: string;
+}
+
+interface Device {
+  id: string;
+  deviceUid: string;
+  classroomId: string;
+  status: string;
+}
+
+/**
+ * Prepare classrooms for simulation
+ * Registers a fake reader per classroom (SIM-<classroom>), issues it a fresh
+ * secret and gives an active card to every student who has none.
+ * Classrooms without students or teaching assignments are skipped.
+ */
+export async function prepareClassrooms(
+  api: ApiClient,
+  options: { classroomNames?: string[]; studentsPerClassroom?: number } = {},
+): Promise<ClassroomFixture[]> {
+  let classrooms = await api.get<Classroom[]>('/classrooms');
+
+  if (options.classroomNames?.length) {
+    classrooms = classrooms.filter((classroom) =>
+      options.classroomNames!.includes(classroom.name),
+    );
+  }
+
+  const fixtures: ClassroomFixture[] = [];
+
+  for (const classroom of classrooms) {
+    const assignments = await api.get<TeachingAssignment[]>(
+      `/classrooms/${classroom.id}/assignments`,
+    );
+    let students = await api.get<Student[]>(
+      `/classrooms/${classroom.id}/students`,
+    );
+
+    if (assignments.length === 0 || students.length === 0) {
+      console.log(`  skip ${classroom.name}: no assignments or students`);
+      continue;
+    }
+
+    if (options.studentsPerClassroom) {
+      students = students.slice(0, options.studentsPerClassroom);
+    }
+
+    fixtures.push({
+      classroom,
+      device: await registerDevice(api, classroom),
+      assignment: assignments[0],
+      students: await Promise.all(
+        students.map((student) => ensureCard(api, student)),
+      ),
+    });
+    console.log(
+      `  ready ${classroom.name}: ${students.length} student(s), assignment ${assignments[0].subject.code}`,
+    );
+  }
+
+  return fixtures;
+}
+
+/**
+ * Open a session for a fixture, closing any session left open on its reader
+ */
+export async function openSession(
+  api: ApiClient,
+  fixture: ClassroomFixture,
+): Promise<Session> {
+  await closeOpenSessions(api, fixture.device.id);
+
+  return api.post<Session>('/sessions', {
+    teachingAssignmentId: fixture.assignment.id,
+    deviceId: fixture.device.id,
+  });
+}
+
+/**
+ * Close every OPEN session of a reader
+ */
+export async function closeOpenSessions(
+  api: ApiClient,
+  deviceId: string,
+): Promise<void> {
+  const openSessions = await api.get<Session[]>('/sessions?status=OPEN');
+
+  for (const session of openSessions.filter((s) => s.deviceId === deviceId)) {
+    await closeSession(api, session.id);
+  }
+}
+
+/**
+ * Close a session, ignoring sessions already closed
+ */
+export async function closeSession(
+  api: ApiClient,
+  sessionId: string,
+): Promise<void> {
+  try {
+    await api.patch(`/sessions/${sessionId}/close`);
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 409)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Find or register the fake reader of a classroom and issue it a secret
+ */
+async function registerDevice(
+  api: ApiClient,
+  classroom: Classroom,
+): Promise<DeviceCredentials> {
+  const deviceUid = `${SIMULATOR_PREFIX}-${classroom.name}`;
+  let device: Device;
+
+  try {
+    device = await api.get<Device>(
+      `/devices/uid/${encodeURIComponent(deviceUid)}`,
+    );
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 404)) {
+      throw error;
+    }
+    device = await api.post<Device>('/devices', {
+      deviceUid,
+      classroomId: classroom.id,
+    });
+  }
+
+  if (device.status !== 'ACTIVE') {
+    device = await api.patch<Device>(`/devices/${device.id}/activate`);
+  }
+
+  // The plain secret is only returned on rotation
+  const { secret } = await api.post<{ secret: string }>(
+    `/devices/${device.id}/secret`,
+  );
+
+  return { id: device.id, deviceUid, secret };
+}
+
+/**
+ * Return the active card of a student, issuing a simulator card if needed
+ */
+async function ensureCard(
+  api: ApiClient,
+  student: Student,
+): Promise<SimulatedStudent> {
+  const cards = await api.get<StudentCard[]>(`/students/${student.id}/cards`);
+  const activeCard = cards.find((card) => card.status === 'ACTIVE');
+
+  const cardUid =
+    activeCard?.cardUid ??
+    (
+      await api.post<StudentCard>(`/students/${student.id}/cards`, {
+        cardUid: `${SIMULATOR_PREFIX}${student.studentCode}`,
+      })
+    ).cardUid;
+
+  return { ...student, cardUid };
+}
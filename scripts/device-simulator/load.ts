@@ -0,0 +1,89 @@
+import { performance } from 'perf_hooks';
+import { ApiClient } from './api-client';
+import {
+  ClassroomFixture,
+  Session,
+  openSession,
+  closeSession,
+} from './fixtures';
+import { RequestStats } from './stats';
+
+interface ScanResult {
+  result: string;
+  status?: string;
+}
+
+/**
+ * Simulate every classroom starting class at the same time (the 8:30 rush)
+ * All sessions are opened at once, then each student taps once at a random
+ * moment within the ramp window. A share of students tap twice to exercise
+ * duplicate handling.
+ */
+export async function runLoad(
+  api: ApiClient,
+  fixtures: ClassroomFixture[],
+  options: { rampSeconds: number; duplicateRate: number },
+): Promise<void> {
+  const openStats = new RequestStats('Session opening');
+  const scanStats = new RequestStats('Card scans');
+  const start = performance.now();
+
+  const sessions = await Promise.all(
+    fixtures.map((fixture) =>
+      openStats.measure(() => openSession(api, fixture)),
+    ),
+  );
+  const openElapsed = performance.now() - start;
+
+  const taps = fixtures.flatMap((fixture, index) =>
+    sessions[index]
+      ? fixture.students.flatMap((student) =>
+          Array.from(
+            { length: Math.random() < options.duplicateRate ? 2 : 1 },
+            () => ({ device: fixture.device, cardUid: student.cardUid }),
+          ),
+        )
+      : [],
+  );
+
+  console.log(
+    `\nLoad: ${sessions.filter(Boolean).length}/${fixtures.length} session(s) open, ${taps.length} tap(s) over ${options.rampSeconds}s`,
+  );
+
+  const scanStart = performance.now();
+  await Promise.all(
+    taps.map(
+      (tap) =>
+        new Promise<void>((resolve) => {
+          setTimeout(
+            () => {
+              void scanStats
+                .measure(
+                  () =>
+                    api.asDevice<ScanResult>(
+                      tap.device,
+                      'POST',
+                      '/attendance/scan',
+                      { cardUid: tap.cardUid },
+                    ),
+                  (outcome) =>
+                    [outcome.result, outcome.status].filter(Boolean).join(' '),
+                )
+                .then(() => resolve());
+            },
+            Math.random() * options.rampSeconds * 1000,
+          );
+        }),
+    ),
+  );
+  const scanElapsed = performance.now() - scanStart;
+
+  openStats.report(openElapsed);
+  scanStats.report(scanElapsed);
+
+  await Promise.all(
+    sessions
+      .filter((session): session is Session => session !== null)
+      .map((session) => closeSession(api, session.id)),
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Device Simulator
+ * Drives a running API like a fleet of RFID readers, for development and
+ * load testing without hardware.
+ *
+ * Usage:
+ *   npm run simulate -- scenario [names...]   replay scan scenarios and check outcomes
+ *   npm run simulate -- load                  every classroom starts class at once
+ *
+ * Options:
+ *   --api <url>             API base URL (default SIM_API_URL or http://localhost:3000/api)
+ *   --email <email>         admin email (default SIM_ADMIN_EMAIL)
+ *   --password <password>   admin password (default SIM_ADMIN_PASSWORD)
+ *   --classroom <name>      limit to a classroom, repeatable
+ *   --students <n>          students per classroom
+ *   --ramp <seconds>        load: window in which students tap (default 60)
+ *   --duplicates <rate>     load: share of students tapping twice (default 0.05)
+ */
+import { parseArgs } from 'util';
+import { ApiClient } from './api-client';
+import { prepareClassrooms } from './fixtures';
+import { SCENARIOS, ScenarioName, runScenarios } from './scenarios';
+import { runLoad } from './load';
+
+const USAGE = `Usage: npm run simulate -- <scenario [${SCENARIOS.join('|')}...] | load> [options]`;
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      api: { type: 'string' },
+      email: { type: 'string' },
+      password: { type: 'string' },
+      classroom: { type: 'string', multiple: true },
+      students: { type: 'string' },
+      ramp: { type: 'string', default: '60' },
+      duplicates: { type: 'string', default: '0.05' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [mode, ...names] = positionals;
+
+  if (values.help || (mode !== 'scenario' && mode !== 'load')) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const unknown = names.filter(
+    (name) => !SCENARIOS.includes(name as ScenarioName),
+  );
+  if (unknown.length > 0) {
+    console.error(`Unknown scenario(s): ${unknown.join(', ')}\n${USAGE}`);
+    return 1;
+  }
+
+  const email = values.email ?? process.env.SIM_ADMIN_EMAIL;
+  const password = values.password ?? process.env.SIM_ADMIN_PASSWORD;
+  if (!email || !password) {
+    console.error(
+      'Admin credentials required: --email/--password or SIM_ADMIN_EMAIL/SIM_ADMIN_PASSWORD',
+    );
+    return 1;
+  }
+
+  const api = new ApiClient(
+    values.api ?? process.env.SIM_API_URL ?? 'http://localhost:3000/api',
+  );
+  await api.login(email, password);
+
+  console.log('Preparing classrooms');
+  const fixtures = await prepareClassrooms(api, {
+    classroomNames: values.classroom,
+    studentsPerClassroom: values.students ? Number(values.students) : undefined,
+  });
+
+  if (fixtures.length === 0) {
+    console.error('No classroom with students and teaching assignments found');
+    return 1;
+  }
+
+  if (mode === 'load') {
+    await runLoad(api, fixtures, {
+      rampSeconds: Number(values.ramp),
+      duplicateRate: Number(values.duplicates),
+    });
+    return 0;
+  }
+
+  const failures = await runScenarios(
+    api,
+    fixtures,
+    names.length > 0 ? (names as ScenarioName[]) : SCENARIOS,
+  );
+  console.log(
+    failures === 0 ? '\nAll checks passed' : `\n${failures} check(s) failed`,
+  );
+  return failures === 0 ? 0 : 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error: Error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
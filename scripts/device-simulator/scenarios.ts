@@ -0,0 +1,219 @@
+import { randomBytes } from 'crypto';
+import { ApiClient, ApiError, DeviceCredentials } from './api-client';
+import { ClassroomFixture, openSession, closeSession } from './fixtures';
+
+export const SCENARIOS = [
+  'on-time',
+  'late',
+  'duplicate',
+  'unknown-card',
+  'wrong-room',
+] as const;
+
+export type ScenarioName = (typeof SCENARIOS)[number];
+
+interface ScanResult {
+  result: string;
+  accepted: boolean;
+  status?: string;
+  message: string;
+}
+
+interface LatenessPolicy {
+  id: string;
+  scope: string;
+  teachingAssignmentId: string | null;
+  graceMinutes: number;
+  cutoffMinutes: number | null;
+  cutoffAction: string;
+}
+
+/**
+ * Expected outcome of a scan
+ */
+interface Expectation {
+  result: string;
+  status?: string;
+}
+
+/**
+ * Run scenarios against the first fixture (and the second for wrong-room)
+ * Returns the number of failed checks
+ */
+export async function runScenarios(
+  api: ApiClient,
+  fixtures: ClassroomFixture[],
+  names: readonly ScenarioName[],
+): Promise<number> {
+  const [fixture, otherFixture] = fixtures;
+  let failures = 0;
+
+  for (const name of names) {
+    console.log(`\nScenario ${name} (${fixture.classroom.name})`);
+
+    if (name === 'wrong-room' && !otherFixture) {
+      console.log('  SKIP needs a second classroom with students');
+      continue;
+    }
+
+    const session = await openSession(api, fixture);
+
+    try {
+      failures += await runScenario(api, name, fixture, otherFixture);
+    } finally {
+      await closeSession(api, session.id);
+    }
+  }
+
+  return failures;
+}
+
+async function runScenario(
+  api: ApiClient,
+  name: ScenarioName,
+  fixture: ClassroomFixture,
+  otherFixture?: ClassroomFixture,
+): Promise<number> {
+  const { device, students } = fixture;
+  const [student, secondStudent] = students;
+
+  switch (name) {
+    case 'on-time':
+      return check(
+        api,
+        device,
+        student.cardUid,
+        `${student.fullName} taps in`,
+        {
+          result: 'RECORDED',
+          status: 'PRESENT',
+        },
+      );
+
+    case 'late':
+      // A grace period of zero makes any scan after the start LATE
+      return withZeroGracePolicy(api, fixture.assignment.id, () =>
+        check(
+          api,
+          device,
+          student.cardUid,
+          `${student.fullName} taps in late`,
+          {
+            result: 'RECORDED',
+            status: 'LATE',
+          },
+        ),
+      );
+
+    case 'duplicate':
+      return (
+        (await check(api, device, student.cardUid, 'first tap', {
+          result: 'RECORDED',
+        })) +
+        (await check(api, device, student.cardUid, 'same card again', {
+          result: 'ALREADY_RECORDED',
+        })) +
+        (secondStudent
+          ? await check(api, device, secondStudent.cardUid, 'next student', {
+              result: 'RECORDED',
+            })
+          : 0)
+      );
+
+    case 'unknown-card':
+      return check(
+        api,
+        device,
+        randomBytes(7).toString('hex').toUpperCase(),
+        'unregistered card',
+        { result: 'UNKNOWN_CARD' },
+      );
+
+    case 'wrong-room': {
+      const stranger = otherFixture!.students[0];
+      return check(
+        api,
+        device,
+        stranger.cardUid,
+        `${stranger.fullName} (${otherFixture!.classroom.name}) taps in the wrong room`,
+        { result: 'NOT_IN_CLASSROOM' },
+      );
+    }
+  }
+}
+
+/**
+ * Send a scan and compare its outcome to the expectation
+ * Returns 1 on mismatch, 0 otherwise
+ */
+async function check(
+  api: ApiClient,
+  device: DeviceCredentials,
+  cardUid: string,
+  description: string,
+  expected: Expectation,
+): Promise<number> {
+  let outcome: ScanResult;
+
+  try {
+    outcome = await api.asDevice<ScanResult>(
+      device,
+      'POST',
+      '/attendance/scan',
+      {
+        cardUid,
+      },
+    );
+  } catch (error) {
+    console.log(`  FAIL ${description}: ${(error as Error).message}`);
+    return 1;
+  }
+
+  const actual = [outcome.result, outcome.status].filter(Boolean).join(' ');
+  const passed =
+    outcome.result === expected.result &&
+    (!expected.status || outcome.status === expected.status);
+
+  console.log(
+    `  ${passed ? 'PASS' : 'FAIL'} ${description}: ${actual}${passed ? '' : ` (expected ${[expected.result, expected.status].filter(Boolean).join(' ')})`}`,
+  );
+  return passed ? 0 : 1;
+}
+
+/**
+ * Run a callback with a zero grace period on an assignment, then restore
+ * the policy that was in place
+ */
+async function withZeroGracePolicy(
+  api: ApiClient,
+  teachingAssignmentId: string,
+  callback: () => Promise<number>,
+): Promise<number> {
+  const policies = await api.get<LatenessPolicy[]>('/lateness-policies');
+  const previous = policies.find(
+    (policy) => policy.teachingAssignmentId === teachingAssignmentId,
+  );
+  const path = `/lateness-policies/teaching-assignment/${teachingAssignmentId}`;
+
+  const policy = await api.put<LatenessPolicy>(path, { graceMinutes: 0 });
+
+  try {
+    return await callback();
+  } finally {
+    if (previous) {
+      await api.put(path, {
+        graceMinutes: previous.graceMinutes,
+        ...(previous.cutoffMinutes !== null && {
+          cutoffMinutes: previous.cutoffMinutes,
+        }),
+        cutoffAction: previous.cutoffAction,
+      });
+    } else {
+      await api.delete(`/lateness-policies/${policy.id}`).catch((error) => {
+        if (!(error instanceof ApiError && error.status === 404)) {
+          throw error;
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { performance } from 'perf_hooks';
+import { ApiError } from './api-client';
+
+/**
+ * Latency and outcome statistics of a group of requests
+ */
+export class RequestStats {
+  private readonly latencies: number[] = [];
+  private readonly outcomes = new Map<string, number>();
+  private errorCount = 0;
+
+  constructor(readonly label: string) {}
+
+  /**
+   * Run a request, recording its latency and outcome
+   * The outcome of a successful call is derived by the given function
+   */
+  async measure<T>(
+    call: () => Promise<T>,
+    outcomeOf: (result: T) => string = () => 'OK',
+  ): Promise<T | null> {
+    const start = performance.now();
+
+    try {
+      const result = await call();
+      this.latencies.push(performance.now() - start);
+      this.count(outcomeOf(result));
+      return result;
+    } catch (error) {
+      this.latencies.push(performance.now() - start);
+      this.errorCount++;
+      this.count(
+        error instanceof ApiError
+          ? `HTTP ${error.status}`
+          : `ERROR ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Print a summary of the recorded requests
+   */
+  report(elapsedMs: number): void {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const total = sorted.length;
+
+    console.log(`\n${this.label}`);
+    if (total === 0) {
+      console.log('  no requests');
+      return;
+    }
+
+    const percentile = (p: number) =>
+      sorted[Math.min(total - 1, Math.ceil((p / 100) * total) - 1)];
+    const mean = sorted.reduce((sum, latency) => sum + latency, 0) / total;
+
+    console.log(
+      `  requests: ${total}, errors: ${this.errorCount} (${((this.errorCount / total) * 100).toFixed(1)}%), throughput: ${(total / (elapsedMs / 1000)).toFixed(1)} req/s`,
+    );
+    console.log(
+      `  latency ms: mean ${mean.toFixed(1)}, p50 ${percentile(50).toFixed(1)}, p95 ${percentile(95).toFixed(1)}, p99 ${percentile(99).toFixed(1)}, max ${sorted[total - 1].toFixed(1)}`,
+    );
+    console.log('  outcomes:');
+    for (const [outcome, count] of [...this.outcomes].sort(
+      (a, b) => b[1] - a[1],
+    )) {
+      console.log(`    ${outcome.padEnd(24)} ${count}`);
+    }
+  }
+
+  private count(outcome: string): void {
+    this.outcomes.set(outcome, (this.outcomes.get(outcome) ?? 0) + 1);
+  }
+}
@@ -1,5 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
@@ -12,6 +14,15 @@ import { TeachingAssignmentsModule } from './teaching-assignments/teaching-assig
 import { DevicesModule } from './devices/devices.module';
 import { SessionsModule } from './sessions/sessions.module';
 import { AttendanceModule } from './attendance/attendance.module';
+import { LatenessPoliciesModule } from './lateness-policies/lateness-policies.module';
+import { TimetableModule } from './timetable/timetable.module';
+import { MqttModule } from './mqtt/mqtt.module';
+import { MeModule } from './me/me.module';
+import { JustificationsModule } from './justifications/justifications.module';
+import { EliminationsModule } from './eliminations/eliminations.module';
+import { ExportsModule } from './exports/exports.module';
+import { ReportsModule } from './reports/reports.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
 
 /**
  * Root Application Module
@@ -24,6 +35,11 @@ import { AttendanceModule } from './attendance/attendance.module';
       isGlobal: true,
       envFilePath: '.env',
     }),
+    // Scheduler for background jobs (session sweeper, webhook retries)
+    ScheduleModule.forRoot(),
+    // In-process domain events (device commands → MQTT push, live sessions,
+    // webhooks)
+    EventEmitterModule.forRoot(),
     // Global Prisma Module
     PrismaModule,
     // Feature Modules
@@ -36,6 +52,15 @@ import { AttendanceModule } from './attendance/attendance.module';
     DevicesModule,
     SessionsModule,
     AttendanceModule,
+    LatenessPoliciesModule,
+    TimetableModule,
+    MqttModule,
+    MeModule,
+    JustificationsModule,
+    EliminationsModule,
+    ExportsModule,
+    ReportsModule,
+    WebhooksModule,
   ],
   controllers: [AppController],
   providers: [AppService],
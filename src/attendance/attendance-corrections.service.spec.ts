@@ -0,0 +1,358 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { AttendanceStatus, UserRole } from '@prisma/client';
+import { AttendanceCorrectionsService } from './attendance-corrections.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import { ATTENDANCE_CHANGED_EVENT } from '../sessions/session-events';
+import { BulkCorrectAttendanceDto, CorrectAttendanceDto } from './dto';
+
+describe('AttendanceCorrectionsService', () => {
+  let service: AttendanceCorrectionsService;
+  let config: Record<string, string>;
+
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  const hoursBeforeNow = (hours: number) =>
+    new Date(now.getTime() - hours * 3_600_000);
+
+  const teacher = {
+    id: 'user-1',
+    email: 'teacher@example.com',
+    role: UserRole.TEACHER,
+  } as AuthenticatedUser;
+  const admin = {
+    id: 'user-2',
+    email: 'admin@example.com',
+    role: UserRole.ADMIN,
+  } as AuthenticatedUser;
+
+  // Writes must go through the transaction client, not the root client
+  const tx = {
+    student: { findMany: jest.fn() },
+    attendanceRecord: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    attendanceRecordChange: { create: jest.fn() },
+  };
+
+  const prisma = {
+    session: { findUnique: jest.fn() },
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+  };
+
+  const accessPolicy = {
+    assertTeacherOwns: jest.fn(),
+    getTeacherScope: jest.fn((user: AuthenticatedUser) =>
+      user.role === UserRole.TEACHER ? 'teacher-1' : null,
+    ),
+  };
+
+  const eventEmitter = { emit: jest.fn() };
+
+  const session = (endedAt: Date | null) => ({
+    id: 'session-1',
+    endedAt,
+    teachingAssignment: { teacherId: 'teacher-1', classroomId: 'classroom-1' },
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+    config = {};
+
+    prisma.session.findUnique.mockResolvedValue(session(hoursBeforeNow(1)));
+    tx.student.findMany.mockResolvedValue([
+      { id: 'student-1' },
+      { id: 'student-2' },
+    ]);
+    tx.attendanceRecord.findMany.mockResolvedValue([
+      {
+        id: 'record-1',
+        studentId: 'student-1',
+        status: AttendanceStatus.ABSENT,
+      },
+    ]);
+    tx.attendanceRecord.update.mockImplementation(
+      ({ where }: { where: { id: string } }) => ({ id: where.id }),
+    );
+    tx.attendanceRecord.create.mockResolvedValue({ id: 'record-2' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttendanceCorrectionsService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        { provide: AccessPolicyService, useValue: accessPolicy },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<AttendanceCorrectionsService>(
+      AttendanceCorrectionsService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('correct', () => {
+    it('updates the record and logs the change with its author', async () => {
+      await expect(
+        service.correct(teacher, 'session-1', 'student-1', {
+          status: AttendanceStatus.PRESENT,
+          reason: 'Reader missed the tap',
+        }),
+      ).resolves.toEqual({
+        recordId: 'record-1',
+        sessionId: 'session-1',
+        studentId: 'student-1',
+        previousStatus: AttendanceStatus.ABSENT,
+        status: AttendanceStatus.PRESENT,
+        changed: true,
+      });
+
+      expect(tx.attendanceRecord.update).toHaveBeenCalledWith({
+        where: { id: 'record-1' },
+        data: { status: AttendanceStatus.PRESENT },
+      });
+      expect(tx.attendanceRecordChange.create).toHaveBeenCalledWith({
+        data: {
+          attendanceRecordId: 'record-1',
+          previousStatus: AttendanceStatus.ABSENT,
+          newStatus: AttendanceStatus.PRESENT,
+          reason: 'Reader missed the tap',
+          changedById: 'user-1',
+        },
+      });
+      expect(eventEmitter.emit).toHaveBeenCalledWith(ATTENDANCE_CHANGED_EVENT, {
+        sessionId: 'session-1',
+        changes: [
+          {
+            studentId: 'student-1',
+            previousStatus: AttendanceStatus.ABSENT,
+            status: AttendanceStatus.PRESENT,
+          },
+        ],
+      });
+    });
+
+    it('creates missing records with no previous status in the audit row', async () => {
+      await service.correct(teacher, 'session-1', 'student-2', {
+        status: AttendanceStatus.LATE,
+        reason: 'Arrived with a note',
+      });
+
+      expect(tx.attendanceRecord.create).toHaveBeenCalledWith({
+        data: {
+          sessionId: 'session-1',
+          studentId: 'student-2',
+          status: AttendanceStatus.LATE,
+        },
+      });
+      expect(tx.attendanceRecordChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          attendanceRecordId: 'record-2',
+          previousStatus: null,
+        }) as object,
+      });
+    });
+
+    it('leaves records already holding the status without an audit row', async () => {
+      const result = await service.correct(teacher, 'session-1', 'student-1', {
+        status: AttendanceStatus.ABSENT,
+        reason: 'Confirmed',
+      });
+
+      expect(result.changed).toBe(false);
+      expect(tx.attendanceRecord.update).not.toHaveBeenCalled();
+      expect(tx.attendanceRecordChange.create).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('refuses students outside the classroom of the session', async () => {
+      await expect(
+        service.correct(teacher, 'session-1', 'student-9', {
+          status: AttendanceStatus.PRESENT,
+          reason: 'Wrong class',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('edit window', () => {
+    const correction = {
+      status: AttendanceStatus.PRESENT,
+      reason: 'Late paperwork',
+    } as const;
+
+    it('lets teachers correct within 48 hours of the session end', async () => {
+      prisma.session.findUnique.mockResolvedValue(session(hoursBeforeNow(47)));
+
+      await expect(
+        service.correct(teacher, 'session-1', 'student-1', correction),
+      ).resolves.toEqual(expect.objectContaining({ changed: true }));
+    });
+
+    it('refuses teachers past the window', async () => {
+      prisma.session.findUnique.mockResolvedValue(session(hoursBeforeNow(49)));
+
+      await expect(
+        service.correct(teacher, 'session-1', 'student-1', correction),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('reads the window from the configuration', async () => {
+      config = { ATTENDANCE_EDIT_WINDOW_HOURS: '2' };
+      prisma.session.findUnique.mockResolvedValue(session(hoursBeforeNow(3)));
+
+      await expect(
+        service.correct(teacher, 'session-1', 'student-1', correction),
+      ).rejects.toThrow('up to 2 hours after the session ended');
+    });
+
+    it('does not limit open sessions or admins', async () => {
+      prisma.session.findUnique.mockResolvedValueOnce(session(null));
+      await service.correct(teacher, 'session-1', 'student-1', correction);
+
+      prisma.session.findUnique.mockResolvedValueOnce(
+        session(hoursBeforeNow(24 * 30)),
+      );
+      await service.correct(admin, 'session-1', 'student-1', correction);
+
+      expect(tx.attendanceRecord.update).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('bulkCorrect', () => {
+    const bulk = (
+      corrections: { studentId: string; status: AttendanceStatus }[],
+    ) =>
+      ({
+        corrections,
+        reason: 'Reader was offline',
+      }) as BulkCorrectAttendanceDto;
+
+    it('applies every correction in one transaction', async () => {
+      const results = await service.bulkCorrect(
+        teacher,
+        'session-1',
+        bulk([
+          { studentId: 'student-1', status: AttendanceStatus.PRESENT },
+          { studentId: 'student-2', status: AttendanceStatus.PRESENT },
+        ]),
+      );
+
+      expect(results.map((result) => result.changed)).toEqual([true, true]);
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(tx.attendanceRecordChange.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('applies nothing when one student is unknown', async () => {
+      await expect(
+        service.bulkCorrect(
+          teacher,
+          'session-1',
+          bulk([
+            { studentId: 'student-1', status: AttendanceStatus.PRESENT },
+            { studentId: 'student-9', status: AttendanceStatus.PRESENT },
+          ]),
+        ),
+      ).rejects.toThrow('student-9');
+
+      expect(tx.attendanceRecord.update).not.toHaveBeenCalled();
+      expect(tx.attendanceRecordChange.create).not.toHaveBeenCalled();
+    });
+
+    it('fails as a whole when a write fails midway', async () => {
+      tx.attendanceRecord.create.mockRejectedValue(new Error('Deadlock'));
+
+      await expect(
+        service.bulkCorrect(
+          teacher,
+          'session-1',
+          bulk([
+            { studentId: 'student-1', status: AttendanceStatus.PRESENT },
+            { studentId: 'student-2', status: AttendanceStatus.PRESENT },
+          ]),
+        ),
+      ).rejects.toThrow('Deadlock');
+
+      // The first update ran on the transaction client, rolled back with it
+      expect(tx.attendanceRecord.update).toHaveBeenCalledTimes(1);
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('refuses a student listed twice', async () => {
+      await expect(
+        service.bulkCorrect(
+          teacher,
+          'session-1',
+          bulk([
+            { studentId: 'student-1', status: AttendanceStatus.PRESENT },
+            { studentId: 'student-1', status: AttendanceStatus.LATE },
+          ]),
+        ),
+      ).rejects.toThrow('Each student can only appear once per request');
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validation', () => {
+    it('rejects EXCUSED as a correction target', async () => {
+      const single = plainToInstance(CorrectAttendanceDto, {
+        status: AttendanceStatus.EXCUSED,
+        reason: 'Sick note',
+      });
+      const bulk = plainToInstance(BulkCorrectAttendanceDto, {
+        corrections: [
+          {
+            studentId: '990e8400-e29b-41d4-a716-446655440000',
+            status: AttendanceStatus.EXCUSED,
+          },
+        ],
+        reason: 'Sick note',
+      });
+
+      const [singleErrors, bulkErrors] = await Promise.all([
+        validate(single),
+        validate(bulk),
+      ]);
+
+      expect(singleErrors.map((error) => error.property)).toEqual(['status']);
+      expect(bulkErrors.map((error) => error.property)).toEqual([
+        'corrections',
+      ]);
+    });
+
+    it.each([
+      AttendanceStatus.PRESENT,
+      AttendanceStatus.LATE,
+      AttendanceStatus.ABSENT,
+    ])('accepts %s as a correction target', async (status) => {
+      const dto = plainToInstance(CorrectAttendanceDto, {
+        status,
+        reason: 'Checked with the class',
+      });
+
+      await expect(validate(dto)).resolves.toEqual([]);
+    });
+  });
+});
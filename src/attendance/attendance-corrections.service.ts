@@ -0,0 +1,302 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import {
+  ATTENDANCE_CHANGED_EVENT,
+  AttendanceChangedEvent,
+} from '../sessions/session-events';
+import {
+  CorrectAttendanceDto,
+  BulkCorrectAttendanceDto,
+  AttendanceCorrectionItemDto,
+  AttendanceCorrectionResultDto,
+  AttendanceRecordChangeResponseDto,
+} from './dto';
+
+/**
+ * Attendance Corrections Service
+ * Manual changes of attendance records by teachers and admins
+ * Core business rule: every change is logged with its author, reason and the
+ * previous status; teachers can only correct their own sessions, and only
+ * until the edit window after the session end has passed
+ */
+@Injectable()
+export class AttendanceCorrectionsService {
+  private readonly logger = new Logger(AttendanceCorrectionsService.name);
+  private readonly DEFAULT_EDIT_WINDOW_HOURS = 48;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly accessPolicy: AccessPolicyService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Set the status of a student in a session
+   */
+  async correct(
+    user: AuthenticatedUser,
+    sessionId: string,
+    studentId: string,
+    correctAttendanceDto: CorrectAttendanceDto,
+  ): Promise<AttendanceCorrectionResultDto> {
+    const [result] = await this.correctMany(
+      user,
+      sessionId,
+      [{ studentId, status: correctAttendanceDto.status }],
+      correctAttendanceDto.reason,
+    );
+
+    return result;
+  }
+
+  /**
+   * Set the status of several students in a session
+   * All corrections are applied, or none
+   */
+  bulkCorrect(
+    user: AuthenticatedUser,
+    sessionId: string,
+    bulkCorrectAttendanceDto: BulkCorrectAttendanceDto,
+  ): Promise<AttendanceCorrectionResultDto[]> {
+    return this.correctMany(
+      user,
+      sessionId,
+      bulkCorrectAttendanceDto.corrections,
+      bulkCorrectAttendanceDto.reason,
+    );
+  }
+
+  /**
+   * Get the audit trail of a student's record in a session, oldest first
+   */
+  async findHistory(
+    user: AuthenticatedUser,
+    sessionId: string,
+    studentId: string,
+  ): Promise<AttendanceRecordChangeResponseDto[]> {
+    await this.findSession(user, sessionId);
+
+    const record = await this.prisma.attendanceRecord.findUnique({
+      where: {
+        sessionId_studentId: { sessionId, studentId },
+      },
+      select: {
+        changes: {
+          select: {
+            id: true,
+            attendanceRecordId: true,
+            previousStatus: true,
+            newStatus: true,
+            reason: true,
+            createdAt: true,
+            changedBy: {
+              select: {
+                id: true,
+                email: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!record) {
+      throw new NotFoundException(
+        `No attendance record for student ${studentId} in session ${sessionId}`,
+      );
+    }
+
+    return record.changes;
+  }
+
+  /**
+   * Apply corrections in one transaction and log each actual change
+   * Records already holding the requested status are left untouched
+   */
+  private async correctMany(
+    user: AuthenticatedUser,
+    sessionId: string,
+    corrections: AttendanceCorrectionItemDto[],
+    reason: string,
+  ): Promise<AttendanceCorrectionResultDto[]> {
+    const session = await this.findSession(user, sessionId);
+    this.ensureWithinEditWindow(user, session.endedAt);
+
+    const studentIds = corrections.map((correction) => correction.studentId);
+
+    if (new Set(studentIds).size !== studentIds.length) {
+      throw new BadRequestException(
+        'Each student can only appear once per request',
+      );
+    }
+
+    const results = await this.prisma.$transaction(async (tx) => {
+      const [students, records] = await Promise.all([
+        tx.student.findMany({
+          where: {
+            id: { in: studentIds },
+            classroomId: session.teachingAssignment.classroomId,
+          },
+          select: { id: true },
+        }),
+        tx.attendanceRecord.findMany({
+          where: { sessionId, studentId: { in: studentIds } },
+          select: { id: true, studentId: true, status: true },
+        }),
+      ]);
+
+      // Students who left the classroom keep their records of past sessions
+      const recordByStudent = new Map(
+        records.map((record) => [record.studentId, record]),
+      );
+      const unknown = studentIds.filter(
+        (id) =>
+          !recordByStudent.has(id) &&
+          !students.some((student) => student.id === id),
+      );
+
+      if (unknown.length > 0) {
+        throw new BadRequestException(
+          `Students not enrolled in the classroom of the session: ${unknown.join(', ')}`,
+        );
+      }
+
+      const outcomes: AttendanceCorrectionResultDto[] = [];
+
+      for (const { studentId, status } of corrections) {
+        const previous = recordByStudent.get(studentId);
+
+        if (previous?.status === status) {
+          outcomes.push({
+            recordId: previous.id,
+            sessionId,
+            studentId,
+            previousStatus: previous.status,
+            status,
+            changed: false,
+          });
+          continue;
+        }
+
+        const record = previous
+          ? await tx.attendanceRecord.update({
+              where: { id: previous.id },
+              data: { status },
+            })
+          : await tx.attendanceRecord.create({
+              data: { sessionId, studentId, status },
+            });
+
+        await tx.attendanceRecordChange.create({
+          data: {
+            attendanceRecordId: record.id,
+            previousStatus: previous?.status ?? null,
+            newStatus: status,
+            reason,
+            changedById: user.id,
+          },
+        });
+
+        outcomes.push({
+          recordId: record.id,
+          sessionId,
+          studentId,
+          previousStatus: previous?.status ?? null,
+          status,
+          changed: true,
+        });
+      }
+
+      return outcomes;
+    });
+
+    const changed = results.filter((result) => result.changed);
+    this.logger.log(
+      `User ${user.email} corrected ${changed.length} record(s) in session ${sessionId}`,
+    );
+
+    if (changed.length > 0) {
+      this.eventEmitter.emit(ATTENDANCE_CHANGED_EVENT, {
+        sessionId,
+        changes: changed.map(({ studentId, previousStatus, status }) => ({
+          studentId,
+          previousStatus,
+          status,
+        })),
+      } satisfies AttendanceChangedEvent);
+    }
+
+    return results;
+  }
+
+  /**
+   * Load a session and check the user may correct it
+   */
+  private async findSession(user: AuthenticatedUser, sessionId: string) {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        id: true,
+        endedAt: true,
+        teachingAssignment: {
+          select: {
+            teacherId: true,
+            classroomId: true,
+          },
+        },
+      },
+    });
+
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+
+    this.accessPolicy.assertTeacherOwns(
+      user,
+      session.teachingAssignment.teacherId,
+    );
+
+    return session;
+  }
+
+  /**
+   * Teachers may correct a session while it is open and for a configured
+   * number of hours after it ended; admins are unrestricted
+   */
+  private ensureWithinEditWindow(
+    user: AuthenticatedUser,
+    endedAt: Date | null,
+  ): void {
+    if (!this.accessPolicy.getTeacherScope(user) || !endedAt) {
+      return;
+    }
+
+    const hours = Number(
+      this.configService.get<string>('ATTENDANCE_EDIT_WINDOW_HOURS'),
+    );
+    const windowHours =
+      Number.isFinite(hours) && hours > 0
+        ? hours
+        : this.DEFAULT_EDIT_WINDOW_HOURS;
+
+    if (Date.now() > endedAt.getTime() + windowHours * 3_600_000) {
+      throw new ForbiddenException(
+        `Attendance can only be corrected up to ${windowHours} hours after the session ended`,
+      );
+    }
+  }
+}
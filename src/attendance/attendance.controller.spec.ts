@@ -1,6 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { AttendanceController } from './attendance.controller';
 import { AttendanceService } from './attendance.service';
+import { AttendanceCorrectionsService } from './attendance-corrections.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StudentsService } from '../students/students.service';
+import { LatenessPoliciesService } from '../lateness-policies/lateness-policies.service';
+import { SessionsService } from '../sessions/sessions.service';
 
 describe('AttendanceController', () => {
   let controller: AttendanceController;
@@ -8,7 +14,15 @@ describe('AttendanceController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [AttendanceController],
-      providers: [AttendanceService],
+      providers: [
+        AttendanceService,
+        { provide: PrismaService, useValue: {} },
+        { provide: StudentsService, useValue: {} },
+        { provide: LatenessPoliciesService, useValue: {} },
+        { provide: SessionsService, useValue: {} },
+        { provide: AttendanceCorrectionsService, useValue: {} },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
     }).compile();
 
     controller = module.get<AttendanceController>(AttendanceController);
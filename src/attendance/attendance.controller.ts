@@ -1,7 +1,254 @@
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
 import { AttendanceService } from './attendance.service';
+import { AttendanceCorrectionsService } from './attendance-corrections.service';
+import {
+  ScanDto,
+  ScanResultDto,
+  BatchScanDto,
+  BatchScanResultDto,
+  CorrectAttendanceDto,
+  BulkCorrectAttendanceDto,
+  AttendanceCorrectionResultDto,
+  AttendanceRecordChangeResponseDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import {
+  DeviceAuth,
+  CurrentDevice,
+  Roles,
+  CurrentUser,
+} from '../auth/decorators';
+import type {
+  AuthenticatedDevice,
+  AuthenticatedUser,
+} from '../auth/strategies';
 
+/**
+ * Attendance Controller
+ * Handles attendance recording and attendance record HTTP requests
+ */
+@ApiTags('Attendance')
+@UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('attendance')
 export class AttendanceController {
-  constructor(private readonly attendanceService: AttendanceService) {}
+  constructor(
+    private readonly attendanceService: AttendanceService,
+    private readonly attendanceCorrectionsService: AttendanceCorrectionsService,
+  ) {}
+
+  /**
+   * Record a card scan
+   * Device-facing endpoint
+   */
+  @ApiOperation({
+    summary: 'Record a card scan',
+    description:
+      'Device-facing endpoint called by a reader when a card is tapped. Resolves the open session on the device, opening it automatically when the timetable schedules a class on the device, and the student, then records PRESENT or LATE. Business outcomes are returned as a result code with HTTP 200 so the reader can show a green or red LED.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Scan processed',
+    type: ScanResultDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid scan payload',
+  })
+  @DeviceAuth()
+  @Post('scan')
+  @HttpCode(HttpStatus.OK)
+  scan(
+    @CurrentDevice() device: AuthenticatedDevice,
+    @Body() scanDto: ScanDto,
+  ): Promise<ScanResultDto> {
+    return this.attendanceService.recordScan(device, scanDto);
+  }
+
+  /**
+   * Upload scans buffered while offline
+   * Device-facing endpoint
+   */
+  @ApiOperation({
+    summary: 'Upload buffered scans',
+    description:
+      'Device-facing endpoint called by a reader after reconnecting, with the scans it captured offline. Each scan is matched to the session running on the device at its timestamp and classified with that timestamp. Scan IDs already uploaded return their stored outcome, so every returned scan can be purged from the reader buffer, except RETRY_LATER ones: their slot cannot be opened while another session is open on the device, and they must be uploaded again once it closes.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Scans processed',
+    type: BatchScanResultDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid batch payload',
+  })
+  @DeviceAuth()
+  @Post('scans/batch')
+  @HttpCode(HttpStatus.OK)
+  uploadBufferedScans(
+    @CurrentDevice() device: AuthenticatedDevice,
+    @Body() batchScanDto: BatchScanDto,
+  ): Promise<BatchScanResultDto> {
+    return this.attendanceService.recordBufferedScans(device, batchScanDto);
+  }
+
+  /**
+   * Correct the attendance of a student in a session
+   * Teachers (own sessions, within the edit window) and Admins
+   */
+  @ApiOperation({
+    summary: 'Correct a student attendance',
+    description:
+      'Set the status of a student in a session, creating the record if the student has none, e.g. when the reader missed a tap. The status can be PRESENT, LATE or ABSENT; absences are excused through justifications. A reason is required and the change is logged. Teachers can correct their own sessions until ATTENDANCE_EDIT_WINDOW_HOURS after the session ended; admins at any time.',
+  })
+  @ApiParam({
+    name: 'sessionId',
+    description: 'Session UUID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({
+    name: 'studentId',
+    description: 'Student UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Attendance corrected',
+    type: AttendanceCorrectionResultDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or student not in the session classroom',
+  })
+  @ApiForbiddenResponse({
+    description: 'Session belongs to another teacher or edit window closed',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session not found',
+  })
+  @ApiBearerAuth()
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Put('sessions/:sessionId/students/:studentId')
+  correct(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('sessionId') sessionId: string,
+    @Param('studentId') studentId: string,
+    @Body() correctAttendanceDto: CorrectAttendanceDto,
+  ): Promise<AttendanceCorrectionResultDto> {
+    return this.attendanceCorrectionsService.correct(
+      user,
+      sessionId,
+      studentId,
+      correctAttendanceDto,
+    );
+  }
+
+  /**
+   * Correct the attendance of several students in a session
+   * Teachers (own sessions, within the edit window) and Admins
+   */
+  @ApiOperation({
+    summary: 'Correct attendance in bulk',
+    description:
+      'Set the status of several students of a session with a shared reason. All corrections are applied or none. Same rules as a single correction.',
+  })
+  @ApiParam({
+    name: 'sessionId',
+    description: 'Session UUID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Attendance corrected, one result per student in request order',
+    type: [AttendanceCorrectionResultDto],
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Invalid input, duplicate student or student not in the session classroom',
+  })
+  @ApiForbiddenResponse({
+    description: 'Session belongs to another teacher or edit window closed',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session not found',
+  })
+  @ApiBearerAuth()
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Post('sessions/:sessionId/corrections')
+  @HttpCode(HttpStatus.OK)
+  bulkCorrect(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('sessionId') sessionId: string,
+    @Body() bulkCorrectAttendanceDto: BulkCorrectAttendanceDto,
+  ): Promise<AttendanceCorrectionResultDto[]> {
+    return this.attendanceCorrectionsService.bulkCorrect(
+      user,
+      sessionId,
+      bulkCorrectAttendanceDto,
+    );
+  }
+
+  /**
+   * Get the correction history of a student in a session
+   * Teachers (own sessions) and Admins
+   */
+  @ApiOperation({
+    summary: 'Get attendance correction history',
+    description:
+      'Audit trail of manual changes to the record of a student in a session, oldest first',
+  })
+  @ApiParam({
+    name: 'sessionId',
+    description: 'Session UUID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({
+    name: 'studentId',
+    description: 'Student UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Changes of the record',
+    type: [AttendanceRecordChangeResponseDto],
+  })
+  @ApiForbiddenResponse({
+    description: 'Session belongs to another teacher',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session or record not found',
+  })
+  @ApiBearerAuth()
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('sessions/:sessionId/students/:studentId/history')
+  findHistory(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('sessionId') sessionId: string,
+    @Param('studentId') studentId: string,
+  ): Promise<AttendanceRecordChangeResponseDto[]> {
+    return this.attendanceCorrectionsService.findHistory(
+      user,
+      sessionId,
+      studentId,
+    );
+  }
 }
@@ -1,9 +1,27 @@
 import { Module } from '@nestjs/common';
 import { AttendanceService } from './attendance.service';
+import { AttendanceCorrectionsService } from './attendance-corrections.service';
 import { AttendanceController } from './attendance.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { StudentsModule } from '../students/students.module';
+import { LatenessPoliciesModule } from '../lateness-policies/lateness-policies.module';
+import { SessionsModule } from '../sessions/sessions.module';
 
+/**
+ * Attendance Module
+ * Handles attendance recording from IoT device scans and manual corrections
+ */
 @Module({
+  imports: [
+    PrismaModule,
+    AuthModule,
+    StudentsModule,
+    LatenessPoliciesModule,
+    SessionsModule,
+  ],
   controllers: [AttendanceController],
-  providers: [AttendanceService],
+  providers: [AttendanceService, AttendanceCorrectionsService],
+  exports: [AttendanceService],
 })
 export class AttendanceModule {}
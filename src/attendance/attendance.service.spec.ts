@@ -1,12 +1,76 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma } from '@prisma/client';
 import { AttendanceService } from './attendance.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StudentsService } from '../students/students.service';
+import { LatenessPoliciesService } from '../lateness-policies/lateness-policies.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { AuthenticatedDevice } from '../auth/strategies';
+import { ScanResultCode } from './dto';
 
 describe('AttendanceService', () => {
   let service: AttendanceService;
 
+  const device = {
+    id: '990e8400-e29b-41d4-a716-446655440000',
+    deviceUid: 'RFID-GL2A-001',
+  } as AuthenticatedDevice;
+
+  const session = {
+    id: 'aa0e8400-e29b-41d4-a716-446655440000',
+    teachingAssignmentId: '880e8400-e29b-41d4-a716-446655440000',
+    teachingAssignment: { classroomId: 'classroom-1' },
+  };
+
+  const prisma = {
+    scanEvent: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      create: jest.fn(),
+    },
+    session: { findFirst: jest.fn() },
+    studentCard: { findUnique: jest.fn() },
+  };
+  const sessionsService = {
+    openFromTimetable: jest.fn(),
+    closeSession: jest.fn(),
+  };
+
+  const minutesAgo = (minutes: number) =>
+    new Date(Date.now() - minutes * 60_000).toISOString();
+
+  /**
+   * Stored outcome of a buffered scan
+   */
+  const scanEvent = (clientScanId: string) => ({
+    clientScanId,
+    outcome: {
+      result: ScanResultCode.RECORDED,
+      accepted: true,
+      message: 'Welcome Ahmed Ben Ali',
+      sessionId: session.id,
+    },
+  });
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.scanEvent.findUnique.mockResolvedValue(null);
+    prisma.scanEvent.create.mockResolvedValue({});
+    prisma.session.findFirst.mockResolvedValue(session);
+    // Unknown cards are enough to exercise the buffered scan pipeline
+    prisma.studentCard.findUnique.mockResolvedValue(null);
+    sessionsService.openFromTimetable.mockResolvedValue(null);
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [AttendanceService],
+      providers: [
+        AttendanceService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: StudentsService, useValue: {} },
+        { provide: LatenessPoliciesService, useValue: {} },
+        { provide: SessionsService, useValue: sessionsService },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
     }).compile();
 
     service = module.get<AttendanceService>(AttendanceService);
@@ -15,4 +79,242 @@ describe('AttendanceService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('recordBufferedScans', () => {
+    it('stores the outcome of each new scan', async () => {
+      const { results } = await service.recordBufferedScans(device, {
+        scans: [
+          {
+            clientScanId: 'scan-1',
+            cardUid: '04A1B2C3D4',
+            scannedAt: minutesAgo(5),
+          },
+        ],
+      });
+
+      expect(results[0]).toEqual(
+        expect.objectContaining({
+          clientScanId: 'scan-1',
+          result: ScanResultCode.UNKNOWN_CARD,
+          sessionId: session.id,
+          duplicate: false,
+        }),
+      );
+      expect(prisma.scanEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          deviceId: device.id,
+          clientScanId: 'scan-1',
+          result: ScanResultCode.UNKNOWN_CARD,
+          sessionId: session.id,
+        }) as object,
+      });
+    });
+
+    it('replays the stored outcome of a scan uploaded again', async () => {
+      prisma.scanEvent.findUnique.mockResolvedValue(scanEvent('scan-1'));
+
+      const { results } = await service.recordBufferedScans(device, {
+        scans: [
+          {
+            clientScanId: 'scan-1',
+            cardUid: '04A1B2C3D4',
+            scannedAt: minutesAgo(5),
+          },
+        ],
+      });
+
+      expect(results).toEqual([
+        {
+          ...scanEvent('scan-1').outcome,
+          clientScanId: 'scan-1',
+          duplicate: true,
+        },
+      ]);
+      expect(prisma.studentCard.findUnique).not.toHaveBeenCalled();
+      expect(prisma.scanEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('replays the outcome stored by a concurrent upload', async () => {
+      prisma.scanEvent.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+      prisma.scanEvent.findUniqueOrThrow.mockResolvedValue(scanEvent('scan-1'));
+
+      const { results } = await service.recordBufferedScans(device, {
+        scans: [
+          {
+            clientScanId: 'scan-1',
+            cardUid: '04A1B2C3D4',
+            scannedAt: minutesAgo(5),
+          },
+        ],
+      });
+
+      expect(results[0]).toEqual(
+        expect.objectContaining({
+          result: ScanResultCode.RECORDED,
+          clientScanId: 'scan-1',
+          duplicate: true,
+        }),
+      );
+    });
+
+    it('returns outcomes in upload order', async () => {
+      prisma.scanEvent.findUnique.mockImplementation(
+        ({
+          where,
+        }: {
+          where: { deviceId_clientScanId: { clientScanId: string } };
+        }) =>
+          Promise.resolve(
+            where.deviceId_clientScanId.clientScanId === 'scan-1'
+              ? scanEvent('scan-1')
+              : null,
+          ),
+      );
+
+      const { received, results } = await service.recordBufferedScans(device, {
+        scans: [
+          {
+            clientScanId: 'scan-2',
+            cardUid: '04A1B2C3D5',
+            scannedAt: minutesAgo(1),
+          },
+          {
+            clientScanId: 'scan-1',
+            cardUid: '04A1B2C3D4',
+            scannedAt: minutesAgo(5),
+          },
+        ],
+      });
+
+      expect(received).toBe(2);
+      expect(results.map((r) => [r.clientScanId, r.duplicate])).toEqual([
+        ['scan-2', false],
+        ['scan-1', true],
+      ]);
+    });
+
+    it('rejects scans too far in the future', async () => {
+      const { results } = await service.recordBufferedScans(device, {
+        scans: [
+          {
+            clientScanId: 'scan-1',
+            cardUid: '04A1B2C3D4',
+            scannedAt: minutesAgo(-60),
+          },
+        ],
+      });
+
+      expect(results[0].result).toBe(ScanResultCode.INVALID_TIMESTAMP);
+      expect(prisma.session.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('closes sessions opened for slots that already ended', async () => {
+      const scheduledEndAt = new Date(minutesAgo(30));
+      prisma.session.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue(session);
+      sessionsService.openFromTimetable.mockResolvedValue({
+        id: session.id,
+        scheduledEndAt,
+      });
+
+      await service.recordBufferedScans(device, {
+        scans: [
+          {
+            clientScanId: 'scan-1',
+            cardUid: '04A1B2C3D4',
+            scannedAt: minutesAgo(90),
+          },
+          {
+            clientScanId: 'scan-2',
+            cardUid: '04A1B2C3D5',
+            scannedAt: minutesAgo(85),
+          },
+        ],
+      });
+
+      expect(sessionsService.closeSession).toHaveBeenCalledTimes(1);
+      expect(sessionsService.closeSession).toHaveBeenCalledWith(
+        session.id,
+        scheduledEndAt,
+      );
+    });
+
+    it('leaves sessions of slots still running open', async () => {
+      prisma.session.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue(session);
+      sessionsService.openFromTimetable.mockResolvedValue({
+        id: session.id,
+        scheduledEndAt: new Date(minutesAgo(-30)),
+      });
+
+      await service.recordBufferedScans(device, {
+        scans: [
+          {
+            clientScanId: 'scan-1',
+            cardUid: '04A1B2C3D4',
+            scannedAt: minutesAgo(5),
+          },
+        ],
+      });
+
+      expect(sessionsService.closeSession).not.toHaveBeenCalled();
+    });
+
+    it('asks again for scans of a slot blocked by a later open session', async () => {
+      // Nothing ran at scan time, the live session opened after it
+      prisma.session.findFirst.mockImplementation(
+        ({ where }: { where: { status?: string } }) =>
+          Promise.resolve(where.status ? session : null),
+      );
+
+      const { results } = await service.recordBufferedScans(device, {
+        scans: [
+          {
+            clientScanId: 'scan-1',
+            cardUid: '04A1B2C3D4',
+            scannedAt: minutesAgo(90),
+          },
+        ],
+      });
+
+      expect(results[0]).toEqual(
+        expect.objectContaining({
+          result: ScanResultCode.RETRY_LATER,
+          accepted: false,
+          clientScanId: 'scan-1',
+          duplicate: false,
+        }),
+      );
+      expect(results[0].sessionId).toBeUndefined();
+      expect(prisma.scanEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('stores scans no session ran for when the device is idle', async () => {
+      prisma.session.findFirst.mockResolvedValue(null);
+
+      const { results } = await service.recordBufferedScans(device, {
+        scans: [
+          {
+            clientScanId: 'scan-1',
+            cardUid: '04A1B2C3D4',
+            scannedAt: minutesAgo(90),
+          },
+        ],
+      });
+
+      expect(results[0].result).toBe(ScanResultCode.NO_OPEN_SESSION);
+      expect(prisma.scanEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          result: ScanResultCode.NO_OPEN_SESSION,
+        }) as object,
+      });
+    });
+  });
 });
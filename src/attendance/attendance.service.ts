@@ -1,4 +1,638 @@
-import { Injectable } from '@nestjs/common';
+import {
+  ConflictException,
+  HttpException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  AttendanceRecord,
+  AttendanceStatus,
+  CardStatus,
+  Prisma,
+  ScanEvent,
+  SessionStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthenticatedDevice } from '../auth/strategies';
+import { StudentsService } from '../students/students.service';
+import { LatenessPoliciesService } from '../lateness-policies/lateness-policies.service';
+import { SessionsService } from '../sessions/sessions.service';
+import {
+  ATTENDANCE_CHANGED_EVENT,
+  AttendanceChangedEvent,
+} from '../sessions/session-events';
+import {
+  ScanDto,
+  BatchScanDto,
+  BufferedScanDto,
+  BatchScanResultDto,
+  BufferedScanResultDto,
+  ScanResultDto,
+  ScanResultCode,
+  ScanIndicator,
+  ScanStudentDto,
+} from './dto';
 
+/**
+ * Session a scan is recorded into
+ */
+type ScanSession = Prisma.SessionGetPayload<{
+  include: { teachingAssignment: { select: { classroomId: true } } };
+}>;
+
+/**
+ * Attendance Service
+ * Handles all business logic for attendance records
+ * Card scans coming from IoT devices are turned into AttendanceRecords here
+ */
 @Injectable()
-export class AttendanceService {}
+export class AttendanceService {
+  private readonly logger = new Logger(AttendanceService.name);
+  private readonly MAX_CLOCK_SKEW_SECONDS = 300;
+
+  private readonly scanSessionInclude = {
+    teachingAssignment: {
+      select: {
+        classroomId: true,
+      },
+    },
+  } as const;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly studentsService: StudentsService,
+    private readonly latenessPoliciesService: LatenessPoliciesService,
+    private readonly sessionsService: SessionsService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Record a card scan coming from a device
+   * Resolves the open session on the device (opening it from the timetable if
+   * needed) and the student behind the card, then upserts the student's
+   * attendance record for that session.
+   * Devices in enrollment mode bind the card instead of recording attendance.
+   */
+  async recordScan(
+    device: AuthenticatedDevice,
+    scanDto: ScanDto,
+  ): Promise<ScanResultDto> {
+    const scannedAt = new Date();
+    const { cardUid } = scanDto;
+
+    if (
+      device.enrollmentStudentId &&
+      device.enrollmentExpiresAt &&
+      device.enrollmentExpiresAt > scannedAt
+    ) {
+      return this.enrollScannedCard(
+        device,
+        device.enrollmentStudentId,
+        cardUid,
+        scannedAt,
+      );
+    }
+
+    // Resolve the session currently open on this device, or open the one
+    // the timetable schedules now
+    let session = await this.findOpenSession(device.id);
+
+    // Read the session again even when a concurrent scan opened it first
+    if (!session) {
+      await this.sessionsService.openFromTimetable(device.id, scannedAt);
+      session = await this.findOpenSession(device.id);
+    }
+
+    if (!session) {
+      return this.reject(
+        ScanResultCode.NO_OPEN_SESSION,
+        'No open session on this device',
+        scannedAt,
+      );
+    }
+
+    return this.recordInSession(device, session, cardUid, scannedAt);
+  }
+
+  /**
+   * Record scans a device buffered while it was offline
+   * Each scan is matched to the session that was running on the device at the
+   * scan time and classified using its original timestamp. Outcomes are stored
+   * per client scan ID so a re-uploaded batch returns the same outcomes.
+   * Sessions opened for slots that ended while the device was offline are
+   * closed once the batch is recorded. Scans of a slot that can't be opened
+   * because another session is open come back RETRY_LATER and are not stored.
+   */
+  async recordBufferedScans(
+    device: AuthenticatedDevice,
+    batchScanDto: BatchScanDto,
+  ): Promise<BatchScanResultDto> {
+    const receivedAt = new Date();
+    const outcomes = new Map<BufferedScanDto, BufferedScanResultDto>();
+
+    // Process in tap order so the earliest scan of a student wins
+    const chronological = [...batchScanDto.scans].sort(
+      (a, b) =>
+        new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime(),
+    );
+
+    // Past slot sessions opened by this batch, with their scheduled end
+    const pastSessions = new Map<string, Date>();
+
+    try {
+      for (const scan of chronological) {
+        outcomes.set(
+          scan,
+          await this.recordBufferedScan(device, scan, receivedAt, pastSessions),
+        );
+      }
+    } finally {
+      await this.closePastSessions(pastSessions);
+    }
+
+    const results = batchScanDto.scans.map(
+      (scan) => outcomes.get(scan) as BufferedScanResultDto,
+    );
+
+    this.logger.log(
+      `Buffered scans received from ${device.deviceUid}: ${results.length} (${results.filter((r) => r.duplicate).length} duplicate)`,
+    );
+
+    return {
+      received: results.length,
+      results,
+    };
+  }
+
+  /**
+   * Record a single buffered scan, or replay its stored outcome
+   */
+  private async recordBufferedScan(
+    device: AuthenticatedDevice,
+    scan: BufferedScanDto,
+    receivedAt: Date,
+    pastSessions: Map<string, Date>,
+  ): Promise<BufferedScanResultDto> {
+    const { clientScanId, cardUid } = scan;
+    const scannedAt = new Date(scan.scannedAt);
+
+    const existingEvent = await this.prisma.scanEvent.findUnique({
+      where: {
+        deviceId_clientScanId: {
+          deviceId: device.id,
+          clientScanId,
+        },
+      },
+    });
+
+    if (existingEvent) {
+      return this.replayScanEvent(existingEvent);
+    }
+
+    let outcome: ScanResultDto;
+
+    if (
+      scannedAt.getTime() >
+      receivedAt.getTime() + this.MAX_CLOCK_SKEW_SECONDS * 1000
+    ) {
+      outcome = this.reject(
+        ScanResultCode.INVALID_TIMESTAMP,
+        'Scan time is in the future',
+        scannedAt,
+      );
+    } else {
+      let session = await this.findSessionAt(device.id, scannedAt);
+
+      if (!session) {
+        const openedSession = await this.sessionsService.openFromTimetable(
+          device.id,
+          scannedAt,
+        );
+
+        if (
+          openedSession?.scheduledEndAt &&
+          openedSession.scheduledEndAt <= receivedAt
+        ) {
+          pastSessions.set(openedSession.id, openedSession.scheduledEndAt);
+        }
+
+        session = await this.findSessionAt(device.id, scannedAt);
+      }
+
+      // The slot can't be opened while a later session is open on the
+      // device: leave the scan unstored so the reader uploads it again
+      if (!session && (await this.findOpenSession(device.id))) {
+        return {
+          ...this.reject(
+            ScanResultCode.RETRY_LATER,
+            'Another session is open on this device, upload again once it closes',
+            scannedAt,
+          ),
+          clientScanId,
+          duplicate: false,
+        };
+      }
+
+      outcome = session
+        ? await this.recordInSession(device, session, cardUid, scannedAt)
+        : this.reject(
+            ScanResultCode.NO_OPEN_SESSION,
+            'No session was open on this device at scan time',
+            scannedAt,
+          );
+    }
+
+    try {
+      await this.prisma.scanEvent.create({
+        data: {
+          deviceId: device.id,
+          clientScanId,
+          cardUid,
+          scannedAt,
+          result: outcome.result,
+          outcome: outcome as unknown as Prisma.InputJsonObject,
+          sessionId: outcome.sessionId,
+        },
+      });
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw error;
+      }
+
+      // A concurrent upload of the same batch stored its outcome first
+      return this.replayScanEvent(
+        await this.prisma.scanEvent.findUniqueOrThrow({
+          where: {
+            deviceId_clientScanId: {
+              deviceId: device.id,
+              clientScanId,
+            },
+          },
+        }),
+      );
+    }
+
+    return {
+      ...outcome,
+      clientScanId,
+      duplicate: false,
+    };
+  }
+
+  /**
+   * Outcome of a buffered scan that was already recorded
+   */
+  private replayScanEvent(scanEvent: ScanEvent): BufferedScanResultDto {
+    return {
+      ...(scanEvent.outcome as unknown as ScanResultDto),
+      clientScanId: scanEvent.clientScanId,
+      duplicate: true,
+    };
+  }
+
+  /**
+   * Close sessions opened for past slots at their scheduled end
+   * Leaving them open would let live scans land in them
+   */
+  private async closePastSessions(
+    pastSessions: Map<string, Date>,
+  ): Promise<void> {
+    for (const [sessionId, endedAt] of pastSessions) {
+      try {
+        await this.sessionsService.closeSession(sessionId, endedAt);
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          // Closed by the sweeper or its teacher in the meantime
+          continue;
+        }
+        this.logger.error(`Failed to close past session ${sessionId}`, error);
+      }
+    }
+  }
+
+  /**
+   * Record a card scan into a resolved session
+   * Shared by live and buffered scans; scannedAt drives lateness
+   */
+  private async recordInSession(
+    device: AuthenticatedDevice,
+    session: ScanSession,
+    cardUid: string,
+    scannedAt: Date,
+  ): Promise<ScanResultDto> {
+    // Resolve the student behind the card
+    const card = await this.prisma.studentCard.findUnique({
+      where: { cardUid },
+      include: {
+        student: {
+          select: {
+            id: true,
+            studentCode: true,
+            fullName: true,
+            classroomId: true,
+          },
+        },
+      },
+    });
+
+    if (!card) {
+      this.logger.warn(`Unknown card scanned on ${device.deviceUid}`);
+      return this.reject(
+        ScanResultCode.UNKNOWN_CARD,
+        'Unknown card',
+        scannedAt,
+        session.id,
+      );
+    }
+
+    const { student } = card;
+    const { classroomId, ...studentSummary } = student;
+
+    if (card.status !== CardStatus.ACTIVE) {
+      this.logger.warn(
+        `${card.status} card of ${student.studentCode} scanned on ${device.deviceUid}`,
+      );
+      return this.reject(
+        ScanResultCode.CARD_INACTIVE,
+        `Card ${card.status.toLowerCase()}`,
+        scannedAt,
+        session.id,
+        studentSummary,
+      );
+    }
+
+    if (classroomId !== session.teachingAssignment.classroomId) {
+      return this.reject(
+        ScanResultCode.NOT_IN_CLASSROOM,
+        'Student is not enrolled in this class',
+        scannedAt,
+        session.id,
+        studentSummary,
+      );
+    }
+
+    // A student who already scanned keeps their first scan
+    const existingRecord = await this.prisma.attendanceRecord.findUnique({
+      where: {
+        sessionId_studentId: {
+          sessionId: session.id,
+          studentId: student.id,
+        },
+      },
+      include: {
+        changes: {
+          select: { newStatus: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (existingRecord && existingRecord.status !== AttendanceStatus.ABSENT) {
+      return {
+        result: ScanResultCode.ALREADY_RECORDED,
+        accepted: true,
+        indicator: ScanIndicator.GREEN,
+        message: `Already recorded: ${student.fullName}`,
+        status: existingRecord.status,
+        sessionId: session.id,
+        student: studentSummary,
+        scannedAt: existingRecord.scannedAt ?? scannedAt,
+      };
+    }
+
+    // An absence set by a correction takes precedence over scans
+    if (existingRecord?.changes[0]?.newStatus === AttendanceStatus.ABSENT) {
+      return {
+        ...this.reject(
+          ScanResultCode.ATTENDANCE_CORRECTED,
+          `Recorded absent by a correction: ${student.fullName}`,
+          scannedAt,
+          session.id,
+          studentSummary,
+        ),
+        status: existingRecord.status,
+      };
+    }
+
+    const policy = await this.latenessPoliciesService.resolve(
+      session.teachingAssignmentId,
+    );
+    const status = this.latenessPoliciesService.classify(
+      policy,
+      session.startedAt,
+      scannedAt,
+    );
+
+    if (!status) {
+      return this.reject(
+        ScanResultCode.TOO_LATE,
+        'Too late: scan refused',
+        scannedAt,
+        session.id,
+        studentSummary,
+      );
+    }
+
+    const record = existingRecord
+      ? await this.overwriteAbsence(device, existingRecord, status, scannedAt)
+      : await this.prisma.attendanceRecord.upsert({
+          where: {
+            sessionId_studentId: {
+              sessionId: session.id,
+              studentId: student.id,
+            },
+          },
+          create: {
+            sessionId: session.id,
+            studentId: student.id,
+            status,
+            scannedAt,
+          },
+          update: {
+            status,
+            scannedAt,
+          },
+        });
+
+    this.logger.log(
+      `Scan recorded: ${student.studentCode} → session ${session.id} (${record.status})`,
+    );
+
+    this.eventEmitter.emit(ATTENDANCE_CHANGED_EVENT, {
+      sessionId: session.id,
+      changes: [
+        {
+          studentId: student.id,
+          previousStatus: existingRecord?.status ?? null,
+          status: record.status,
+        },
+      ],
+    } satisfies AttendanceChangedEvent);
+
+    if (record.status === AttendanceStatus.ABSENT) {
+      return {
+        ...this.reject(
+          ScanResultCode.TOO_LATE,
+          `Too late: ${student.fullName} recorded absent`,
+          scannedAt,
+          session.id,
+          studentSummary,
+        ),
+        status: record.status,
+      };
+    }
+
+    return {
+      result: ScanResultCode.RECORDED,
+      accepted: true,
+      indicator: ScanIndicator.GREEN,
+      message:
+        record.status === AttendanceStatus.LATE
+          ? `Late: ${student.fullName}`
+          : `Welcome ${student.fullName}`,
+      status: record.status,
+      sessionId: session.id,
+      student: studentSummary,
+      scannedAt,
+    };
+  }
+
+  /**
+   * Record a scan over an ABSENT record, logging the change in its audit trail
+   */
+  private overwriteAbsence(
+    device: AuthenticatedDevice,
+    absentRecord: AttendanceRecord,
+    status: AttendanceStatus,
+    scannedAt: Date,
+  ): Promise<AttendanceRecord> {
+    return this.prisma.$transaction(async (tx) => {
+      const record = await tx.attendanceRecord.update({
+        where: { id: absentRecord.id },
+        data: { status, scannedAt },
+      });
+
+      if (status !== absentRecord.status) {
+        await tx.attendanceRecordChange.create({
+          data: {
+            attendanceRecordId: record.id,
+            previousStatus: absentRecord.status,
+            newStatus: status,
+            reason: `Card scanned on device ${device.deviceUid}`,
+          },
+        });
+      }
+
+      return record;
+    });
+  }
+
+  /**
+   * Find the session currently open on a device
+   */
+  private findOpenSession(deviceId: string): Promise<ScanSession | null> {
+    return this.prisma.session.findFirst({
+      where: {
+        deviceId,
+        status: SessionStatus.OPEN,
+      },
+      include: this.scanSessionInclude,
+      orderBy: {
+        startedAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Find the session that was running on a device at a given time
+   * Includes sessions closed since then
+   */
+  private findSessionAt(
+    deviceId: string,
+    at: Date,
+  ): Promise<ScanSession | null> {
+    return this.prisma.session.findFirst({
+      where: {
+        deviceId,
+        startedAt: { lte: at },
+        OR: [{ endedAt: null }, { endedAt: { gte: at } }],
+      },
+      include: this.scanSessionInclude,
+      orderBy: {
+        startedAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Bind a card tapped on a device in enrollment mode
+   * Enrollment mode ends once a card is bound; on failure the device keeps
+   * waiting so the right card can be tapped
+   */
+  private async enrollScannedCard(
+    device: AuthenticatedDevice,
+    studentId: string,
+    cardUid: string,
+    scannedAt: Date,
+  ): Promise<ScanResultDto> {
+    try {
+      const card = await this.studentsService.enrollCard(studentId, cardUid);
+
+      await this.prisma.ioTDevice.update({
+        where: { id: device.id },
+        data: {
+          enrollmentStudentId: null,
+          enrollmentExpiresAt: null,
+        },
+      });
+
+      return {
+        result: ScanResultCode.CARD_ENROLLED,
+        accepted: true,
+        indicator: ScanIndicator.GREEN,
+        message: `Card enrolled for ${card.student?.fullName}`,
+        student: card.student,
+        scannedAt,
+      };
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+
+      this.logger.warn(
+        `Card enrollment failed on ${device.deviceUid}: ${error.message}`,
+      );
+      return this.reject(
+        ScanResultCode.ENROLLMENT_FAILED,
+        error.message,
+        scannedAt,
+      );
+    }
+  }
+
+  /**
+   * Build a rejected scan result
+   */
+  private reject(
+    result: ScanResultCode,
+    message: string,
+    scannedAt: Date,
+    sessionId?: string,
+    student?: ScanStudentDto,
+  ): ScanResultDto {
+    return {
+      result,
+      accepted: false,
+      indicator: ScanIndicator.RED,
+      message,
+      sessionId,
+      student,
+      scannedAt,
+    };
+  }
+}
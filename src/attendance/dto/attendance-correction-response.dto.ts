@@ -0,0 +1,84 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AttendanceStatus } from '@prisma/client';
+
+/**
+ * Outcome of correcting one student in a session
+ */
+export class AttendanceCorrectionResultDto {
+  @ApiProperty({ example: 'bb0e8400-e29b-41d4-a716-446655440000' })
+  recordId: string;
+
+  @ApiProperty({ example: 'aa0e8400-e29b-41d4-a716-446655440000' })
+  sessionId: string;
+
+  @ApiProperty({ example: '990e8400-e29b-41d4-a716-446655440000' })
+  studentId: string;
+
+  @ApiProperty({
+    description:
+      'Status before the correction (null if the student had no record)',
+    enum: AttendanceStatus,
+    example: AttendanceStatus.ABSENT,
+    nullable: true,
+  })
+  previousStatus: AttendanceStatus | null;
+
+  @ApiProperty({
+    enum: AttendanceStatus,
+    example: AttendanceStatus.PRESENT,
+  })
+  status: AttendanceStatus;
+
+  @ApiProperty({
+    description:
+      'False when the record already had this status; nothing is logged then',
+    example: true,
+  })
+  changed: boolean;
+}
+
+/**
+ * Entry of the audit trail of an attendance record
+ */
+export class AttendanceRecordChangeResponseDto {
+  @ApiProperty({ example: 'cc0e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'bb0e8400-e29b-41d4-a716-446655440000' })
+  attendanceRecordId: string;
+
+  @ApiProperty({
+    description:
+      'Status before the change (null if the change created the record)',
+    enum: AttendanceStatus,
+    example: AttendanceStatus.ABSENT,
+    nullable: true,
+  })
+  previousStatus: AttendanceStatus | null;
+
+  @ApiProperty({
+    enum: AttendanceStatus,
+    example: AttendanceStatus.PRESENT,
+  })
+  newStatus: AttendanceStatus;
+
+  @ApiProperty({ example: 'Reader missed the tap, student was in class' })
+  reason: string;
+
+  @ApiProperty({
+    description:
+      'Account that made the change (null for card scans or if it was deleted since)',
+    example: {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      email: 'teacher@esprit.tn',
+    },
+    nullable: true,
+  })
+  changedBy: {
+    id: string;
+    email: string;
+  } | null;
+
+  @ApiProperty({ example: '2026-10-19T10:15:00.000Z' })
+  createdAt: Date;
+}
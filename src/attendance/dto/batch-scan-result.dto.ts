@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ScanResultDto } from './scan-result.dto';
+
+/**
+ * Outcome of one buffered scan
+ */
+export class BufferedScanResultDto extends ScanResultDto {
+  @ApiProperty({
+    description: 'Identifier assigned by the reader',
+    example: '000184',
+  })
+  clientScanId: string;
+
+  @ApiProperty({
+    description:
+      'True when this scan ID was already uploaded; the stored outcome is returned',
+    example: false,
+  })
+  duplicate: boolean;
+}
+
+/**
+ * Outcomes of a batch upload
+ * Every scan listed here can be purged from the reader buffer, except those
+ * with a RETRY_LATER result: they are not stored and must be uploaded again
+ */
+export class BatchScanResultDto {
+  @ApiProperty({
+    description: 'Number of scans in the upload',
+    example: 12,
+  })
+  received: number;
+
+  @ApiProperty({
+    description: 'Outcome of each scan, in upload order',
+    type: [BufferedScanResultDto],
+  })
+  results: BufferedScanResultDto[];
+}
@@ -0,0 +1,65 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Maximum number of scans accepted in one upload
+ */
+export const MAX_BATCH_SCANS = 500;
+
+/**
+ * A scan captured by a reader while it was offline
+ */
+export class BufferedScanDto {
+  @ApiProperty({
+    description:
+      'Identifier assigned by the reader, unique per device. Re-uploading the same ID returns the stored outcome.',
+    example: '000184',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Client scan ID is required' })
+  @MaxLength(64, { message: 'Client scan ID cannot exceed 64 characters' })
+  clientScanId: string;
+
+  @ApiProperty({
+    description: 'UID emitted by the reader when the card was tapped',
+    example: '04A2B3C4D5E680',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Card identifier is required' })
+  cardUid: string;
+
+  @ApiProperty({
+    description: 'Time of the tap according to the reader clock',
+    example: '2026-10-19T07:34:12.000Z',
+  })
+  @IsDateString({}, { message: 'Scanned at must be a valid ISO 8601 date' })
+  scannedAt: string;
+}
+
+/**
+ * DTO for uploading buffered scans
+ */
+export class BatchScanDto {
+  @ApiProperty({
+    description: `Buffered scans, at most ${MAX_BATCH_SCANS} per upload`,
+    type: [BufferedScanDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one scan is required' })
+  @ArrayMaxSize(MAX_BATCH_SCANS, {
+    message: `A batch cannot contain more than ${MAX_BATCH_SCANS} scans`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => BufferedScanDto)
+  scans: BufferedScanDto[];
+}
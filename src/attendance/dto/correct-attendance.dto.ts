@@ -0,0 +1,107 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { AttendanceStatus } from '@prisma/client';
+
+/**
+ * Maximum number of students corrected in one request
+ */
+export const MAX_BULK_CORRECTIONS = 200;
+
+/**
+ * Statuses a correction can set
+ * EXCUSED is only set by approving a justification
+ */
+export const CORRECTABLE_STATUSES = [
+  AttendanceStatus.PRESENT,
+  AttendanceStatus.LATE,
+  AttendanceStatus.ABSENT,
+] as const;
+
+export type CorrectableStatus = (typeof CORRECTABLE_STATUSES)[number];
+
+/**
+ * DTO for setting the status of a student in a session
+ */
+export class CorrectAttendanceDto {
+  @ApiProperty({
+    description: 'New attendance status',
+    enum: CORRECTABLE_STATUSES,
+    example: AttendanceStatus.PRESENT,
+  })
+  @IsIn(CORRECTABLE_STATUSES, {
+    message: 'Status must be PRESENT, LATE or ABSENT',
+  })
+  status: CorrectableStatus;
+
+  @ApiProperty({
+    description: 'Why the record is corrected, kept in the audit trail',
+    example: 'Reader missed the tap, student was in class',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Reason is required' })
+  @MaxLength(500, { message: 'Reason cannot exceed 500 characters' })
+  reason: string;
+}
+
+/**
+ * One student of a bulk correction
+ */
+export class AttendanceCorrectionItemDto {
+  @ApiProperty({
+    description: 'Student UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID('4', { message: 'Student ID must be a valid UUID' })
+  studentId: string;
+
+  @ApiProperty({
+    description: 'New attendance status',
+    enum: CORRECTABLE_STATUSES,
+    example: AttendanceStatus.PRESENT,
+  })
+  @IsIn(CORRECTABLE_STATUSES, {
+    message: 'Status must be PRESENT, LATE or ABSENT',
+  })
+  status: CorrectableStatus;
+}
+
+/**
+ * DTO for correcting several students of a session at once
+ * The reason applies to every correction
+ */
+export class BulkCorrectAttendanceDto {
+  @ApiProperty({
+    description: `Students to correct, at most ${MAX_BULK_CORRECTIONS} per request`,
+    type: [AttendanceCorrectionItemDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one correction is required' })
+  @ArrayMaxSize(MAX_BULK_CORRECTIONS, {
+    message: `A request cannot contain more than ${MAX_BULK_CORRECTIONS} corrections`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => AttendanceCorrectionItemDto)
+  corrections: AttendanceCorrectionItemDto[];
+
+  @ApiProperty({
+    description: 'Why the records are corrected, kept in the audit trail',
+    example: 'Reader was offline during the first 10 minutes',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Reason is required' })
+  @MaxLength(500, { message: 'Reason cannot exceed 500 characters' })
+  reason: string;
+}
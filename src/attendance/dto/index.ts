@@ -0,0 +1,6 @@
+export * from './scan.dto';
+export * from './scan-result.dto';
+export * from './batch-scan.dto';
+export * from './batch-scan-result.dto';
+export * from './correct-attendance.dto';
+export * from './attendance-correction-response.dto';
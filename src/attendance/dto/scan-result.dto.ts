@@ -0,0 +1,98 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AttendanceStatus } from '@prisma/client';
+
+/**
+ * Machine-readable outcome of a card scan
+ */
+export enum ScanResultCode {
+  RECORDED = 'RECORDED',
+  ALREADY_RECORDED = 'ALREADY_RECORDED',
+  UNKNOWN_CARD = 'UNKNOWN_CARD',
+  CARD_INACTIVE = 'CARD_INACTIVE',
+  NOT_IN_CLASSROOM = 'NOT_IN_CLASSROOM',
+  NO_OPEN_SESSION = 'NO_OPEN_SESSION',
+  RETRY_LATER = 'RETRY_LATER',
+  TOO_LATE = 'TOO_LATE',
+  ATTENDANCE_CORRECTED = 'ATTENDANCE_CORRECTED',
+  INVALID_TIMESTAMP = 'INVALID_TIMESTAMP',
+  CARD_ENROLLED = 'CARD_ENROLLED',
+  ENROLLMENT_FAILED = 'ENROLLMENT_FAILED',
+}
+
+/**
+ * Indicator the reader should show for a scan outcome
+ */
+export enum ScanIndicator {
+  GREEN = 'GREEN',
+  RED = 'RED',
+}
+
+/**
+ * Student information in scan result
+ */
+export class ScanStudentDto {
+  @ApiProperty({ example: '770e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'ESP202401' })
+  studentCode: string;
+
+  @ApiProperty({ example: 'Ahmed Ben Ali' })
+  fullName: string;
+}
+
+/**
+ * Scan result DTO returned to the device
+ */
+export class ScanResultDto {
+  @ApiProperty({
+    description: 'Machine-readable result code',
+    enum: ScanResultCode,
+    example: ScanResultCode.RECORDED,
+  })
+  result: ScanResultCode;
+
+  @ApiProperty({
+    description: 'Whether the student is recorded in the session',
+    example: true,
+  })
+  accepted: boolean;
+
+  @ApiProperty({
+    description: 'LED color the reader should display',
+    enum: ScanIndicator,
+    example: ScanIndicator.GREEN,
+  })
+  indicator: ScanIndicator;
+
+  @ApiProperty({
+    description: 'Human-readable message for the reader display',
+    example: 'Welcome Ahmed Ben Ali',
+  })
+  message: string;
+
+  @ApiPropertyOptional({
+    description: 'Attendance status recorded for the student',
+    enum: AttendanceStatus,
+    example: AttendanceStatus.PRESENT,
+  })
+  status?: AttendanceStatus;
+
+  @ApiPropertyOptional({
+    description: 'Session the scan was recorded in',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  sessionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Student matched by the card',
+    type: ScanStudentDto,
+  })
+  student?: ScanStudentDto;
+
+  @ApiProperty({
+    description: 'Server timestamp of the scan',
+    example: '2025-12-29T08:35:12.000Z',
+  })
+  scannedAt: Date;
+}
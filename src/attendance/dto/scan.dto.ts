@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for a card scan sent by an IoT device
+ * The device itself is identified by its authentication headers
+ */
+export class ScanDto {
+  @ApiProperty({
+    description: 'UID emitted by the reader when the card is tapped',
+    example: '04A2B3C4D5E680',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Card identifier is required' })
+  cardUid: string;
+}
@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { AccessPolicyService } from './access-policy.service';
+import { PrismaService } from '../prisma/prisma.service';
+import type { AuthenticatedUser } from './strategies';
+
+describe('AccessPolicyService', () => {
+  let service: AccessPolicyService;
+
+  const prisma = {
+    teachingAssignment: { count: jest.fn() },
+    classroom: { count: jest.fn() },
+    subject: { count: jest.fn() },
+    student: { count: jest.fn() },
+  };
+
+  const user = (
+    role: UserRole,
+    overrides: Partial<AuthenticatedUser> = {},
+  ): AuthenticatedUser => ({
+    id: 'user-1',
+    email: 'user@example.com',
+    role,
+    createdAt: new Date(),
+    student: null,
+    teacher: null,
+    ...overrides,
+  });
+
+  const admin = user(UserRole.ADMIN);
+  const teacher = user(UserRole.TEACHER, {
+    teacher: { id: 'teacher-1', fullName: 'Amina Benali' },
+  });
+  const student = user(UserRole.STUDENT, {
+    student: {
+      id: 'student-1',
+      studentCode: 'STU001',
+      fullName: 'Yacine Haddad',
+      classroomId: 'classroom-1',
+    },
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessPolicyService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<AccessPolicyService>(AccessPolicyService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('scopes', () => {
+    it('leaves admins unrestricted', () => {
+      expect(service.assignmentScope(admin)).toEqual({});
+      expect(service.classroomScope(admin)).toEqual({});
+      expect(service.subjectScope(admin)).toEqual({});
+      expect(service.studentScope(admin)).toEqual({});
+    });
+
+    it('limits teachers to their assignments', () => {
+      expect(service.assignmentScope(teacher)).toEqual({
+        teacherId: 'teacher-1',
+      });
+      expect(service.classroomScope(teacher)).toEqual({
+        teachingAssignments: { some: { teacherId: 'teacher-1' } },
+      });
+      expect(service.subjectScope(teacher)).toEqual({
+        teachingAssignments: { some: { teacherId: 'teacher-1' } },
+      });
+      expect(service.studentScope(teacher)).toEqual({
+        classroom: {
+          teachingAssignments: { some: { teacherId: 'teacher-1' } },
+        },
+      });
+    });
+
+    it('limits students to their own record and classroom', () => {
+      expect(service.studentScope(student)).toEqual({ id: 'student-1' });
+      expect(service.classroomScope(student)).toEqual({ id: 'classroom-1' });
+      expect(service.assignmentScope(student)).toEqual({
+        classroomId: 'classroom-1',
+      });
+      expect(service.subjectScope(student)).toEqual({
+        teachingAssignments: { some: { classroomId: 'classroom-1' } },
+      });
+    });
+
+    it('refuses accounts without their profile', () => {
+      expect(() => service.assignmentScope(user(UserRole.TEACHER))).toThrow(
+        ForbiddenException,
+      );
+      expect(() => service.studentScope(user(UserRole.STUDENT))).toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('assertTeacherOwns', () => {
+    it('lets teachers act on their own assignments only', () => {
+      expect(() =>
+        service.assertTeacherOwns(teacher, 'teacher-1'),
+      ).not.toThrow();
+      expect(() => service.assertTeacherOwns(teacher, 'teacher-2')).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('lets admins act on any assignment and students on none', () => {
+      expect(() => service.assertTeacherOwns(admin, 'teacher-2')).not.toThrow();
+      expect(() => service.assertTeacherOwns(student, 'teacher-1')).toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('assertions', () => {
+    it('does not query for admins', async () => {
+      await service.assertAssignmentAccess(admin, 'assignment-1');
+      await service.assertClassroomAccess(admin, 'classroom-1');
+      await service.assertSubjectAccess(admin, 'subject-1');
+      await service.assertStudentAccess(admin, 'student-2');
+
+      expect(prisma.teachingAssignment.count).not.toHaveBeenCalled();
+      expect(prisma.classroom.count).not.toHaveBeenCalled();
+      expect(prisma.subject.count).not.toHaveBeenCalled();
+      expect(prisma.student.count).not.toHaveBeenCalled();
+    });
+
+    it('checks the resource against the teacher scope', async () => {
+      prisma.teachingAssignment.count.mockResolvedValue(1);
+
+      await service.assertAssignmentAccess(teacher, 'assignment-1');
+
+      expect(prisma.teachingAssignment.count).toHaveBeenCalledWith({
+        where: { AND: [{ id: 'assignment-1' }, { teacherId: 'teacher-1' }] },
+      });
+    });
+
+    it.each([
+      ['assertAssignmentAccess', prisma.teachingAssignment],
+      ['assertClassroomAccess', prisma.classroom],
+      ['assertSubjectAccess', prisma.subject],
+      ['assertStudentAccess', prisma.student],
+    ] as const)(
+      '%s throws Forbidden outside the teacher scope',
+      async (assertion, model) => {
+        model.count.mockResolvedValue(0);
+
+        await expect(service[assertion](teacher, 'other-id')).rejects.toThrow(
+          ForbiddenException,
+        );
+      },
+    );
+
+    it('accepts a unique filter instead of an ID', async () => {
+      prisma.student.count.mockResolvedValue(1);
+
+      await service.assertStudentAccess(teacher, { studentCode: 'STU001' });
+
+      expect(prisma.student.count).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            { studentCode: 'STU001' },
+            {
+              classroom: {
+                teachingAssignments: { some: { teacherId: 'teacher-1' } },
+              },
+            },
+          ],
+        },
+      });
+    });
+
+    it('limits students to their own records', async () => {
+      prisma.student.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      await service.assertStudentAccess(student, 'student-1');
+      await expect(
+        service.assertStudentAccess(student, 'student-2'),
+      ).rejects.toThrow('You can only access your own records');
+
+      expect(prisma.student.count).toHaveBeenLastCalledWith({
+        where: { AND: [{ id: 'student-2' }, { id: 'student-1' }] },
+      });
+    });
+  });
+});
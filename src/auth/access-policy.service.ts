@@ -0,0 +1,223 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import type { AuthenticatedUser } from './strategies';
+
+/**
+ * Access Policy Service
+ * Resource-level authorization on top of role checks
+ * Teachers only see the teaching assignments they own and the classrooms and
+ * students attached to them; students only see their own record and their
+ * classroom; admins are unrestricted.
+ *
+ * Scopes are Prisma filters to AND into list queries. Assertions guard
+ * single-resource routes: a teacher gets 403 for a resource outside their
+ * scope whether or not it exists, so ids cannot be probed.
+ */
+@Injectable()
+export class AccessPolicyService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Teacher profile the user is limited to, null when unrestricted
+   */
+  getTeacherScope(user: AuthenticatedUser): string | null {
+    if (user.role !== UserRole.TEACHER) {
+      return null;
+    }
+
+    if (!user.teacher) {
+      throw new ForbiddenException('No teacher profile linked to this account');
+    }
+
+    return user.teacher.id;
+  }
+
+  /**
+   * Student profile the user is limited to, null when not a student
+   */
+  getStudentScope(
+    user: AuthenticatedUser,
+  ): NonNullable<AuthenticatedUser['student']> | null {
+    if (user.role !== UserRole.STUDENT) {
+      return null;
+    }
+
+    if (!user.student) {
+      throw new ForbiddenException('No student profile linked to this account');
+    }
+
+    return user.student;
+  }
+
+  /**
+   * Teaching assignments the user may see: their own, or those of their
+   * classroom for students
+   */
+  assignmentScope(
+    user: AuthenticatedUser,
+  ): Prisma.TeachingAssignmentWhereInput {
+    const teacherId = this.getTeacherScope(user);
+    if (teacherId) {
+      return { teacherId };
+    }
+
+    const student = this.getStudentScope(user);
+    return student ? { classroomId: student.classroomId } : {};
+  }
+
+  /**
+   * Classrooms the user may see: those with one of their assignments, or
+   * their own for students
+   */
+  classroomScope(user: AuthenticatedUser): Prisma.ClassroomWhereInput {
+    const teacherId = this.getTeacherScope(user);
+    if (teacherId) {
+      return { teachingAssignments: { some: { teacherId } } };
+    }
+
+    const student = this.getStudentScope(user);
+    return student ? { id: student.classroomId } : {};
+  }
+
+  /**
+   * Subjects the user may see: those of assignments they may see
+   */
+  subjectScope(user: AuthenticatedUser): Prisma.SubjectWhereInput {
+    return this.isRestricted(user)
+      ? { teachingAssignments: { some: this.assignmentScope(user) } }
+      : {};
+  }
+
+  /**
+   * Students the user may see: those of classrooms they may see, or only
+   * themselves for students
+   */
+  studentScope(user: AuthenticatedUser): Prisma.StudentWhereInput {
+    if (this.getTeacherScope(user)) {
+      return { classroom: this.classroomScope(user) };
+    }
+
+    const student = this.getStudentScope(user);
+    return student ? { id: student.id } : {};
+  }
+
+  /**
+   * Ensure the user may act on resources of a teacher's assignment
+   * Students own no assignment
+   */
+  assertTeacherOwns(user: AuthenticatedUser, teacherId: string): void {
+    const scope = this.getTeacherScope(user);
+
+    if ((scope && scope !== teacherId) || this.getStudentScope(user)) {
+      throw new ForbiddenException(
+        'You can only access your own teaching assignments',
+      );
+    }
+  }
+
+  /**
+   * Ensure the user may access a teaching assignment
+   */
+  async assertAssignmentAccess(
+    user: AuthenticatedUser,
+    assignmentId: string,
+  ): Promise<void> {
+    if (!this.isRestricted(user)) {
+      return;
+    }
+
+    const count = await this.prisma.teachingAssignment.count({
+      where: { AND: [{ id: assignmentId }, this.assignmentScope(user)] },
+    });
+
+    if (count === 0) {
+      throw new ForbiddenException(
+        'You can only access your own teaching assignments',
+      );
+    }
+  }
+
+  /**
+   * Ensure the user may access a classroom, given by ID or unique filter
+   */
+  async assertClassroomAccess(
+    user: AuthenticatedUser,
+    classroom: string | Prisma.ClassroomWhereInput,
+  ): Promise<void> {
+    if (!this.isRestricted(user)) {
+      return;
+    }
+
+    const count = await this.prisma.classroom.count({
+      where: {
+        AND: [
+          typeof classroom === 'string' ? { id: classroom } : classroom,
+          this.classroomScope(user),
+        ],
+      },
+    });
+
+    if (count === 0) {
+      throw new ForbiddenException('You can only access classrooms you teach');
+    }
+  }
+
+  /**
+   * Ensure the user may access a subject
+   */
+  async assertSubjectAccess(
+    user: AuthenticatedUser,
+    subjectId: string,
+  ): Promise<void> {
+    if (!this.isRestricted(user)) {
+      return;
+    }
+
+    const count = await this.prisma.subject.count({
+      where: { AND: [{ id: subjectId }, this.subjectScope(user)] },
+    });
+
+    if (count === 0) {
+      throw new ForbiddenException('You can only access subjects you teach');
+    }
+  }
+
+  /**
+   * Ensure the user may access a student, given by ID or unique filter
+   */
+  async assertStudentAccess(
+    user: AuthenticatedUser,
+    student: string | Prisma.StudentWhereInput,
+  ): Promise<void> {
+    if (!this.isRestricted(user)) {
+      return;
+    }
+
+    const count = await this.prisma.student.count({
+      where: {
+        AND: [
+          typeof student === 'string' ? { id: student } : student,
+          this.studentScope(user),
+        ],
+      },
+    });
+
+    if (count === 0) {
+      throw new ForbiddenException(
+        this.getStudentScope(user)
+          ? 'You can only access your own records'
+          : 'You can only access students of classrooms you teach',
+      );
+    }
+  }
+
+  /**
+   * Whether the user is limited to a scope, i.e. is not an admin
+   */
+  private isRestricted(user: AuthenticatedUser): boolean {
+    return (
+      this.getTeacherScope(user) !== null || this.getStudentScope(user) !== null
+    );
+  }
+}
@@ -5,14 +5,17 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { APP_GUARD } from '@nestjs/core';
 
 import { AuthService } from './auth.service';
+import { AccessPolicyService } from './access-policy.service';
+import { SecretCipherService } from './secret-cipher.service';
 import { AuthController } from './auth.controller';
-import { JwtStrategy, LocalStrategy } from './strategies';
+import { JwtStrategy, LocalStrategy, DeviceStrategy } from './strategies';
 import { JwtAuthGuard } from './guards';
 import { PrismaModule } from '../prisma/prisma.module';
 
 /**
  * Authentication Module
- * Configures JWT, Passport, and authentication services
+ * Configures JWT, Passport, authentication services and resource-level
+ * access policies
  */
 @Module({
   imports: [
@@ -32,8 +35,11 @@ import { PrismaModule } from '../prisma/prisma.module';
   controllers: [AuthController],
   providers: [
     AuthService,
+    AccessPolicyService,
+    SecretCipherService,
     JwtStrategy,
     LocalStrategy,
+    DeviceStrategy,
     // Apply JwtAuthGuard globally to all routes
     // Routes can opt-out using @Public() decorator
     {
@@ -41,6 +47,6 @@ import { PrismaModule } from '../prisma/prisma.module';
       useClass: JwtAuthGuard,
     },
   ],
-  exports: [AuthService, JwtModule],
+  exports: [AuthService, AccessPolicyService, SecretCipherService, JwtModule],
 })
 export class AuthModule {}
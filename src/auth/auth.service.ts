@@ -7,10 +7,16 @@ import {
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
+import { randomBytes, createHmac, timingSafeEqual } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
+import { SecretCipherService } from './secret-cipher.service';
 import { RegisterDto, LoginDto, AuthResponseDto, UserResponseDto } from './dto';
-import { UserRole } from '@prisma/client';
+import { UserRole, DeviceStatus } from '@prisma/client';
 import { JwtPayload } from './strategies/jwt.strategy';
+import {
+  AuthenticatedDevice,
+  SignedDeviceRequest,
+} from './strategies/device.strategy';
 
 /**
  * Authentication Service
@@ -20,10 +26,17 @@ import { JwtPayload } from './strategies/jwt.strategy';
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
   private readonly SALT_ROUNDS = 10;
+  private readonly DEVICE_SECRET_BYTES = 32;
+  private readonly DEVICE_SIGNATURE_MAX_SKEW_SECONDS = 300;
+  private readonly DEVICE_NONCE_MAX_LENGTH = 64;
+
+  // Nonces of recent device requests, to reject replays
+  private readonly deviceNonces = new Map<string, number>();
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly jwtService: JwtService,
+    private readonly secretCipher: SecretCipherService,
   ) {}
 
   /**
@@ -173,6 +186,67 @@ export class AuthService {
     return result;
   }
 
+  /**
+   * Validate a signed device request
+   * Used by DeviceStrategy and the MQTT bridge. Inactive devices, stale
+   * timestamps and reused nonces are rejected.
+   */
+  async validateDevice(
+    deviceUid: string,
+    request: SignedDeviceRequest,
+  ): Promise<AuthenticatedDevice | null> {
+    const credentials = await this.prisma.ioTDevice.findUnique({
+      where: { deviceUid },
+      select: { status: true, secretCiphertext: true },
+    });
+
+    if (
+      !credentials?.secretCiphertext ||
+      credentials.status !== DeviceStatus.ACTIVE ||
+      !this.isFreshDeviceTimestamp(request.timestamp) ||
+      !request.nonce ||
+      request.nonce.length > this.DEVICE_NONCE_MAX_LENGTH
+    ) {
+      return null;
+    }
+
+    let secret: string;
+    try {
+      secret = this.secretCipher.decrypt(credentials.secretCiphertext);
+    } catch {
+      this.logger.error(
+        `Secret of device ${deviceUid} cannot be decrypted, provision a new one`,
+      );
+      return null;
+    }
+
+    const expectedSignature = this.signDeviceRequest(secret, request);
+
+    if (!this.safeEqual(request.signature, expectedSignature)) {
+      return null;
+    }
+
+    if (!this.claimDeviceNonce(deviceUid, request.nonce)) {
+      this.logger.warn(`Replayed request rejected for device ${deviceUid}`);
+      return null;
+    }
+
+    return this.prisma.ioTDevice.findUnique({
+      where: { deviceUid },
+      omit: { secretCiphertext: true },
+    });
+  }
+
+  /**
+   * Generate a new random device secret
+   * The secret is returned once to the caller; only its encrypted form is
+   * stored, to check signatures
+   */
+  generateDeviceSecret(): { secret: string; secretCiphertext: string } {
+    const secret = randomBytes(this.DEVICE_SECRET_BYTES).toString('base64url');
+    return { secret, secretCiphertext: this.secretCipher.encrypt(secret) };
+  }
+
   /**
    * Get user profile by ID
    */
@@ -250,6 +324,70 @@ export class AuthService {
     return bcrypt.compare(plainTextPassword, hashedPassword);
   }
 
+  /**
+   * Compute the expected signature of a device request
+   */
+  private signDeviceRequest(
+    secret: string,
+    request: SignedDeviceRequest,
+  ): string {
+    const signedContent = `${request.timestamp}.${request.nonce}.${request.target}.${request.body}`;
+    return `sha256=${createHmac('sha256', secret).update(signedContent).digest('hex')}`;
+  }
+
+  /**
+   * Check a device timestamp (unix seconds) against the allowed clock skew
+   */
+  private isFreshDeviceTimestamp(timestamp: string): boolean {
+    if (!/^\d+$/.test(timestamp)) {
+      return false;
+    }
+
+    const skewSeconds = Math.abs(Date.now() / 1000 - Number(timestamp));
+    return skewSeconds <= this.DEVICE_SIGNATURE_MAX_SKEW_SECONDS;
+  }
+
+  /**
+   * Remember a nonce for as long as its request could still be accepted
+   * Returns false when the nonce was already used by the device
+   */
+  private claimDeviceNonce(deviceUid: string, nonce: string): boolean {
+    const now = Date.now();
+
+    // Nonces are stored in expiry order, drop the expired ones first
+    for (const [key, expiresAt] of this.deviceNonces) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.deviceNonces.delete(key);
+    }
+
+    const key = `${deviceUid}:${nonce}`;
+    if (this.deviceNonces.has(key)) {
+      return false;
+    }
+
+    // A timestamp up to the skew in the future stays valid twice as long
+    this.deviceNonces.set(
+      key,
+      now + 2 * this.DEVICE_SIGNATURE_MAX_SKEW_SECONDS * 1000,
+    );
+    return true;
+  }
+
+  /**
+   * Compare two strings in constant time
+   */
+  private safeEqual(received: string, expected: string): boolean {
+    const receivedBuffer = Buffer.from(received);
+    const expectedBuffer = Buffer.from(expected);
+
+    return (
+      receivedBuffer.length === expectedBuffer.length &&
+      timingSafeEqual(receivedBuffer, expectedBuffer)
+    );
+  }
+
   /**
    * Remove sensitive data from user object
    */
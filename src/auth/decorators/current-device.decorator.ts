@@ -0,0 +1,24 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+/**
+ * Current Device Decorator
+ * Extracts the authenticated IoT device from the request
+ * Only meaningful on routes protected with @DeviceAuth()
+ *
+ * @example
+ * @DeviceAuth()
+ * @Get('me')
+ * whoAmI(@CurrentDevice() device: IoTDevice) {
+ *   return device;
+ * }
+ */
+export const CurrentDevice = createParamDecorator(
+  (data: string | undefined, ctx: ExecutionContext) => {
+    const request = ctx
+      .switchToHttp()
+      .getRequest<{ user?: Record<string, unknown> }>();
+    const device = request.user;
+
+    return data ? device?.[data] : device;
+  },
+);
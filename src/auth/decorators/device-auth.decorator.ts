@@ -0,0 +1,27 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { ApiSecurity, ApiUnauthorizedResponse } from '@nestjs/swagger';
+import { Public } from './public.decorator';
+import { DeviceAuthGuard } from '../guards/device-auth.guard';
+
+/**
+ * Device Auth Decorator
+ * Marks a route as device-facing: user JWT authentication is skipped
+ * and the caller must authenticate as an IoT device instead
+ *
+ * @example
+ * @DeviceAuth()
+ * @Post('scan')
+ * scan(@CurrentDevice() device: IoTDevice) { ... }
+ */
+export const DeviceAuth = () =>
+  applyDecorators(
+    Public(),
+    UseGuards(DeviceAuthGuard),
+    ApiSecurity('device-uid'),
+    ApiSecurity('device-timestamp'),
+    ApiSecurity('device-nonce'),
+    ApiSecurity('device-signature'),
+    ApiUnauthorizedResponse({
+      description: 'Missing or invalid device credentials',
+    }),
+  );
@@ -1,4 +1,6 @@
 export * from './public.decorator';
 export * from './roles.decorator';
 export * from './current-user.decorator';
+export * from './device-auth.decorator';
+export * from './current-device.decorator';
 
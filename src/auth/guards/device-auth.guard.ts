@@ -0,0 +1,9 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Device Authentication Guard
+ * Used for device-facing endpoints to validate device request signatures
+ */
+@Injectable()
+export class DeviceAuthGuard extends AuthGuard('device') {}
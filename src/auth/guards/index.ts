@@ -1,4 +1,5 @@
 export * from './jwt-auth.guard';
 export * from './local-auth.guard';
 export * from './roles.guard';
+export * from './device-auth.guard';
 
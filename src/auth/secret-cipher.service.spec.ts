@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { SecretCipherService } from './secret-cipher.service';
+
+describe('SecretCipherService', () => {
+  let service: SecretCipherService;
+  let config: Record<string, string>;
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SecretCipherService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<SecretCipherService>(SecretCipherService);
+  };
+
+  beforeEach(async () => {
+    config = { SECRET_ENCRYPTION_KEY: randomBytes(32).toString('base64') };
+    service = await createService();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('decrypts what it encrypted', () => {
+    const encrypted = service.encrypt('device-secret');
+
+    expect(encrypted).toMatch(/^v1\./);
+    expect(encrypted).not.toContain('device-secret');
+    expect(service.decrypt(encrypted)).toBe('device-secret');
+  });
+
+  it('encrypts the same secret differently each time', () => {
+    expect(service.encrypt('device-secret')).not.toBe(
+      service.encrypt('device-secret'),
+    );
+  });
+
+  it('rejects tampered values', () => {
+    const [version, iv, tag, ciphertext] = service
+      .encrypt('device-secret')
+      .split('.');
+    const tampered = Buffer.from(ciphertext, 'base64url');
+    tampered[0] ^= 1;
+
+    expect(() =>
+      service.decrypt(
+        [version, iv, tag, tampered.toString('base64url')].join('.'),
+      ),
+    ).toThrow();
+    expect(() => service.decrypt('device-secret')).toThrow(
+      'Malformed encrypted secret',
+    );
+  });
+
+  it('rejects values encrypted with another key', async () => {
+    const encrypted = service.encrypt('device-secret');
+    config = { SECRET_ENCRYPTION_KEY: randomBytes(32).toString('base64') };
+    const otherService = await createService();
+
+    expect(() => otherService.decrypt(encrypted)).toThrow();
+  });
+
+  it('refuses keys that are not 32 bytes', async () => {
+    config = { SECRET_ENCRYPTION_KEY: randomBytes(16).toString('base64') };
+
+    await expect(createService()).rejects.toThrow(
+      'SECRET_ENCRYPTION_KEY must be 32 bytes encoded in base64',
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+/**
+ * Secret Cipher Service
+ * Encrypts the signing keys the server has to read back (device and webhook
+ * secrets) with AES-256-GCM, so a database dump alone does not leak them
+ * The key is SECRET_ENCRYPTION_KEY, 32 random bytes in base64
+ */
+@Injectable()
+export class SecretCipherService {
+  private readonly logger = new Logger(SecretCipherService.name);
+  private readonly ALGORITHM = 'aes-256-gcm';
+  private readonly KEY_BYTES = 32;
+  private readonly IV_BYTES = 12;
+  private readonly VERSION = 'v1';
+  private readonly key: Buffer;
+
+  constructor(private readonly configService: ConfigService) {
+    this.key = this.loadKey();
+  }
+
+  /**
+   * Encrypt a secret as "v1.{iv}.{tag}.{ciphertext}" (base64url parts)
+   */
+  encrypt(secret: string): string {
+    const iv = randomBytes(this.IV_BYTES);
+    const cipher = createCipheriv(this.ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [this.VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map((part) =>
+        typeof part === 'string' ? part : part.toString('base64url'),
+      )
+      .join('.');
+  }
+
+  /**
+   * Decrypt a secret encrypted by encrypt()
+   * Throws when the value is malformed, was encrypted with another key or
+   * was tampered with
+   */
+  decrypt(encrypted: string): string {
+    const [version, iv, tag, ciphertext] = encrypted.split('.');
+
+    if (version !== this.VERSION || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Malformed encrypted secret');
+    }
+
+    const decipher = createDecipheriv(
+      this.ALGORITHM,
+      this.key,
+      Buffer.from(iv, 'base64url'),
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  /**
+   * Read the encryption key; outside production a key derived from the JWT
+   * secret is used when none is configured
+   */
+  private loadKey(): Buffer {
+    const configured = this.configService.get<string>('SECRET_ENCRYPTION_KEY');
+
+    if (configured) {
+      const key = Buffer.from(configured, 'base64');
+      if (key.length !== this.KEY_BYTES) {
+        throw new Error(
+          `SECRET_ENCRYPTION_KEY must be ${this.KEY_BYTES} bytes encoded in base64`,
+        );
+      }
+      return key;
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SECRET_ENCRYPTION_KEY is required in production');
+    }
+
+    this.logger.warn(
+      'SECRET_ENCRYPTION_KEY is not set, using a key derived from JWT_SECRET',
+    );
+    return createHash('sha256')
+      .update(
+        this.configService.get<string>('JWT_SECRET') ||
+          'your-secret-key-change-in-production',
+      )
+      .digest();
+  }
+}
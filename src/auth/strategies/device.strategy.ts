@@ -0,0 +1,80 @@
+import {
+  Injectable,
+  UnauthorizedException,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import { Request } from 'express';
+import { IoTDevice } from '@prisma/client';
+import { AuthService } from '../auth.service';
+
+/**
+ * Device credential headers
+ */
+export const DEVICE_UID_HEADER = 'x-device-uid';
+export const DEVICE_TIMESTAMP_HEADER = 'x-device-timestamp';
+export const DEVICE_NONCE_HEADER = 'x-device-nonce';
+export const DEVICE_SIGNATURE_HEADER = 'x-device-signature';
+
+/**
+ * Authenticated device attached to the request (secret stripped)
+ */
+export type AuthenticatedDevice = Omit<IoTDevice, 'secretCiphertext'>;
+
+/**
+ * Request signed by a device, over HTTP or MQTT
+ * The signature is "sha256=" followed by the hex HMAC-SHA256 of
+ * "{timestamp}.{nonce}.{target}.{body}" keyed with the device secret
+ */
+export interface SignedDeviceRequest {
+  timestamp: string;
+  nonce: string;
+  signature: string;
+  // "METHOD /path?query" over HTTP, the topic over MQTT
+  target: string;
+  body: string;
+}
+
+/**
+ * Device Strategy for Passport
+ * Authenticates IoT devices by their hardware UID and a request signature
+ * made with their provisioned secret
+ */
+@Injectable()
+export class DeviceStrategy extends PassportStrategy(Strategy, 'device') {
+  constructor(private readonly authService: AuthService) {
+    super();
+  }
+
+  /**
+   * Validates the device signature sent in request headers
+   * Called automatically by Passport when using DeviceAuthGuard
+   */
+  async validate(
+    request: RawBodyRequest<Request>,
+  ): Promise<AuthenticatedDevice> {
+    const deviceUid = request.header(DEVICE_UID_HEADER);
+    const timestamp = request.header(DEVICE_TIMESTAMP_HEADER);
+    const nonce = request.header(DEVICE_NONCE_HEADER);
+    const signature = request.header(DEVICE_SIGNATURE_HEADER);
+
+    if (!deviceUid || !timestamp || !nonce || !signature) {
+      throw new UnauthorizedException('Missing device credentials');
+    }
+
+    const device = await this.authService.validateDevice(deviceUid, {
+      timestamp,
+      nonce,
+      signature,
+      target: `${request.method} ${request.originalUrl}`,
+      body: request.rawBody?.toString('utf8') ?? '',
+    });
+
+    if (!device) {
+      throw new UnauthorizedException('Invalid device credentials');
+    }
+
+    return device;
+  }
+}
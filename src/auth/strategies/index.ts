@@ -1,3 +1,4 @@
 export * from './jwt.strategy';
 export * from './local.strategy';
+export * from './device.strategy';
 
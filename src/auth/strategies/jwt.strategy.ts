@@ -1,6 +1,7 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
-import { ExtractJwt, Strategy } from 'passport-jwt';
+import { ExtractJwt, JwtFromRequestFunction, Strategy } from 'passport-jwt';
+import { Request } from 'express';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ConfigService } from '@nestjs/config';
 
@@ -13,6 +14,31 @@ export interface JwtPayload {
   role: string;
 }
 
+/**
+ * Authenticated user attached to the request by the JWT strategy
+ */
+export type AuthenticatedUser = Awaited<ReturnType<JwtStrategy['validate']>>;
+
+/**
+ * Routes served as event streams, relative to the global prefix
+ */
+const EVENT_STREAM_PATH = /\/sessions\/[^/]+\/live\/?$/;
+
+/**
+ * Browsers cannot set headers on EventSource requests, so event streams may
+ * carry the token in the access_token query parameter instead
+ * Limited to event stream routes, so tokens are not accepted in URLs, where
+ * they end up in logs, anywhere else
+ */
+export const fromEventStreamQuery: JwtFromRequestFunction<Request> = (
+  request,
+) =>
+  request.method === 'GET' &&
+  EVENT_STREAM_PATH.test(request.path) &&
+  request.headers.accept?.includes('text/event-stream')
+    ? ExtractJwt.fromUrlQueryParameter('access_token')(request)
+    : null;
+
 /**
  * JWT Strategy for Passport
  * Validates JWT tokens and loads user from database
@@ -24,7 +50,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     private readonly configService: ConfigService,
   ) {
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        fromEventStreamQuery,
+      ]),
       ignoreExpiration: false,
       secretOrKey: configService.get<string>('JWT_SECRET') || 'your-secret-key-change-in-production',
     });
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ClassroomsController } from './classrooms.controller';
 import { ClassroomsService } from './classrooms.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
 
 describe('ClassroomsController', () => {
   let controller: ClassroomsController;
@@ -8,7 +9,10 @@ describe('ClassroomsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ClassroomsController],
-      providers: [ClassroomsService],
+      providers: [
+        ClassroomsService,
+        { provide: AccessPolicyService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<ClassroomsController>(ClassroomsController);
@@ -22,23 +22,30 @@ import {
   ApiConflictResponse,
   ApiNotFoundResponse,
   ApiCreatedResponse,
+  ApiForbiddenResponse,
 } from '@nestjs/swagger';
 import { ClassroomsService } from './classrooms.service';
 import { CreateClassroomDto, UpdateClassroomDto, ClassroomResponseDto } from './dto';
 import { JwtAuthGuard, RolesGuard } from '../auth/guards';
-import { Roles } from '../auth/decorators';
+import { Roles, CurrentUser } from '../auth/decorators';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
 import { UserRole } from '@prisma/client';
 
 /**
  * Classrooms Controller
  * Handles all classroom-related HTTP requests
+ * Teachers only see classrooms they have a teaching assignment in
  */
 @ApiTags('Classrooms')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('classrooms')
 export class ClassroomsController {
-  constructor(private readonly classroomsService: ClassroomsService) {}
+  constructor(
+    private readonly classroomsService: ClassroomsService,
+    private readonly accessPolicy: AccessPolicyService,
+  ) {}
 
   /**
    * Create a new classroom
@@ -69,7 +76,8 @@ export class ClassroomsController {
    */
   @ApiOperation({
     summary: 'Get all classrooms',
-    description: 'Retrieve all classrooms with optional filtering by level and department',
+    description:
+      'Retrieve all classrooms with optional filtering by level and department. Teachers only see classrooms they teach.',
   })
   @ApiQuery({
     name: 'level',
@@ -91,11 +99,16 @@ export class ClassroomsController {
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get()
   findAll(
+    @CurrentUser() user: AuthenticatedUser,
     @Query('level') level?: string,
     @Query('department') department?: string,
   ): Promise<ClassroomResponseDto[]> {
     const levelNum = level ? parseInt(level, 10) : undefined;
-    return this.classroomsService.findAll(levelNum, department);
+    return this.classroomsService.findAll(
+      levelNum,
+      department,
+      this.accessPolicy.classroomScope(user),
+    );
   }
 
   /**
@@ -103,7 +116,7 @@ export class ClassroomsController {
    */
   @ApiOperation({
     summary: 'Get total classroom count',
-    description: 'Get the total number of classrooms',
+    description: 'Get the total number of classrooms visible to the caller',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -114,8 +127,10 @@ export class ClassroomsController {
   })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('count')
-  async count(): Promise<{ count: number }> {
-    const count = await this.classroomsService.count();
+  async count(@CurrentUser() user: AuthenticatedUser): Promise<{ count: number }> {
+    const count = await this.classroomsService.count(
+      this.accessPolicy.classroomScope(user),
+    );
     return { count };
   }
 
@@ -148,9 +163,16 @@ export class ClassroomsController {
   @ApiNotFoundResponse({
     description: 'Classroom not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access classrooms they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id/statistics')
-  getStatistics(@Param('id') id: string) {
+  async getStatistics(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.accessPolicy.assertClassroomAccess(user, id);
     return this.classroomsService.getStatistics(id);
   }
 
@@ -173,9 +195,16 @@ export class ClassroomsController {
   @ApiNotFoundResponse({
     description: 'Classroom not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access classrooms they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id/students')
-  getStudents(@Param('id') id: string) {
+  async getStudents(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.accessPolicy.assertClassroomAccess(user, id);
     return this.classroomsService.getStudents(id);
   }
 
@@ -198,10 +227,20 @@ export class ClassroomsController {
   @ApiNotFoundResponse({
     description: 'Classroom not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access classrooms they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id/assignments')
-  getTeachingAssignments(@Param('id') id: string) {
-    return this.classroomsService.getTeachingAssignments(id);
+  async getTeachingAssignments(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.accessPolicy.assertClassroomAccess(user, id);
+    return this.classroomsService.getTeachingAssignments(
+      id,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -224,10 +263,20 @@ export class ClassroomsController {
   @ApiNotFoundResponse({
     description: 'Classroom not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access classrooms they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('name/:name')
-  findByName(@Param('name') name: string): Promise<ClassroomResponseDto> {
-    return this.classroomsService.findByName(name);
+  async findByName(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('name') name: string,
+  ): Promise<ClassroomResponseDto> {
+    await this.accessPolicy.assertClassroomAccess(user, { name });
+    return this.classroomsService.findByName(
+      name,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -250,10 +299,17 @@ export class ClassroomsController {
   @ApiNotFoundResponse({
     description: 'Classroom not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access classrooms they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id')
-  findOne(@Param('id') id: string): Promise<ClassroomResponseDto> {
-    return this.classroomsService.findOne(id);
+  async findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<ClassroomResponseDto> {
+    await this.accessPolicy.assertClassroomAccess(user, id);
+    return this.classroomsService.findOne(id, this.accessPolicy.assignmentScope(user));
   }
 
   /**
@@ -2,13 +2,14 @@ import { Module } from '@nestjs/common';
 import { ClassroomsService } from './classrooms.service';
 import { ClassroomsController } from './classrooms.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
 
 /**
  * Classrooms Module
  * Handles classroom management functionality
  */
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AuthModule],
   controllers: [ClassroomsController],
   providers: [ClassroomsService],
   exports: [ClassroomsService],
@@ -5,6 +5,7 @@ import {
   BadRequestException,
   Logger,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateClassroomDto, UpdateClassroomDto, ClassroomResponseDto } from './dto';
 
@@ -52,8 +53,13 @@ export class ClassroomsService {
 
   /**
    * Find all classrooms with optional filtering
+   * The scope restricts the result to classrooms the caller may see
    */
-  async findAll(level?: number, department?: string): Promise<ClassroomResponseDto[]> {
+  async findAll(
+    level?: number,
+    department?: string,
+    scope: Prisma.ClassroomWhereInput = {},
+  ): Promise<ClassroomResponseDto[]> {
     const where: any = {};
     
     if (level !== undefined) {
@@ -65,7 +71,7 @@ export class ClassroomsService {
     }
 
     const classrooms = await this.prisma.classroom.findMany({
-      where,
+      where: { AND: [where, scope] },
       include: {
         _count: {
           select: {
@@ -85,8 +91,12 @@ export class ClassroomsService {
 
   /**
    * Find a classroom by ID
+   * Only teaching assignments within the scope are included
    */
-  async findOne(id: string): Promise<ClassroomResponseDto> {
+  async findOne(
+    id: string,
+    assignmentScope: Prisma.TeachingAssignmentWhereInput = {},
+  ): Promise<ClassroomResponseDto> {
     const classroom = await this.prisma.classroom.findUnique({
       where: { id },
       include: {
@@ -101,6 +111,7 @@ export class ClassroomsService {
           },
         },
         teachingAssignments: {
+          where: assignmentScope,
           include: {
             teacher: {
               select: {
@@ -129,8 +140,12 @@ export class ClassroomsService {
 
   /**
    * Find classroom by name
+   * Only teaching assignments within the scope are included
    */
-  async findByName(name: string): Promise<ClassroomResponseDto> {
+  async findByName(
+    name: string,
+    assignmentScope: Prisma.TeachingAssignmentWhereInput = {},
+  ): Promise<ClassroomResponseDto> {
     const classroom = await this.prisma.classroom.findUnique({
       where: { name },
       include: {
@@ -142,6 +157,7 @@ export class ClassroomsService {
           },
         },
         teachingAssignments: {
+          where: assignmentScope,
           include: {
             teacher: {
               select: {
@@ -334,12 +350,17 @@ export class ClassroomsService {
 
   /**
    * Get teaching assignments for a classroom
+   * Only teaching assignments within the scope are returned
    */
-  async getTeachingAssignments(classroomId: string) {
+  async getTeachingAssignments(
+    classroomId: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ) {
     const classroom = await this.prisma.classroom.findUnique({
       where: { id: classroomId },
       include: {
         teachingAssignments: {
+          where: scope,
           include: {
             teacher: {
               select: {
@@ -404,8 +425,10 @@ export class ClassroomsService {
   /**
    * Get total classroom count
    */
-  async count(): Promise<number> {
-    return this.prisma.classroom.count();
+  async count(scope: Prisma.ClassroomWhereInput = {}): Promise<number> {
+    return this.prisma.classroom.count({
+      where: scope,
+    });
   }
 
   /**
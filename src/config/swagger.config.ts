@@ -33,6 +33,19 @@ This API uses **Bearer Token** authentication. To access protected endpoints:
 
 All protected endpoints will now include your authentication token.
 
+## Device Authentication
+
+Device-facing endpoints (used by RFID/NFC readers) do not accept user tokens.
+Devices sign every request with the secret provisioned by an admin with
+\`POST /api/devices/{id}/secret\` (shown only once) and send four headers:
+
+- \`X-Device-Uid\` - the device hardware UID
+- \`X-Device-Timestamp\` - the current time in unix seconds, within 5 minutes of the server clock
+- \`X-Device-Nonce\` - a random value used only once (at most 64 characters)
+- \`X-Device-Signature\` - \`sha256=\` followed by the hex HMAC-SHA256 of
+  \`{timestamp}.{nonce}.{METHOD} {path}.{body}\` keyed with the secret,
+  where path includes the \`/api\` prefix and query string and body is the raw request body
+
 ## Password Requirements
 
 - Minimum 8 characters
@@ -64,6 +77,22 @@ All protected endpoints will now include your authentication token.
     .addServer('http://localhost:3000', 'Local Development Server')
     .addServer('https://api.esprit-attendance.com', 'Production Server')
     .addBearerAuth() // Uses default 'bearer' scheme name that matches @ApiBearerAuth() decorator
+    .addApiKey(
+      { type: 'apiKey', in: 'header', name: 'X-Device-Uid' },
+      'device-uid',
+    )
+    .addApiKey(
+      { type: 'apiKey', in: 'header', name: 'X-Device-Timestamp' },
+      'device-timestamp',
+    )
+    .addApiKey(
+      { type: 'apiKey', in: 'header', name: 'X-Device-Nonce' },
+      'device-nonce',
+    )
+    .addApiKey(
+      { type: 'apiKey', in: 'header', name: 'X-Device-Signature' },
+      'device-signature',
+    )
     .addTag('Authentication', 'User authentication and authorization endpoints')
     .addTag('Students', 'Student management endpoints')
     .addTag('Teachers', 'Teacher management endpoints')
@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BadRequestException } from '@nestjs/common';
+import { DeviceCommandStatus, DeviceCommandType } from '@prisma/client';
+import { DeviceCommandsService } from './device-commands.service';
+import { DevicesService } from './devices.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('DeviceCommandsService', () => {
+  let service: DeviceCommandsService;
+
+  const studentId = '770e8400-e29b-41d4-a716-446655440000';
+
+  const prisma = {
+    ioTDevice: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    deviceCommand: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateManyAndReturn: jest.fn(),
+    },
+  };
+
+  const devicesService = {
+    startEnrollment: jest.fn(),
+  };
+
+  const enrollmentCommand = {
+    id: 'command-1',
+    deviceId: 'device-1',
+    type: DeviceCommandType.ENTER_ENROLLMENT,
+    payload: { studentId },
+    status: DeviceCommandStatus.DELIVERED,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.ioTDevice.findUnique.mockResolvedValue({ deviceUid: 'READER-01' });
+    prisma.deviceCommand.create.mockImplementation(
+      ({ data }: { data: object }) => ({ id: 'command-1', ...data }),
+    );
+    prisma.deviceCommand.updateManyAndReturn.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeviceCommandsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+        { provide: DevicesService, useValue: devicesService },
+      ],
+    }).compile();
+
+    service = module.get<DeviceCommandsService>(DeviceCommandsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('enqueue', () => {
+    it('requires the student of an ENTER_ENROLLMENT command', async () => {
+      await expect(
+        service.enqueue('device-1', {
+          type: DeviceCommandType.ENTER_ENROLLMENT,
+          payload: { timeoutSeconds: 60 },
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(devicesService.startEnrollment).not.toHaveBeenCalled();
+      expect(prisma.deviceCommand.create).not.toHaveBeenCalled();
+    });
+
+    it('starts the enrollment and expires the command with it', async () => {
+      const enrollmentExpiresAt = new Date(Date.now() + 60_000);
+      devicesService.startEnrollment.mockResolvedValue({
+        enrollmentExpiresAt,
+      });
+
+      await service.enqueue('device-1', {
+        type: DeviceCommandType.ENTER_ENROLLMENT,
+        payload: { studentId, timeoutSeconds: 60 },
+      });
+
+      expect(devicesService.startEnrollment).toHaveBeenCalledWith('device-1', {
+        studentId,
+        timeoutSeconds: 60,
+      });
+      expect(prisma.deviceCommand.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          expiresAt: enrollmentExpiresAt,
+        }) as object,
+      });
+    });
+  });
+
+  describe('poll', () => {
+    it('returns only the commands it claimed, oldest first', async () => {
+      const newer = { id: 'newer', createdAt: new Date('2026-10-19T10:05Z') };
+      const older = { id: 'older', createdAt: new Date('2026-10-19T10:00Z') };
+      prisma.deviceCommand.updateManyAndReturn
+        .mockResolvedValueOnce([]) // Expiry
+        .mockResolvedValueOnce([newer, older]);
+
+      const commands = await service.poll('device-1');
+
+      expect(commands).toEqual([older, newer]);
+      expect(prisma.deviceCommand.updateManyAndReturn).toHaveBeenLastCalledWith(
+        {
+          where: expect.objectContaining({
+            deviceId: 'device-1',
+            status: DeviceCommandStatus.PENDING,
+          }) as object,
+          data: expect.objectContaining({
+            status: DeviceCommandStatus.DELIVERED,
+          }) as object,
+        },
+      );
+    });
+
+    it('clears the enrollment of expired ENTER_ENROLLMENT commands', async () => {
+      prisma.deviceCommand.updateManyAndReturn
+        .mockResolvedValueOnce([
+          { ...enrollmentCommand, status: DeviceCommandStatus.EXPIRED },
+        ])
+        .mockResolvedValueOnce([]);
+
+      await service.poll('device-1');
+
+      expect(prisma.ioTDevice.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'device-1',
+          enrollmentStudentId: { in: [studentId] },
+        },
+        data: { enrollmentStudentId: null, enrollmentExpiresAt: null },
+      });
+    });
+  });
+
+  describe('acknowledge', () => {
+    it.each([true, false])(
+      'clears the enrollment once ENTER_ENROLLMENT is reported (success: %s)',
+      async (success) => {
+        prisma.deviceCommand.findFirst.mockResolvedValue(enrollmentCommand);
+        prisma.deviceCommand.update.mockResolvedValue(enrollmentCommand);
+
+        await service.acknowledge('device-1', 'command-1', { success });
+
+        expect(prisma.ioTDevice.updateMany).toHaveBeenCalledWith({
+          where: {
+            id: 'device-1',
+            enrollmentStudentId: { in: [studentId] },
+          },
+          data: { enrollmentStudentId: null, enrollmentExpiresAt: null },
+        });
+      },
+    );
+
+    it('leaves the enrollment alone for other commands', async () => {
+      prisma.deviceCommand.findFirst.mockResolvedValue({
+        ...enrollmentCommand,
+        type: DeviceCommandType.REBOOT,
+      });
+
+      await service.acknowledge('device-1', 'command-1', { success: true });
+
+      expect(prisma.ioTDevice.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
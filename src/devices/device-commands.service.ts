@@ -0,0 +1,360 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { isUUID } from 'class-validator';
+import { DeviceCommandStatus, DeviceCommandType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DevicesService } from './devices.service';
+import {
+  EnqueueDeviceCommandDto,
+  AcknowledgeDeviceCommandDto,
+  DeviceCommandResponseDto,
+} from './dto';
+
+/**
+ * Emitted after a command is queued
+ */
+export const DEVICE_COMMAND_QUEUED_EVENT = 'device.command.queued';
+
+/**
+ * Payload of the command queued event
+ */
+export interface DeviceCommandQueuedEvent {
+  deviceUid: string;
+  command: DeviceCommandResponseDto;
+}
+
+/**
+ * Device Commands Service
+ * Handles the per-device queue of remote commands
+ * Lifecycle: PENDING → DELIVERED (fetched by the reader) → ACKNOWLEDGED or
+ * FAILED (reported by the reader). Commands not fetched before they expire
+ * become EXPIRED.
+ * ENTER_ENROLLMENT commands carry the enrollment started by
+ * DevicesService.startEnrollment; it is cleared once the reader reports the
+ * command (after leaving enrollment mode) or the command expires.
+ */
+@Injectable()
+export class DeviceCommandsService {
+  private readonly logger = new Logger(DeviceCommandsService.name);
+  private readonly DEFAULT_TTL_SECONDS = 3600;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly devicesService: DevicesService,
+  ) {}
+
+  /**
+   * Queue a command for a device
+   */
+  async enqueue(
+    deviceId: string,
+    enqueueDto: EnqueueDeviceCommandDto,
+    issuedById?: string,
+  ): Promise<DeviceCommandResponseDto> {
+    const { type, payload, ttlSeconds } = enqueueDto;
+
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id: deviceId },
+      select: { deviceUid: true },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${deviceId} not found`);
+    }
+
+    this.validatePayload(type, payload);
+
+    let expiresAt = new Date(
+      Date.now() + (ttlSeconds ?? this.DEFAULT_TTL_SECONDS) * 1000,
+    );
+
+    if (type === DeviceCommandType.ENTER_ENROLLMENT) {
+      const { enrollmentExpiresAt } = await this.devicesService.startEnrollment(
+        deviceId,
+        {
+          studentId: payload!.studentId as string,
+          timeoutSeconds: payload!.timeoutSeconds as number | undefined,
+        },
+      );
+
+      // Delivered after the enrollment window, the command would be useless
+      if (enrollmentExpiresAt && enrollmentExpiresAt < expiresAt) {
+        expiresAt = enrollmentExpiresAt;
+      }
+    }
+
+    const command = await this.prisma.deviceCommand.create({
+      data: {
+        deviceId,
+        type,
+        payload: payload as Prisma.InputJsonObject | undefined,
+        issuedById,
+        expiresAt,
+      },
+    });
+
+    this.logger.log(
+      `Command ${type} queued for ${device.deviceUid} (${command.id})`,
+    );
+
+    // Lets push transports (MQTT) deliver without waiting for a poll
+    this.eventEmitter.emit(DEVICE_COMMAND_QUEUED_EVENT, {
+      deviceUid: device.deviceUid,
+      command,
+    } satisfies DeviceCommandQueuedEvent);
+
+    return command;
+  }
+
+  /**
+   * Get the commands of a device, newest first
+   */
+  async findForDevice(
+    deviceId: string,
+    status?: DeviceCommandStatus,
+  ): Promise<DeviceCommandResponseDto[]> {
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id: deviceId },
+      select: { id: true },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${deviceId} not found`);
+    }
+
+    await this.expireOverdue(deviceId);
+
+    return this.prisma.deviceCommand.findMany({
+      where: {
+        deviceId,
+        ...(status && { status }),
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Hand pending commands to the polling device
+   * Commands are claimed with a single UPDATE … RETURNING, so concurrent polls
+   * (HTTP and MQTT) never hand out the same command twice
+   */
+  async poll(deviceId: string): Promise<DeviceCommandResponseDto[]> {
+    const now = new Date();
+
+    await this.expireOverdue(deviceId, now);
+
+    const commands = await this.prisma.deviceCommand.updateManyAndReturn({
+      where: {
+        deviceId,
+        status: DeviceCommandStatus.PENDING,
+        expiresAt: { gt: now },
+      },
+      data: {
+        status: DeviceCommandStatus.DELIVERED,
+        deliveredAt: now,
+      },
+    });
+
+    return commands.sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+  }
+
+  /**
+   * Mark a single pending command DELIVERED after it was pushed to its device
+   * Returns the delivered command, or null when it was no longer pending
+   */
+  async markDelivered(
+    commandId: string,
+  ): Promise<DeviceCommandResponseDto | null> {
+    const { count } = await this.prisma.deviceCommand.updateMany({
+      where: {
+        id: commandId,
+        status: DeviceCommandStatus.PENDING,
+        expiresAt: { gt: new Date() },
+      },
+      data: {
+        status: DeviceCommandStatus.DELIVERED,
+        deliveredAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return this.prisma.deviceCommand.findUnique({
+      where: { id: commandId },
+    });
+  }
+
+  /**
+   * Record the result of a delivered command reported by its device
+   */
+  async acknowledge(
+    deviceId: string,
+    commandId: string,
+    acknowledgeDto: AcknowledgeDeviceCommandDto,
+  ): Promise<DeviceCommandResponseDto> {
+    const command = await this.prisma.deviceCommand.findFirst({
+      where: {
+        id: commandId,
+        deviceId,
+      },
+    });
+
+    if (!command) {
+      throw new NotFoundException(`Command with ID ${commandId} not found`);
+    }
+
+    if (command.status !== DeviceCommandStatus.DELIVERED) {
+      throw new ConflictException(
+        `Command ${commandId} is ${command.status} and cannot be acknowledged`,
+      );
+    }
+
+    const status = acknowledgeDto.success
+      ? DeviceCommandStatus.ACKNOWLEDGED
+      : DeviceCommandStatus.FAILED;
+
+    const updatedCommand = await this.prisma.deviceCommand.update({
+      where: { id: commandId },
+      data: {
+        status,
+        acknowledgedAt: new Date(),
+        result: acknowledgeDto.result,
+      },
+    });
+
+    if (command.type === DeviceCommandType.ENTER_ENROLLMENT) {
+      await this.clearEnrollments(deviceId, [command]);
+    }
+
+    if (status === DeviceCommandStatus.FAILED) {
+      this.logger.warn(
+        `Command ${command.type} failed on device ${deviceId}: ${acknowledgeDto.result ?? 'no details'}`,
+      );
+    }
+
+    return updatedCommand;
+  }
+
+  /**
+   * Mark commands never fetched before their expiry as EXPIRED
+   */
+  private async expireOverdue(
+    deviceId: string,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const expiredCommands = await this.prisma.deviceCommand.updateManyAndReturn(
+      {
+        where: {
+          deviceId,
+          status: DeviceCommandStatus.PENDING,
+          expiresAt: { lte: now },
+        },
+        data: {
+          status: DeviceCommandStatus.EXPIRED,
+        },
+      },
+    );
+
+    await this.clearEnrollments(
+      deviceId,
+      expiredCommands.filter(
+        (command) => command.type === DeviceCommandType.ENTER_ENROLLMENT,
+      ),
+    );
+  }
+
+  /**
+   * Take the device out of the enrollment started by ENTER_ENROLLMENT
+   * commands, unless a later enrollment for another student replaced it
+   */
+  private async clearEnrollments(
+    deviceId: string,
+    commands: { payload: Prisma.JsonValue }[],
+  ): Promise<void> {
+    const studentIds = commands
+      .map(
+        ({ payload }) => (payload as { studentId?: unknown } | null)?.studentId,
+      )
+      .filter(
+        (studentId): studentId is string => typeof studentId === 'string',
+      );
+
+    if (studentIds.length === 0) {
+      return;
+    }
+
+    await this.prisma.ioTDevice.updateMany({
+      where: {
+        id: deviceId,
+        enrollmentStudentId: { in: studentIds },
+      },
+      data: {
+        enrollmentStudentId: null,
+        enrollmentExpiresAt: null,
+      },
+    });
+  }
+
+  /**
+   * Check the payload carries what the reader needs for the command type
+   */
+  private validatePayload(
+    type: DeviceCommandType,
+    payload?: Record<string, unknown>,
+  ): void {
+    switch (type) {
+      case DeviceCommandType.DISPLAY_MESSAGE:
+        if (
+          typeof payload?.message !== 'string' ||
+          payload.message.trim() === ''
+        ) {
+          throw new BadRequestException(
+            'DISPLAY_MESSAGE requires a non-empty "message" in the payload',
+          );
+        }
+        break;
+      case DeviceCommandType.UPDATE_CONFIG:
+        if (!payload || Object.keys(payload).length === 0) {
+          throw new BadRequestException(
+            'UPDATE_CONFIG requires at least one setting in the payload',
+          );
+        }
+        break;
+      case DeviceCommandType.ENTER_ENROLLMENT:
+        if (
+          typeof payload?.studentId !== 'string' ||
+          !isUUID(payload.studentId)
+        ) {
+          throw new BadRequestException(
+            'ENTER_ENROLLMENT requires the "studentId" (UUID) of the student to enroll a card for',
+          );
+        }
+        if (
+          payload.timeoutSeconds !== undefined &&
+          (!Number.isInteger(payload.timeoutSeconds) ||
+            (payload.timeoutSeconds as number) < 10 ||
+            (payload.timeoutSeconds as number) > 900)
+        ) {
+          throw new BadRequestException(
+            'ENTER_ENROLLMENT "timeoutSeconds" must be an integer between 10 and 900',
+          );
+        }
+        break;
+      default:
+        break;
+    }
+  }
+}
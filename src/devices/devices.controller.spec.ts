@@ -1,6 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { DevicesController } from './devices.controller';
 import { DevicesService } from './devices.service';
+import { DeviceCommandsService } from './device-commands.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { TimetableService } from '../timetable/timetable.service';
 
 describe('DevicesController', () => {
   let controller: DevicesController;
@@ -8,7 +14,15 @@ describe('DevicesController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [DevicesController],
-      providers: [DevicesService],
+      providers: [
+        DevicesService,
+        DeviceCommandsService,
+        { provide: PrismaService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: TimetableService, useValue: {} },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
     }).compile();
 
     controller = module.get<DevicesController>(DevicesController);
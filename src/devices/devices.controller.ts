@@ -1,7 +1,776 @@
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  ParseEnumPipe,
+  Ip,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiNotFoundResponse,
+  ApiCreatedResponse,
+} from '@nestjs/swagger';
+import { DeviceCommandStatus, DeviceStatus, UserRole } from '@prisma/client';
 import { DevicesService } from './devices.service';
+import { DeviceCommandsService } from './device-commands.service';
+import {
+  CreateDeviceDto,
+  UpdateDeviceDto,
+  DeviceResponseDto,
+  DeviceSecretResponseDto,
+  StartEnrollmentDto,
+  HeartbeatDto,
+  HeartbeatResponseDto,
+  SilentDeviceResponseDto,
+  EnqueueDeviceCommandDto,
+  AcknowledgeDeviceCommandDto,
+  DeviceCommandResponseDto,
+  TransferDeviceDto,
+  DeviceAssignmentResponseDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import {
+  Roles,
+  DeviceAuth,
+  CurrentDevice,
+  CurrentUser,
+} from '../auth/decorators';
+import type { AuthenticatedUser } from '../auth/strategies';
 
+/**
+ * Devices Controller
+ * Handles all IoT device registry HTTP requests
+ */
+@ApiTags('IoT Devices')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('devices')
 export class DevicesController {
-  constructor(private readonly devicesService: DevicesService) {}
+  constructor(
+    private readonly devicesService: DevicesService,
+    private readonly deviceCommandsService: DeviceCommandsService,
+  ) {}
+
+  /**
+   * Register a new device
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Register a new IoT device',
+    description:
+      'Register a new RFID/NFC reader and attach it to a classroom. Admin only.',
+  })
+  @ApiCreatedResponse({
+    description: 'Device registered successfully',
+    type: DeviceResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or classroom not found',
+  })
+  @ApiConflictResponse({
+    description: 'Device UID already exists',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() createDeviceDto: CreateDeviceDto): Promise<DeviceResponseDto> {
+    return this.devicesService.create(createDeviceDto);
+  }
+
+  /**
+   * Get all devices
+   * Teachers and Admins
+   */
+  @ApiOperation({
+    summary: 'Get all devices',
+    description:
+      'Retrieve all IoT devices with optional filtering by classroom and status',
+  })
+  @ApiQuery({
+    name: 'classroomId',
+    required: false,
+    description: 'Filter devices by classroom UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    description: 'Filter devices by status',
+    enum: DeviceStatus,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of devices',
+    type: [DeviceResponseDto],
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get()
+  findAll(
+    @Query('classroomId') classroomId?: string,
+    @Query('status', new ParseEnumPipe(DeviceStatus, { optional: true }))
+    status?: DeviceStatus,
+  ): Promise<DeviceResponseDto[]> {
+    return this.devicesService.findAll(classroomId, status);
+  }
+
+  /**
+   * Get device count
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Get total device count',
+    description: 'Get the number of registered devices, optionally by status',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    description: 'Count only devices with this status',
+    enum: DeviceStatus,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Device count',
+    schema: {
+      example: { count: 42 },
+    },
+  })
+  @Roles(UserRole.ADMIN)
+  @Get('count')
+  async count(
+    @Query('status', new ParseEnumPipe(DeviceStatus, { optional: true }))
+    status?: DeviceStatus,
+  ): Promise<{ count: number }> {
+    const count = await this.devicesService.count(status);
+    return { count };
+  }
+
+  /**
+   * Get devices expected today that are not reporting
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Get silent devices',
+    description:
+      'List active devices in classrooms with timetable slots today whose last heartbeat is stale or missing, with the slots they are expected to serve',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Devices not reporting',
+    type: [SilentDeviceResponseDto],
+  })
+  @Roles(UserRole.ADMIN)
+  @Get('silent')
+  findSilent(): Promise<SilentDeviceResponseDto[]> {
+    return this.devicesService.findSilent();
+  }
+
+  /**
+   * Get devices installed in a classroom
+   * Teachers and Admins
+   */
+  @ApiOperation({
+    summary: 'Get devices by classroom',
+    description: 'Retrieve all devices installed in a specific classroom',
+  })
+  @ApiParam({
+    name: 'classroomId',
+    description: 'Classroom UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of devices in classroom',
+    type: [DeviceResponseDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Classroom not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('classroom/:classroomId')
+  findByClassroom(
+    @Param('classroomId') classroomId: string,
+  ): Promise<DeviceResponseDto[]> {
+    return this.devicesService.findByClassroom(classroomId);
+  }
+
+  /**
+   * Get device by hardware UID
+   * Teachers and Admins
+   */
+  @ApiOperation({
+    summary: 'Get device by UID',
+    description: 'Retrieve a device by its unique hardware identifier',
+  })
+  @ApiParam({
+    name: 'deviceUid',
+    description: 'Device hardware UID',
+    example: 'RFID-GL2A-001',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Device found',
+    type: DeviceResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('uid/:deviceUid')
+  findByDeviceUid(
+    @Param('deviceUid') deviceUid: string,
+  ): Promise<DeviceResponseDto> {
+    return this.devicesService.findByDeviceUid(deviceUid);
+  }
+
+  /**
+   * Get the authenticated device
+   * Device-facing endpoint
+   */
+  @ApiOperation({
+    summary: 'Get authenticated device',
+    description:
+      'Device-facing endpoint used by readers to verify their credentials. Requires the X-Device-Uid, X-Device-Timestamp, X-Device-Nonce and X-Device-Signature headers.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Authenticated device',
+    type: DeviceResponseDto,
+  })
+  @DeviceAuth()
+  @Get('me')
+  whoAmI(@CurrentDevice() device: DeviceResponseDto): DeviceResponseDto {
+    return device;
+  }
+
+  /**
+   * Report device health
+   * Device-facing endpoint
+   */
+  @ApiOperation({
+    summary: 'Send a heartbeat',
+    description:
+      'Device-facing endpoint called periodically by readers to report they are alive, with firmware version, IP address, battery level and uptime. Updates the last-seen time used to compute connectivity.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Heartbeat recorded',
+    type: HeartbeatResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid heartbeat payload',
+  })
+  @DeviceAuth()
+  @Post('me/heartbeat')
+  @HttpCode(HttpStatus.OK)
+  heartbeat(
+    @CurrentDevice() device: DeviceResponseDto,
+    @Body() heartbeatDto: HeartbeatDto,
+    @Ip() sourceIp: string,
+  ): Promise<HeartbeatResponseDto> {
+    return this.devicesService.recordHeartbeat(
+      device.id,
+      heartbeatDto,
+      sourceIp,
+    );
+  }
+
+  /**
+   * Fetch pending commands
+   * Device-facing endpoint
+   */
+  @ApiOperation({
+    summary: 'Poll pending commands',
+    description:
+      'Device-facing endpoint returning the commands queued for the reader, oldest first. Returned commands are marked DELIVERED and must be acknowledged once executed.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Commands to execute',
+    type: [DeviceCommandResponseDto],
+  })
+  @DeviceAuth()
+  @Get('me/commands')
+  pollCommands(
+    @CurrentDevice() device: DeviceResponseDto,
+  ): Promise<DeviceCommandResponseDto[]> {
+    return this.deviceCommandsService.poll(device.id);
+  }
+
+  /**
+   * Report the result of a command
+   * Device-facing endpoint
+   */
+  @ApiOperation({
+    summary: 'Acknowledge a command',
+    description:
+      'Device-facing endpoint reporting whether a delivered command was executed. Marks the command ACKNOWLEDGED or FAILED.',
+  })
+  @ApiParam({
+    name: 'commandId',
+    description: 'Command UUID',
+    example: 'ee0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Command result recorded',
+    type: DeviceCommandResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Command not found for this device',
+  })
+  @ApiConflictResponse({
+    description: 'Command is not awaiting acknowledgement',
+  })
+  @DeviceAuth()
+  @Post('me/commands/:commandId/ack')
+  @HttpCode(HttpStatus.OK)
+  acknowledgeCommand(
+    @CurrentDevice() device: DeviceResponseDto,
+    @Param('commandId') commandId: string,
+    @Body() acknowledgeDto: AcknowledgeDeviceCommandDto,
+  ): Promise<DeviceCommandResponseDto> {
+    return this.deviceCommandsService.acknowledge(
+      device.id,
+      commandId,
+      acknowledgeDto,
+    );
+  }
+
+  /**
+   * Get a single device by ID
+   * Teachers and Admins
+   */
+  @ApiOperation({
+    summary: 'Get device by ID',
+    description:
+      'Retrieve detailed information about a device including its recent sessions',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Device found',
+    type: DeviceResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get(':id')
+  findOne(@Param('id') id: string): Promise<DeviceResponseDto> {
+    return this.devicesService.findOne(id);
+  }
+
+  /**
+   * Update a device
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Update device information',
+    description: 'Update device UID, classroom or status. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Device updated successfully',
+    type: DeviceResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or classroom not found',
+  })
+  @ApiConflictResponse({
+    description:
+      'Device UID already exists, or the device is moved while it has an open session',
+  })
+  @Roles(UserRole.ADMIN)
+  @Patch(':id')
+  update(
+    @Param('id') id: string,
+    @Body() updateDeviceDto: UpdateDeviceDto,
+  ): Promise<DeviceResponseDto> {
+    return this.devicesService.update(id, updateDeviceDto);
+  }
+
+  /**
+   * Activate a device
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Activate a device',
+    description:
+      'Mark a device as ACTIVE so it can record attendance. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Device activated',
+    type: DeviceResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Device is already active',
+  })
+  @Roles(UserRole.ADMIN)
+  @Patch(':id/activate')
+  activate(@Param('id') id: string): Promise<DeviceResponseDto> {
+    return this.devicesService.activate(id);
+  }
+
+  /**
+   * Deactivate a device
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Deactivate a device',
+    description:
+      'Mark a device as INACTIVE so it can no longer authenticate or record attendance. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Device deactivated',
+    type: DeviceResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Device is already inactive',
+  })
+  @Roles(UserRole.ADMIN)
+  @Patch(':id/deactivate')
+  deactivate(@Param('id') id: string): Promise<DeviceResponseDto> {
+    return this.devicesService.deactivate(id);
+  }
+
+  /**
+   * Provision or rotate a device secret
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Provision or rotate device secret',
+    description:
+      'Generate a new secret for the device. The secret is returned only once and any previous secret is invalidated. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiCreatedResponse({
+    description: 'Device secret issued',
+    type: DeviceSecretResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post(':id/secret')
+  @HttpCode(HttpStatus.CREATED)
+  rotateSecret(@Param('id') id: string): Promise<DeviceSecretResponseDto> {
+    return this.devicesService.rotateSecret(id);
+  }
+
+  /**
+   * Revoke a device secret
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Revoke device secret',
+    description:
+      'Revoke the device secret so the device can no longer authenticate. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Device secret revoked',
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Device has no active secret',
+  })
+  @Roles(UserRole.ADMIN)
+  @Delete(':id/secret')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSecret(@Param('id') id: string): Promise<void> {
+    return this.devicesService.revokeSecret(id);
+  }
+
+  /**
+   * Put a device into card enrollment mode
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Start card enrollment',
+    description:
+      'Put the device into enrollment mode: the next card tapped on it is bound to the chosen student (replacing any card they still hold). Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Device is waiting for a card',
+    type: DeviceResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Device inactive or student not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post(':id/enrollment')
+  @HttpCode(HttpStatus.OK)
+  startEnrollment(
+    @Param('id') id: string,
+    @Body() startEnrollmentDto: StartEnrollmentDto,
+  ): Promise<DeviceResponseDto> {
+    return this.devicesService.startEnrollment(id, startEnrollmentDto);
+  }
+
+  /**
+   * Cancel card enrollment mode
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Cancel card enrollment',
+    description: 'Take the device out of enrollment mode. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Enrollment mode cancelled',
+    type: DeviceResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Device is not in enrollment mode',
+  })
+  @Roles(UserRole.ADMIN)
+  @Delete(':id/enrollment')
+  cancelEnrollment(@Param('id') id: string): Promise<DeviceResponseDto> {
+    return this.devicesService.cancelEnrollment(id);
+  }
+
+  /**
+   * Queue a command for a device
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Queue a device command',
+    description:
+      'Queue a command (reboot, clock resync, enrollment mode, message, config update) for the reader to pick up on its next poll. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiCreatedResponse({
+    description: 'Command queued',
+    type: DeviceCommandResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid command or payload',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post(':id/commands')
+  @HttpCode(HttpStatus.CREATED)
+  enqueueCommand(
+    @Param('id') id: string,
+    @Body() enqueueDto: EnqueueDeviceCommandDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<DeviceCommandResponseDto> {
+    return this.deviceCommandsService.enqueue(id, enqueueDto, user.id);
+  }
+
+  /**
+   * Get the commands of a device
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Get device commands',
+    description:
+      'Retrieve the command history of a device, newest first, optionally by status. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    description: 'Only commands with this status',
+    enum: DeviceCommandStatus,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Device commands',
+    type: [DeviceCommandResponseDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Get(':id/commands')
+  findCommands(
+    @Param('id') id: string,
+    @Query('status', new ParseEnumPipe(DeviceCommandStatus, { optional: true }))
+    status?: DeviceCommandStatus,
+  ): Promise<DeviceCommandResponseDto[]> {
+    return this.deviceCommandsService.findForDevice(id, status);
+  }
+
+  /**
+   * Move a device to another classroom
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Transfer a device',
+    description:
+      'Move a device to another classroom and record it in the assignment history. Refused while the device has an open session. Timetable slots using the device are detached. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Device transferred',
+    type: DeviceResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Classroom not found or device already installed there',
+  })
+  @ApiConflictResponse({
+    description: 'Device has an open session',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post(':id/transfer')
+  @HttpCode(HttpStatus.OK)
+  transfer(
+    @Param('id') id: string,
+    @Body() transferDeviceDto: TransferDeviceDto,
+  ): Promise<DeviceResponseDto> {
+    return this.devicesService.transfer(id, transferDeviceDto);
+  }
+
+  /**
+   * Get the classroom history of a device
+   * Teachers and Admins
+   */
+  @ApiOperation({
+    summary: 'Get device assignment history',
+    description:
+      'Retrieve the classrooms a device was installed in and when, newest first',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Assignment history',
+    type: [DeviceAssignmentResponseDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get(':id/assignments')
+  findAssignments(
+    @Param('id') id: string,
+  ): Promise<DeviceAssignmentResponseDto[]> {
+    return this.devicesService.findAssignments(id);
+  }
+
+  /**
+   * Delete a device
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Delete a device',
+    description:
+      'Delete a device. Cannot delete if sessions reference the device. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Device deleted successfully',
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Device is referenced by existing sessions',
+  })
+  @Roles(UserRole.ADMIN)
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.devicesService.remove(id);
+  }
 }
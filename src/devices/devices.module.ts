@@ -1,9 +1,19 @@
 import { Module } from '@nestjs/common';
 import { DevicesService } from './devices.service';
+import { DeviceCommandsService } from './device-commands.service';
 import { DevicesController } from './devices.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { TimetableModule } from '../timetable/timetable.module';
 
+/**
+ * Devices Module
+ * Handles the IoT device registry (RFID/NFC readers)
+ */
 @Module({
+  imports: [PrismaModule, AuthModule, TimetableModule],
   controllers: [DevicesController],
-  providers: [DevicesService],
+  providers: [DevicesService, DeviceCommandsService],
+  exports: [DevicesService, DeviceCommandsService],
 })
 export class DevicesModule {}
@@ -1,18 +1,282 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { DeviceStatus, Prisma, SessionStatus } from '@prisma/client';
 import { DevicesService } from './devices.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { TimetableService } from '../timetable/timetable.service';
+import { DeviceConnectivity } from './dto';
 
 describe('DevicesService', () => {
   let service: DevicesService;
+  let config: Record<string, string>;
+
+  const now = new Date('2026-10-19T08:00:00.000Z');
+  const secondsBeforeNow = (seconds: number) =>
+    new Date(now.getTime() - seconds * 1000);
+
+  const prisma = {
+    ioTDevice: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    student: { findUnique: jest.fn() },
+    classroom: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  // Client handed to transaction callbacks
+  const tx = {
+    session: { findFirst: jest.fn() },
+    deviceAssignment: { updateMany: jest.fn(), create: jest.fn() },
+    timetableSlot: { updateMany: jest.fn() },
+    ioTDevice: { update: jest.fn() },
+  };
+
+  const device = (overrides: Record<string, unknown> = {}) => ({
+    id: 'device-1',
+    deviceUid: 'READER-01',
+    classroomId: 'classroom-1',
+    status: DeviceStatus.ACTIVE,
+    lastSeenAt: secondsBeforeNow(30),
+    enrollmentStudentId: null,
+    classroom: { id: 'classroom-1', name: 'B-204' },
+    ...overrides,
+  });
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+    config = {};
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [DevicesService],
+      providers: [
+        DevicesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuthService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        { provide: TimetableService, useValue: {} },
+      ],
     }).compile();
 
     service = module.get<DevicesService>(DevicesService);
   });
 
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('recordHeartbeat', () => {
+    beforeEach(() => {
+      prisma.ioTDevice.update.mockResolvedValue({ lastSeenAt: now });
+    });
+
+    it('stores the reported state and answers with the server time', async () => {
+      await expect(
+        service.recordHeartbeat(
+          'device-1',
+          {
+            firmwareVersion: '2.1.0',
+            ipAddress: '192.168.10.42',
+            batteryLevel: 87,
+            uptimeSeconds: 86400,
+          },
+          '10.0.0.5',
+        ),
+      ).resolves.toEqual({
+        serverTime: now,
+        connectivity: DeviceConnectivity.ONLINE,
+      });
+
+      expect(prisma.ioTDevice.update).toHaveBeenCalledWith({
+        where: { id: 'device-1' },
+        data: {
+          lastSeenAt: now,
+          firmwareVersion: '2.1.0',
+          ipAddress: '192.168.10.42',
+          batteryLevel: 87,
+          uptimeSeconds: 86400,
+        },
+        select: { lastSeenAt: true },
+      });
+    });
+
+    it('clears metrics the heartbeat does not report', async () => {
+      await service.recordHeartbeat('device-1', {}, '10.0.0.5');
+
+      expect(prisma.ioTDevice.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            lastSeenAt: now,
+            firmwareVersion: undefined,
+            ipAddress: '10.0.0.5',
+            batteryLevel: null,
+            uptimeSeconds: null,
+          },
+        }),
+      );
+    });
+  });
+
+  describe('connectivity', () => {
+    it.each([
+      [secondsBeforeNow(30), DeviceConnectivity.ONLINE],
+      [secondsBeforeNow(121), DeviceConnectivity.STALE],
+      [secondsBeforeNow(601), DeviceConnectivity.OFFLINE],
+      [null, DeviceConnectivity.OFFLINE],
+    ])(
+      'is computed from the last heartbeat %s',
+      async (lastSeenAt, connectivity) => {
+        prisma.ioTDevice.findUnique.mockResolvedValue(device({ lastSeenAt }));
+
+        await expect(service.findOne('device-1')).resolves.toEqual(
+          expect.objectContaining({ connectivity }),
+        );
+      },
+    );
+
+    it('reads the thresholds from the configuration', async () => {
+      config = {
+        DEVICE_STALE_AFTER_SECONDS: '10',
+        DEVICE_OFFLINE_AFTER_SECONDS: '20',
+      };
+      prisma.ioTDevice.findMany.mockResolvedValue([
+        device({ id: 'online', lastSeenAt: secondsBeforeNow(5) }),
+        device({ id: 'stale', lastSeenAt: secondsBeforeNow(15) }),
+        device({ id: 'offline', lastSeenAt: secondsBeforeNow(25) }),
+      ]);
+
+      const devices = await service.findAll();
+
+      expect(devices.map((d) => d.connectivity)).toEqual([
+        DeviceConnectivity.ONLINE,
+        DeviceConnectivity.STALE,
+        DeviceConnectivity.OFFLINE,
+      ]);
+    });
+
+    it('is part of every device response', async () => {
+      prisma.ioTDevice.findUnique.mockResolvedValue(
+        device({ status: DeviceStatus.INACTIVE }),
+      );
+      prisma.ioTDevice.update.mockResolvedValue(device());
+      prisma.student.findUnique.mockResolvedValue({
+        id: 'student-1',
+        studentCode: 'STU001',
+      });
+
+      const activated = await service.activate('device-1');
+      const updated = await service.update('device-1', {
+        deviceUid: 'READER-02',
+      });
+
+      prisma.ioTDevice.findUnique.mockResolvedValue(device());
+      const enrolling = await service.startEnrollment('device-1', {
+        studentId: 'student-1',
+      });
+
+      prisma.ioTDevice.findUnique.mockResolvedValue(
+        device({ enrollmentStudentId: 'student-1' }),
+      );
+      const cancelled = await service.cancelEnrollment('device-1');
+
+      for (const response of [activated, updated, enrolling, cancelled]) {
+        expect(response.connectivity).toBe(DeviceConnectivity.ONLINE);
+      }
+    });
+  });
+
+  describe('transfer', () => {
+    beforeEach(() => {
+      prisma.ioTDevice.findUnique.mockResolvedValue(device());
+      prisma.classroom.findUnique.mockResolvedValue({ id: 'classroom-2' });
+      prisma.$transaction.mockImplementation(
+        (callback: (client: typeof tx) => unknown) => callback(tx),
+      );
+      tx.session.findFirst.mockResolvedValue(null);
+      tx.timetableSlot.updateMany.mockResolvedValue({ count: 2 });
+      tx.ioTDevice.update.mockResolvedValue(
+        device({
+          classroomId: 'classroom-2',
+          classroom: { id: 'classroom-2', name: 'C-101' },
+        }),
+      );
+    });
+
+    it('closes the current assignment and opens one in the new classroom', async () => {
+      const moved = await service.transfer('device-1', {
+        classroomId: 'classroom-2',
+        reason: 'Room renovation',
+      });
+
+      expect(moved).toEqual(
+        expect.objectContaining({
+          classroomId: 'classroom-2',
+          connectivity: DeviceConnectivity.ONLINE,
+        }),
+      );
+      expect(tx.deviceAssignment.updateMany).toHaveBeenCalledWith({
+        where: { deviceId: 'device-1', assignedUntil: null },
+        data: { assignedUntil: now },
+      });
+      expect(tx.deviceAssignment.create).toHaveBeenCalledWith({
+        data: {
+          deviceId: 'device-1',
+          classroomId: 'classroom-2',
+          assignedFrom: now,
+          reason: 'Room renovation',
+        },
+      });
+    });
+
+    it('detaches the timetable slots of the device', async () => {
+      await service.transfer('device-1', { classroomId: 'classroom-2' });
+
+      expect(tx.timetableSlot.updateMany).toHaveBeenCalledWith({
+        where: { deviceId: 'device-1' },
+        data: { deviceId: null },
+      });
+    });
+
+    it('runs in a serializable transaction', async () => {
+      await service.transfer('device-1', { classroomId: 'classroom-2' });
+
+      expect(prisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+    });
+
+    it('is refused while the device has an OPEN session', async () => {
+      tx.session.findFirst.mockResolvedValue({ id: 'session-1' });
+
+      await expect(
+        service.transfer('device-1', { classroomId: 'classroom-2' }),
+      ).rejects.toThrow(ConflictException);
+
+      expect(tx.session.findFirst).toHaveBeenCalledWith({
+        where: { deviceId: 'device-1', status: SessionStatus.OPEN },
+        select: { id: true },
+      });
+      expect(tx.deviceAssignment.updateMany).not.toHaveBeenCalled();
+      expect(tx.timetableSlot.updateMany).not.toHaveBeenCalled();
+      expect(tx.ioTDevice.update).not.toHaveBeenCalled();
+    });
+
+    it('is refused towards the current classroom', async () => {
+      await expect(
+        service.transfer('device-1', { classroomId: 'classroom-1' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
 });
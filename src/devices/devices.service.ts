@@ -1,4 +1,802 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DeviceStatus, Prisma, SessionStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { TimetableService } from '../timetable/timetable.service';
+import {
+  CreateDeviceDto,
+  UpdateDeviceDto,
+  DeviceResponseDto,
+  DeviceSecretResponseDto,
+  StartEnrollmentDto,
+  HeartbeatDto,
+  HeartbeatResponseDto,
+  DeviceConnectivity,
+  SilentDeviceResponseDto,
+  TransferDeviceDto,
+  DeviceAssignmentResponseDto,
+} from './dto';
 
+/**
+ * Devices Service
+ * Handles all business logic for the IoT device registry
+ */
 @Injectable()
-export class DevicesService {}
+export class DevicesService {
+  private readonly logger = new Logger(DevicesService.name);
+  private readonly DEFAULT_ENROLLMENT_TIMEOUT_SECONDS = 120;
+  private readonly DEFAULT_STALE_AFTER_SECONDS = 120;
+  private readonly DEFAULT_OFFLINE_AFTER_SECONDS = 600;
+
+  private readonly classroomSelect = {
+    select: {
+      id: true,
+      name: true,
+      level: true,
+      department: true,
+    },
+  } as const;
+
+  // Never expose the device secret in API responses
+  private readonly secretOmit = { secretCiphertext: true } as const;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly authService: AuthService,
+    private readonly configService: ConfigService,
+    private readonly timetableService: TimetableService,
+  ) {}
+
+  /**
+   * Register a new IoT device
+   */
+  async create(createDeviceDto: CreateDeviceDto): Promise<DeviceResponseDto> {
+    const { deviceUid, classroomId, status } = createDeviceDto;
+
+    // Check if device UID already exists
+    const existingDevice = await this.prisma.ioTDevice.findUnique({
+      where: { deviceUid },
+    });
+
+    if (existingDevice) {
+      throw new ConflictException(
+        `Device with UID '${deviceUid}' already exists`,
+      );
+    }
+
+    // Verify classroom exists
+    await this.ensureClassroomExists(classroomId);
+
+    try {
+      const device = await this.prisma.ioTDevice.create({
+        data: {
+          deviceUid,
+          classroomId,
+          status,
+          assignments: {
+            create: {
+              classroomId,
+              assignedFrom: new Date(),
+            },
+          },
+        },
+        omit: this.secretOmit,
+        include: {
+          classroom: this.classroomSelect,
+        },
+      });
+
+      this.logger.log(`Device registered successfully: ${deviceUid}`);
+      return this.withConnectivity(device);
+    } catch (error) {
+      this.logger.error('Failed to register device', error);
+      throw new BadRequestException(
+        'Failed to register device. Please try again.',
+      );
+    }
+  }
+
+  /**
+   * Find all devices with optional filtering by classroom and status
+   */
+  async findAll(
+    classroomId?: string,
+    status?: DeviceStatus,
+  ): Promise<DeviceResponseDto[]> {
+    const where: Prisma.IoTDeviceWhereInput = {};
+
+    if (classroomId) where.classroomId = classroomId;
+    if (status) where.status = status;
+
+    const devices = await this.prisma.ioTDevice.findMany({
+      where,
+      omit: this.secretOmit,
+      include: {
+        classroom: this.classroomSelect,
+      },
+      orderBy: {
+        deviceUid: 'asc',
+      },
+    });
+
+    return devices.map((device) => this.withConnectivity(device));
+  }
+
+  /**
+   * Find a device by ID
+   */
+  async findOne(id: string): Promise<DeviceResponseDto> {
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+      omit: this.secretOmit,
+      include: {
+        classroom: this.classroomSelect,
+        sessions: {
+          take: 10,
+          orderBy: {
+            startedAt: 'desc',
+          },
+          select: {
+            id: true,
+            teachingAssignmentId: true,
+            startedAt: true,
+            endedAt: true,
+            status: true,
+          },
+        },
+      },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    return this.withConnectivity(device);
+  }
+
+  /**
+   * Find a device by its hardware UID
+   */
+  async findByDeviceUid(deviceUid: string): Promise<DeviceResponseDto> {
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { deviceUid },
+      omit: this.secretOmit,
+      include: {
+        classroom: this.classroomSelect,
+      },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with UID '${deviceUid}' not found`);
+    }
+
+    return this.withConnectivity(device);
+  }
+
+  /**
+   * Get devices installed in a classroom
+   */
+  async findByClassroom(classroomId: string): Promise<DeviceResponseDto[]> {
+    // Verify classroom exists
+    const classroom = await this.prisma.classroom.findUnique({
+      where: { id: classroomId },
+    });
+
+    if (!classroom) {
+      throw new NotFoundException(`Classroom with ID ${classroomId} not found`);
+    }
+
+    return this.findAll(classroomId);
+  }
+
+  /**
+   * Update device information
+   */
+  async update(
+    id: string,
+    updateDeviceDto: UpdateDeviceDto,
+  ): Promise<DeviceResponseDto> {
+    // Check if device exists
+    const existingDevice = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+    });
+
+    if (!existingDevice) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    // If updating device UID, check for conflicts
+    if (updateDeviceDto.deviceUid) {
+      const uidExists = await this.prisma.ioTDevice.findFirst({
+        where: {
+          deviceUid: updateDeviceDto.deviceUid,
+          id: { not: id },
+        },
+      });
+
+      if (uidExists) {
+        throw new ConflictException(
+          `Device with UID '${updateDeviceDto.deviceUid}' already exists`,
+        );
+      }
+    }
+
+    const { classroomId, ...deviceData } = updateDeviceDto;
+
+    // Moving the device goes through a transfer to keep its history
+    if (classroomId && classroomId !== existingDevice.classroomId) {
+      await this.transfer(id, { classroomId });
+    }
+
+    const updatedDevice = await this.prisma.ioTDevice.update({
+      where: { id },
+      data: deviceData,
+      omit: this.secretOmit,
+      include: {
+        classroom: this.classroomSelect,
+      },
+    });
+
+    this.logger.log(`Device updated successfully: ${id}`);
+    return this.withConnectivity(updatedDevice);
+  }
+
+  /**
+   * Activate a device so it can be used for attendance scanning
+   */
+  async activate(id: string): Promise<DeviceResponseDto> {
+    return this.changeStatus(id, DeviceStatus.ACTIVE);
+  }
+
+  /**
+   * Deactivate a device (e.g., faulty or removed reader)
+   */
+  async deactivate(id: string): Promise<DeviceResponseDto> {
+    return this.changeStatus(id, DeviceStatus.INACTIVE);
+  }
+
+  /**
+   * Provision or rotate the device secret
+   * The plain secret is only returned here; any previous secret stops working
+   */
+  async rotateSecret(id: string): Promise<DeviceSecretResponseDto> {
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    const { secret, secretCiphertext } =
+      this.authService.generateDeviceSecret();
+
+    const updatedDevice = await this.prisma.ioTDevice.update({
+      where: { id },
+      data: {
+        secretCiphertext,
+        secretIssuedAt: new Date(),
+      },
+    });
+
+    this.logger.log(`Device secret issued: ${device.deviceUid}`);
+    return {
+      deviceId: updatedDevice.id,
+      deviceUid: updatedDevice.deviceUid,
+      secret,
+      issuedAt: updatedDevice.secretIssuedAt!,
+    };
+  }
+
+  /**
+   * Revoke the device secret
+   * The device can no longer authenticate until a new secret is provisioned
+   */
+  async revokeSecret(id: string): Promise<void> {
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    if (!device.secretCiphertext) {
+      throw new BadRequestException(
+        `Device '${device.deviceUid}' has no active secret`,
+      );
+    }
+
+    await this.prisma.ioTDevice.update({
+      where: { id },
+      data: {
+        secretCiphertext: null,
+        secretIssuedAt: null,
+      },
+    });
+
+    this.logger.log(`Device secret revoked: ${device.deviceUid}`);
+  }
+
+  /**
+   * Put a device into card enrollment mode
+   * The next card tapped on the device is bound to the given student
+   */
+  async startEnrollment(
+    id: string,
+    startEnrollmentDto: StartEnrollmentDto,
+  ): Promise<DeviceResponseDto> {
+    const { studentId, timeoutSeconds } = startEnrollmentDto;
+
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    if (device.status !== DeviceStatus.ACTIVE) {
+      throw new BadRequestException(
+        `Device '${device.deviceUid}' is inactive and cannot enroll cards`,
+      );
+    }
+
+    const student = await this.prisma.student.findUnique({
+      where: { id: studentId },
+    });
+
+    if (!student) {
+      throw new BadRequestException(`Student with ID ${studentId} not found`);
+    }
+
+    const timeout = timeoutSeconds ?? this.DEFAULT_ENROLLMENT_TIMEOUT_SECONDS;
+
+    const updatedDevice = await this.prisma.ioTDevice.update({
+      where: { id },
+      data: {
+        enrollmentStudentId: studentId,
+        enrollmentExpiresAt: new Date(Date.now() + timeout * 1000),
+      },
+      omit: this.secretOmit,
+      include: {
+        classroom: this.classroomSelect,
+      },
+    });
+
+    this.logger.log(
+      `Device ${device.deviceUid} enrolling a card for ${student.studentCode} (${timeout}s)`,
+    );
+    return this.withConnectivity(updatedDevice);
+  }
+
+  /**
+   * Take a device out of card enrollment mode
+   */
+  async cancelEnrollment(id: string): Promise<DeviceResponseDto> {
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    if (!device.enrollmentStudentId) {
+      throw new BadRequestException(
+        `Device '${device.deviceUid}' is not in enrollment mode`,
+      );
+    }
+
+    const updatedDevice = await this.prisma.ioTDevice.update({
+      where: { id },
+      data: {
+        enrollmentStudentId: null,
+        enrollmentExpiresAt: null,
+      },
+      omit: this.secretOmit,
+      include: {
+        classroom: this.classroomSelect,
+      },
+    });
+
+    this.logger.log(`Device ${device.deviceUid} left enrollment mode`);
+    return this.withConnectivity(updatedDevice);
+  }
+
+  /**
+   * Move a device to another classroom
+   * Closes the current assignment and opens a new one, so sessions keep the
+   * classroom they happened in. Refused while the device has an OPEN session.
+   * Timetable slots using the device are detached since it left their room.
+   */
+  async transfer(
+    id: string,
+    transferDeviceDto: TransferDeviceDto,
+  ): Promise<DeviceResponseDto> {
+    const { classroomId, reason } = transferDeviceDto;
+
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    if (device.classroomId === classroomId) {
+      throw new BadRequestException(
+        `Device '${device.deviceUid}' is already installed in this classroom`,
+      );
+    }
+
+    await this.ensureClassroomExists(classroomId);
+
+    const now = new Date();
+
+    const { updatedDevice, detachedSlots } = await this.prisma.$transaction(
+      async (tx) => {
+        const openSession = await tx.session.findFirst({
+          where: {
+            deviceId: id,
+            status: SessionStatus.OPEN,
+          },
+          select: { id: true },
+        });
+
+        if (openSession) {
+          throw new ConflictException(
+            `Device '${device.deviceUid}' has an open session (${openSession.id}). Close it before moving the device.`,
+          );
+        }
+
+        await tx.deviceAssignment.updateMany({
+          where: {
+            deviceId: id,
+            assignedUntil: null,
+          },
+          data: {
+            assignedUntil: now,
+          },
+        });
+
+        await tx.deviceAssignment.create({
+          data: {
+            deviceId: id,
+            classroomId,
+            assignedFrom: now,
+            reason,
+          },
+        });
+
+        const { count } = await tx.timetableSlot.updateMany({
+          where: { deviceId: id },
+          data: { deviceId: null },
+        });
+
+        return {
+          updatedDevice: await tx.ioTDevice.update({
+            where: { id },
+            data: { classroomId },
+            omit: this.secretOmit,
+            include: {
+              classroom: this.classroomSelect,
+            },
+          }),
+          detachedSlots: count,
+        };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+    );
+
+    this.logger.log(
+      `Device ${device.deviceUid} moved to ${updatedDevice.classroom.name}${detachedSlots > 0 ? ` (${detachedSlots} timetable slot(s) detached)` : ''}`,
+    );
+    return this.withConnectivity(updatedDevice);
+  }
+
+  /**
+   * Get the classrooms a device was installed in, newest first
+   */
+  async findAssignments(id: string): Promise<DeviceAssignmentResponseDto[]> {
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    return this.prisma.deviceAssignment.findMany({
+      where: { deviceId: id },
+      include: {
+        classroom: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: {
+        assignedFrom: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Record a heartbeat from a device
+   * Falls back to the request source address when the reader does not
+   * report its own IP. Battery level and uptime describe the moment of the
+   * heartbeat, so a value not reported is cleared rather than left stale;
+   * the firmware version is kept until the reader reports a new one.
+   */
+  async recordHeartbeat(
+    deviceId: string,
+    heartbeatDto: HeartbeatDto,
+    sourceIp?: string,
+  ): Promise<HeartbeatResponseDto> {
+    const now = new Date();
+
+    const device = await this.prisma.ioTDevice.update({
+      where: { id: deviceId },
+      data: {
+        lastSeenAt: now,
+        firmwareVersion: heartbeatDto.firmwareVersion,
+        ipAddress: heartbeatDto.ipAddress ?? sourceIp,
+        batteryLevel: heartbeatDto.batteryLevel ?? null,
+        uptimeSeconds: heartbeatDto.uptimeSeconds ?? null,
+      },
+      select: {
+        lastSeenAt: true,
+      },
+    });
+
+    return {
+      serverTime: now,
+      connectivity: this.getConnectivity(device.lastSeenAt, now),
+    };
+  }
+
+  /**
+   * Find active devices that should be in use today but are not reporting
+   * A device is expected when its classroom has a timetable slot today;
+   * it is silent when its connectivity is not ONLINE
+   */
+  async findSilent(now: Date = new Date()): Promise<SilentDeviceResponseDto[]> {
+    const { date, dayOfWeek } = this.timetableService.toLocalTime(now);
+    const today = new Date(date);
+
+    const slots = await this.prisma.timetableSlot.findMany({
+      where: {
+        dayOfWeek,
+        validFrom: { lte: today },
+        validUntil: { gte: today },
+      },
+      select: {
+        id: true,
+        startTime: true,
+        endTime: true,
+        teachingAssignment: {
+          select: {
+            classroomId: true,
+            subject: {
+              select: {
+                code: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    const slotsByClassroom = new Map<
+      string,
+      SilentDeviceResponseDto['scheduledToday']
+    >();
+    for (const slot of slots) {
+      const { classroomId } = slot.teachingAssignment;
+      const classroomSlots = slotsByClassroom.get(classroomId) ?? [];
+      classroomSlots.push({
+        id: slot.id,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        subjectCode: slot.teachingAssignment.subject.code,
+      });
+      slotsByClassroom.set(classroomId, classroomSlots);
+    }
+
+    if (slotsByClassroom.size === 0) {
+      return [];
+    }
+
+    const devices = await this.prisma.ioTDevice.findMany({
+      where: {
+        status: DeviceStatus.ACTIVE,
+        classroomId: { in: [...slotsByClassroom.keys()] },
+      },
+      omit: this.secretOmit,
+      include: {
+        classroom: this.classroomSelect,
+      },
+      orderBy: {
+        deviceUid: 'asc',
+      },
+    });
+
+    return devices
+      .map((device) => ({
+        ...this.withConnectivity(device, now),
+        scheduledToday: slotsByClassroom.get(device.classroomId) ?? [],
+      }))
+      .filter((device) => device.connectivity !== DeviceConnectivity.ONLINE);
+  }
+
+  /**
+   * Delete a device
+   */
+  async remove(id: string): Promise<void> {
+    // Check if device exists
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: {
+            sessions: true,
+          },
+        },
+      },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    // Check if device is referenced by sessions
+    if (device._count.sessions > 0) {
+      throw new BadRequestException(
+        `Cannot delete device with ${device._count.sessions} recorded session(s). Deactivate the device instead.`,
+      );
+    }
+
+    try {
+      await this.prisma.ioTDevice.delete({
+        where: { id },
+      });
+
+      this.logger.log(`Device deleted successfully: ${device.deviceUid}`);
+    } catch (error) {
+      this.logger.error('Failed to delete device', error);
+      throw new BadRequestException(
+        'Failed to delete device. Please try again.',
+      );
+    }
+  }
+
+  /**
+   * Get total device count, optionally by status
+   */
+  async count(status?: DeviceStatus): Promise<number> {
+    return this.prisma.ioTDevice.count({
+      where: status ? { status } : {},
+    });
+  }
+
+  /**
+   * Add the computed connectivity to a device
+   * Every device response goes through here
+   */
+  private withConnectivity<T extends { lastSeenAt: Date | null }>(
+    device: T,
+    now: Date = new Date(),
+  ): T & { connectivity: DeviceConnectivity } {
+    return {
+      ...device,
+      connectivity: this.getConnectivity(device.lastSeenAt, now),
+    };
+  }
+
+  /**
+   * Classify a device by the age of its last heartbeat
+   */
+  private getConnectivity(
+    lastSeenAt: Date | null,
+    now: Date,
+  ): DeviceConnectivity {
+    if (!lastSeenAt) {
+      return DeviceConnectivity.OFFLINE;
+    }
+
+    const silentMs = now.getTime() - lastSeenAt.getTime();
+
+    if (
+      silentMs >
+      this.getSeconds(
+        'DEVICE_OFFLINE_AFTER_SECONDS',
+        this.DEFAULT_OFFLINE_AFTER_SECONDS,
+      )
+    ) {
+      return DeviceConnectivity.OFFLINE;
+    }
+
+    if (
+      silentMs >
+      this.getSeconds(
+        'DEVICE_STALE_AFTER_SECONDS',
+        this.DEFAULT_STALE_AFTER_SECONDS,
+      )
+    ) {
+      return DeviceConnectivity.STALE;
+    }
+
+    return DeviceConnectivity.ONLINE;
+  }
+
+  /**
+   * Read a seconds setting and convert it to milliseconds
+   */
+  private getSeconds(key: string, defaultSeconds: number): number {
+    const seconds = Number(this.configService.get<string>(key));
+    return (
+      (Number.isFinite(seconds) && seconds > 0 ? seconds : defaultSeconds) *
+      1000
+    );
+  }
+
+  /**
+   * Apply a status transition to a device
+   */
+  private async changeStatus(
+    id: string,
+    status: DeviceStatus,
+  ): Promise<DeviceResponseDto> {
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${id} not found`);
+    }
+
+    if (device.status === status) {
+      throw new BadRequestException(
+        `Device '${device.deviceUid}' is already ${status}`,
+      );
+    }
+
+    const updatedDevice = await this.prisma.ioTDevice.update({
+      where: { id },
+      data: { status },
+      omit: this.secretOmit,
+      include: {
+        classroom: this.classroomSelect,
+      },
+    });
+
+    this.logger.log(`Device ${device.deviceUid} is now ${status}`);
+    return this.withConnectivity(updatedDevice);
+  }
+
+  /**
+   * Verify a classroom referenced in a payload exists
+   */
+  private async ensureClassroomExists(classroomId: string): Promise<void> {
+    const classroom = await this.prisma.classroom.findUnique({
+      where: { id: classroomId },
+    });
+
+    if (!classroom) {
+      throw new BadRequestException(
+        `Classroom with ID ${classroomId} not found`,
+      );
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for a reader acknowledging an executed command
+ */
+export class AcknowledgeDeviceCommandDto {
+  @ApiProperty({
+    description: 'Whether the reader executed the command successfully',
+    example: true,
+  })
+  @IsBoolean({ message: 'Success must be a boolean' })
+  @IsNotEmpty({ message: 'Success is required' })
+  success: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Result or error message reported by the reader',
+    example: 'Clock adjusted by +2.4s',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Result must be a string' })
+  @MaxLength(500, { message: 'Result must not exceed 500 characters' })
+  result?: string;
+}
@@ -0,0 +1,41 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DeviceStatus } from '@prisma/client';
+
+/**
+ * DTO for registering a new IoT device
+ */
+export class CreateDeviceDto {
+  @ApiProperty({
+    description:
+      'Unique hardware identifier of the device (e.g., RFID reader serial)',
+    example: 'RFID-GL2A-001',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Device UID is required' })
+  deviceUid: string;
+
+  @ApiProperty({
+    description: 'Classroom UUID where the device is installed',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID('4', { message: 'Classroom ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Classroom ID is required' })
+  classroomId: string;
+
+  @ApiPropertyOptional({
+    description: 'Initial device status',
+    enum: DeviceStatus,
+    example: DeviceStatus.ACTIVE,
+    default: DeviceStatus.ACTIVE,
+  })
+  @IsOptional()
+  @IsEnum(DeviceStatus, { message: 'Status must be either ACTIVE or INACTIVE' })
+  status?: DeviceStatus;
+}
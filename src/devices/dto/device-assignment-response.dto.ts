@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Classroom information in device assignment response
+ */
+export class DeviceAssignmentClassroomDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'GL2-A' })
+  name: string;
+}
+
+/**
+ * Device assignment history entry DTO
+ */
+export class DeviceAssignmentResponseDto {
+  @ApiProperty({
+    description: 'Assignment unique identifier',
+    example: 'ab0e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Device ID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Classroom ID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  classroomId: string;
+
+  @ApiProperty({
+    description: 'When the device was installed in the classroom',
+    example: '2025-09-15T07:00:00.000Z',
+  })
+  assignedFrom: Date;
+
+  @ApiProperty({
+    description: 'When the device left the classroom (null if still there)',
+    example: null,
+    nullable: true,
+  })
+  assignedUntil: Date | null;
+
+  @ApiProperty({
+    description: 'Why the device was moved here',
+    example: 'Reader in GL2-A replaced after failure',
+    nullable: true,
+  })
+  reason: string | null;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2025-09-15T07:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Classroom details',
+    type: DeviceAssignmentClassroomDto,
+  })
+  classroom: DeviceAssignmentClassroomDto;
+}
@@ -0,0 +1,86 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DeviceCommandStatus, DeviceCommandType } from '@prisma/client';
+
+/**
+ * Device command response DTO
+ */
+export class DeviceCommandResponseDto {
+  @ApiProperty({
+    description: 'Command unique identifier',
+    example: 'ee0e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Target device ID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Command type',
+    enum: DeviceCommandType,
+    example: DeviceCommandType.DISPLAY_MESSAGE,
+  })
+  type: DeviceCommandType;
+
+  @ApiProperty({
+    description: 'Command parameters',
+    example: { message: 'Room changed to B-204', durationSeconds: 60 },
+    nullable: true,
+  })
+  payload: unknown;
+
+  @ApiProperty({
+    description: 'Command status',
+    enum: DeviceCommandStatus,
+    example: DeviceCommandStatus.PENDING,
+  })
+  status: DeviceCommandStatus;
+
+  @ApiProperty({
+    description: 'User who queued the command (null if deleted)',
+    example: '110e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+  })
+  issuedById: string | null;
+
+  @ApiProperty({
+    description: 'Command expires if not delivered by then',
+    example: '2025-12-29T09:30:00.000Z',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'When the reader fetched the command',
+    example: null,
+    nullable: true,
+  })
+  deliveredAt: Date | null;
+
+  @ApiProperty({
+    description: 'When the reader reported the command result',
+    example: null,
+    nullable: true,
+  })
+  acknowledgedAt: Date | null;
+
+  @ApiProperty({
+    description: 'Result or error message reported by the reader',
+    example: null,
+    nullable: true,
+  })
+  result: string | null;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2025-12-29T08:30:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2025-12-29T08:30:00.000Z',
+  })
+  updatedAt: Date;
+}
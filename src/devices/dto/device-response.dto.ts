@@ -0,0 +1,200 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DeviceStatus } from '@prisma/client';
+
+/**
+ * Device connectivity computed from the last heartbeat
+ */
+export enum DeviceConnectivity {
+  ONLINE = 'ONLINE',
+  STALE = 'STALE',
+  OFFLINE = 'OFFLINE',
+}
+
+/**
+ * Classroom information in device response
+ */
+export class DeviceClassroomDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'GL2-A' })
+  name: string;
+
+  @ApiProperty({ example: 2 })
+  level: number;
+
+  @ApiProperty({ example: 'GL' })
+  department: string;
+}
+
+/**
+ * Complete IoT device response DTO
+ */
+export class DeviceResponseDto {
+  @ApiProperty({
+    description: 'Device unique identifier',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Unique hardware identifier',
+    example: 'RFID-GL2A-001',
+  })
+  deviceUid: string;
+
+  @ApiProperty({
+    description: 'Classroom ID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  classroomId: string;
+
+  @ApiProperty({
+    description: 'Device status',
+    enum: DeviceStatus,
+    example: DeviceStatus.ACTIVE,
+  })
+  status: DeviceStatus;
+
+  @ApiProperty({
+    description:
+      'When the current device secret was issued (null if not provisioned)',
+    example: '2025-12-29T10:00:00.000Z',
+    nullable: true,
+  })
+  secretIssuedAt: Date | null;
+
+  @ApiProperty({
+    description:
+      'Student the next tapped card will be bound to (null when not enrolling)',
+    example: null,
+    nullable: true,
+  })
+  enrollmentStudentId: string | null;
+
+  @ApiProperty({
+    description: 'When enrollment mode ends (null when not enrolling)',
+    example: null,
+    nullable: true,
+  })
+  enrollmentExpiresAt: Date | null;
+
+  @ApiProperty({
+    description: 'Last heartbeat received (null if never seen)',
+    example: '2025-12-29T08:29:30.000Z',
+    nullable: true,
+  })
+  lastSeenAt: Date | null;
+
+  @ApiProperty({
+    description: 'Firmware version reported by the last heartbeat',
+    example: '1.4.2',
+    nullable: true,
+  })
+  firmwareVersion: string | null;
+
+  @ApiProperty({
+    description: 'IP address reported by the last heartbeat',
+    example: '192.168.10.42',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    description: 'Battery level in percent (null when mains powered)',
+    example: 87,
+    nullable: true,
+  })
+  batteryLevel: number | null;
+
+  @ApiProperty({
+    description: 'Seconds since the reader booted, as of the last heartbeat',
+    example: 86400,
+    nullable: true,
+  })
+  uptimeSeconds: number | null;
+
+  @ApiProperty({
+    description: 'Connectivity computed from the last heartbeat',
+    enum: DeviceConnectivity,
+    example: DeviceConnectivity.ONLINE,
+  })
+  connectivity: DeviceConnectivity;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2025-12-29T10:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2025-12-29T10:00:00.000Z',
+  })
+  updatedAt: Date;
+
+  @ApiPropertyOptional({
+    description: 'Classroom details',
+    type: DeviceClassroomDto,
+  })
+  classroom?: DeviceClassroomDto;
+}
+
+/**
+ * Device secret response DTO
+ * Returned once when a device secret is provisioned or rotated
+ */
+export class DeviceSecretResponseDto {
+  @ApiProperty({
+    description: 'Device unique identifier',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Unique hardware identifier (send as X-Device-Uid)',
+    example: 'RFID-GL2A-001',
+  })
+  deviceUid: string;
+
+  @ApiProperty({
+    description:
+      'Device secret used to sign requests (X-Device-Signature). Shown only once, store it on the device.',
+    example: 'kq3V9bJ2xZr0Xo6m2u4nH1YtL8sWcE5aPpQdRfGhJkA',
+  })
+  secret: string;
+
+  @ApiProperty({
+    description: 'Secret issue timestamp',
+    example: '2025-12-29T10:00:00.000Z',
+  })
+  issuedAt: Date;
+}
+
+/**
+ * Slot scheduled today in the classroom of a silent device
+ */
+export class SilentDeviceSlotDto {
+  @ApiProperty({ example: 'dd0e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: '08:30' })
+  startTime: string;
+
+  @ApiProperty({ example: '10:00' })
+  endTime: string;
+
+  @ApiProperty({ example: 'FLUT301' })
+  subjectCode: string;
+}
+
+/**
+ * Device expected to be in use today that has not reported recently
+ */
+export class SilentDeviceResponseDto extends DeviceResponseDto {
+  @ApiProperty({
+    description: 'Slots scheduled today in the device classroom',
+    type: [SilentDeviceSlotDto],
+  })
+  scheduledToday: SilentDeviceSlotDto[];
+}
@@ -0,0 +1,49 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DeviceCommandType } from '@prisma/client';
+
+/**
+ * DTO for queueing a command for a device
+ */
+export class EnqueueDeviceCommandDto {
+  @ApiProperty({
+    description: 'Command to execute on the reader',
+    enum: DeviceCommandType,
+    example: DeviceCommandType.DISPLAY_MESSAGE,
+  })
+  @IsEnum(DeviceCommandType, {
+    message: `Type must be one of: ${Object.values(DeviceCommandType).join(', ')}`,
+  })
+  @IsNotEmpty({ message: 'Type is required' })
+  type: DeviceCommandType;
+
+  @ApiPropertyOptional({
+    description:
+      'Command parameters. DISPLAY_MESSAGE requires "message"; UPDATE_CONFIG requires at least one setting; ENTER_ENROLLMENT requires "studentId" and accepts "timeoutSeconds".',
+    example: { message: 'Room changed to B-204', durationSeconds: 60 },
+  })
+  @IsOptional()
+  @IsObject({ message: 'Payload must be an object' })
+  payload?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description: 'Seconds the command waits for the reader before expiring',
+    example: 3600,
+    default: 3600,
+    minimum: 30,
+    maximum: 604800,
+  })
+  @IsOptional()
+  @IsInt({ message: 'TTL must be an integer' })
+  @Min(30, { message: 'TTL must be at least 30 seconds' })
+  @Max(604800, { message: 'TTL must not exceed 7 days' })
+  ttlSeconds?: number;
+}
@@ -0,0 +1,77 @@
+import {
+  IsInt,
+  IsIP,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DeviceConnectivity } from './device-response.dto';
+
+/**
+ * DTO for a device heartbeat
+ */
+export class HeartbeatDto {
+  @ApiPropertyOptional({
+    description: 'Firmware version running on the reader',
+    example: '1.4.2',
+    maxLength: 32,
+  })
+  @IsOptional()
+  @IsString({ message: 'Firmware version must be a string' })
+  @MaxLength(32, { message: 'Firmware version must not exceed 32 characters' })
+  firmwareVersion?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IP address of the reader on its network (defaults to the request source address)',
+    example: '192.168.10.42',
+  })
+  @IsOptional()
+  @IsIP(undefined, {
+    message: 'IP address must be a valid IPv4 or IPv6 address',
+  })
+  ipAddress?: string;
+
+  @ApiPropertyOptional({
+    description: 'Battery level in percent (omit when mains powered)',
+    example: 87,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Battery level must be an integer' })
+  @Min(0, { message: 'Battery level must be at least 0' })
+  @Max(100, { message: 'Battery level must not exceed 100' })
+  batteryLevel?: number;
+
+  @ApiPropertyOptional({
+    description: 'Seconds since the reader booted',
+    example: 86400,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Uptime must be an integer' })
+  @Min(0, { message: 'Uptime must not be negative' })
+  uptimeSeconds?: number;
+}
+
+/**
+ * Heartbeat response DTO
+ */
+export class HeartbeatResponseDto {
+  @ApiProperty({
+    description: 'Server time, readers can use it to correct clock drift',
+    example: '2025-12-29T08:30:00.000Z',
+  })
+  serverTime: Date;
+
+  @ApiProperty({
+    description: 'Connectivity state after this heartbeat',
+    enum: DeviceConnectivity,
+    example: DeviceConnectivity.ONLINE,
+  })
+  connectivity: DeviceConnectivity;
+}
@@ -0,0 +1,10 @@
+export * from './create-device.dto';
+export * from './update-device.dto';
+export * from './device-response.dto';
+export * from './start-enrollment.dto';
+export * from './heartbeat.dto';
+export * from './enqueue-device-command.dto';
+export * from './acknowledge-device-command.dto';
+export * from './device-command-response.dto';
+export * from './transfer-device.dto';
+export * from './device-assignment-response.dto';
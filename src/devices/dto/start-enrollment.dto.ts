@@ -0,0 +1,35 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for putting a device into card enrollment mode
+ */
+export class StartEnrollmentDto {
+  @ApiProperty({
+    description: 'Student UUID the next tapped card will be bound to',
+    example: '770e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID('4', { message: 'Student ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Student ID is required' })
+  studentId: string;
+
+  @ApiPropertyOptional({
+    description: 'Seconds the device stays in enrollment mode',
+    example: 120,
+    default: 120,
+    minimum: 10,
+    maximum: 900,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Timeout must be an integer' })
+  @Min(10, { message: 'Timeout must be at least 10 seconds' })
+  @Max(900, { message: 'Timeout must not exceed 900 seconds' })
+  timeoutSeconds?: number;
+}
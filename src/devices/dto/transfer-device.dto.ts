@@ -0,0 +1,31 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for moving a device to another classroom
+ */
+export class TransferDeviceDto {
+  @ApiProperty({
+    description: 'Classroom UUID the device is moved to',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID('4', { message: 'Classroom ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Classroom ID is required' })
+  classroomId: string;
+
+  @ApiPropertyOptional({
+    description: 'Why the device is moved',
+    example: 'Reader in GL2-A replaced after failure',
+    maxLength: 255,
+  })
+  @IsOptional()
+  @IsString({ message: 'Reason must be a string' })
+  @MaxLength(255, { message: 'Reason must not exceed 255 characters' })
+  reason?: string;
+}
@@ -0,0 +1,34 @@
+import { IsEnum, IsOptional, IsString, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { DeviceStatus } from '@prisma/client';
+
+/**
+ * DTO for updating IoT device information
+ * All fields are optional
+ */
+export class UpdateDeviceDto {
+  @ApiPropertyOptional({
+    description: 'Unique hardware identifier of the device',
+    example: 'RFID-GL2A-002',
+  })
+  @IsOptional()
+  @IsString()
+  deviceUid?: string;
+
+  @ApiPropertyOptional({
+    description: 'Classroom UUID where the device is installed',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Classroom ID must be a valid UUID' })
+  classroomId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Device status',
+    enum: DeviceStatus,
+    example: DeviceStatus.INACTIVE,
+  })
+  @IsOptional()
+  @IsEnum(DeviceStatus, { message: 'Status must be either ACTIVE or INACTIVE' })
+  status?: DeviceStatus;
+}
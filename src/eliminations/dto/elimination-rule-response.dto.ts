@@ -0,0 +1,99 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { EliminationRuleScope } from '@prisma/client';
+
+/**
+ * Elimination rule response DTO
+ */
+export class EliminationRuleResponseDto {
+  @ApiProperty({
+    description: 'Rule unique identifier',
+    example: 'ee0e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Scope the rule applies to',
+    enum: EliminationRuleScope,
+    example: EliminationRuleScope.SUBJECT,
+  })
+  scope: EliminationRuleScope;
+
+  @ApiProperty({
+    description: 'Department code for DEPARTMENT rules',
+    example: null,
+    nullable: true,
+  })
+  department: string | null;
+
+  @ApiProperty({
+    description: 'Subject ID for SUBJECT rules',
+    example: '660e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+  })
+  subjectId: string | null;
+
+  @ApiProperty({
+    description: 'Unjustified absences allowed before elimination',
+    example: 3,
+  })
+  maxAbsences: number;
+
+  @ApiProperty({
+    description: 'Absences from which the student is warned',
+    example: 2,
+    nullable: true,
+  })
+  warningAbsences: number | null;
+
+  @ApiProperty({
+    description: 'Number of lates counting as one absence',
+    example: 3,
+    nullable: true,
+  })
+  latesPerAbsence: number | null;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2026-10-19T10:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2026-10-19T10:00:00.000Z',
+  })
+  updatedAt: Date;
+}
+
+/**
+ * Elimination rule in effect for a teaching assignment
+ */
+export class EffectiveEliminationRuleDto {
+  @ApiProperty({
+    description:
+      'Scope of the rule in effect, null when the configured defaults apply',
+    enum: EliminationRuleScope,
+    example: EliminationRuleScope.SUBJECT,
+    nullable: true,
+  })
+  scope: EliminationRuleScope | null;
+
+  @ApiProperty({
+    description: 'ID of the rule in effect, null for configured defaults',
+    example: 'ee0e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+  })
+  ruleId: string | null;
+
+  @ApiProperty({ example: 3 })
+  maxAbsences: number;
+
+  @ApiProperty({
+    description: 'Resolved warning threshold',
+    example: 2,
+  })
+  warningAbsences: number;
+
+  @ApiProperty({ example: 3, nullable: true })
+  latesPerAbsence: number | null;
+}
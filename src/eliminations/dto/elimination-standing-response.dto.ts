@@ -0,0 +1,91 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Position of a student relative to the elimination threshold of a module
+ */
+export enum EliminationStatus {
+  OK = 'OK',
+  WARNING = 'WARNING', // At or past the warning threshold
+  ELIMINATED = 'ELIMINATED', // Past the maximum number of absences
+}
+
+/**
+ * Absence counts of a student in a module checked against its rule
+ */
+export class EliminationEvaluationDto {
+  @ApiProperty({
+    description: 'Unjustified absences',
+    example: 2,
+  })
+  absences: number;
+
+  @ApiProperty({ example: 4 })
+  lates: number;
+
+  @ApiProperty({
+    description: 'Absences covered by an approved justification, not counted',
+    example: 1,
+  })
+  excused: number;
+
+  @ApiProperty({
+    description: 'Absences plus lates converted by the rule',
+    example: 3,
+  })
+  effectiveAbsences: number;
+
+  @ApiProperty({
+    description: 'Effective absences left before elimination',
+    example: 0,
+  })
+  remainingAbsences: number;
+
+  @ApiProperty({
+    enum: EliminationStatus,
+    example: EliminationStatus.WARNING,
+  })
+  status: EliminationStatus;
+}
+
+/**
+ * Standing of a student in one teaching assignment of a classroom
+ */
+export class EliminationStandingDto extends EliminationEvaluationDto {
+  @ApiProperty({
+    example: {
+      id: '990e8400-e29b-41d4-a716-446655440000',
+      studentCode: 'ESP202401',
+      fullName: 'Ahmed Ben Ali',
+    },
+  })
+  student: {
+    id: string;
+    studentCode: string;
+    fullName: string;
+  };
+
+  @ApiProperty({ example: '880e8400-e29b-41d4-a716-446655440000' })
+  teachingAssignmentId: string;
+
+  @ApiProperty({
+    example: {
+      id: '660e8400-e29b-41d4-a716-446655440000',
+      name: 'Flutter',
+      code: 'FLUT301',
+    },
+  })
+  subject: {
+    id: string;
+    name: string;
+    code: string;
+  };
+
+  @ApiProperty({ example: 3 })
+  maxAbsences: number;
+
+  @ApiProperty({ example: 2 })
+  warningAbsences: number;
+
+  @ApiProperty({ example: 3, nullable: true })
+  latesPerAbsence: number | null;
+}
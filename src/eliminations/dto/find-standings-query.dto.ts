@@ -0,0 +1,28 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { EliminationStatus } from './elimination-standing-response.dto';
+
+/**
+ * Query filters for the standings of a classroom
+ */
+export class FindStandingsQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Only return this status. By default students at risk (WARNING or ELIMINATED) are returned.',
+    enum: EliminationStatus,
+    example: EliminationStatus.ELIMINATED,
+  })
+  @IsOptional()
+  @IsEnum(EliminationStatus, {
+    message: 'Status must be OK, WARNING or ELIMINATED',
+  })
+  status?: EliminationStatus;
+
+  @ApiPropertyOptional({
+    description: 'Only return standings in this teaching assignment',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Teaching assignment ID must be a valid UUID' })
+  teachingAssignmentId?: string;
+}
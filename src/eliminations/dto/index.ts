@@ -0,0 +1,4 @@
+export * from './upsert-elimination-rule.dto';
+export * from './elimination-rule-response.dto';
+export * from './elimination-standing-response.dto';
+export * from './find-standings-query.dto';
@@ -0,0 +1,45 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for creating or replacing an elimination rule
+ */
+export class UpsertEliminationRuleDto {
+  @ApiProperty({
+    description:
+      'Unjustified absences allowed; one more eliminates the student from the module',
+    example: 3,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsInt({ message: 'Max absences must be an integer' })
+  @Min(0, { message: 'Max absences cannot be negative' })
+  @Max(100, { message: 'Max absences cannot exceed 100' })
+  maxAbsences: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Absences from which the student is warned. Defaults to max absences.',
+    example: 2,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Warning absences must be an integer' })
+  @Min(0, { message: 'Warning absences cannot be negative' })
+  @Max(100, { message: 'Warning absences cannot exceed 100' })
+  warningAbsences?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Number of lates counting as one absence. Omit to ignore lates.',
+    example: 3,
+    minimum: 1,
+    maximum: 20,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Lates per absence must be an integer' })
+  @Min(1, { message: 'Lates per absence must be at least 1' })
+  @Max(20, { message: 'Lates per absence cannot exceed 20' })
+  latesPerAbsence?: number;
+}
@@ -0,0 +1,30 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EliminationsController } from './eliminations.controller';
+import { EliminationsService } from './eliminations.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+
+describe('EliminationsController', () => {
+  let controller: EliminationsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [EliminationsController],
+      providers: [
+        EliminationsService,
+        { provide: PrismaService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: AccessPolicyService, useValue: {} },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<EliminationsController>(EliminationsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
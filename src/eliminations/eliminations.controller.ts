@@ -0,0 +1,251 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { EliminationsService } from './eliminations.service';
+import {
+  UpsertEliminationRuleDto,
+  EliminationRuleResponseDto,
+  EffectiveEliminationRuleDto,
+  EliminationStandingDto,
+  FindStandingsQueryDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser } from '../auth/decorators';
+import type { AuthenticatedUser } from '../auth/strategies';
+
+/**
+ * Eliminations Controller
+ * Handles absence thresholds per subject or department and the students
+ * at risk of elimination
+ */
+@ApiTags('Eliminations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('eliminations')
+export class EliminationsController {
+  constructor(private readonly eliminationsService: EliminationsService) {}
+
+  /**
+   * Get all elimination rules
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Get all elimination rules',
+    description: 'Retrieve the global, department and subject rules',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of elimination rules',
+    type: [EliminationRuleResponseDto],
+  })
+  @Roles(UserRole.ADMIN)
+  @Get('rules')
+  findAll(): Promise<EliminationRuleResponseDto[]> {
+    return this.eliminationsService.findAll();
+  }
+
+  /**
+   * Get the rule in effect for a teaching assignment
+   * Teachers (own assignments) and Admins
+   */
+  @ApiOperation({
+    summary: 'Get effective rule for a teaching assignment',
+    description:
+      'Resolve the rule applied to a teaching assignment: subject rule, then department rule, then global rule, then configured defaults',
+  })
+  @ApiParam({
+    name: 'teachingAssignmentId',
+    description: 'Teaching assignment UUID',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Rule in effect',
+    type: EffectiveEliminationRuleDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Teaching assignment belongs to another teacher',
+  })
+  @ApiNotFoundResponse({
+    description: 'Teaching assignment not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('rules/effective/:teachingAssignmentId')
+  resolve(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('teachingAssignmentId') teachingAssignmentId: string,
+  ): Promise<EffectiveEliminationRuleDto> {
+    return this.eliminationsService.resolve(user, teachingAssignmentId);
+  }
+
+  /**
+   * Set the global rule
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Set global rule',
+    description: 'Create or replace the rule applied everywhere by default',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Global rule saved',
+    type: EliminationRuleResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or warning threshold above the maximum',
+  })
+  @Roles(UserRole.ADMIN)
+  @Put('rules/global')
+  upsertGlobal(
+    @Body() upsertDto: UpsertEliminationRuleDto,
+  ): Promise<EliminationRuleResponseDto> {
+    return this.eliminationsService.upsertGlobal(upsertDto);
+  }
+
+  /**
+   * Set the rule of a department
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Set department rule',
+    description:
+      'Create or replace the rule applied to modules taught in classrooms of a department',
+  })
+  @ApiParam({
+    name: 'department',
+    description: 'Department code',
+    example: 'GL',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Department rule saved',
+    type: EliminationRuleResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or warning threshold above the maximum',
+  })
+  @Roles(UserRole.ADMIN)
+  @Put('rules/department/:department')
+  upsertForDepartment(
+    @Param('department') department: string,
+    @Body() upsertDto: UpsertEliminationRuleDto,
+  ): Promise<EliminationRuleResponseDto> {
+    return this.eliminationsService.upsertForDepartment(department, upsertDto);
+  }
+
+  /**
+   * Set the rule of a subject
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Set subject rule',
+    description:
+      'Create or replace the rule of a subject, in every classroom it is taught',
+  })
+  @ApiParam({
+    name: 'subjectId',
+    description: 'Subject UUID',
+    example: '660e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Subject rule saved',
+    type: EliminationRuleResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or warning threshold above the maximum',
+  })
+  @ApiNotFoundResponse({
+    description: 'Subject not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Put('rules/subject/:subjectId')
+  upsertForSubject(
+    @Param('subjectId') subjectId: string,
+    @Body() upsertDto: UpsertEliminationRuleDto,
+  ): Promise<EliminationRuleResponseDto> {
+    return this.eliminationsService.upsertForSubject(subjectId, upsertDto);
+  }
+
+  /**
+   * Delete an elimination rule
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Delete an elimination rule',
+    description: 'Delete a rule. Modules fall back to the next broader rule.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Elimination rule UUID',
+    example: 'ee0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Elimination rule deleted successfully',
+  })
+  @ApiNotFoundResponse({
+    description: 'Elimination rule not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Delete('rules/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.eliminationsService.remove(id);
+  }
+
+  /**
+   * Get the students of a classroom at risk of elimination
+   * Teachers (own assignments) and Admins
+   */
+  @ApiOperation({
+    summary: 'Get students at risk in a classroom',
+    description:
+      'Standing of each student in each teaching assignment of the classroom: unjustified absences, lates converted by the rule, and whether the student is warned or eliminated. Returns students at risk by default, most at risk first. Teachers only see their own assignments.',
+  })
+  @ApiParam({
+    name: 'classroomId',
+    description: 'Classroom UUID',
+    example: '770e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Standings per student and teaching assignment',
+    type: [EliminationStandingDto],
+  })
+  @ApiForbiddenResponse({
+    description: 'Teacher does not teach this classroom',
+  })
+  @ApiNotFoundResponse({
+    description: 'Classroom not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('classrooms/:classroomId')
+  findStandings(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('classroomId') classroomId: string,
+    @Query() query: FindStandingsQueryDto,
+  ): Promise<EliminationStandingDto[]> {
+    return this.eliminationsService.findStandings(user, classroomId, query);
+  }
+}
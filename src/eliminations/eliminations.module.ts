@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { EliminationsService } from './eliminations.service';
+import { EliminationsController } from './eliminations.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * Eliminations Module
+ * Handles absence thresholds and the students at risk of elimination
+ */
+@Module({
+  imports: [PrismaModule, AuthModule],
+  controllers: [EliminationsController],
+  providers: [EliminationsService],
+  exports: [EliminationsService],
+})
+export class EliminationsModule {}
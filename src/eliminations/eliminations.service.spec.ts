@@ -0,0 +1,306 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { AttendanceStatus, EliminationRuleScope } from '@prisma/client';
+import {
+  EliminationsService,
+  STUDENT_ELIMINATED_EVENT,
+} from './eliminations.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { EffectiveEliminationRuleDto, EliminationStatus } from './dto';
+
+describe('EliminationsService', () => {
+  let service: EliminationsService;
+  let config: Record<string, string>;
+
+  const prisma = {
+    eliminationRule: { findMany: jest.fn(), upsert: jest.fn() },
+    session: { findUniqueOrThrow: jest.fn() },
+    attendanceRecord: { findMany: jest.fn() },
+  };
+  const eventEmitter = { emit: jest.fn() };
+
+  const rule = (
+    overrides: Partial<EffectiveEliminationRuleDto> = {},
+  ): EffectiveEliminationRuleDto => ({
+    scope: EliminationRuleScope.GLOBAL,
+    ruleId: 'ff0e8400-e29b-41d4-a716-446655440000',
+    maxAbsences: 3,
+    warningAbsences: 2,
+    latesPerAbsence: null,
+    ...overrides,
+  });
+
+  const counts = (absences: number, lates = 0, excused = 0) => ({
+    absences,
+    lates,
+    excused,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EliminationsService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        { provide: AccessPolicyService, useValue: {} },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<EliminationsService>(EliminationsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('evaluate', () => {
+    it('is OK below the warning threshold', () => {
+      expect(service.evaluate(rule(), counts(1))).toEqual({
+        ...counts(1),
+        effectiveAbsences: 1,
+        remainingAbsences: 2,
+        status: EliminationStatus.OK,
+      });
+    });
+
+    it('warns from the warning threshold up to the maximum', () => {
+      expect(service.evaluate(rule(), counts(2)).status).toBe(
+        EliminationStatus.WARNING,
+      );
+      expect(service.evaluate(rule(), counts(3))).toEqual(
+        expect.objectContaining({
+          remainingAbsences: 0,
+          status: EliminationStatus.WARNING,
+        }),
+      );
+    });
+
+    it('eliminates past the maximum', () => {
+      expect(service.evaluate(rule(), counts(4))).toEqual(
+        expect.objectContaining({
+          effectiveAbsences: 4,
+          remainingAbsences: 0,
+          status: EliminationStatus.ELIMINATED,
+        }),
+      );
+    });
+
+    it('never counts excused absences', () => {
+      expect(service.evaluate(rule(), counts(1, 0, 5))).toEqual(
+        expect.objectContaining({
+          effectiveAbsences: 1,
+          status: EliminationStatus.OK,
+        }),
+      );
+    });
+
+    it('counts one absence per latesPerAbsence lates', () => {
+      const withLates = rule({ latesPerAbsence: 3 });
+
+      expect(service.evaluate(withLates, counts(1, 2)).effectiveAbsences).toBe(
+        1,
+      );
+      expect(service.evaluate(withLates, counts(1, 7)).effectiveAbsences).toBe(
+        3,
+      );
+      expect(service.evaluate(withLates, counts(2, 6)).status).toBe(
+        EliminationStatus.ELIMINATED,
+      );
+    });
+
+    it('ignores lates when the rule does not convert them', () => {
+      expect(service.evaluate(rule(), counts(0, 10)).status).toBe(
+        EliminationStatus.OK,
+      );
+    });
+
+    it('does not warn without absences under a zero threshold', () => {
+      const zeroWarning = rule({ warningAbsences: 0 });
+
+      expect(service.evaluate(zeroWarning, counts(0)).status).toBe(
+        EliminationStatus.OK,
+      );
+      expect(service.evaluate(zeroWarning, counts(1)).status).toBe(
+        EliminationStatus.WARNING,
+      );
+    });
+  });
+
+  describe('resolveMany', () => {
+    const ruleRow = (
+      id: string,
+      scope: EliminationRuleScope,
+      target: { subjectId?: string; department?: string } = {},
+    ) => ({
+      id,
+      scope,
+      subjectId: target.subjectId ?? null,
+      department: target.department ?? null,
+      maxAbsences: 4,
+      warningAbsences: null,
+      latesPerAbsence: 2,
+    });
+
+    it('prefers subject, then department, then global rules', async () => {
+      prisma.eliminationRule.findMany.mockResolvedValue([
+        ruleRow('global', EliminationRuleScope.GLOBAL),
+        ruleRow('department', EliminationRuleScope.DEPARTMENT, {
+          department: 'GL',
+        }),
+        ruleRow('subject', EliminationRuleScope.SUBJECT, {
+          subjectId: 'subject-1',
+        }),
+      ]);
+
+      const rules = await service.resolveMany([
+        { subjectId: 'subject-1', department: 'GL' },
+        { subjectId: 'subject-2', department: 'GL' },
+        { subjectId: 'subject-2', department: 'RT' },
+      ]);
+
+      expect(rules.map((r) => r.ruleId)).toEqual([
+        'subject',
+        'department',
+        'global',
+      ]);
+      expect(rules[0]).toEqual({
+        scope: EliminationRuleScope.SUBJECT,
+        ruleId: 'subject',
+        maxAbsences: 4,
+        warningAbsences: 4,
+        latesPerAbsence: 2,
+      });
+    });
+
+    it('falls back to the configured defaults', async () => {
+      prisma.eliminationRule.findMany.mockResolvedValue([]);
+      config = {
+        ATTENDANCE_ABSENCE_LIMIT: '5',
+        ATTENDANCE_LATES_PER_ABSENCE: '3',
+      };
+
+      await expect(
+        service.resolveMany([{ subjectId: 'subject-1', department: 'GL' }]),
+      ).resolves.toEqual([
+        {
+          scope: null,
+          ruleId: null,
+          maxAbsences: 5,
+          warningAbsences: 5,
+          latesPerAbsence: 3,
+        },
+      ]);
+    });
+
+    it('allows 3 absences without configuration', async () => {
+      prisma.eliminationRule.findMany.mockResolvedValue([]);
+
+      const [defaultRule] = await service.resolveMany([
+        { subjectId: 'subject-1', department: 'GL' },
+      ]);
+
+      expect(defaultRule).toEqual(
+        expect.objectContaining({ maxAbsences: 3, latesPerAbsence: null }),
+      );
+    });
+  });
+
+  describe('detectEliminations', () => {
+    const sessionId = 'aa0e8400-e29b-41d4-a716-446655440000';
+    const studentId = '990e8400-e29b-41d4-a716-446655440000';
+
+    const absences = (count: number) =>
+      Array.from({ length: count }, () => ({
+        studentId,
+        status: AttendanceStatus.ABSENT,
+      }));
+
+    beforeEach(() => {
+      prisma.session.findUniqueOrThrow.mockResolvedValue({
+        teachingAssignment: {
+          id: 'assignment-1',
+          subjectId: 'subject-1',
+          classroom: { department: 'GL' },
+        },
+      });
+      prisma.eliminationRule.findMany.mockResolvedValue([]);
+    });
+
+    it('reports a student crossing the threshold', async () => {
+      prisma.attendanceRecord.findMany.mockResolvedValue(absences(4));
+
+      await service.detectEliminations({
+        sessionId,
+        changes: [
+          {
+            studentId,
+            status: AttendanceStatus.ABSENT,
+            previousStatus: AttendanceStatus.PRESENT,
+          },
+        ],
+      });
+
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        STUDENT_ELIMINATED_EVENT,
+        expect.objectContaining({
+          studentId,
+          teachingAssignmentId: 'assignment-1',
+          evaluation: expect.objectContaining({
+            effectiveAbsences: 4,
+            status: EliminationStatus.ELIMINATED,
+          }) as object,
+        }),
+      );
+    });
+
+    it('does not report a student already eliminated', async () => {
+      prisma.attendanceRecord.findMany.mockResolvedValue(absences(5));
+
+      await service.detectEliminations({
+        sessionId,
+        changes: [
+          {
+            studentId,
+            status: AttendanceStatus.ABSENT,
+            previousStatus: null,
+          },
+        ],
+      });
+
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upsertGlobal', () => {
+    it('upserts the single global rule on its unique key', async () => {
+      prisma.eliminationRule.upsert.mockResolvedValue({});
+
+      await service.upsertGlobal({ maxAbsences: 4 });
+
+      expect(prisma.eliminationRule.upsert).toHaveBeenCalledWith({
+        where: { isGlobal: true },
+        create: {
+          scope: EliminationRuleScope.GLOBAL,
+          isGlobal: true,
+          maxAbsences: 4,
+          warningAbsences: null,
+          latesPerAbsence: null,
+        },
+        update: {
+          maxAbsences: 4,
+          warningAbsences: null,
+          latesPerAbsence: null,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,579 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import {
+  AttendanceStatus,
+  EliminationRule,
+  EliminationRuleScope,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import { ATTENDANCE_CHANGED_EVENT } from '../sessions/session-events';
+import type { AttendanceChangedEvent } from '../sessions/session-events';
+import {
+  UpsertEliminationRuleDto,
+  EliminationRuleResponseDto,
+  EffectiveEliminationRuleDto,
+  EliminationEvaluationDto,
+  EliminationStandingDto,
+  EliminationStatus,
+  FindStandingsQueryDto,
+} from './dto';
+
+/**
+ * What a rule is resolved for: the subject and department of an assignment
+ */
+export interface EliminationRuleTarget {
+  subjectId: string;
+  department: string;
+}
+
+/**
+ * Attendance counts of a student in one teaching assignment
+ */
+export interface AbsenceCounts {
+  absences: number;
+  lates: number;
+  excused: number;
+}
+
+/**
+ * Emitted when an attendance change pushes a student past the elimination
+ * threshold of a teaching assignment
+ */
+export const STUDENT_ELIMINATED_EVENT = 'student.eliminated';
+
+/**
+ * Payload of the student eliminated event
+ */
+export interface StudentEliminatedEvent {
+  studentId: string;
+  teachingAssignmentId: string;
+  rule: EffectiveEliminationRuleDto;
+  evaluation: EliminationEvaluationDto;
+}
+
+const STATUS_SEVERITY: Record<EliminationStatus, number> = {
+  [EliminationStatus.ELIMINATED]: 2,
+  [EliminationStatus.WARNING]: 1,
+  [EliminationStatus.OK]: 0,
+};
+
+/**
+ * Eliminations Service
+ * Checks unjustified absences per student and teaching assignment against
+ * the elimination threshold of the module
+ * Rules resolve from the most specific scope: subject, department, global,
+ * then the configured defaults. Excused absences never count; lates count
+ * as one absence per latesPerAbsence when the rule sets it
+ */
+@Injectable()
+export class EliminationsService {
+  private readonly logger = new Logger(EliminationsService.name);
+  private readonly DEFAULT_MAX_ABSENCES = 3;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly accessPolicy: AccessPolicyService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Find all elimination rules
+   */
+  async findAll(): Promise<EliminationRuleResponseDto[]> {
+    return this.prisma.eliminationRule.findMany({
+      orderBy: [{ scope: 'asc' }, { department: 'asc' }],
+    });
+  }
+
+  /**
+   * Resolve the rule in effect for a teaching assignment
+   */
+  async resolve(
+    user: AuthenticatedUser,
+    teachingAssignmentId: string,
+  ): Promise<EffectiveEliminationRuleDto> {
+    await this.accessPolicy.assertAssignmentAccess(user, teachingAssignmentId);
+
+    const assignment = await this.prisma.teachingAssignment.findUnique({
+      where: { id: teachingAssignmentId },
+      select: {
+        subjectId: true,
+        classroom: {
+          select: {
+            department: true,
+          },
+        },
+      },
+    });
+
+    if (!assignment) {
+      throw new NotFoundException(
+        `Teaching assignment with ID ${teachingAssignmentId} not found`,
+      );
+    }
+
+    const [rule] = await this.resolveMany([
+      {
+        subjectId: assignment.subjectId,
+        department: assignment.classroom.department,
+      },
+    ]);
+
+    return rule;
+  }
+
+  /**
+   * Resolve the rules in effect for several targets with one query
+   * Results are in the order of the targets
+   */
+  async resolveMany(
+    targets: EliminationRuleTarget[],
+  ): Promise<EffectiveEliminationRuleDto[]> {
+    const rules = await this.prisma.eliminationRule.findMany({
+      where: {
+        OR: [
+          { subjectId: { in: targets.map((target) => target.subjectId) } },
+          { department: { in: targets.map((target) => target.department) } },
+          { scope: EliminationRuleScope.GLOBAL },
+        ],
+      },
+    });
+
+    const globalRule = rules.find(
+      (rule) => rule.scope === EliminationRuleScope.GLOBAL,
+    );
+
+    return targets.map((target) => {
+      const rule =
+        rules.find((r) => r.subjectId === target.subjectId) ??
+        rules.find((r) => r.department === target.department) ??
+        globalRule;
+
+      return rule ? this.toEffectiveRule(rule) : this.getDefaultRule();
+    });
+  }
+
+  /**
+   * Check attendance counts against a rule
+   */
+  evaluate(
+    rule: EffectiveEliminationRuleDto,
+    counts: AbsenceCounts,
+  ): EliminationEvaluationDto {
+    const effectiveAbsences =
+      counts.absences +
+      (rule.latesPerAbsence
+        ? Math.floor(counts.lates / rule.latesPerAbsence)
+        : 0);
+
+    let status = EliminationStatus.OK;
+    if (effectiveAbsences > rule.maxAbsences) {
+      status = EliminationStatus.ELIMINATED;
+    } else if (
+      // A zero threshold only warns once there is something to warn about
+      effectiveAbsences > 0 &&
+      effectiveAbsences >= rule.warningAbsences
+    ) {
+      status = EliminationStatus.WARNING;
+    }
+
+    return {
+      ...counts,
+      effectiveAbsences,
+      remainingAbsences: Math.max(rule.maxAbsences - effectiveAbsences, 0),
+      status,
+    };
+  }
+
+  /**
+   * Get the standings of the students of a classroom in each of its
+   * teaching assignments
+   * Teachers only see their own assignments; by default only students at
+   * risk are returned, most at risk first
+   */
+  async findStandings(
+    user: AuthenticatedUser,
+    classroomId: string,
+    query: FindStandingsQueryDto,
+  ): Promise<EliminationStandingDto[]> {
+    await this.accessPolicy.assertClassroomAccess(user, classroomId);
+
+    const classroom = await this.prisma.classroom.findUnique({
+      where: { id: classroomId },
+      select: { department: true },
+    });
+
+    if (!classroom) {
+      throw new NotFoundException(`Classroom with ID ${classroomId} not found`);
+    }
+
+    const [assignments, students] = await Promise.all([
+      this.prisma.teachingAssignment.findMany({
+        where: {
+          AND: [
+            {
+              classroomId,
+              ...(query.teachingAssignmentId && {
+                id: query.teachingAssignmentId,
+              }),
+            },
+            this.accessPolicy.assignmentScope(user),
+          ],
+        },
+        select: {
+          id: true,
+          subject: {
+            select: {
+              id: true,
+              name: true,
+              code: true,
+            },
+          },
+        },
+      }),
+      this.prisma.student.findMany({
+        where: { classroomId },
+        select: {
+          id: true,
+          studentCode: true,
+          fullName: true,
+        },
+      }),
+    ]);
+
+    const [records, rules] = await Promise.all([
+      this.prisma.attendanceRecord.findMany({
+        where: {
+          studentId: { in: students.map((student) => student.id) },
+          status: {
+            in: [
+              AttendanceStatus.ABSENT,
+              AttendanceStatus.LATE,
+              AttendanceStatus.EXCUSED,
+            ],
+          },
+          session: {
+            teachingAssignmentId: {
+              in: assignments.map((assignment) => assignment.id),
+            },
+          },
+        },
+        select: {
+          studentId: true,
+          status: true,
+          session: { select: { teachingAssignmentId: true } },
+        },
+      }),
+      this.resolveMany(
+        assignments.map((assignment) => ({
+          subjectId: assignment.subject.id,
+          department: classroom.department,
+        })),
+      ),
+    ]);
+
+    const counts = new Map<string, AbsenceCounts>();
+    for (const record of records) {
+      const key = `${record.session.teachingAssignmentId}:${record.studentId}`;
+      const entry = counts.get(key) ?? { absences: 0, lates: 0, excused: 0 };
+
+      this.addStatus(entry, record.status, 1);
+      counts.set(key, entry);
+    }
+
+    const standings: EliminationStandingDto[] = assignments.flatMap(
+      (assignment, index) =>
+        students.map((student) => ({
+          student,
+          teachingAssignmentId: assignment.id,
+          subject: assignment.subject,
+          maxAbsences: rules[index].maxAbsences,
+          warningAbsences: rules[index].warningAbsences,
+          latesPerAbsence: rules[index].latesPerAbsence,
+          ...this.evaluate(
+            rules[index],
+            counts.get(`${assignment.id}:${student.id}`) ?? {
+              absences: 0,
+              lates: 0,
+              excused: 0,
+            },
+          ),
+        })),
+    );
+
+    return standings
+      .filter((standing) =>
+        query.status
+          ? standing.status === query.status
+          : standing.status !== EliminationStatus.OK,
+      )
+      .sort(
+        (a, b) =>
+          STATUS_SEVERITY[b.status] - STATUS_SEVERITY[a.status] ||
+          b.effectiveAbsences - a.effectiveAbsences ||
+          a.student.fullName.localeCompare(b.student.fullName),
+      );
+  }
+
+  /**
+   * Emit an event for each student an attendance change pushed past the
+   * threshold of the session's assignment
+   * Counts before the change are derived by undoing it, so students already
+   * eliminated are not reported again
+   */
+  @OnEvent(ATTENDANCE_CHANGED_EVENT)
+  async detectEliminations(event: AttendanceChangedEvent): Promise<void> {
+    const changes = event.changes.filter(
+      (change) => change.status !== change.previousStatus,
+    );
+
+    if (changes.length === 0) {
+      return;
+    }
+
+    try {
+      const session = await this.prisma.session.findUniqueOrThrow({
+        where: { id: event.sessionId },
+        select: {
+          teachingAssignment: {
+            select: {
+              id: true,
+              subjectId: true,
+              classroom: { select: { department: true } },
+            },
+          },
+        },
+      });
+      const assignment = session.teachingAssignment;
+
+      const [[rule], records] = await Promise.all([
+        this.resolveMany([
+          {
+            subjectId: assignment.subjectId,
+            department: assignment.classroom.department,
+          },
+        ]),
+        this.prisma.attendanceRecord.findMany({
+          where: {
+            studentId: { in: changes.map((change) => change.studentId) },
+            status: {
+              in: [
+                AttendanceStatus.ABSENT,
+                AttendanceStatus.LATE,
+                AttendanceStatus.EXCUSED,
+              ],
+            },
+            session: { teachingAssignmentId: assignment.id },
+          },
+          select: { studentId: true, status: true },
+        }),
+      ]);
+
+      for (const change of changes) {
+        const after: AbsenceCounts = { absences: 0, lates: 0, excused: 0 };
+        for (const record of records) {
+          if (record.studentId === change.studentId) {
+            this.addStatus(after, record.status, 1);
+          }
+        }
+
+        const before = { ...after };
+        this.addStatus(before, change.status, -1);
+        this.addStatus(before, change.previousStatus, 1);
+
+        const evaluation = this.evaluate(rule, after);
+        if (
+          evaluation.status !== EliminationStatus.ELIMINATED ||
+          this.evaluate(rule, before).status === EliminationStatus.ELIMINATED
+        ) {
+          continue;
+        }
+
+        this.logger.log(
+          `Student ${change.studentId} eliminated from assignment ${assignment.id} (${evaluation.effectiveAbsences} effective absence(s))`,
+        );
+        this.eventEmitter.emit(STUDENT_ELIMINATED_EVENT, {
+          studentId: change.studentId,
+          teachingAssignmentId: assignment.id,
+          rule,
+          evaluation,
+        } satisfies StudentEliminatedEvent);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to check eliminations for session ${event.sessionId}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Create or replace the global rule
+   */
+  async upsertGlobal(
+    upsertDto: UpsertEliminationRuleDto,
+  ): Promise<EliminationRuleResponseDto> {
+    return this.save(
+      EliminationRuleScope.GLOBAL,
+      { isGlobal: true },
+      { isGlobal: true },
+      upsertDto,
+    );
+  }
+
+  /**
+   * Create or replace the rule of a department
+   */
+  async upsertForDepartment(
+    department: string,
+    upsertDto: UpsertEliminationRuleDto,
+  ): Promise<EliminationRuleResponseDto> {
+    return this.save(
+      EliminationRuleScope.DEPARTMENT,
+      { department },
+      { department },
+      upsertDto,
+    );
+  }
+
+  /**
+   * Create or replace the rule of a subject
+   */
+  async upsertForSubject(
+    subjectId: string,
+    upsertDto: UpsertEliminationRuleDto,
+  ): Promise<EliminationRuleResponseDto> {
+    const subject = await this.prisma.subject.findUnique({
+      where: { id: subjectId },
+    });
+
+    if (!subject) {
+      throw new NotFoundException(`Subject with ID ${subjectId} not found`);
+    }
+
+    return this.save(
+      EliminationRuleScope.SUBJECT,
+      { subjectId },
+      { subjectId },
+      upsertDto,
+    );
+  }
+
+  /**
+   * Delete an elimination rule
+   * Assignments then fall back to the next broader rule
+   */
+  async remove(id: string): Promise<void> {
+    const rule = await this.prisma.eliminationRule.findUnique({
+      where: { id },
+    });
+
+    if (!rule) {
+      throw new NotFoundException(`Elimination rule with ID ${id} not found`);
+    }
+
+    await this.prisma.eliminationRule.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Elimination rule deleted: ${rule.scope} ${id}`);
+  }
+
+  /**
+   * Create or replace a rule identified by its scope key
+   */
+  private async save(
+    scope: EliminationRuleScope,
+    where: Prisma.EliminationRuleWhereUniqueInput,
+    scopeKey: Pick<
+      Prisma.EliminationRuleUncheckedCreateInput,
+      'isGlobal' | 'department' | 'subjectId'
+    >,
+    upsertDto: UpsertEliminationRuleDto,
+  ): Promise<EliminationRuleResponseDto> {
+    const { maxAbsences, warningAbsences, latesPerAbsence } = upsertDto;
+
+    if (warningAbsences !== undefined && warningAbsences > maxAbsences) {
+      throw new BadRequestException(
+        'Warning absences cannot exceed max absences',
+      );
+    }
+
+    const data = {
+      maxAbsences,
+      warningAbsences: warningAbsences ?? null,
+      latesPerAbsence: latesPerAbsence ?? null,
+    };
+
+    const rule = await this.prisma.eliminationRule.upsert({
+      where,
+      create: { scope, ...scopeKey, ...data },
+      update: data,
+    });
+
+    this.logger.log(
+      `Elimination rule saved: ${scope} ${scopeKey.department ?? scopeKey.subjectId ?? ''}`.trim(),
+    );
+    return rule;
+  }
+
+  private toEffectiveRule(rule: EliminationRule): EffectiveEliminationRuleDto {
+    return {
+      scope: rule.scope,
+      ruleId: rule.id,
+      maxAbsences: rule.maxAbsences,
+      warningAbsences: rule.warningAbsences ?? rule.maxAbsences,
+      latesPerAbsence: rule.latesPerAbsence,
+    };
+  }
+
+  /**
+   * Add a record to (or remove it from) attendance counts
+   */
+  private addStatus(
+    counts: AbsenceCounts,
+    status: AttendanceStatus | null,
+    delta: number,
+  ): void {
+    if (status === AttendanceStatus.ABSENT) counts.absences += delta;
+    if (status === AttendanceStatus.LATE) counts.lates += delta;
+    if (status === AttendanceStatus.EXCUSED) counts.excused += delta;
+  }
+
+  /**
+   * Rule built from environment configuration
+   */
+  private getDefaultRule(): EffectiveEliminationRuleDto {
+    const maxAbsences = Number(
+      this.configService.get<string>('ATTENDANCE_ABSENCE_LIMIT'),
+    );
+    const latesPerAbsence = Number(
+      this.configService.get<string>('ATTENDANCE_LATES_PER_ABSENCE'),
+    );
+    const max =
+      Number.isInteger(maxAbsences) && maxAbsences > 0
+        ? maxAbsences
+        : this.DEFAULT_MAX_ABSENCES;
+
+    return {
+      scope: null,
+      ruleId: null,
+      maxAbsences: max,
+      warningAbsences: max,
+      latesPerAbsence:
+        Number.isInteger(latesPerAbsence) && latesPerAbsence > 0
+          ? latesPerAbsence
+          : null,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { IsDateString, IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * File formats of exports
+ */
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+/**
+ * Languages of export column headers and status labels
+ */
+export enum ExportLanguage {
+  EN = 'en',
+  FR = 'fr',
+}
+
+/**
+ * Query options shared by every export
+ */
+export class ExportQueryDto {
+  @ApiPropertyOptional({
+    description: 'File format',
+    enum: ExportFormat,
+    default: ExportFormat.CSV,
+    example: ExportFormat.XLSX,
+  })
+  @IsOptional()
+  @IsEnum(ExportFormat, { message: 'Format must be csv or xlsx' })
+  format?: ExportFormat;
+
+  @ApiPropertyOptional({
+    description: 'Language of column headers and status labels',
+    enum: ExportLanguage,
+    default: ExportLanguage.EN,
+    example: ExportLanguage.FR,
+  })
+  @IsOptional()
+  @IsEnum(ExportLanguage, { message: 'Language must be en or fr' })
+  lang?: ExportLanguage;
+}
+
+/**
+ * Query options of exports covering a period
+ */
+export class ExportRangeQueryDto extends ExportQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only include sessions started at or after this date',
+    example: '2026-09-15T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'From must be a valid ISO 8601 date' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only include sessions started at or before this date',
+    example: '2026-12-20T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'To must be a valid ISO 8601 date' })
+  to?: string;
+}
@@ -0,0 +1,86 @@
+import { AttendanceStatus } from '@prisma/client';
+import { EliminationStatus } from '../eliminations/dto';
+import { ExportLanguage } from './dto';
+
+/**
+ * Column headers of exports
+ */
+export interface ExportHeaders {
+  studentCode: string;
+  fullName: string;
+  status: string;
+  scannedAt: string;
+  sessions: string;
+  present: string;
+  late: string;
+  absent: string;
+  excused: string;
+  absenceRate: string;
+  effectiveAbsences: string;
+  eliminationStatus: string;
+}
+
+export const EXPORT_HEADERS: Record<ExportLanguage, ExportHeaders> = {
+  [ExportLanguage.EN]: {
+    studentCode: 'Student code',
+    fullName: 'Full name',
+    status: 'Status',
+    scannedAt: 'Scanned at',
+    sessions: 'Sessions',
+    present: 'Present',
+    late: 'Late',
+    absent: 'Absent',
+    excused: 'Excused',
+    absenceRate: 'Absence rate (%)',
+    effectiveAbsences: 'Effective absences',
+    eliminationStatus: 'Elimination status',
+  },
+  [ExportLanguage.FR]: {
+    studentCode: 'Matricule',
+    fullName: 'Nom et prénom',
+    status: 'Statut',
+    scannedAt: 'Heure de pointage',
+    sessions: 'Séances',
+    present: 'Présent',
+    late: 'Retard',
+    absent: 'Absent',
+    excused: 'Excusé',
+    absenceRate: "Taux d'absence (%)",
+    effectiveAbsences: 'Absences comptabilisées',
+    eliminationStatus: "Statut d'élimination",
+  },
+};
+
+export const ATTENDANCE_STATUS_LABELS: Record<
+  ExportLanguage,
+  Record<AttendanceStatus, string>
+> = {
+  [ExportLanguage.EN]: {
+    [AttendanceStatus.PRESENT]: 'Present',
+    [AttendanceStatus.LATE]: 'Late',
+    [AttendanceStatus.ABSENT]: 'Absent',
+    [AttendanceStatus.EXCUSED]: 'Excused',
+  },
+  [ExportLanguage.FR]: {
+    [AttendanceStatus.PRESENT]: 'Présent',
+    [AttendanceStatus.LATE]: 'Retard',
+    [AttendanceStatus.ABSENT]: 'Absent',
+    [AttendanceStatus.EXCUSED]: 'Excusé',
+  },
+};
+
+export const ELIMINATION_STATUS_LABELS: Record<
+  ExportLanguage,
+  Record<EliminationStatus, string>
+> = {
+  [ExportLanguage.EN]: {
+    [EliminationStatus.OK]: 'OK',
+    [EliminationStatus.WARNING]: 'Warning',
+    [EliminationStatus.ELIMINATED]: 'Eliminated',
+  },
+  [ExportLanguage.FR]: {
+    [EliminationStatus.OK]: 'OK',
+    [EliminationStatus.WARNING]: 'Avertissement',
+    [EliminationStatus.ELIMINATED]: 'Éliminé',
+  },
+};
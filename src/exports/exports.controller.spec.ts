@@ -0,0 +1,32 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ExportsController } from './exports.controller';
+import { ExportsService } from './exports.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { EliminationsService } from '../eliminations/eliminations.service';
+
+describe('ExportsController', () => {
+  let controller: ExportsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ExportsController],
+      providers: [
+        ExportsService,
+        { provide: PrismaService, useValue: {} },
+        { provide: AccessPolicyService, useValue: {} },
+        { provide: SessionsService, useValue: {} },
+        { provide: EliminationsService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<ExportsController>(ExportsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
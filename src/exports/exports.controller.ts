@@ -0,0 +1,171 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Res,
+  HttpStatus,
+  UseGuards,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiProduces,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { ExportsService, ExportFile } from './exports.service';
+import { ExportQueryDto, ExportRangeQueryDto } from './dto';
+import { EXPORT_MIME_TYPES } from './spreadsheet-writer';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser } from '../auth/decorators';
+import type { AuthenticatedUser } from '../auth/strategies';
+
+/**
+ * Exports Controller
+ * Attendance spreadsheets as CSV or XLSX downloads
+ */
+@ApiTags('Exports')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.TEACHER)
+@ApiProduces(...Object.values(EXPORT_MIME_TYPES))
+@ApiForbiddenResponse({
+  description: 'Resource belongs to another teacher',
+})
+@Controller('exports')
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  /**
+   * Export the roster of a session
+   * Teachers (own sessions) and Admins
+   */
+  @ApiOperation({
+    summary: 'Export a session roster',
+    description:
+      'One row per student of the session with attendance status and scan time',
+  })
+  @ApiParam({
+    name: 'sessionId',
+    description: 'Session UUID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Spreadsheet file',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session not found',
+  })
+  @Get('sessions/:sessionId')
+  async exportSession(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('sessionId') sessionId: string,
+    @Query() query: ExportQueryDto,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<StreamableFile> {
+    return this.toStreamableFile(
+      await this.exportsService.exportSession(user, sessionId, query),
+      response,
+    );
+  }
+
+  /**
+   * Export the attendance matrix of a classroom
+   * Teachers (own assignments) and Admins
+   */
+  @ApiOperation({
+    summary: 'Export a classroom attendance matrix',
+    description:
+      'One row per student and one column per session started in the period, followed by totals per status. Teachers only get the sessions of their own assignments.',
+  })
+  @ApiParam({
+    name: 'classroomId',
+    description: 'Classroom UUID',
+    example: '770e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Spreadsheet file',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or too many sessions in the period',
+  })
+  @ApiNotFoundResponse({
+    description: 'Classroom not found',
+  })
+  @Get('classrooms/:classroomId')
+  async exportClassroom(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('classroomId') classroomId: string,
+    @Query() query: ExportRangeQueryDto,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<StreamableFile> {
+    return this.toStreamableFile(
+      await this.exportsService.exportClassroom(user, classroomId, query),
+      response,
+    );
+  }
+
+  /**
+   * Export the summary of a teaching assignment
+   * Teachers (own assignments) and Admins
+   */
+  @ApiOperation({
+    summary: 'Export a teaching assignment summary',
+    description:
+      'One row per student of the classroom with counts per status, absence rate and elimination standing over the period',
+  })
+  @ApiParam({
+    name: 'teachingAssignmentId',
+    description: 'Teaching assignment UUID',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Spreadsheet file',
+  })
+  @ApiNotFoundResponse({
+    description: 'Teaching assignment not found',
+  })
+  @Get('teaching-assignments/:teachingAssignmentId')
+  async exportTeachingAssignment(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('teachingAssignmentId') teachingAssignmentId: string,
+    @Query() query: ExportRangeQueryDto,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<StreamableFile> {
+    return this.toStreamableFile(
+      await this.exportsService.exportTeachingAssignment(
+        user,
+        teachingAssignmentId,
+        query,
+      ),
+      response,
+    );
+  }
+
+  /**
+   * Stream an export as a download
+   * The export stops when the client disconnects before the end
+   */
+  private toStreamableFile(
+    file: ExportFile,
+    response: Response,
+  ): StreamableFile {
+    response.once('close', () => file.stream.destroy());
+
+    return new StreamableFile(file.stream, {
+      type: file.mimeType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+}
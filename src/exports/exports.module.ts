@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ExportsService } from './exports.service';
+import { ExportsController } from './exports.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { EliminationsModule } from '../eliminations/eliminations.module';
+
+/**
+ * Exports Module
+ * Attendance exports to CSV and XLSX
+ */
+@Module({
+  imports: [PrismaModule, AuthModule, SessionsModule, EliminationsModule],
+  controllers: [ExportsController],
+  providers: [ExportsService],
+})
+export class ExportsModule {}
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { AttendanceStatus, UserRole } from '@prisma/client';
+import { ExportsService } from './exports.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { EliminationsService } from '../eliminations/eliminations.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import { ExportFormat } from './dto';
+
+describe('ExportsService', () => {
+  let service: ExportsService;
+
+  const admin = { id: 'user-1', role: UserRole.ADMIN } as AuthenticatedUser;
+
+  const prisma = {
+    classroom: { findUnique: jest.fn() },
+    session: { findMany: jest.fn() },
+    student: { findMany: jest.fn() },
+    attendanceRecord: { findMany: jest.fn() },
+  };
+
+  const accessPolicy = {
+    assertClassroomAccess: jest.fn(),
+    assignmentScope: jest.fn(() => ({})),
+  };
+
+  const sessions = (count: number) =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `session-${index + 1}`,
+      startedAt: new Date(Date.UTC(2026, 9, 19 + index, 7, 0)),
+      teachingAssignment: { subject: { code: 'ALGO' } },
+    }));
+
+  const read = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk as Buffer));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.classroom.findUnique.mockResolvedValue({
+      id: 'classroom-1',
+      name: 'GL2-A',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AccessPolicyService, useValue: accessPolicy },
+        { provide: SessionsService, useValue: {} },
+        { provide: EliminationsService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => 'Africa/Tunis') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExportsService>(ExportsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('exportClassroom', () => {
+    it('refuses periods with more than 1000 sessions', async () => {
+      prisma.session.findMany.mockResolvedValue(sessions(1001));
+
+      await expect(
+        service.exportClassroom(admin, 'classroom-1', {}),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 1001 }),
+      );
+      expect(prisma.student.findMany).not.toHaveBeenCalled();
+    });
+
+    it('exports exactly 1000 sessions', async () => {
+      prisma.session.findMany.mockResolvedValue(sessions(1000));
+      prisma.student.findMany.mockResolvedValue([]);
+
+      const file = await service.exportClassroom(admin, 'classroom-1', {});
+      const [header] = (await read(file.stream)).split('\r\n');
+
+      // Code, name, one column per session and four totals
+      expect(header.split(',')).toHaveLength(1006);
+    });
+
+    it('streams one row per student, loading students in batches', async () => {
+      prisma.session.findMany.mockResolvedValue(sessions(2));
+      const batch = Array.from({ length: 200 }, (_, index) => ({
+        id: `student-${index}`,
+        studentCode: `STU${String(index).padStart(3, '0')}`,
+        fullName: index === 0 ? '=Mallory' : `Student ${index}`,
+      }));
+      prisma.student.findMany
+        .mockResolvedValueOnce(batch)
+        .mockResolvedValueOnce([
+          { id: 'student-last', studentCode: 'STU200', fullName: 'Zied' },
+        ]);
+      prisma.attendanceRecord.findMany
+        .mockResolvedValueOnce([
+          {
+            studentId: 'student-0',
+            sessionId: 'session-1',
+            status: AttendanceStatus.PRESENT,
+          },
+          {
+            studentId: 'student-0',
+            sessionId: 'session-2',
+            status: AttendanceStatus.ABSENT,
+          },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const file = await service.exportClassroom(admin, 'classroom-1', {
+        format: ExportFormat.CSV,
+      });
+      const lines = (await read(file.stream)).split('\r\n');
+
+      expect(file.fileName).toBe('classroom-GL2-A.csv');
+      expect(lines[0]).toBe(
+        '\uFEFFStudent code,Full name,2026-10-19 08:00 ALGO,2026-10-20 08:00 ALGO,Present,Late,Absent,Excused',
+      );
+      expect(lines[1]).toBe("STU000,'=Mallory,Present,Absent,1,0,1,0");
+      expect(lines[201]).toBe('STU200,Zied,,,0,0,0,0');
+      expect(lines).toHaveLength(203);
+      expect(prisma.student.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          cursor: { id: 'student-199' },
+          skip: 1,
+        }),
+      );
+    });
+
+    it('aborts the download when writing fails', async () => {
+      prisma.session.findMany.mockResolvedValue(sessions(1));
+      prisma.student.findMany.mockRejectedValue(new Error('Connection lost'));
+
+      const file = await service.exportClassroom(admin, 'classroom-1', {});
+
+      await expect(read(file.stream)).rejects.toThrow('Connection lost');
+    });
+  });
+});
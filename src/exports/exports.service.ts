@@ -0,0 +1,420 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PassThrough, Readable } from 'stream';
+import { AttendanceStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { EliminationsService } from '../eliminations/eliminations.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import {
+  ExportFormat,
+  ExportLanguage,
+  ExportQueryDto,
+  ExportRangeQueryDto,
+} from './dto';
+import {
+  EXPORT_HEADERS,
+  ATTENDANCE_STATUS_LABELS,
+  ELIMINATION_STATUS_LABELS,
+} from './export-labels';
+import {
+  EXPORT_MIME_TYPES,
+  SpreadsheetWriter,
+  createSpreadsheetWriter,
+} from './spreadsheet-writer';
+
+/**
+ * A generated export, streamed while it is being written
+ */
+export interface ExportFile {
+  stream: Readable;
+  fileName: string;
+  mimeType: string;
+}
+
+type StudentRow = Prisma.StudentGetPayload<{
+  select: { id: true; studentCode: true; fullName: true };
+}>;
+
+/**
+ * Exports Service
+ * Attendance spreadsheets (CSV or XLSX) for administration
+ * Files are streamed: students are loaded in batches and each row is
+ * written out as soon as it is built
+ */
+@Injectable()
+export class ExportsService {
+  private readonly logger = new Logger(ExportsService.name);
+  private readonly STUDENT_BATCH_SIZE = 200;
+  private readonly MAX_MATRIX_SESSIONS = 1000;
+  private readonly DEFAULT_TIMEZONE = 'Africa/Tunis';
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly accessPolicy: AccessPolicyService,
+    private readonly sessionsService: SessionsService,
+    private readonly eliminationsService: EliminationsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.timeZone =
+      this.configService.get<string>('TIMETABLE_TIMEZONE') ||
+      this.DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Roster of a session: one row per student with status and scan time
+   */
+  async exportSession(
+    user: AuthenticatedUser,
+    sessionId: string,
+    query: ExportQueryDto,
+  ): Promise<ExportFile> {
+    const session = await this.sessionsService.findOne(user, sessionId);
+    const lang = query.lang ?? ExportLanguage.EN;
+    const headers = EXPORT_HEADERS[lang];
+    const assignment = session.teachingAssignment;
+
+    return this.stream(
+      query,
+      [
+        'session',
+        assignment?.classroom.name,
+        assignment?.subject.code,
+        this.formatDate(session.startedAt),
+      ]
+        .filter(Boolean)
+        .join('-'),
+      async (writer) => {
+        await writer.addRow([
+          headers.studentCode,
+          headers.fullName,
+          headers.status,
+          headers.scannedAt,
+        ]);
+
+        for (const entry of session.roster) {
+          await writer.addRow([
+            entry.student.studentCode,
+            entry.student.fullName,
+            entry.status ? ATTENDANCE_STATUS_LABELS[lang][entry.status] : null,
+            entry.scannedAt,
+          ]);
+        }
+      },
+    );
+  }
+
+  /**
+   * Attendance matrix of a classroom over a period: one row per student, one
+   * column per session, followed by totals per status
+   * Teachers only get the sessions of their own assignments
+   */
+  async exportClassroom(
+    user: AuthenticatedUser,
+    classroomId: string,
+    query: ExportRangeQueryDto,
+  ): Promise<ExportFile> {
+    await this.accessPolicy.assertClassroomAccess(user, classroomId);
+
+    const classroom = await this.prisma.classroom.findUnique({
+      where: { id: classroomId },
+      select: { id: true, name: true },
+    });
+
+    if (!classroom) {
+      throw new NotFoundException(`Classroom with ID ${classroomId} not found`);
+    }
+
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        startedAt: this.rangeFilter(query),
+        teachingAssignment: {
+          AND: [{ classroomId }, this.accessPolicy.assignmentScope(user)],
+        },
+      },
+      select: {
+        id: true,
+        startedAt: true,
+        teachingAssignment: {
+          select: {
+            subject: { select: { code: true } },
+          },
+        },
+      },
+      orderBy: { startedAt: 'asc' },
+      take: this.MAX_MATRIX_SESSIONS + 1,
+    });
+
+    if (sessions.length > this.MAX_MATRIX_SESSIONS) {
+      throw new BadRequestException(
+        `More than ${this.MAX_MATRIX_SESSIONS} sessions in the period, narrow the date range`,
+      );
+    }
+
+    const lang = query.lang ?? ExportLanguage.EN;
+    const headers = EXPORT_HEADERS[lang];
+    const counted = [
+      AttendanceStatus.PRESENT,
+      AttendanceStatus.LATE,
+      AttendanceStatus.ABSENT,
+      AttendanceStatus.EXCUSED,
+    ];
+
+    return this.stream(
+      query,
+      `classroom-${classroom.name}${this.rangeSuffix(query)}`,
+      async (writer) => {
+        await writer.addRow([
+          headers.studentCode,
+          headers.fullName,
+          ...sessions.map(
+            (session) =>
+              `${this.formatDateTime(session.startedAt)} ${session.teachingAssignment.subject.code}`,
+          ),
+          headers.present,
+          headers.late,
+          headers.absent,
+          headers.excused,
+        ]);
+
+        for await (const students of this.studentBatches(classroomId)) {
+          const records = await this.prisma.attendanceRecord.findMany({
+            where: {
+              studentId: { in: students.map((student) => student.id) },
+              sessionId: { in: sessions.map((session) => session.id) },
+            },
+            select: { studentId: true, sessionId: true, status: true },
+          });
+
+          const statuses = new Map(
+            records.map((record) => [
+              `${record.studentId}:${record.sessionId}`,
+              record.status,
+            ]),
+          );
+
+          for (const student of students) {
+            const row = sessions.map((session) =>
+              statuses.get(`${student.id}:${session.id}`),
+            );
+
+            await writer.addRow([
+              student.studentCode,
+              student.fullName,
+              ...row.map((status) =>
+                status ? ATTENDANCE_STATUS_LABELS[lang][status] : null,
+              ),
+              ...counted.map(
+                (status) => row.filter((cell) => cell === status).length,
+              ),
+            ]);
+          }
+        }
+      },
+    );
+  }
+
+  /**
+   * Summary of a teaching assignment: one row per student with counts per
+   * status, absence rate and elimination standing
+   */
+  async exportTeachingAssignment(
+    user: AuthenticatedUser,
+    teachingAssignmentId: string,
+    query: ExportRangeQueryDto,
+  ): Promise<ExportFile> {
+    await this.accessPolicy.assertAssignmentAccess(user, teachingAssignmentId);
+
+    const assignment = await this.prisma.teachingAssignment.findUnique({
+      where: { id: teachingAssignmentId },
+      select: {
+        subjectId: true,
+        subject: { select: { code: true } },
+        classroom: { select: { id: true, name: true, department: true } },
+      },
+    });
+
+    if (!assignment) {
+      throw new NotFoundException(
+        `Teaching assignment with ID ${teachingAssignmentId} not found`,
+      );
+    }
+
+    const [rule] = await this.eliminationsService.resolveMany([
+      {
+        subjectId: assignment.subjectId,
+        department: assignment.classroom.department,
+      },
+    ]);
+
+    const lang = query.lang ?? ExportLanguage.EN;
+    const headers = EXPORT_HEADERS[lang];
+
+    return this.stream(
+      query,
+      `assignment-${assignment.classroom.name}-${assignment.subject.code}${this.rangeSuffix(query)}`,
+      async (writer) => {
+        await writer.addRow([
+          headers.studentCode,
+          headers.fullName,
+          headers.sessions,
+          headers.present,
+          headers.late,
+          headers.absent,
+          headers.excused,
+          headers.absenceRate,
+          headers.effectiveAbsences,
+          headers.eliminationStatus,
+        ]);
+
+        for await (const students of this.studentBatches(
+          assignment.classroom.id,
+        )) {
+          const groups = await this.prisma.attendanceRecord.groupBy({
+            by: ['studentId', 'status'],
+            where: {
+              studentId: { in: students.map((student) => student.id) },
+              session: {
+                teachingAssignmentId,
+                startedAt: this.rangeFilter(query),
+              },
+            },
+            _count: { _all: true },
+          });
+
+          for (const student of students) {
+            const count = (status: AttendanceStatus) =>
+              groups.find(
+                (group) =>
+                  group.studentId === student.id && group.status === status,
+              )?._count._all ?? 0;
+
+            const present = count(AttendanceStatus.PRESENT);
+            const evaluation = this.eliminationsService.evaluate(rule, {
+              absences: count(AttendanceStatus.ABSENT),
+              lates: count(AttendanceStatus.LATE),
+              excused: count(AttendanceStatus.EXCUSED),
+            });
+            const sessions =
+              present +
+              evaluation.absences +
+              evaluation.lates +
+              evaluation.excused;
+
+            await writer.addRow([
+              student.studentCode,
+              student.fullName,
+              sessions,
+              present,
+              evaluation.lates,
+              evaluation.absences,
+              evaluation.excused,
+              sessions > 0
+                ? Math.round((evaluation.absences / sessions) * 1000) / 10
+                : 0,
+              evaluation.effectiveAbsences,
+              ELIMINATION_STATUS_LABELS[lang][evaluation.status],
+            ]);
+          }
+        }
+      },
+    );
+  }
+
+  /**
+   * Start writing an export in the background and hand back its stream
+   * Errors past this point can no longer become an HTTP error response, so
+   * they are logged and abort the download
+   */
+  private stream(
+    query: ExportQueryDto,
+    baseName: string,
+    write: (writer: SpreadsheetWriter) => Promise<void>,
+  ): ExportFile {
+    const format = query.format ?? ExportFormat.CSV;
+    const output = new PassThrough();
+    const writer = createSpreadsheetWriter(
+      format,
+      output,
+      baseName,
+      this.timeZone,
+    );
+
+    write(writer)
+      .then(() => writer.end())
+      .catch((error: Error) => {
+        this.logger.error(`Export ${baseName} failed: ${error.message}`);
+        output.destroy(error);
+      });
+
+    return {
+      stream: output,
+      fileName: `${baseName.replace(/[^A-Za-z0-9_-]+/g, '-')}.${format}`,
+      mimeType: EXPORT_MIME_TYPES[format],
+    };
+  }
+
+  /**
+   * Students of a classroom in batches, ordered by name
+   */
+  private async *studentBatches(
+    classroomId: string,
+  ): AsyncGenerator<StudentRow[]> {
+    let cursor: string | undefined;
+
+    for (;;) {
+      const students = await this.prisma.student.findMany({
+        where: { classroomId },
+        select: { id: true, studentCode: true, fullName: true },
+        orderBy: [{ fullName: 'asc' }, { id: 'asc' }],
+        take: this.STUDENT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (students.length === 0) {
+        return;
+      }
+
+      yield students;
+
+      if (students.length < this.STUDENT_BATCH_SIZE) {
+        return;
+      }
+      cursor = students[students.length - 1].id;
+    }
+  }
+
+  private rangeFilter(query: ExportRangeQueryDto): Prisma.DateTimeFilter {
+    return {
+      ...(query.from && { gte: new Date(query.from) }),
+      ...(query.to && { lte: new Date(query.to) }),
+    };
+  }
+
+  private rangeSuffix(query: ExportRangeQueryDto): string {
+    return [query.from, query.to]
+      .map((date) => (date ? `-${this.formatDate(new Date(date))}` : ''))
+      .join('');
+  }
+
+  private formatDate(date: Date): string {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: this.timeZone,
+      dateStyle: 'short',
+    }).format(date);
+  }
+
+  private formatDateTime(date: Date): string {
+    return `${this.formatDate(date)} ${new Intl.DateTimeFormat('en-GB', {
+      timeZone: this.timeZone,
+      timeStyle: 'short',
+    }).format(date)}`;
+  }
+}
@@ -0,0 +1,145 @@
+import { PassThrough, Writable } from 'stream';
+import { ExportFormat } from './dto';
+import { createSpreadsheetWriter, escapeCsvField } from './spreadsheet-writer';
+
+describe('spreadsheet-writer', () => {
+  describe('escapeCsvField', () => {
+    it.each([
+      ['=HYPERLINK("http://x")', `"'=HYPERLINK(""http://x"")"`],
+      ['+33 6 12 34 56 78', "'+33 6 12 34 56 78"],
+      ['-1+1', "'-1+1"],
+      ['@SUM(A1:A2)', "'@SUM(A1:A2)"],
+      ['\t=1+1', "'\t=1+1"],
+      ['\r=1+1', `"'\r=1+1"`],
+    ])('neutralizes the formula %j', (text, escaped) => {
+      expect(escapeCsvField(text)).toBe(escaped);
+    });
+
+    it.each([
+      ['Ben Salah, Amira', '"Ben Salah, Amira"'],
+      ['Said "Sam" Trabelsi', '"Said ""Sam"" Trabelsi"'],
+      ['Line\nbreak', '"Line\nbreak"'],
+    ])('quotes %j', (text, escaped) => {
+      expect(escapeCsvField(text)).toBe(escaped);
+    });
+
+    it('leaves plain text and inner formula characters alone', () => {
+      expect(escapeCsvField('Amira Ben-Salah')).toBe('Amira Ben-Salah');
+      expect(escapeCsvField('a=b')).toBe('a=b');
+    });
+  });
+
+  describe('CSV writer', () => {
+    const read = async (output: PassThrough) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of output) {
+        chunks.push(Buffer.from(chunk as Buffer));
+      }
+      return Buffer.concat(chunks).toString('utf8');
+    };
+
+    it('streams rows with a byte order mark and CRLF line endings', async () => {
+      const output = new PassThrough();
+      const writer = createSpreadsheetWriter(
+        ExportFormat.CSV,
+        output,
+        'sheet',
+        'Africa/Tunis',
+      );
+      const content = read(output);
+
+      await writer.addRow(['Code', 'Name', 'Scanned at', 'Count']);
+      await writer.addRow([
+        'STU001',
+        '=cmd|calc',
+        new Date('2026-10-19T07:31:05.000Z'),
+        3,
+      ]);
+      await writer.addRow(['STU002', null, null, 0]);
+      await writer.end();
+
+      await expect(content).resolves.toBe(
+        '\uFEFFCode,Name,Scanned at,Count\r\n' +
+          "STU001,'=cmd|calc,2026-10-19 08:31:05,3\r\n" +
+          'STU002,,,0\r\n',
+      );
+    });
+
+    it('waits for the output to drain before returning', async () => {
+      const written: string[] = [];
+      let release!: () => void;
+      const output = new Writable({
+        highWaterMark: 8,
+        write(chunk: Buffer, _encoding, callback) {
+          written.push(chunk.toString());
+          // Hold the first chunks until the test lets the client catch up
+          release = callback;
+        },
+      });
+      const writer = createSpreadsheetWriter(
+        ExportFormat.CSV,
+        output,
+        'sheet',
+        'UTC',
+      );
+
+      let settled = false;
+      const pending = writer
+        .addRow(['A row longer than the buffer'])
+        .then(() => (settled = true));
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(settled).toBe(false);
+
+      // Let every buffered chunk through
+      while (!settled) {
+        release();
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      await pending;
+
+      expect(written.join('')).toBe('\uFEFFA row longer than the buffer\r\n');
+    });
+
+    it('stops when the client disconnects while waiting', async () => {
+      const output = new Writable({
+        highWaterMark: 1,
+        // Never acknowledged: the client stopped reading
+        write: () => undefined,
+      });
+      const writer = createSpreadsheetWriter(
+        ExportFormat.CSV,
+        output,
+        'sheet',
+        'UTC',
+      );
+
+      const pending = writer.addRow(['A row']);
+      output.destroy();
+
+      await expect(pending).rejects.toThrow('Export output closed');
+      await expect(writer.addRow(['Another row'])).rejects.toThrow();
+    });
+  });
+
+  describe('XLSX writer', () => {
+    it('writes a zip archive', async () => {
+      const output = new PassThrough();
+      const chunks: Buffer[] = [];
+      output.on('data', (chunk: Buffer) => chunks.push(chunk));
+      const finished = new Promise((resolve) => output.on('end', resolve));
+
+      const writer = createSpreadsheetWriter(
+        ExportFormat.XLSX,
+        output,
+        'Classroom [A/B]: 2026-10-19 to 2026-12-31',
+        'UTC',
+      );
+      await writer.addRow(['Code', new Date('2026-10-19T07:31:05.000Z'), 1]);
+      await writer.end();
+      await finished;
+
+      expect(Buffer.concat(chunks).subarray(0, 2).toString()).toBe('PK');
+    });
+  });
+});
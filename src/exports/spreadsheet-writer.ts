@@ -0,0 +1,174 @@
+import { Writable } from 'stream';
+import * as ExcelJS from 'exceljs';
+import { ExportFormat } from './dto';
+
+export type SpreadsheetCell = string | number | Date | null;
+
+/**
+ * Writes rows of a single-sheet spreadsheet to a stream as they come
+ * Rows are never buffered as a whole, so exports of any size run in
+ * constant memory
+ */
+export interface SpreadsheetWriter {
+  addRow(cells: SpreadsheetCell[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.XLSX]:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Create the writer of a format
+ */
+export function createSpreadsheetWriter(
+  format: ExportFormat,
+  output: Writable,
+  sheetName: string,
+  timeZone: string,
+): SpreadsheetWriter {
+  return format === ExportFormat.XLSX
+    ? new XlsxWriter(output, sheetName, timeZone)
+    : new CsvWriter(output, timeZone);
+}
+
+/**
+ * Wait until the output accepts more data
+ * Rejects when the output closes or fails first, e.g. when the client
+ * disconnects, so the export stops instead of waiting forever
+ */
+function drained(output: Writable): Promise<void> {
+  if (output.destroyed) {
+    return Promise.reject(new Error('Export output closed'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      output.off('drain', onDrain);
+      output.off('close', onClose);
+      output.off('error', settle);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new Error('Export output closed'));
+
+    output.once('drain', onDrain);
+    output.once('close', onClose);
+    output.once('error', settle);
+  });
+}
+
+/**
+ * Date and time of an instant in a time zone, e.g. "2026-10-19 08:31:05"
+ */
+function formatDateTime(date: Date, timeZone: string): string {
+  const day = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    dateStyle: 'short',
+  }).format(date);
+  const time = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    timeStyle: 'medium',
+  }).format(date);
+
+  return `${day} ${time}`;
+}
+
+/**
+ * Escape a text field of a CSV line
+ * Text that spreadsheet software would run as a formula is prefixed with a
+ * quote, so names like "=HYPERLINK(...)" stay plain text; fields holding
+ * quotes, commas or line breaks are quoted as RFC 4180 requires
+ */
+export function escapeCsvField(text: string): string {
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * RFC 4180 CSV, with a byte order mark so spreadsheet software reads
+ * accented characters correctly
+ */
+class CsvWriter implements SpreadsheetWriter {
+  constructor(
+    private readonly output: Writable,
+    private readonly timeZone: string,
+  ) {
+    output.write('\uFEFF');
+  }
+
+  async addRow(cells: SpreadsheetCell[]): Promise<void> {
+    const line = cells.map((cell) => this.format(cell)).join(',') + '\r\n';
+
+    if (!this.output.write(line)) {
+      await drained(this.output);
+    }
+  }
+
+  end(): Promise<void> {
+    this.output.end();
+    return Promise.resolve();
+  }
+
+  private format(cell: SpreadsheetCell): string {
+    if (cell === null) return '';
+    if (typeof cell === 'number') return String(cell);
+
+    return escapeCsvField(
+      cell instanceof Date ? formatDateTime(cell, this.timeZone) : cell,
+    );
+  }
+}
+
+/**
+ * XLSX through the ExcelJS streaming writer; each row is flushed to the
+ * output once committed
+ * Dates are written as text in the export time zone, as the sheet has no
+ * styles to format date cells with
+ */
+class XlsxWriter implements SpreadsheetWriter {
+  private readonly workbook: ExcelJS.stream.xlsx.WorkbookWriter;
+  private readonly worksheet: ExcelJS.Worksheet;
+
+  constructor(
+    private readonly output: Writable,
+    sheetName: string,
+    private readonly timeZone: string,
+  ) {
+    this.workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    // Sheet names are limited to 31 characters and cannot contain []:*?/\
+    this.worksheet = this.workbook.addWorksheet(
+      sheetName.replace(/[[\]:*?/\\]/g, '-').slice(0, 31),
+    );
+  }
+
+  async addRow(cells: SpreadsheetCell[]): Promise<void> {
+    this.worksheet
+      .addRow(
+        cells.map((cell) =>
+          cell instanceof Date ? formatDateTime(cell, this.timeZone) : cell,
+        ),
+      )
+      .commit();
+
+    if (this.output.writableNeedDrain) {
+      await drained(this.output);
+    }
+  }
+
+  async end(): Promise<void> {
+    this.worksheet.commit();
+    await this.workbook.commit();
+  }
+}
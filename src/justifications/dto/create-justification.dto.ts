@@ -0,0 +1,32 @@
+import { IsDateString, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for submitting an absence justification
+ * Sent as multipart/form-data, with the supporting document in "document"
+ */
+export class CreateJustificationDto {
+  @ApiProperty({
+    description: 'Start of the period to excuse',
+    example: '2026-10-19T00:00:00.000Z',
+  })
+  @IsDateString({}, { message: 'Starts at must be a valid ISO 8601 date' })
+  startsAt: string;
+
+  @ApiProperty({
+    description: 'End of the period to excuse',
+    example: '2026-10-20T23:59:59.999Z',
+  })
+  @IsDateString({}, { message: 'Ends at must be a valid ISO 8601 date' })
+  endsAt: string;
+
+  @ApiProperty({
+    description: 'Why the student was absent',
+    example: 'Medical appointment, certificate attached',
+    maxLength: 1000,
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Reason is required' })
+  @MaxLength(1000, { message: 'Reason cannot exceed 1000 characters' })
+  reason: string;
+}
@@ -0,0 +1,27 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { JustificationStatus } from '@prisma/client';
+
+/**
+ * Query filters for listing justifications
+ */
+export class FindJustificationsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by review status',
+    enum: JustificationStatus,
+    example: JustificationStatus.PENDING,
+  })
+  @IsOptional()
+  @IsEnum(JustificationStatus, {
+    message: 'Status must be PENDING, APPROVED or REJECTED',
+  })
+  status?: JustificationStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by student UUID (ignored for students)',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Student ID must be a valid UUID' })
+  studentId?: string;
+}
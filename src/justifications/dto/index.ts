@@ -0,0 +1,4 @@
+export * from './create-justification.dto';
+export * from './review-justification.dto';
+export * from './find-justifications-query.dto';
+export * from './justification-response.dto';
@@ -0,0 +1,91 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { JustificationStatus } from '@prisma/client';
+
+/**
+ * Document attached to a justification
+ */
+export class JustificationDocumentDto {
+  @ApiProperty({ example: 'certificate.pdf' })
+  name: string;
+
+  @ApiProperty({ example: 'application/pdf' })
+  mimeType: string;
+
+  @ApiProperty({ description: 'Size in bytes', example: 184320 })
+  size: number;
+}
+
+/**
+ * Justification response
+ */
+export class JustificationResponseDto {
+  @ApiProperty({ example: 'dd0e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({
+    example: {
+      id: '990e8400-e29b-41d4-a716-446655440000',
+      studentCode: 'ESP202401',
+      fullName: 'Ahmed Ben Ali',
+    },
+  })
+  student: {
+    id: string;
+    studentCode: string;
+    fullName: string;
+  };
+
+  @ApiProperty({ example: '2026-10-19T00:00:00.000Z' })
+  startsAt: Date;
+
+  @ApiProperty({ example: '2026-10-20T23:59:59.999Z' })
+  endsAt: Date;
+
+  @ApiProperty({ example: 'Medical appointment, certificate attached' })
+  reason: string;
+
+  @ApiProperty({
+    enum: JustificationStatus,
+    example: JustificationStatus.PENDING,
+  })
+  status: JustificationStatus;
+
+  @ApiProperty({
+    type: JustificationDocumentDto,
+    nullable: true,
+  })
+  document: JustificationDocumentDto | null;
+
+  @ApiProperty({
+    description: 'Admin who reviewed the justification',
+    example: {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      email: 'admin@esprit.tn',
+    },
+    nullable: true,
+  })
+  reviewedBy: {
+    id: string;
+    email: string;
+  } | null;
+
+  @ApiProperty({ example: '2026-10-21T09:00:00.000Z', nullable: true })
+  reviewedAt: Date | null;
+
+  @ApiProperty({ example: 'Certificate checked', nullable: true })
+  reviewComment: string | null;
+
+  @ApiProperty({ example: '2026-10-20T18:30:00.000Z' })
+  createdAt: Date;
+}
+
+/**
+ * Approved justification with the records it excused
+ */
+export class ApproveJustificationResultDto extends JustificationResponseDto {
+  @ApiProperty({
+    description: 'ABSENT and LATE records of the period turned EXCUSED',
+    example: 4,
+  })
+  excusedCount: number;
+}
@@ -0,0 +1,33 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for approving a justification
+ */
+export class ApproveJustificationDto {
+  @ApiPropertyOptional({
+    description: 'Note for the student',
+    example: 'Certificate checked',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Comment cannot exceed 500 characters' })
+  comment?: string;
+}
+
+/**
+ * DTO for rejecting a justification
+ * The student is told why
+ */
+export class RejectJustificationDto {
+  @ApiProperty({
+    description: 'Why the justification is rejected',
+    example: 'The certificate does not cover these dates',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Comment is required when rejecting' })
+  @MaxLength(500, { message: 'Comment cannot exceed 500 characters' })
+  comment: string;
+}
@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { JustificationsController } from './justifications.controller';
+import { JustificationsService } from './justifications.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+
+describe('JustificationsController', () => {
+  let controller: JustificationsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [JustificationsController],
+      providers: [
+        JustificationsService,
+        { provide: PrismaService, useValue: {} },
+        { provide: StorageService, useValue: {} },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<JustificationsController>(JustificationsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
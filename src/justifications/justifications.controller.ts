@@ -0,0 +1,274 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  StreamableFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiParam,
+  ApiProduces,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiUnsupportedMediaTypeResponse,
+  ApiPayloadTooLargeResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JustificationsService } from './justifications.service';
+import {
+  CreateJustificationDto,
+  ApproveJustificationDto,
+  RejectJustificationDto,
+  FindJustificationsQueryDto,
+  JustificationResponseDto,
+  ApproveJustificationResultDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser } from '../auth/decorators';
+import type { AuthenticatedUser } from '../auth/strategies';
+
+/**
+ * Justifications Controller
+ * Students submit absence justifications, admins review them
+ */
+@ApiTags('Justifications')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('justifications')
+export class JustificationsController {
+  constructor(private readonly justificationsService: JustificationsService) {}
+
+  /**
+   * Submit a justification
+   * Students only
+   */
+  @ApiOperation({
+    summary: 'Submit a justification',
+    description:
+      'Submit a reason for being absent over a period, optionally with a supporting document (PDF, JPEG or PNG, up to JUSTIFICATION_MAX_FILE_MB). The justification stays PENDING until an admin reviews it.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['startsAt', 'endsAt', 'reason'],
+      properties: {
+        startsAt: { type: 'string', example: '2026-10-19T00:00:00.000Z' },
+        endsAt: { type: 'string', example: '2026-10-21T23:59:59.000Z' },
+        reason: {
+          type: 'string',
+          example: 'Flu, medical certificate attached',
+        },
+        document: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Justification submitted',
+    type: JustificationResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or period',
+  })
+  @ApiForbiddenResponse({
+    description: 'Not a student account',
+  })
+  @ApiUnsupportedMediaTypeResponse({
+    description: 'Document is not a PDF, JPEG or PNG file',
+  })
+  @ApiPayloadTooLargeResponse({
+    description: 'Document too large',
+  })
+  @Roles(UserRole.STUDENT)
+  @Post()
+  @UseInterceptors(FileInterceptor('document'))
+  create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() createJustificationDto: CreateJustificationDto,
+    @UploadedFile() document?: Express.Multer.File,
+  ): Promise<JustificationResponseDto> {
+    return this.justificationsService.create(
+      user,
+      createJustificationDto,
+      document,
+    );
+  }
+
+  /**
+   * Get justifications
+   * Admins (all) and Students (their own)
+   */
+  @ApiOperation({
+    summary: 'Get justifications',
+    description:
+      'Newest first. Students only see their own; admins can filter by status and student.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of justifications',
+    type: [JustificationResponseDto],
+  })
+  @Roles(UserRole.ADMIN, UserRole.STUDENT)
+  @Get()
+  findAll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: FindJustificationsQueryDto,
+  ): Promise<JustificationResponseDto[]> {
+    return this.justificationsService.findAll(user, query);
+  }
+
+  /**
+   * Get a justification by ID
+   * Admins and Students (their own)
+   */
+  @ApiOperation({
+    summary: 'Get a justification',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Justification UUID',
+    example: 'dd0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Justification found',
+    type: JustificationResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Justification not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.STUDENT)
+  @Get(':id')
+  findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<JustificationResponseDto> {
+    return this.justificationsService.findOne(user, id);
+  }
+
+  /**
+   * Download the document of a justification
+   * Admins and Students (their own)
+   */
+  @ApiOperation({
+    summary: 'Download a justification document',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Justification UUID',
+    example: 'dd0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiProduces('application/pdf', 'image/jpeg', 'image/png')
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The document file',
+  })
+  @ApiNotFoundResponse({
+    description: 'Justification or document not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.STUDENT)
+  @Get(':id/document')
+  async downloadDocument(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<StreamableFile> {
+    const { stream, name, mimeType } =
+      await this.justificationsService.openDocument(user, id);
+
+    return new StreamableFile(stream, {
+      type: mimeType,
+      disposition: `attachment; filename="${encodeURIComponent(name)}"`,
+    });
+  }
+
+  /**
+   * Approve a justification
+   * Admins only
+   */
+  @ApiOperation({
+    summary: 'Approve a justification',
+    description:
+      'Every ABSENT or LATE record of the student in a session starting within the period becomes EXCUSED, and each change is logged in the attendance audit trail. Sessions closed later within the period mark the student EXCUSED instead of ABSENT.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Justification UUID',
+    example: 'dd0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Justification approved',
+    type: ApproveJustificationResultDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Justification not found',
+  })
+  @ApiConflictResponse({
+    description: 'Justification already reviewed',
+  })
+  @Roles(UserRole.ADMIN)
+  @Patch(':id/approve')
+  approve(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() approveJustificationDto: ApproveJustificationDto,
+  ): Promise<ApproveJustificationResultDto> {
+    return this.justificationsService.approve(
+      user,
+      id,
+      approveJustificationDto,
+    );
+  }
+
+  /**
+   * Reject a justification
+   * Admins only
+   */
+  @ApiOperation({
+    summary: 'Reject a justification',
+    description:
+      'Attendance records are left unchanged. A comment is required.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Justification UUID',
+    example: 'dd0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Justification rejected',
+    type: JustificationResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Justification not found',
+  })
+  @ApiConflictResponse({
+    description: 'Justification already reviewed',
+  })
+  @Roles(UserRole.ADMIN)
+  @Patch(':id/reject')
+  reject(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() rejectJustificationDto: RejectJustificationDto,
+  ): Promise<JustificationResponseDto> {
+    return this.justificationsService.reject(user, id, rejectJustificationDto);
+  }
+}
@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { JustificationsService } from './justifications.service';
+import { JustificationsController } from './justifications.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { StorageModule } from '../storage/storage.module';
+
+const DEFAULT_MAX_FILE_MB = 5;
+
+/**
+ * Justifications Module
+ * Absence justifications with supporting documents and admin review
+ */
+@Module({
+  imports: [
+    PrismaModule,
+    StorageModule,
+    MulterModule.registerAsync({
+      useFactory: (configService: ConfigService) => {
+        const maxFileMb = Number(
+          configService.get<string>('JUSTIFICATION_MAX_FILE_MB'),
+        );
+
+        return {
+          limits: {
+            fileSize:
+              (maxFileMb > 0 ? maxFileMb : DEFAULT_MAX_FILE_MB) * 1024 * 1024,
+            files: 1,
+          },
+        };
+      },
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [JustificationsController],
+  providers: [JustificationsService],
+})
+export class JustificationsModule {}
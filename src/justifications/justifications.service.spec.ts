@@ -0,0 +1,280 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  ConflictException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import {
+  AttendanceStatus,
+  JustificationStatus,
+  UserRole,
+} from '@prisma/client';
+import { JustificationsService } from './justifications.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import { ATTENDANCE_CHANGED_EVENT } from '../sessions/session-events';
+
+describe('JustificationsService', () => {
+  let service: JustificationsService;
+
+  const startsAt = new Date('2026-10-12T00:00:00.000Z');
+  const endsAt = new Date('2026-10-14T23:59:59.000Z');
+
+  const student = {
+    id: 'user-1',
+    email: 'student@example.com',
+    role: UserRole.STUDENT,
+    student: {
+      id: 'student-1',
+      studentCode: 'STU001',
+      fullName: 'Yacine Haddad',
+      classroomId: 'classroom-1',
+    },
+  } as AuthenticatedUser;
+  const admin = {
+    id: 'user-2',
+    email: 'admin@example.com',
+    role: UserRole.ADMIN,
+  } as AuthenticatedUser;
+
+  const justification = {
+    id: 'justification-1',
+    studentId: 'student-1',
+    student: student.student,
+    startsAt,
+    endsAt,
+    reason: 'Flu',
+    status: JustificationStatus.APPROVED,
+    documentKey: null,
+    documentName: null,
+    documentMimeType: null,
+    documentSize: null,
+    reviewedBy: { id: 'user-2', email: 'admin@example.com' },
+    reviewedAt: new Date(),
+    reviewComment: null,
+    createdAt: new Date(),
+  };
+
+  const tx = {
+    absenceJustification: {
+      updateMany: jest.fn(),
+      count: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    attendanceRecord: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    attendanceRecordChange: { createMany: jest.fn() },
+  };
+
+  const prisma = {
+    absenceJustification: { create: jest.fn() },
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+  };
+
+  const storageService = { put: jest.fn(), delete: jest.fn() };
+  const eventEmitter = { emit: jest.fn() };
+
+  const upload = (mimetype: string, content: Buffer) =>
+    ({
+      mimetype,
+      buffer: content,
+      originalname: 'note',
+      size: content.length,
+    }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.absenceJustification.create.mockResolvedValue({
+      ...justification,
+      status: JustificationStatus.PENDING,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JustificationsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: StorageService, useValue: storageService },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<JustificationsService>(JustificationsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    const createDto = {
+      startsAt: startsAt.toISOString(),
+      endsAt: endsAt.toISOString(),
+      reason: 'Flu',
+    };
+
+    it.each([
+      ['application/pdf', Buffer.from('%PDF-1.7\n...'), '.pdf'],
+      ['image/jpeg', Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]), '.jpg'],
+      [
+        'image/png',
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]),
+        '.png',
+      ],
+    ])(
+      'stores %s documents whose content matches',
+      async (type, content, extension) => {
+        await service.create(student, createDto, upload(type, content));
+
+        expect(storageService.put).toHaveBeenCalledWith(
+          expect.stringMatching(new RegExp(`/document\\${extension}$`)),
+          content,
+        );
+      },
+    );
+
+    it('refuses documents whose content does not match their type', async () => {
+      await expect(
+        service.create(
+          student,
+          createDto,
+          upload('application/pdf', Buffer.from('<html><script>')),
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+
+      expect(storageService.put).not.toHaveBeenCalled();
+      expect(prisma.absenceJustification.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a PNG declared as JPEG', async () => {
+      await expect(
+        service.create(
+          student,
+          createDto,
+          upload(
+            'image/jpeg',
+            Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+          ),
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+    });
+
+    it('refuses unsupported types', async () => {
+      await expect(
+        service.create(
+          student,
+          createDto,
+          upload('text/html', Buffer.from('%PDF-')),
+        ),
+      ).rejects.toThrow('Document must be a PDF, JPEG or PNG file');
+    });
+  });
+
+  describe('approve', () => {
+    beforeEach(() => {
+      tx.absenceJustification.updateMany.mockResolvedValue({ count: 1 });
+      tx.absenceJustification.findUniqueOrThrow.mockResolvedValue(
+        justification,
+      );
+      tx.attendanceRecord.findMany.mockResolvedValue([
+        {
+          id: 'record-1',
+          sessionId: 'session-1',
+          status: AttendanceStatus.ABSENT,
+        },
+        {
+          id: 'record-2',
+          sessionId: 'session-2',
+          status: AttendanceStatus.LATE,
+        },
+      ]);
+    });
+
+    it('excuses ABSENT and LATE records of the student in the period', async () => {
+      const result = await service.approve(admin, 'justification-1', {});
+
+      expect(result.excusedCount).toBe(2);
+      expect(tx.attendanceRecord.findMany).toHaveBeenCalledWith({
+        where: {
+          studentId: 'student-1',
+          status: {
+            in: [AttendanceStatus.ABSENT, AttendanceStatus.LATE],
+          },
+          session: { startedAt: { gte: startsAt, lte: endsAt } },
+        },
+        select: { id: true, sessionId: true, status: true },
+      });
+      expect(tx.attendanceRecord.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['record-1', 'record-2'] } },
+        data: { status: AttendanceStatus.EXCUSED },
+      });
+    });
+
+    it('writes an audit row per excused record', async () => {
+      await service.approve(admin, 'justification-1', {});
+
+      expect(tx.attendanceRecordChange.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            attendanceRecordId: 'record-1',
+            previousStatus: AttendanceStatus.ABSENT,
+            newStatus: AttendanceStatus.EXCUSED,
+            reason: 'Justification justification-1 approved',
+            changedById: 'user-2',
+          },
+          {
+            attendanceRecordId: 'record-2',
+            previousStatus: AttendanceStatus.LATE,
+            newStatus: AttendanceStatus.EXCUSED,
+            reason: 'Justification justification-1 approved',
+            changedById: 'user-2',
+          },
+        ],
+      });
+    });
+
+    it('emits the change of each excused session', async () => {
+      await service.approve(admin, 'justification-1', {});
+
+      expect(eventEmitter.emit).toHaveBeenCalledTimes(2);
+      expect(eventEmitter.emit).toHaveBeenCalledWith(ATTENDANCE_CHANGED_EVENT, {
+        sessionId: 'session-2',
+        changes: [
+          {
+            studentId: 'student-1',
+            previousStatus: AttendanceStatus.LATE,
+            status: AttendanceStatus.EXCUSED,
+          },
+        ],
+      });
+    });
+
+    it('records the review', async () => {
+      await service.approve(admin, 'justification-1', { comment: 'Valid' });
+
+      expect(tx.absenceJustification.updateMany).toHaveBeenCalledWith({
+        where: { id: 'justification-1', status: JustificationStatus.PENDING },
+        data: expect.objectContaining({
+          status: JustificationStatus.APPROVED,
+          reviewedById: 'user-2',
+          reviewComment: 'Valid',
+        }) as object,
+      });
+    });
+
+    it('refuses justifications already reviewed', async () => {
+      tx.absenceJustification.updateMany.mockResolvedValue({ count: 0 });
+      tx.absenceJustification.count.mockResolvedValue(1);
+
+      await expect(
+        service.approve(admin, 'justification-1', {}),
+      ).rejects.toThrow(ConflictException);
+      expect(tx.attendanceRecord.updateMany).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,435 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnsupportedMediaTypeException,
+  Logger,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import {
+  AttendanceStatus,
+  JustificationStatus,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import {
+  ATTENDANCE_CHANGED_EVENT,
+  AttendanceChangedEvent,
+} from '../sessions/session-events';
+import {
+  CreateJustificationDto,
+  ApproveJustificationDto,
+  RejectJustificationDto,
+  FindJustificationsQueryDto,
+  JustificationResponseDto,
+  ApproveJustificationResultDto,
+} from './dto';
+
+/**
+ * Accepted document types: stored file extension and the magic bytes the
+ * content starts with, as the declared MIME type is chosen by the client
+ */
+const DOCUMENT_TYPES: Record<string, { extension: string; signature: Buffer }> =
+  {
+    'application/pdf': {
+      extension: '.pdf',
+      signature: Buffer.from('%PDF-', 'latin1'),
+    },
+    'image/jpeg': {
+      extension: '.jpg',
+      signature: Buffer.from([0xff, 0xd8, 0xff]),
+    },
+    'image/png': {
+      extension: '.png',
+      signature: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    },
+  };
+
+/**
+ * Statuses an approved justification turns into EXCUSED
+ */
+const EXCUSABLE_STATUSES: AttendanceStatus[] = [
+  AttendanceStatus.ABSENT,
+  AttendanceStatus.LATE,
+];
+
+type JustificationWithRelations = Prisma.AbsenceJustificationGetPayload<{
+  include: {
+    student: { select: { id: true; studentCode: true; fullName: true } };
+    reviewedBy: { select: { id: true; email: true } };
+  };
+}>;
+
+/**
+ * Justifications Service
+ * Handles absence justifications: submission by students, review by admins
+ * Core business rule: approving a justification excuses every ABSENT or LATE
+ * record of the student in the period, and sessions closed later in the
+ * period mark the student EXCUSED instead of ABSENT
+ */
+@Injectable()
+export class JustificationsService {
+  private readonly logger = new Logger(JustificationsService.name);
+
+  private readonly justificationInclude = {
+    student: {
+      select: {
+        id: true,
+        studentCode: true,
+        fullName: true,
+      },
+    },
+    reviewedBy: {
+      select: {
+        id: true,
+        email: true,
+      },
+    },
+  };
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageService: StorageService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Submit a justification for the signed-in student
+   */
+  async create(
+    user: AuthenticatedUser,
+    createJustificationDto: CreateJustificationDto,
+    document?: Express.Multer.File,
+  ): Promise<JustificationResponseDto> {
+    if (!user.student) {
+      throw new ForbiddenException('No student profile linked to this account');
+    }
+
+    const startsAt = new Date(createJustificationDto.startsAt);
+    const endsAt = new Date(createJustificationDto.endsAt);
+
+    if (endsAt <= startsAt) {
+      throw new BadRequestException('Ends at must be after starts at');
+    }
+
+    const documentType = document ? DOCUMENT_TYPES[document.mimetype] : null;
+
+    if (document && !documentType) {
+      throw new UnsupportedMediaTypeException(
+        'Document must be a PDF, JPEG or PNG file',
+      );
+    }
+
+    if (
+      document &&
+      documentType &&
+      !this.hasSignature(document, documentType)
+    ) {
+      throw new UnsupportedMediaTypeException(
+        `Document content is not a valid ${document.mimetype} file`,
+      );
+    }
+
+    const id = randomUUID();
+    const documentKey = documentType
+      ? `justifications/${id}/document${documentType.extension}`
+      : null;
+
+    if (document && documentKey) {
+      await this.storageService.put(documentKey, document.buffer);
+    }
+
+    try {
+      const justification = await this.prisma.absenceJustification.create({
+        data: {
+          id,
+          studentId: user.student.id,
+          startsAt,
+          endsAt,
+          reason: createJustificationDto.reason,
+          documentKey,
+          documentName: document?.originalname ?? null,
+          documentMimeType: document?.mimetype ?? null,
+          documentSize: document?.size ?? null,
+        },
+        include: this.justificationInclude,
+      });
+
+      this.logger.log(
+        `Justification submitted: ${id} by student ${user.student.studentCode}`,
+      );
+      return this.toResponse(justification);
+    } catch (error) {
+      if (documentKey) {
+        await this.storageService.delete(documentKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find justifications
+   * Students only see their own
+   */
+  async findAll(
+    user: AuthenticatedUser,
+    query: FindJustificationsQueryDto,
+  ): Promise<JustificationResponseDto[]> {
+    const justifications = await this.prisma.absenceJustification.findMany({
+      where: {
+        ...(query.status && { status: query.status }),
+        ...(query.studentId && { studentId: query.studentId }),
+        ...this.ownerScope(user),
+      },
+      include: this.justificationInclude,
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return justifications.map((justification) =>
+      this.toResponse(justification),
+    );
+  }
+
+  /**
+   * Find a justification by ID
+   */
+  async findOne(
+    user: AuthenticatedUser,
+    id: string,
+  ): Promise<JustificationResponseDto> {
+    return this.toResponse(await this.findAccessible(user, id));
+  }
+
+  /**
+   * Open the document attached to a justification
+   */
+  async openDocument(
+    user: AuthenticatedUser,
+    id: string,
+  ): Promise<{ stream: Readable; name: string; mimeType: string }> {
+    const justification = await this.findAccessible(user, id);
+
+    if (!justification.documentKey) {
+      throw new NotFoundException(`Justification ${id} has no document`);
+    }
+
+    return {
+      stream: await this.storageService.read(justification.documentKey),
+      name: justification.documentName ?? 'document',
+      mimeType: justification.documentMimeType ?? 'application/octet-stream',
+    };
+  }
+
+  /**
+   * Approve a pending justification and excuse the records it covers
+   * Every excused record is logged in the attendance audit trail
+   */
+  async approve(
+    user: AuthenticatedUser,
+    id: string,
+    approveJustificationDto: ApproveJustificationDto,
+  ): Promise<ApproveJustificationResultDto> {
+    const { justification, records } = await this.prisma.$transaction(
+      async (tx) => {
+        const current = await this.markReviewed(
+          tx,
+          user,
+          id,
+          JustificationStatus.APPROVED,
+          approveJustificationDto.comment,
+        );
+
+        const records = await tx.attendanceRecord.findMany({
+          where: {
+            studentId: current.studentId,
+            status: { in: EXCUSABLE_STATUSES },
+            session: {
+              startedAt: { gte: current.startsAt, lte: current.endsAt },
+            },
+          },
+          select: { id: true, sessionId: true, status: true },
+        });
+
+        await tx.attendanceRecord.updateMany({
+          where: { id: { in: records.map((record) => record.id) } },
+          data: { status: AttendanceStatus.EXCUSED },
+        });
+
+        await tx.attendanceRecordChange.createMany({
+          data: records.map((record) => ({
+            attendanceRecordId: record.id,
+            previousStatus: record.status,
+            newStatus: AttendanceStatus.EXCUSED,
+            reason: `Justification ${id} approved`,
+            changedById: user.id,
+          })),
+        });
+
+        return {
+          justification: current,
+          records,
+        };
+      },
+    );
+
+    const excusedCount = records.length;
+    this.logger.log(
+      `Justification approved: ${id} (${excusedCount} record(s) excused)`,
+    );
+
+    // A student holds one record per session
+    for (const record of records) {
+      this.eventEmitter.emit(ATTENDANCE_CHANGED_EVENT, {
+        sessionId: record.sessionId,
+        changes: [
+          {
+            studentId: justification.studentId,
+            previousStatus: record.status,
+            status: AttendanceStatus.EXCUSED,
+          },
+        ],
+      } satisfies AttendanceChangedEvent);
+    }
+
+    return { ...this.toResponse(justification), excusedCount };
+  }
+
+  /**
+   * Reject a pending justification
+   */
+  async reject(
+    user: AuthenticatedUser,
+    id: string,
+    rejectJustificationDto: RejectJustificationDto,
+  ): Promise<JustificationResponseDto> {
+    const justification = await this.prisma.$transaction((tx) =>
+      this.markReviewed(
+        tx,
+        user,
+        id,
+        JustificationStatus.REJECTED,
+        rejectJustificationDto.comment,
+      ),
+    );
+
+    this.logger.log(`Justification rejected: ${id}`);
+    return this.toResponse(justification);
+  }
+
+  /**
+   * Move a pending justification to its review outcome
+   */
+  private async markReviewed(
+    tx: Prisma.TransactionClient,
+    user: AuthenticatedUser,
+    id: string,
+    status: JustificationStatus,
+    comment?: string,
+  ): Promise<JustificationWithRelations> {
+    const { count } = await tx.absenceJustification.updateMany({
+      where: { id, status: JustificationStatus.PENDING },
+      data: {
+        status,
+        reviewedById: user.id,
+        reviewedAt: new Date(),
+        reviewComment: comment ?? null,
+      },
+    });
+
+    if (count === 0) {
+      const exists = await tx.absenceJustification.count({ where: { id } });
+
+      if (!exists) {
+        throw new NotFoundException(`Justification with ID ${id} not found`);
+      }
+      throw new ConflictException('Justification has already been reviewed');
+    }
+
+    return tx.absenceJustification.findUniqueOrThrow({
+      where: { id },
+      include: this.justificationInclude,
+    });
+  }
+
+  /**
+   * Load a justification the user may read
+   * Another student's justification is reported as not found
+   */
+  private async findAccessible(
+    user: AuthenticatedUser,
+    id: string,
+  ): Promise<JustificationWithRelations> {
+    const justification = await this.prisma.absenceJustification.findFirst({
+      where: { id, ...this.ownerScope(user) },
+      include: this.justificationInclude,
+    });
+
+    if (!justification) {
+      throw new NotFoundException(`Justification with ID ${id} not found`);
+    }
+
+    return justification;
+  }
+
+  /**
+   * Students are limited to their own justifications; admins are unrestricted
+   */
+  private ownerScope(
+    user: AuthenticatedUser,
+  ): Prisma.AbsenceJustificationWhereInput {
+    if (user.role !== UserRole.STUDENT) {
+      return {};
+    }
+
+    if (!user.student) {
+      throw new ForbiddenException('No student profile linked to this account');
+    }
+
+    return { studentId: user.student.id };
+  }
+
+  /**
+   * Whether an upload starts with the magic bytes of its declared type
+   */
+  private hasSignature(
+    document: Express.Multer.File,
+    documentType: { signature: Buffer },
+  ): boolean {
+    const { signature } = documentType;
+    return document.buffer.subarray(0, signature.length).equals(signature);
+  }
+
+  private toResponse(
+    justification: JustificationWithRelations,
+  ): JustificationResponseDto {
+    return {
+      id: justification.id,
+      student: justification.student,
+      startsAt: justification.startsAt,
+      endsAt: justification.endsAt,
+      reason: justification.reason,
+      status: justification.status,
+      document: justification.documentKey
+        ? {
+            name: justification.documentName ?? 'document',
+            mimeType:
+              justification.documentMimeType ?? 'application/octet-stream',
+            size: justification.documentSize ?? 0,
+          }
+        : null,
+      reviewedBy: justification.reviewedBy,
+      reviewedAt: justification.reviewedAt,
+      reviewComment: justification.reviewComment,
+      createdAt: justification.createdAt,
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export * from './upsert-lateness-policy.dto';
+export * from './lateness-policy-response.dto';
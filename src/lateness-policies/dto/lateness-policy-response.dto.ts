@@ -0,0 +1,99 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LateCutoffAction, LatenessPolicyScope } from '@prisma/client';
+
+/**
+ * Lateness policy response DTO
+ */
+export class LatenessPolicyResponseDto {
+  @ApiProperty({
+    description: 'Policy unique identifier',
+    example: 'cc0e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Scope the policy applies to',
+    enum: LatenessPolicyScope,
+    example: LatenessPolicyScope.DEPARTMENT,
+  })
+  scope: LatenessPolicyScope;
+
+  @ApiProperty({
+    description: 'Department code for DEPARTMENT policies',
+    example: 'GL',
+    nullable: true,
+  })
+  department: string | null;
+
+  @ApiProperty({
+    description: 'Teaching assignment ID for TEACHING_ASSIGNMENT policies',
+    example: null,
+    nullable: true,
+  })
+  teachingAssignmentId: string | null;
+
+  @ApiProperty({
+    description: 'Minutes after session start during which a scan is PRESENT',
+    example: 15,
+  })
+  graceMinutes: number;
+
+  @ApiProperty({
+    description: 'Minutes after session start after which the cut-off applies',
+    example: 45,
+    nullable: true,
+  })
+  cutoffMinutes: number | null;
+
+  @ApiProperty({
+    description: 'What happens to scans after the cut-off',
+    enum: LateCutoffAction,
+    example: LateCutoffAction.REJECT,
+  })
+  cutoffAction: LateCutoffAction;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2026-10-19T10:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2026-10-19T10:00:00.000Z',
+  })
+  updatedAt: Date;
+}
+
+/**
+ * Lateness policy in effect for a teaching assignment
+ */
+export class EffectiveLatenessPolicyDto {
+  @ApiProperty({
+    description:
+      'Scope of the policy in effect, null when the configured defaults apply',
+    enum: LatenessPolicyScope,
+    example: LatenessPolicyScope.DEPARTMENT,
+    nullable: true,
+  })
+  scope: LatenessPolicyScope | null;
+
+  @ApiProperty({
+    description: 'ID of the policy in effect, null for configured defaults',
+    example: 'cc0e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+  })
+  policyId: string | null;
+
+  @ApiProperty({ example: 15 })
+  graceMinutes: number;
+
+  @ApiProperty({ example: 45, nullable: true })
+  cutoffMinutes: number | null;
+
+  @ApiProperty({
+    enum: LateCutoffAction,
+    example: LateCutoffAction.REJECT,
+  })
+  cutoffAction: LateCutoffAction;
+}
@@ -0,0 +1,45 @@
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LateCutoffAction } from '@prisma/client';
+
+/**
+ * DTO for creating or replacing a lateness policy
+ */
+export class UpsertLatenessPolicyDto {
+  @ApiProperty({
+    description: 'Minutes after session start during which a scan is PRESENT',
+    example: 15,
+    minimum: 0,
+    maximum: 240,
+  })
+  @IsInt({ message: 'Grace minutes must be an integer' })
+  @Min(0, { message: 'Grace minutes cannot be negative' })
+  @Max(240, { message: 'Grace minutes cannot exceed 240' })
+  graceMinutes: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Minutes after session start after which the cut-off action applies. Omit for no cut-off.',
+    example: 45,
+    minimum: 1,
+    maximum: 480,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Cut-off minutes must be an integer' })
+  @Min(1, { message: 'Cut-off minutes must be at least 1' })
+  @Max(480, { message: 'Cut-off minutes cannot exceed 480' })
+  cutoffMinutes?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'What happens to scans after the cut-off: REJECT refuses the scan, ABSENT records the student as absent',
+    enum: LateCutoffAction,
+    default: LateCutoffAction.REJECT,
+    example: LateCutoffAction.REJECT,
+  })
+  @IsOptional()
+  @IsEnum(LateCutoffAction, {
+    message: 'Cut-off action must be either REJECT or ABSENT',
+  })
+  cutoffAction?: LateCutoffAction;
+}
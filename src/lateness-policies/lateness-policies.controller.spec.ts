@@ -0,0 +1,30 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { LatenessPoliciesController } from './lateness-policies.controller';
+import { LatenessPoliciesService } from './lateness-policies.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+
+describe('LatenessPoliciesController', () => {
+  let controller: LatenessPoliciesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [LatenessPoliciesController],
+      providers: [
+        LatenessPoliciesService,
+        { provide: PrismaService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: AccessPolicyService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<LatenessPoliciesController>(
+      LatenessPoliciesController,
+    );
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { LatenessPoliciesService } from './lateness-policies.service';
+import {
+  UpsertLatenessPolicyDto,
+  LatenessPolicyResponseDto,
+  EffectiveLatenessPolicyDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser } from '../auth/decorators';
+import type { AuthenticatedUser } from '../auth/strategies';
+
+/**
+ * Lateness Policies Controller
+ * Handles configuration of PRESENT vs LATE classification rules
+ */
+@ApiTags('Lateness Policies')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('lateness-policies')
+export class LatenessPoliciesController {
+  constructor(
+    private readonly latenessPoliciesService: LatenessPoliciesService,
+  ) {}
+
+  /**
+   * Get all lateness policies
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Get all lateness policies',
+    description: 'Retrieve the global, department and assignment policies',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of lateness policies',
+    type: [LatenessPolicyResponseDto],
+  })
+  @Roles(UserRole.ADMIN)
+  @Get()
+  findAll(): Promise<LatenessPolicyResponseDto[]> {
+    return this.latenessPoliciesService.findAll();
+  }
+
+  /**
+   * Get the policy in effect for a teaching assignment
+   * Teachers (own assignments) and Admins
+   */
+  @ApiOperation({
+    summary: 'Get effective policy for a teaching assignment',
+    description:
+      'Resolve the policy applied to scans of a teaching assignment: assignment policy, then department policy, then global policy, then configured defaults',
+  })
+  @ApiParam({
+    name: 'teachingAssignmentId',
+    description: 'Teaching assignment UUID',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Policy in effect',
+    type: EffectiveLatenessPolicyDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Teaching assignment belongs to another teacher',
+  })
+  @ApiNotFoundResponse({
+    description: 'Teaching assignment not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('effective/:teachingAssignmentId')
+  resolve(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('teachingAssignmentId') teachingAssignmentId: string,
+  ): Promise<EffectiveLatenessPolicyDto> {
+    return this.latenessPoliciesService.resolveForUser(
+      user,
+      teachingAssignmentId,
+    );
+  }
+
+  /**
+   * Set the global policy
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Set global policy',
+    description: 'Create or replace the policy applied everywhere by default',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Global policy saved',
+    type: LatenessPolicyResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or cut-off not after grace period',
+  })
+  @Roles(UserRole.ADMIN)
+  @Put('global')
+  upsertGlobal(
+    @Body() upsertDto: UpsertLatenessPolicyDto,
+  ): Promise<LatenessPolicyResponseDto> {
+    return this.latenessPoliciesService.upsertGlobal(upsertDto);
+  }
+
+  /**
+   * Set the policy of a department
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Set department policy',
+    description:
+      'Create or replace the policy applied to classrooms of a department',
+  })
+  @ApiParam({
+    name: 'department',
+    description: 'Department code',
+    example: 'GL',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Department policy saved',
+    type: LatenessPolicyResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or cut-off not after grace period',
+  })
+  @Roles(UserRole.ADMIN)
+  @Put('department/:department')
+  upsertForDepartment(
+    @Param('department') department: string,
+    @Body() upsertDto: UpsertLatenessPolicyDto,
+  ): Promise<LatenessPolicyResponseDto> {
+    return this.latenessPoliciesService.upsertForDepartment(
+      department,
+      upsertDto,
+    );
+  }
+
+  /**
+   * Set the policy of a teaching assignment
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Set teaching assignment policy',
+    description: 'Create or replace the policy of a single teaching assignment',
+  })
+  @ApiParam({
+    name: 'teachingAssignmentId',
+    description: 'Teaching assignment UUID',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Teaching assignment policy saved',
+    type: LatenessPolicyResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or cut-off not after grace period',
+  })
+  @ApiNotFoundResponse({
+    description: 'Teaching assignment not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Put('teaching-assignment/:teachingAssignmentId')
+  upsertForTeachingAssignment(
+    @Param('teachingAssignmentId') teachingAssignmentId: string,
+    @Body() upsertDto: UpsertLatenessPolicyDto,
+  ): Promise<LatenessPolicyResponseDto> {
+    return this.latenessPoliciesService.upsertForTeachingAssignment(
+      teachingAssignmentId,
+      upsertDto,
+    );
+  }
+
+  /**
+   * Delete a lateness policy
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Delete a lateness policy',
+    description: 'Delete a policy. Scans fall back to the next broader policy.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Lateness policy UUID',
+    example: 'cc0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Lateness policy deleted successfully',
+  })
+  @ApiNotFoundResponse({
+    description: 'Lateness policy not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.latenessPoliciesService.remove(id);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { LatenessPoliciesService } from './lateness-policies.service';
+import { LatenessPoliciesController } from './lateness-policies.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * Lateness Policies Module
+ * Handles the rules classifying scans as PRESENT or LATE
+ */
+@Module({
+  imports: [PrismaModule, AuthModule],
+  controllers: [LatenessPoliciesController],
+  providers: [LatenessPoliciesService],
+  exports: [LatenessPoliciesService],
+})
+export class LatenessPoliciesModule {}
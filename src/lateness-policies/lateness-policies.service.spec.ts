@@ -0,0 +1,266 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException } from '@nestjs/common';
+import {
+  AttendanceStatus,
+  LateCutoffAction,
+  LatenessPolicyScope,
+  UserRole,
+} from '@prisma/client';
+import { LatenessPoliciesService } from './lateness-policies.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { EffectiveLatenessPolicyDto } from './dto';
+import type { AuthenticatedUser } from '../auth/strategies';
+
+describe('LatenessPoliciesService', () => {
+  let service: LatenessPoliciesService;
+  let config: Record<string, string>;
+
+  const prisma = {
+    teachingAssignment: { findUnique: jest.fn() },
+    latenessPolicy: { findMany: jest.fn(), upsert: jest.fn() },
+  };
+
+  const accessPolicy = { assertAssignmentAccess: jest.fn() };
+
+  const startedAt = new Date('2026-10-19T08:00:00.000Z');
+  const minutesAfterStart = (minutes: number) =>
+    new Date(startedAt.getTime() + minutes * 60_000);
+
+  const policy = (
+    overrides: Partial<EffectiveLatenessPolicyDto> = {},
+  ): EffectiveLatenessPolicyDto => ({
+    scope: LatenessPolicyScope.GLOBAL,
+    policyId: 'dd0e8400-e29b-41d4-a716-446655440000',
+    graceMinutes: 15,
+    cutoffMinutes: null,
+    cutoffAction: LateCutoffAction.REJECT,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LatenessPoliciesService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        { provide: AccessPolicyService, useValue: accessPolicy },
+      ],
+    }).compile();
+
+    service = module.get<LatenessPoliciesService>(LatenessPoliciesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('classify', () => {
+    it('marks scans within the grace period PRESENT', () => {
+      expect(service.classify(policy(), startedAt, minutesAfterStart(-5))).toBe(
+        AttendanceStatus.PRESENT,
+      );
+      expect(service.classify(policy(), startedAt, minutesAfterStart(15))).toBe(
+        AttendanceStatus.PRESENT,
+      );
+    });
+
+    it('marks scans after the grace period LATE', () => {
+      expect(
+        service.classify(policy(), startedAt, minutesAfterStart(15.5)),
+      ).toBe(AttendanceStatus.LATE);
+      expect(service.classify(policy(), startedAt, minutesAfterStart(90))).toBe(
+        AttendanceStatus.LATE,
+      );
+    });
+
+    it('keeps scans up to the cut-off LATE', () => {
+      const withCutoff = policy({ cutoffMinutes: 30 });
+
+      expect(
+        service.classify(withCutoff, startedAt, minutesAfterStart(30)),
+      ).toBe(AttendanceStatus.LATE);
+    });
+
+    it('rejects scans past a REJECT cut-off', () => {
+      const withCutoff = policy({ cutoffMinutes: 30 });
+
+      expect(
+        service.classify(withCutoff, startedAt, minutesAfterStart(31)),
+      ).toBeNull();
+    });
+
+    it('marks scans past an ABSENT cut-off ABSENT', () => {
+      const withCutoff = policy({
+        cutoffMinutes: 30,
+        cutoffAction: LateCutoffAction.ABSENT,
+      });
+
+      expect(
+        service.classify(withCutoff, startedAt, minutesAfterStart(31)),
+      ).toBe(AttendanceStatus.ABSENT);
+    });
+  });
+
+  describe('resolve', () => {
+    const teachingAssignmentId = 'ee0e8400-e29b-41d4-a716-446655440000';
+
+    beforeEach(() => {
+      prisma.teachingAssignment.findUnique.mockResolvedValue({
+        classroom: { department: 'GL' },
+      });
+    });
+
+    it('prefers the most specific policy', async () => {
+      prisma.latenessPolicy.findMany.mockResolvedValue([
+        {
+          id: 'global',
+          scope: LatenessPolicyScope.GLOBAL,
+          graceMinutes: 15,
+          cutoffMinutes: null,
+          cutoffAction: LateCutoffAction.REJECT,
+        },
+        {
+          id: 'assignment',
+          scope: LatenessPolicyScope.TEACHING_ASSIGNMENT,
+          graceMinutes: 5,
+          cutoffMinutes: 20,
+          cutoffAction: LateCutoffAction.ABSENT,
+        },
+        {
+          id: 'department',
+          scope: LatenessPolicyScope.DEPARTMENT,
+          graceMinutes: 10,
+          cutoffMinutes: null,
+          cutoffAction: LateCutoffAction.REJECT,
+        },
+      ]);
+
+      await expect(service.resolve(teachingAssignmentId)).resolves.toEqual({
+        scope: LatenessPolicyScope.TEACHING_ASSIGNMENT,
+        policyId: 'assignment',
+        graceMinutes: 5,
+        cutoffMinutes: 20,
+        cutoffAction: LateCutoffAction.ABSENT,
+      });
+    });
+
+    it('falls back to the configured defaults', async () => {
+      prisma.latenessPolicy.findMany.mockResolvedValue([]);
+      config = {
+        ATTENDANCE_LATE_AFTER_MINUTES: '10',
+        ATTENDANCE_CUTOFF_MINUTES: '45',
+        ATTENDANCE_CUTOFF_ACTION: 'ABSENT',
+      };
+
+      await expect(service.resolve(teachingAssignmentId)).resolves.toEqual({
+        scope: null,
+        policyId: null,
+        graceMinutes: 10,
+        cutoffMinutes: 45,
+        cutoffAction: LateCutoffAction.ABSENT,
+      });
+    });
+
+    it.each(['', 'fifteen', '-5', '7.5'])(
+      'ignores the invalid grace period "%s"',
+      async (graceMinutes) => {
+        prisma.latenessPolicy.findMany.mockResolvedValue([]);
+        config = { ATTENDANCE_LATE_AFTER_MINUTES: graceMinutes };
+
+        await expect(service.resolve(teachingAssignmentId)).resolves.toEqual(
+          expect.objectContaining({ graceMinutes: 15 }),
+        );
+      },
+    );
+
+    it('ignores a cut-off not after the grace period', async () => {
+      prisma.latenessPolicy.findMany.mockResolvedValue([]);
+      config = {
+        ATTENDANCE_LATE_AFTER_MINUTES: '10',
+        ATTENDANCE_CUTOFF_MINUTES: '5',
+      };
+
+      await expect(service.resolve(teachingAssignmentId)).resolves.toEqual(
+        expect.objectContaining({ graceMinutes: 10, cutoffMinutes: null }),
+      );
+    });
+
+    it('uses a 15 minute grace period without configuration', async () => {
+      prisma.latenessPolicy.findMany.mockResolvedValue([]);
+
+      await expect(service.resolve(teachingAssignmentId)).resolves.toEqual(
+        expect.objectContaining({
+          graceMinutes: 15,
+          cutoffMinutes: null,
+          cutoffAction: LateCutoffAction.REJECT,
+        }),
+      );
+    });
+  });
+
+  describe('resolveForUser', () => {
+    const teacher = {
+      id: 'user-1',
+      role: UserRole.TEACHER,
+    } as AuthenticatedUser;
+
+    it('refuses assignments the user may not access', async () => {
+      accessPolicy.assertAssignmentAccess.mockRejectedValue(
+        new ForbiddenException(),
+      );
+
+      await expect(
+        service.resolveForUser(teacher, 'assignment-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.latenessPolicy.findMany).not.toHaveBeenCalled();
+    });
+
+    it('resolves the policy of accessible assignments', async () => {
+      accessPolicy.assertAssignmentAccess.mockResolvedValue(undefined);
+      prisma.teachingAssignment.findUnique.mockResolvedValue({
+        classroom: { department: 'GL' },
+      });
+      prisma.latenessPolicy.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.resolveForUser(teacher, 'assignment-1'),
+      ).resolves.toEqual(expect.objectContaining({ scope: null }));
+      expect(accessPolicy.assertAssignmentAccess).toHaveBeenCalledWith(
+        teacher,
+        'assignment-1',
+      );
+    });
+  });
+
+  describe('upsertGlobal', () => {
+    it('upserts the single global policy on its unique key', async () => {
+      prisma.latenessPolicy.upsert.mockResolvedValue({});
+
+      await service.upsertGlobal({ graceMinutes: 10 });
+
+      expect(prisma.latenessPolicy.upsert).toHaveBeenCalledWith({
+        where: { isGlobal: true },
+        create: {
+          scope: LatenessPolicyScope.GLOBAL,
+          isGlobal: true,
+          graceMinutes: 10,
+          cutoffMinutes: null,
+          cutoffAction: LateCutoffAction.REJECT,
+        },
+        update: {
+          graceMinutes: 10,
+          cutoffMinutes: null,
+          cutoffAction: LateCutoffAction.REJECT,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AttendanceStatus,
+  LateCutoffAction,
+  LatenessPolicyScope,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import {
+  UpsertLatenessPolicyDto,
+  LatenessPolicyResponseDto,
+  EffectiveLatenessPolicyDto,
+} from './dto';
+
+/**
+ * Lateness Policies Service
+ * Decides whether a scan is PRESENT, LATE or past the cut-off
+ * Policies resolve from the most specific scope: teaching assignment,
+ * department, global, then the configured defaults
+ */
+@Injectable()
+export class LatenessPoliciesService {
+  private readonly logger = new Logger(LatenessPoliciesService.name);
+  private readonly DEFAULT_GRACE_MINUTES = 15;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly accessPolicy: AccessPolicyService,
+  ) {}
+
+  /**
+   * Find all lateness policies
+   */
+  async findAll(): Promise<LatenessPolicyResponseDto[]> {
+    return this.prisma.latenessPolicy.findMany({
+      orderBy: [{ scope: 'asc' }, { department: 'asc' }],
+    });
+  }
+
+  /**
+   * Resolve the policy in effect for a teaching assignment the user may see
+   */
+  async resolveForUser(
+    user: AuthenticatedUser,
+    teachingAssignmentId: string,
+  ): Promise<EffectiveLatenessPolicyDto> {
+    await this.accessPolicy.assertAssignmentAccess(user, teachingAssignmentId);
+
+    return this.resolve(teachingAssignmentId);
+  }
+
+  /**
+   * Resolve the policy in effect for a teaching assignment
+   */
+  async resolve(
+    teachingAssignmentId: string,
+  ): Promise<EffectiveLatenessPolicyDto> {
+    const assignment = await this.prisma.teachingAssignment.findUnique({
+      where: { id: teachingAssignmentId },
+      select: {
+        classroom: {
+          select: {
+            department: true,
+          },
+        },
+      },
+    });
+
+    if (!assignment) {
+      throw new NotFoundException(
+        `Teaching assignment with ID ${teachingAssignmentId} not found`,
+      );
+    }
+
+    const policies = await this.prisma.latenessPolicy.findMany({
+      where: {
+        OR: [
+          { teachingAssignmentId },
+          { department: assignment.classroom.department },
+          { scope: LatenessPolicyScope.GLOBAL },
+        ],
+      },
+    });
+
+    const policy =
+      policies.find(
+        (p) => p.scope === LatenessPolicyScope.TEACHING_ASSIGNMENT,
+      ) ??
+      policies.find((p) => p.scope === LatenessPolicyScope.DEPARTMENT) ??
+      policies.find((p) => p.scope === LatenessPolicyScope.GLOBAL);
+
+    if (!policy) {
+      return this.getDefaultPolicy();
+    }
+
+    return {
+      scope: policy.scope,
+      policyId: policy.id,
+      graceMinutes: policy.graceMinutes,
+      cutoffMinutes: policy.cutoffMinutes,
+      cutoffAction: policy.cutoffAction,
+    };
+  }
+
+  /**
+   * Classify a scan against a policy
+   * Returns null when the scan is past a REJECT cut-off
+   */
+  classify(
+    policy: EffectiveLatenessPolicyDto,
+    startedAt: Date,
+    scannedAt: Date,
+  ): AttendanceStatus | null {
+    const minutesLate = (scannedAt.getTime() - startedAt.getTime()) / 60_000;
+
+    if (policy.cutoffMinutes !== null && minutesLate > policy.cutoffMinutes) {
+      return policy.cutoffAction === LateCutoffAction.ABSENT
+        ? AttendanceStatus.ABSENT
+        : null;
+    }
+
+    return minutesLate > policy.graceMinutes
+      ? AttendanceStatus.LATE
+      : AttendanceStatus.PRESENT;
+  }
+
+  /**
+   * Create or replace the global policy
+   */
+  async upsertGlobal(
+    upsertDto: UpsertLatenessPolicyDto,
+  ): Promise<LatenessPolicyResponseDto> {
+    return this.save(
+      LatenessPolicyScope.GLOBAL,
+      { isGlobal: true },
+      { isGlobal: true },
+      upsertDto,
+    );
+  }
+
+  /**
+   * Create or replace the policy of a department
+   */
+  async upsertForDepartment(
+    department: string,
+    upsertDto: UpsertLatenessPolicyDto,
+  ): Promise<LatenessPolicyResponseDto> {
+    return this.save(
+      LatenessPolicyScope.DEPARTMENT,
+      { department },
+      { department },
+      upsertDto,
+    );
+  }
+
+  /**
+   * Create or replace the policy of a teaching assignment
+   */
+  async upsertForTeachingAssignment(
+    teachingAssignmentId: string,
+    upsertDto: UpsertLatenessPolicyDto,
+  ): Promise<LatenessPolicyResponseDto> {
+    const assignment = await this.prisma.teachingAssignment.findUnique({
+      where: { id: teachingAssignmentId },
+    });
+
+    if (!assignment) {
+      throw new NotFoundException(
+        `Teaching assignment with ID ${teachingAssignmentId} not found`,
+      );
+    }
+
+    return this.save(
+      LatenessPolicyScope.TEACHING_ASSIGNMENT,
+      { teachingAssignmentId },
+      { teachingAssignmentId },
+      upsertDto,
+    );
+  }
+
+  /**
+   * Delete a lateness policy
+   * Scans then fall back to the next broader policy
+   */
+  async remove(id: string): Promise<void> {
+    const policy = await this.prisma.latenessPolicy.findUnique({
+      where: { id },
+    });
+
+    if (!policy) {
+      throw new NotFoundException(`Lateness policy with ID ${id} not found`);
+    }
+
+    await this.prisma.latenessPolicy.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Lateness policy deleted: ${policy.scope} ${id}`);
+  }
+
+  /**
+   * Create or replace a policy identified by its scope key
+   */
+  private async save(
+    scope: LatenessPolicyScope,
+    where: Prisma.LatenessPolicyWhereUniqueInput,
+    scopeKey: Pick<
+      Prisma.LatenessPolicyUncheckedCreateInput,
+      'isGlobal' | 'department' | 'teachingAssignmentId'
+    >,
+    upsertDto: UpsertLatenessPolicyDto,
+  ): Promise<LatenessPolicyResponseDto> {
+    const { graceMinutes, cutoffMinutes, cutoffAction } = upsertDto;
+
+    if (cutoffMinutes !== undefined && cutoffMinutes <= graceMinutes) {
+      throw new BadRequestException(
+        'Cut-off minutes must be greater than grace minutes',
+      );
+    }
+
+    const data = {
+      graceMinutes,
+      cutoffMinutes: cutoffMinutes ?? null,
+      cutoffAction: cutoffAction ?? LateCutoffAction.REJECT,
+    };
+
+    const policy = await this.prisma.latenessPolicy.upsert({
+      where,
+      create: { scope, ...scopeKey, ...data },
+      update: data,
+    });
+
+    this.logger.log(
+      `Lateness policy saved: ${scope} ${scopeKey.department ?? scopeKey.teachingAssignmentId ?? ''}`.trim(),
+    );
+    return policy;
+  }
+
+  /**
+   * Policy built from environment configuration
+   * Invalid values are ignored with a warning rather than read as 0 or NaN
+   */
+  private getDefaultPolicy(): EffectiveLatenessPolicyDto {
+    const graceMinutes =
+      this.readMinutes('ATTENDANCE_LATE_AFTER_MINUTES') ??
+      this.DEFAULT_GRACE_MINUTES;
+    let cutoffMinutes = this.readMinutes('ATTENDANCE_CUTOFF_MINUTES');
+    const cutoffAction = this.configService.get<string>(
+      'ATTENDANCE_CUTOFF_ACTION',
+    );
+
+    if (cutoffMinutes !== null && cutoffMinutes <= graceMinutes) {
+      this.logger.warn(
+        `ATTENDANCE_CUTOFF_MINUTES (${cutoffMinutes}) must be greater than the grace period (${graceMinutes}), ignoring it`,
+      );
+      cutoffMinutes = null;
+    }
+
+    return {
+      scope: null,
+      policyId: null,
+      graceMinutes,
+      cutoffMinutes,
+      cutoffAction:
+        cutoffAction === LateCutoffAction.ABSENT
+          ? LateCutoffAction.ABSENT
+          : LateCutoffAction.REJECT,
+    };
+  }
+
+  /**
+   * Read a number of minutes from the configuration
+   * Returns null when unset or not a non-negative integer
+   */
+  private readMinutes(key: string): number | null {
+    const value = this.configService.get<string>(key)?.trim();
+
+    if (!value) {
+      return null;
+    }
+
+    const minutes = Number(value);
+
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      this.logger.warn(
+        `${key} must be a non-negative integer, ignoring "${value}"`,
+      );
+      return null;
+    }
+
+    return minutes;
+  }
+}
@@ -6,7 +6,8 @@ import { setupSwagger } from './config/swagger.config';
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
   
-  const app = await NestFactory.create(AppModule);
+  // Raw body is kept to check device request signatures
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Enable CORS for frontend communication
   app.enableCors({
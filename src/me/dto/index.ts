@@ -0,0 +1,4 @@
+export * from './my-attendance-query.dto';
+export * from './upcoming-sessions-query.dto';
+export * from './my-attendance-response.dto';
+export * from './my-absences-response.dto';
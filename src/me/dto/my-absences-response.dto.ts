@@ -0,0 +1,98 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { MySubjectDto } from './my-attendance-response.dto';
+
+/**
+ * Position of a student relative to the absence limit
+ */
+export enum AbsenceLimitStatus {
+  OK = 'OK',
+  WARNING = 'WARNING', // At or past the warning threshold of the module
+  EXCEEDED = 'EXCEEDED', // Eliminated from the module
+}
+
+/**
+ * Absences of the current student in one teaching assignment
+ */
+export class MyAssignmentAbsencesDto {
+  @ApiProperty({ example: '880e8400-e29b-41d4-a716-446655440000' })
+  teachingAssignmentId: string;
+
+  @ApiProperty({ type: MySubjectDto })
+  subject: MySubjectDto;
+
+  @ApiProperty({
+    example: {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      fullName: 'Dr. Mohamed Salah',
+    },
+  })
+  teacher: {
+    id: string;
+    fullName: string;
+  };
+
+  @ApiProperty({
+    description: 'Sessions the student has a record in',
+    example: 10,
+  })
+  sessions: number;
+
+  @ApiProperty({ example: 2 })
+  absences: number;
+
+  @ApiProperty({ example: 1 })
+  lates: number;
+
+  @ApiProperty({
+    description:
+      'Absences covered by an approved justification, not counted against the limit',
+    example: 1,
+  })
+  excused: number;
+
+  @ApiProperty({
+    description:
+      'Absences plus lates converted by the elimination rule of the module',
+    example: 2,
+  })
+  effectiveAbsences: number;
+
+  @ApiProperty({
+    description: 'Absences divided by sessions (0 when no session yet)',
+    example: 0.2,
+  })
+  absenceRate: number;
+
+  @ApiProperty({
+    description: 'Effective absences allowed before exceeding the limit',
+    example: 3,
+  })
+  absenceLimit: number;
+
+  @ApiProperty({
+    description: 'Effective absences left before exceeding the limit',
+    example: 1,
+  })
+  remainingAbsences: number;
+
+  @ApiProperty({
+    enum: AbsenceLimitStatus,
+    example: AbsenceLimitStatus.OK,
+  })
+  limitStatus: AbsenceLimitStatus;
+}
+
+/**
+ * Absence overview of the current student
+ */
+export class MyAbsencesResponseDto {
+  @ApiProperty({
+    description: 'Worst status across teaching assignments',
+    enum: AbsenceLimitStatus,
+    example: AbsenceLimitStatus.OK,
+  })
+  status: AbsenceLimitStatus;
+
+  @ApiProperty({ type: [MyAssignmentAbsencesDto] })
+  assignments: MyAssignmentAbsencesDto[];
+}
@@ -0,0 +1,23 @@
+import { IsDateString, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Query filters for the current student's attendance
+ */
+export class MyAttendanceQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only sessions started at or after this date',
+    example: '2026-09-15T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'From must be a valid ISO 8601 date' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only sessions started at or before this date',
+    example: '2027-01-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'To must be a valid ISO 8601 date' })
+  to?: string;
+}
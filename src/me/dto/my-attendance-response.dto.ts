@@ -0,0 +1,89 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AttendanceStatus } from '@prisma/client';
+
+/**
+ * Subject information in student self-service responses
+ */
+export class MySubjectDto {
+  @ApiProperty({ example: '660e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'Flutter Development' })
+  name: string;
+
+  @ApiProperty({ example: 'FLUT301' })
+  code: string;
+}
+
+/**
+ * Attendance counts per status
+ */
+export class MyAttendanceCountsDto {
+  @ApiProperty({ example: 10 })
+  total: number;
+
+  @ApiProperty({ example: 7 })
+  present: number;
+
+  @ApiProperty({ example: 2 })
+  late: number;
+
+  @ApiProperty({ example: 1 })
+  absent: number;
+
+  @ApiProperty({
+    description: 'Absences covered by an approved justification',
+    example: 0,
+  })
+  excused: number;
+}
+
+/**
+ * One attendance record of the current student
+ */
+export class MyAttendanceRecordDto {
+  @ApiProperty({ example: 'bb0e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'aa0e8400-e29b-41d4-a716-446655440000' })
+  sessionId: string;
+
+  @ApiProperty({ example: '880e8400-e29b-41d4-a716-446655440000' })
+  teachingAssignmentId: string;
+
+  @ApiProperty({
+    description: 'Session start',
+    example: '2026-10-19T07:30:00.000Z',
+  })
+  startedAt: Date;
+
+  @ApiProperty({
+    enum: AttendanceStatus,
+    example: AttendanceStatus.PRESENT,
+  })
+  status: AttendanceStatus;
+
+  @ApiProperty({
+    description: 'When the card was scanned (null if absent)',
+    example: '2026-10-19T07:32:10.000Z',
+    nullable: true,
+  })
+  scannedAt: Date | null;
+}
+
+/**
+ * Attendance of the current student in one subject
+ */
+export class MySubjectAttendanceDto {
+  @ApiProperty({ type: MySubjectDto })
+  subject: MySubjectDto;
+
+  @ApiProperty({ type: MyAttendanceCountsDto })
+  counts: MyAttendanceCountsDto;
+
+  @ApiProperty({
+    description: 'Records, newest first',
+    type: [MyAttendanceRecordDto],
+  })
+  records: MyAttendanceRecordDto[];
+}
@@ -0,0 +1,20 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Query options for the current student's upcoming sessions
+ */
+export class UpcomingSessionsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of days ahead to look',
+    example: 7,
+    default: 7,
+    minimum: 1,
+    maximum: 31,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Days must be an integer' })
+  @Min(1, { message: 'Days must be at least 1' })
+  @Max(31, { message: 'Days must not exceed 31' })
+  days?: number;
+}
@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MeController } from './me.controller';
+import { MeService } from './me.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TimetableService } from '../timetable/timetable.service';
+import { EliminationsService } from '../eliminations/eliminations.service';
+
+describe('MeController', () => {
+  let controller: MeController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MeController],
+      providers: [
+        MeService,
+        { provide: PrismaService, useValue: {} },
+        { provide: TimetableService, useValue: {} },
+        { provide: EliminationsService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<MeController>(MeController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
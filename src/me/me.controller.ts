@@ -0,0 +1,101 @@
+import { Controller, Get, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { MeService } from './me.service';
+import {
+  MyAttendanceQueryDto,
+  UpcomingSessionsQueryDto,
+  MySubjectAttendanceDto,
+  MyAbsencesResponseDto,
+} from './dto';
+import { ScheduledSlotResponseDto } from '../timetable/dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser } from '../auth/decorators';
+import type { AuthenticatedUser } from '../auth/strategies';
+
+/**
+ * Me Controller
+ * Self-service endpoints of the signed-in student
+ */
+@ApiTags('Me')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.STUDENT)
+@ApiForbiddenResponse({
+  description: 'Not a student account',
+})
+@Controller('me')
+export class MeController {
+  constructor(private readonly meService: MeService) {}
+
+  /**
+   * Get my attendance grouped by subject
+   * Students only
+   */
+  @ApiOperation({
+    summary: 'Get my attendance',
+    description:
+      'Attendance records of the signed-in student grouped by subject, with counts per status',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Attendance per subject',
+    type: [MySubjectAttendanceDto],
+  })
+  @Get('attendance')
+  findAttendance(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: MyAttendanceQueryDto,
+  ): Promise<MySubjectAttendanceDto[]> {
+    return this.meService.findAttendance(user, query);
+  }
+
+  /**
+   * Get my absences against the absence limit
+   * Students only
+   */
+  @ApiOperation({
+    summary: 'Get my absences',
+    description:
+      'Absence count and rate per teaching assignment, and whether the student is at or past the absence limit',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Absences per teaching assignment',
+    type: MyAbsencesResponseDto,
+  })
+  @Get('absences')
+  findAbsences(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MyAbsencesResponseDto> {
+    return this.meService.findAbsences(user);
+  }
+
+  /**
+   * Get my upcoming sessions from the timetable
+   * Students only
+   */
+  @ApiOperation({
+    summary: 'Get my upcoming sessions',
+    description:
+      "Timetabled sessions of the student's classroom in the coming days",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Upcoming sessions, soonest first',
+    type: [ScheduledSlotResponseDto],
+  })
+  @Get('sessions/upcoming')
+  findUpcomingSessions(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: UpcomingSessionsQueryDto,
+  ): Promise<ScheduledSlotResponseDto[]> {
+    return this.meService.findUpcomingSessions(user, query);
+  }
+}
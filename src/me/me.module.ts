@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { MeService } from './me.service';
+import { MeController } from './me.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { TimetableModule } from '../timetable/timetable.module';
+import { EliminationsModule } from '../eliminations/eliminations.module';
+
+/**
+ * Me Module
+ * Self-service attendance views for students
+ */
+@Module({
+  imports: [PrismaModule, TimetableModule, EliminationsModule],
+  controllers: [MeController],
+  providers: [MeService],
+})
+export class MeModule {}
@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { AttendanceStatus, UserRole } from '@prisma/client';
+import { MeService } from './me.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TimetableService } from '../timetable/timetable.service';
+import { EliminationsService } from '../eliminations/eliminations.service';
+import { EliminationStatus } from '../eliminations/dto';
+import type { AuthenticatedUser } from '../auth/strategies';
+import { AbsenceLimitStatus } from './dto';
+
+describe('MeService', () => {
+  let service: MeService;
+
+  const prisma = {
+    attendanceRecord: { findMany: jest.fn() },
+    teachingAssignment: { findMany: jest.fn() },
+  };
+  const timetableService = { findOccurrences: jest.fn() };
+  const eliminationsService = {
+    resolveMany: jest.fn(),
+    evaluate: jest.fn(),
+  };
+
+  const student: AuthenticatedUser = {
+    id: 'user-1',
+    email: 'student@example.com',
+    role: UserRole.STUDENT,
+    createdAt: new Date(),
+    student: {
+      id: 'student-1',
+      studentCode: 'STU001',
+      fullName: 'Yacine Haddad',
+      classroomId: 'classroom-1',
+    },
+    teacher: null,
+  };
+  const withoutProfile: AuthenticatedUser = { ...student, student: null };
+
+  const subject = { id: 'subject-1', name: 'Networks', code: 'NET' };
+  const assignment = {
+    id: 'assignment-1',
+    teacher: { id: 'teacher-1', fullName: 'Amina Benali' },
+    subject,
+    classroom: { department: 'CS' },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.attendanceRecord.findMany.mockResolvedValue([]);
+    prisma.teachingAssignment.findMany.mockResolvedValue([]);
+    timetableService.findOccurrences.mockResolvedValue([]);
+    eliminationsService.resolveMany.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MeService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: TimetableService, useValue: timetableService },
+        { provide: EliminationsService, useValue: eliminationsService },
+      ],
+    }).compile();
+
+    service = module.get<MeService>(MeService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findAttendance', () => {
+    it("only reads the student's own records", async () => {
+      await service.findAttendance(student, { from: '2026-09-01' });
+
+      expect(prisma.attendanceRecord.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            studentId: 'student-1',
+            session: {
+              startedAt: { gte: new Date('2026-09-01') },
+            },
+          },
+        }),
+      );
+    });
+
+    it('groups records by subject with their counts', async () => {
+      const record = (id: string, status: AttendanceStatus) => ({
+        id,
+        status,
+        scannedAt: null,
+        session: {
+          id: `session-${id}`,
+          startedAt: new Date('2026-10-19T08:00:00Z'),
+          teachingAssignment: assignment,
+        },
+      });
+      prisma.attendanceRecord.findMany.mockResolvedValue([
+        record('1', AttendanceStatus.PRESENT),
+        record('2', AttendanceStatus.ABSENT),
+      ]);
+
+      const [group] = await service.findAttendance(student, {});
+
+      expect(group.subject).toBe(subject);
+      expect(group.counts).toEqual({
+        total: 2,
+        present: 1,
+        late: 0,
+        absent: 1,
+        excused: 0,
+      });
+      expect(group.records.map((r) => r.sessionId)).toEqual([
+        'session-1',
+        'session-2',
+      ]);
+    });
+
+    it('refuses accounts without a student profile', async () => {
+      await expect(service.findAttendance(withoutProfile, {})).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prisma.attendanceRecord.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAbsences', () => {
+    it("scopes assignments and records to the student's own", async () => {
+      await service.findAbsences(student);
+
+      expect(prisma.teachingAssignment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [
+              { classroomId: 'classroom-1' },
+              {
+                sessions: {
+                  some: {
+                    attendanceRecords: { some: { studentId: 'student-1' } },
+                  },
+                },
+              },
+            ],
+          },
+        }),
+      );
+      expect(prisma.attendanceRecord.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { studentId: 'student-1' } }),
+      );
+    });
+
+    it('reports the position against the elimination rule', async () => {
+      prisma.teachingAssignment.findMany.mockResolvedValue([assignment]);
+      prisma.attendanceRecord.findMany.mockResolvedValue([
+        {
+          status: AttendanceStatus.ABSENT,
+          session: { teachingAssignmentId: 'assignment-1' },
+        },
+        {
+          status: AttendanceStatus.PRESENT,
+          session: { teachingAssignmentId: 'assignment-1' },
+        },
+      ]);
+      eliminationsService.resolveMany.mockResolvedValue([{ maxAbsences: 3 }]);
+      eliminationsService.evaluate.mockReturnValue({
+        absences: 1,
+        lates: 0,
+        excused: 0,
+        effectiveAbsences: 1,
+        remainingAbsences: 2,
+        status: EliminationStatus.WARNING,
+      });
+
+      const { status, assignments } = await service.findAbsences(student);
+
+      expect(eliminationsService.evaluate).toHaveBeenCalledWith(
+        { maxAbsences: 3 },
+        { absences: 1, lates: 0, excused: 0 },
+      );
+      expect(status).toBe(AbsenceLimitStatus.WARNING);
+      expect(assignments[0]).toEqual(
+        expect.objectContaining({
+          teachingAssignmentId: 'assignment-1',
+          sessions: 2,
+          absenceRate: 0.5,
+          absenceLimit: 3,
+          limitStatus: AbsenceLimitStatus.WARNING,
+        }),
+      );
+    });
+
+    it('refuses accounts without a student profile', async () => {
+      await expect(service.findAbsences(withoutProfile)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prisma.teachingAssignment.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findUpcomingSessions', () => {
+    it("lists the slots of the student's classroom", async () => {
+      const now = new Date('2026-10-19T08:00:00Z');
+
+      await service.findUpcomingSessions(student, { days: 2 }, now);
+
+      expect(timetableService.findOccurrences).toHaveBeenCalledWith(
+        { teachingAssignment: { classroomId: 'classroom-1' } },
+        now,
+        new Date('2026-10-21T08:00:00Z'),
+      );
+    });
+
+    it('refuses accounts without a student profile', () => {
+      expect(() => service.findUpcomingSessions(withoutProfile, {})).toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { Injectable, ForbiddenException, Logger } from '@nestjs/common';
+import { AttendanceStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TimetableService } from '../timetable/timetable.service';
+import { ScheduledSlotResponseDto } from '../timetable/dto';
+import { EliminationsService } from '../eliminations/eliminations.service';
+import { EliminationStatus } from '../eliminations/dto';
+import type { AuthenticatedUser } from '../auth/strategies';
+import {
+  MyAttendanceQueryDto,
+  UpcomingSessionsQueryDto,
+  MySubjectAttendanceDto,
+  MyAbsencesResponseDto,
+  MyAssignmentAbsencesDto,
+  AbsenceLimitStatus,
+} from './dto';
+
+type StudentProfile = NonNullable<AuthenticatedUser['student']>;
+
+const LIMIT_STATUS: Record<EliminationStatus, AbsenceLimitStatus> = {
+  [EliminationStatus.OK]: AbsenceLimitStatus.OK,
+  [EliminationStatus.WARNING]: AbsenceLimitStatus.WARNING,
+  [EliminationStatus.ELIMINATED]: AbsenceLimitStatus.EXCEEDED,
+};
+
+/**
+ * Me Service
+ * Read-only views of the signed-in student's own attendance
+ * Everything is scoped to the student profile linked to the account, a
+ * student can never read another student's records
+ */
+@Injectable()
+export class MeService {
+  private readonly logger = new Logger(MeService.name);
+  private readonly DEFAULT_UPCOMING_DAYS = 7;
+
+  private readonly assignmentSelect = {
+    id: true,
+    teacher: {
+      select: {
+        id: true,
+        fullName: true,
+      },
+    },
+    subject: {
+      select: {
+        id: true,
+        name: true,
+        code: true,
+      },
+    },
+  } satisfies Prisma.TeachingAssignmentSelect;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly timetableService: TimetableService,
+    private readonly eliminationsService: EliminationsService,
+  ) {}
+
+  /**
+   * Get the student's attendance records grouped by subject
+   */
+  async findAttendance(
+    user: AuthenticatedUser,
+    query: MyAttendanceQueryDto,
+  ): Promise<MySubjectAttendanceDto[]> {
+    const student = this.requireStudent(user);
+
+    const records = await this.prisma.attendanceRecord.findMany({
+      where: {
+        studentId: student.id,
+        session: {
+          startedAt: {
+            ...(query.from && { gte: new Date(query.from) }),
+            ...(query.to && { lte: new Date(query.to) }),
+          },
+        },
+      },
+      include: {
+        session: {
+          select: {
+            id: true,
+            startedAt: true,
+            teachingAssignment: {
+              select: this.assignmentSelect,
+            },
+          },
+        },
+      },
+      orderBy: {
+        session: { startedAt: 'desc' },
+      },
+    });
+
+    const bySubject = new Map<string, MySubjectAttendanceDto>();
+
+    for (const record of records) {
+      const { subject } = record.session.teachingAssignment;
+      let group = bySubject.get(subject.id);
+
+      if (!group) {
+        group = {
+          subject,
+          counts: {
+            total: 0,
+            present: 0,
+            late: 0,
+            absent: 0,
+            excused: 0,
+          },
+          records: [],
+        };
+        bySubject.set(subject.id, group);
+      }
+
+      group.counts.total++;
+      if (record.status === AttendanceStatus.PRESENT) group.counts.present++;
+      if (record.status === AttendanceStatus.LATE) group.counts.late++;
+      if (record.status === AttendanceStatus.ABSENT) group.counts.absent++;
+      if (record.status === AttendanceStatus.EXCUSED) group.counts.excused++;
+
+      group.records.push({
+        id: record.id,
+        sessionId: record.session.id,
+        teachingAssignmentId: record.session.teachingAssignment.id,
+        startedAt: record.session.startedAt,
+        status: record.status,
+        scannedAt: record.scannedAt,
+      });
+    }
+
+    return [...bySubject.values()].sort((a, b) =>
+      a.subject.name.localeCompare(b.subject.name),
+    );
+  }
+
+  /**
+   * Get the student's absences per teaching assignment and their position
+   * relative to the elimination rule of each module
+   * Covers the assignments of the current classroom, plus earlier
+   * assignments the student still has records in
+   */
+  async findAbsences(user: AuthenticatedUser): Promise<MyAbsencesResponseDto> {
+    const student = this.requireStudent(user);
+
+    const [assignments, allRecords] = await Promise.all([
+      this.prisma.teachingAssignment.findMany({
+        where: {
+          OR: [
+            { classroomId: student.classroomId },
+            {
+              sessions: {
+                some: {
+                  attendanceRecords: { some: { studentId: student.id } },
+                },
+              },
+            },
+          ],
+        },
+        select: {
+          ...this.assignmentSelect,
+          classroom: { select: { department: true } },
+        },
+      }),
+      this.prisma.attendanceRecord.findMany({
+        where: { studentId: student.id },
+        select: {
+          status: true,
+          session: { select: { teachingAssignmentId: true } },
+        },
+      }),
+    ]);
+
+    const rules = await this.eliminationsService.resolveMany(
+      assignments.map((assignment) => ({
+        subjectId: assignment.subject.id,
+        department: assignment.classroom.department,
+      })),
+    );
+
+    const result: MyAssignmentAbsencesDto[] = assignments.map(
+      (assignment, index) => {
+        const records = allRecords.filter(
+          (record) => record.session.teachingAssignmentId === assignment.id,
+        );
+        const count = (status: AttendanceStatus) =>
+          records.filter((record) => record.status === status).length;
+        const evaluation = this.eliminationsService.evaluate(rules[index], {
+          absences: count(AttendanceStatus.ABSENT),
+          lates: count(AttendanceStatus.LATE),
+          excused: count(AttendanceStatus.EXCUSED),
+        });
+
+        return {
+          teachingAssignmentId: assignment.id,
+          subject: assignment.subject,
+          teacher: assignment.teacher,
+          sessions: records.length,
+          absences: evaluation.absences,
+          lates: evaluation.lates,
+          excused: evaluation.excused,
+          effectiveAbsences: evaluation.effectiveAbsences,
+          absenceRate:
+            records.length > 0
+              ? Math.round((evaluation.absences / records.length) * 1000) / 1000
+              : 0,
+          absenceLimit: rules[index].maxAbsences,
+          remainingAbsences: evaluation.remainingAbsences,
+          limitStatus: LIMIT_STATUS[evaluation.status],
+        };
+      },
+    );
+
+    result.sort((a, b) => a.subject.name.localeCompare(b.subject.name));
+
+    return {
+      status: this.worstStatus(result.map((item) => item.limitStatus)),
+      assignments: result,
+    };
+  }
+
+  /**
+   * Get the upcoming timetabled sessions of the student's classroom
+   */
+  findUpcomingSessions(
+    user: AuthenticatedUser,
+    query: UpcomingSessionsQueryDto,
+    now = new Date(),
+  ): Promise<ScheduledSlotResponseDto[]> {
+    const student = this.requireStudent(user);
+    const days = query.days ?? this.DEFAULT_UPCOMING_DAYS;
+
+    return this.timetableService.findOccurrences(
+      { teachingAssignment: { classroomId: student.classroomId } },
+      now,
+      new Date(now.getTime() + days * 86_400_000),
+    );
+  }
+
+  /**
+   * Return the student profile of the account
+   * Accounts with the STUDENT role are normally always linked to one
+   */
+  private requireStudent(user: AuthenticatedUser): StudentProfile {
+    if (!user.student) {
+      this.logger.warn(`User ${user.id} has no student profile`);
+      throw new ForbiddenException('No student profile linked to this account');
+    }
+
+    return user.student;
+  }
+
+  private worstStatus(statuses: AbsenceLimitStatus[]): AbsenceLimitStatus {
+    if (statuses.includes(AbsenceLimitStatus.EXCEEDED)) {
+      return AbsenceLimitStatus.EXCEEDED;
+    }
+    if (statuses.includes(AbsenceLimitStatus.WARNING)) {
+      return AbsenceLimitStatus.WARNING;
+    }
+    return AbsenceLimitStatus.OK;
+  }
+}
@@ -0,0 +1,30 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MqttBridgeService } from './mqtt-bridge.service';
+import { AuthService } from '../auth/auth.service';
+import { AttendanceService } from '../attendance/attendance.service';
+import { DevicesService } from '../devices/devices.service';
+import { DeviceCommandsService } from '../devices/device-commands.service';
+
+describe('MqttBridgeService', () => {
+  let service: MqttBridgeService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MqttBridgeService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: AuthService, useValue: {} },
+        { provide: AttendanceService, useValue: {} },
+        { provide: DevicesService, useValue: {} },
+        { provide: DeviceCommandsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<MqttBridgeService>(MqttBridgeService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+});
@@ -0,0 +1,442 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  HttpException,
+  UnauthorizedException,
+  BadRequestException,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { connect, MqttClient } from 'mqtt';
+import { AuthService } from '../auth/auth.service';
+import { AuthenticatedDevice } from '../auth/strategies';
+import { AttendanceService } from '../attendance/attendance.service';
+import { ScanDto, BatchScanDto } from '../attendance/dto';
+import { DevicesService } from '../devices/devices.service';
+import {
+  DeviceCommandsService,
+  DEVICE_COMMAND_QUEUED_EVENT,
+} from '../devices/device-commands.service';
+import type { DeviceCommandQueuedEvent } from '../devices/device-commands.service';
+import {
+  HeartbeatDto,
+  AcknowledgeDeviceCommandDto,
+  DeviceCommandResponseDto,
+} from '../devices/dto';
+
+/**
+ * Signed envelope of every device message
+ */
+interface DeviceMessageEnvelope {
+  timestamp?: unknown;
+  nonce?: unknown;
+  signature?: unknown;
+  // JSON text of the message, signed as is
+  body?: unknown;
+}
+
+/**
+ * Device message once its signature is checked
+ */
+interface DeviceMessage {
+  requestId?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * MQTT Bridge Service
+ * Connects to the MQTT broker as a client and maps device topics to the same
+ * services the REST endpoints use. Every device message is a JSON envelope
+ * with the timestamp, nonce and signature of the REST device headers and a
+ * body holding the JSON text of an object with an optional request ID echoed
+ * in the reply and the fields of the matching REST body. The signed target is
+ * the topic.
+ *
+ * Topics under the prefix (default esprit/devices), per device UID:
+ * - {uid}/scan                    → {uid}/scan/result
+ * - {uid}/scans/batch             → {uid}/scans/batch/result
+ * - {uid}/heartbeat               → {uid}/heartbeat/result
+ * - {uid}/commands/poll           → pending commands on {uid}/commands
+ * - {uid}/commands/{id}/ack       → {uid}/commands/{id}/ack/result
+ *
+ * Commands queued for a device that has talked to this bridge are pushed to
+ * {uid}/commands right away; other devices pick them up when they poll.
+ */
+@Injectable()
+export class MqttBridgeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MqttBridgeService.name);
+  private readonly DEFAULT_TOPIC_PREFIX = 'esprit/devices';
+
+  // Same options as the global validation pipe in main.ts
+  private readonly validationPipe = new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+    transformOptions: {
+      enableImplicitConversion: true,
+    },
+  });
+
+  private readonly topicPrefix: string;
+  private client: MqttClient | null = null;
+
+  // Devices seen on this bridge, eligible for pushed commands
+  private readonly mqttDevices = new Set<string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly authService: AuthService,
+    private readonly attendanceService: AttendanceService,
+    private readonly devicesService: DevicesService,
+    private readonly deviceCommandsService: DeviceCommandsService,
+  ) {
+    this.topicPrefix = (
+      this.configService.get<string>('MQTT_TOPIC_PREFIX') ||
+      this.DEFAULT_TOPIC_PREFIX
+    ).replace(/\/+$/, '');
+  }
+
+  /**
+   * Connect to the broker when MQTT_URL is configured
+   */
+  onModuleInit(): void {
+    const url = this.configService.get<string>('MQTT_URL');
+
+    if (!url) {
+      this.logger.log('MQTT_URL not set, MQTT bridge disabled');
+      return;
+    }
+
+    this.client = connect(url, {
+      clientId:
+        this.configService.get<string>('MQTT_CLIENT_ID') ||
+        `attendance-backend-${process.pid}`,
+      username: this.configService.get<string>('MQTT_USERNAME') || undefined,
+      password: this.configService.get<string>('MQTT_PASSWORD') || undefined,
+      reconnectPeriod: 5000,
+    });
+
+    this.client.on('connect', () => {
+      this.logger.log(`Connected to MQTT broker at ${url}`);
+      this.client?.subscribe(
+        [
+          `${this.topicPrefix}/+/scan`,
+          `${this.topicPrefix}/+/scans/batch`,
+          `${this.topicPrefix}/+/heartbeat`,
+          `${this.topicPrefix}/+/commands/poll`,
+          `${this.topicPrefix}/+/commands/+/ack`,
+        ],
+        { qos: 1 },
+        (error) => {
+          if (error) {
+            this.logger.error('Failed to subscribe to device topics', error);
+          }
+        },
+      );
+    });
+
+    this.client.on('error', (error) => {
+      this.logger.error(`MQTT client error: ${error.message}`);
+    });
+
+    this.client.on('message', (topic, payload) => {
+      void this.handleMessage(topic, payload);
+    });
+  }
+
+  /**
+   * Disconnect from the broker on shutdown
+   */
+  async onModuleDestroy(): Promise<void> {
+    if (this.client) {
+      await this.client.endAsync();
+      this.client = null;
+    }
+  }
+
+  /**
+   * Push a newly queued command to a device connected over MQTT
+   */
+  @OnEvent(DEVICE_COMMAND_QUEUED_EVENT)
+  async handleCommandQueued(event: DeviceCommandQueuedEvent): Promise<void> {
+    if (!this.client?.connected || !this.mqttDevices.has(event.deviceUid)) {
+      return;
+    }
+
+    try {
+      await this.pushCommand(event.deviceUid, event.command);
+    } catch (error) {
+      this.logger.error(
+        `Failed to push command ${event.command.id} to ${event.deviceUid}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Route an incoming device message and publish its reply
+   */
+  private async handleMessage(topic: string, payload: Buffer): Promise<void> {
+    const route = this.parseTopic(topic);
+
+    if (!route) {
+      return;
+    }
+
+    const { deviceUid, action } = route;
+    let requestId: unknown;
+
+    try {
+      const envelope = this.parseEnvelope(payload);
+      const { requestId: id, ...body } = this.parseBody(envelope.body);
+      requestId = id;
+
+      const device = await this.authenticate(deviceUid, topic, envelope);
+      this.mqttDevices.add(deviceUid);
+
+      if (action === 'commands/poll') {
+        const commands = await this.deviceCommandsService.poll(device.id);
+        for (const command of commands) {
+          await this.publish(this.topic(deviceUid, 'commands'), command);
+        }
+        return;
+      }
+
+      const result = await this.dispatch(device, action, body);
+      await this.publish(this.topic(deviceUid, `${action}/result`), {
+        ...(requestId !== undefined && { requestId }),
+        ...result,
+      });
+    } catch (error) {
+      await this.publishError(deviceUid, action, requestId, error);
+    }
+  }
+
+  /**
+   * Run the service call matching a device action
+   */
+  private async dispatch(
+    device: AuthenticatedDevice,
+    action: string,
+    body: Record<string, unknown>,
+  ): Promise<object> {
+    if (action === 'scan') {
+      const scanDto = await this.validate(ScanDto, body);
+      return this.attendanceService.recordScan(device, scanDto);
+    }
+
+    if (action === 'scans/batch') {
+      const batchScanDto = await this.validate(BatchScanDto, body);
+      return this.attendanceService.recordBufferedScans(device, batchScanDto);
+    }
+
+    if (action === 'heartbeat') {
+      const heartbeatDto = await this.validate(HeartbeatDto, body);
+      return this.devicesService.recordHeartbeat(device.id, heartbeatDto);
+    }
+
+    const ack = /^commands\/([^/]+)\/ack$/.exec(action);
+    if (ack) {
+      const acknowledgeDto = await this.validate(
+        AcknowledgeDeviceCommandDto,
+        body,
+      );
+      return this.deviceCommandsService.acknowledge(
+        device.id,
+        ack[1],
+        acknowledgeDto,
+      );
+    }
+
+    throw new BadRequestException(`Unsupported action '${action}'`);
+  }
+
+  /**
+   * Publish a command to its device and mark it delivered
+   */
+  private async pushCommand(
+    deviceUid: string,
+    command: DeviceCommandResponseDto,
+  ): Promise<void> {
+    const deliveredCommand = await this.deviceCommandsService.markDelivered(
+      command.id,
+    );
+
+    // Already fetched by a poll or expired
+    if (!deliveredCommand) {
+      return;
+    }
+
+    await this.publish(this.topic(deviceUid, 'commands'), deliveredCommand);
+  }
+
+  /**
+   * Check the device signature carried by a message
+   */
+  private async authenticate(
+    deviceUid: string,
+    topic: string,
+    envelope: DeviceMessageEnvelope,
+  ): Promise<AuthenticatedDevice> {
+    const { timestamp, nonce, signature, body } = envelope;
+
+    if (
+      (typeof timestamp !== 'string' && typeof timestamp !== 'number') ||
+      typeof nonce !== 'string' ||
+      typeof signature !== 'string' ||
+      typeof body !== 'string' ||
+      !nonce ||
+      !signature
+    ) {
+      throw new UnauthorizedException('Missing device credentials');
+    }
+
+    const device = await this.authService.validateDevice(deviceUid, {
+      timestamp: String(timestamp),
+      nonce,
+      signature,
+      target: topic,
+      body,
+    });
+
+    if (!device) {
+      throw new UnauthorizedException('Invalid device credentials');
+    }
+
+    return device;
+  }
+
+  /**
+   * Validate and transform a message body like a REST request body
+   */
+  private validate<T>(
+    metatype: new () => T,
+    body: Record<string, unknown>,
+  ): Promise<T> {
+    return this.validationPipe.transform(body, {
+      type: 'body',
+      metatype,
+    }) as Promise<T>;
+  }
+
+  /**
+   * Parse the JSON envelope of a payload
+   */
+  private parseEnvelope(payload: Buffer): DeviceMessageEnvelope {
+    return this.parseObject(payload.toString('utf8'), 'Payload');
+  }
+
+  /**
+   * Parse the signed JSON body of a message
+   */
+  private parseBody(body: unknown): DeviceMessage {
+    if (typeof body !== 'string') {
+      throw new BadRequestException('Message body must be a JSON string');
+    }
+
+    return body === '' ? {} : this.parseObject(body, 'Message body');
+  }
+
+  /**
+   * Parse a JSON object
+   */
+  private parseObject(text: string, name: string): Record<string, unknown> {
+    let message: unknown;
+
+    try {
+      message = JSON.parse(text);
+    } catch {
+      throw new BadRequestException(`${name} must be valid JSON`);
+    }
+
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      throw new BadRequestException(`${name} must be a JSON object`);
+    }
+
+    return message as Record<string, unknown>;
+  }
+
+  /**
+   * Split a device topic into device UID and action
+   */
+  private parseTopic(
+    topic: string,
+  ): { deviceUid: string; action: string } | null {
+    if (!topic.startsWith(`${this.topicPrefix}/`)) {
+      return null;
+    }
+
+    const [deviceUid, ...rest] = topic
+      .slice(this.topicPrefix.length + 1)
+      .split('/');
+
+    if (!deviceUid || rest.length === 0) {
+      return null;
+    }
+
+    return { deviceUid, action: rest.join('/') };
+  }
+
+  /**
+   * Publish a failed request the way the REST API reports errors
+   */
+  private async publishError(
+    deviceUid: string,
+    action: string,
+    requestId: unknown,
+    error: unknown,
+  ): Promise<void> {
+    let body: object;
+
+    if (error instanceof HttpException) {
+      const response = error.getResponse();
+      body =
+        typeof response === 'string'
+          ? { statusCode: error.getStatus(), message: response }
+          : response;
+    } else {
+      this.logger.error(
+        `Failed to handle ${action} from ${deviceUid} over MQTT`,
+        error,
+      );
+      body = { statusCode: 500, message: 'Internal server error' };
+    }
+
+    const replyAction = action === 'commands/poll' ? 'commands' : action;
+
+    try {
+      await this.publish(this.topic(deviceUid, `${replyAction}/result`), {
+        ...(requestId !== undefined && { requestId }),
+        error: body,
+      });
+    } catch (publishError) {
+      this.logger.error(
+        `Failed to publish error reply to ${deviceUid}`,
+        publishError,
+      );
+    }
+  }
+
+  /**
+   * Publish a JSON message with at-least-once delivery
+   */
+  private async publish(topic: string, message: object): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+
+    await this.client.publishAsync(topic, JSON.stringify(message), {
+      qos: 1,
+    });
+  }
+
+  /**
+   * Build a topic for a device
+   */
+  private topic(deviceUid: string, suffix: string): string {
+    return `${this.topicPrefix}/${deviceUid}/${suffix}`;
+  }
+}
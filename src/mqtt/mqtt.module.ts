@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MqttBridgeService } from './mqtt-bridge.service';
+import { AuthModule } from '../auth/auth.module';
+import { AttendanceModule } from '../attendance/attendance.module';
+import { DevicesModule } from '../devices/devices.module';
+
+/**
+ * MQTT Module
+ * Bridges device scans, heartbeats and commands over MQTT
+ */
+@Module({
+  imports: [AuthModule, AttendanceModule, DevicesModule],
+  providers: [MqttBridgeService],
+})
+export class MqttModule {}
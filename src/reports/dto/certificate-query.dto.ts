@@ -0,0 +1,23 @@
+import { IsDateString, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Query parameters of an attendance certificate
+ */
+export class CertificateQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only include sessions started at or after this date',
+    example: '2026-09-15T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'From must be a valid ISO 8601 date' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only include sessions started at or before this date',
+    example: '2026-12-20T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'To must be a valid ISO 8601 date' })
+  to?: string;
+}
@@ -0,0 +1 @@
+export * from './certificate-query.dto';
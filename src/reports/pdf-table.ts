@@ -0,0 +1,65 @@
+/**
+ * Column of a PDF table
+ */
+export interface PdfTableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'center' | 'right';
+}
+
+const CELL_PADDING = 4;
+const HEADER_HEIGHT = 20;
+
+/**
+ * Draw a bordered table at the current position
+ * Starts a new page, repeating the header row, whenever the next row does
+ * not fit; leaves the cursor below the table
+ */
+export function drawTable(
+  doc: PDFKit.PDFDocument,
+  columns: PdfTableColumn[],
+  rows: string[][],
+  rowHeight = 18,
+): void {
+  const left = doc.page.margins.left;
+  const bottom = () => doc.page.height - doc.page.margins.bottom;
+  let y = doc.y;
+
+  const drawRow = (cells: string[], height: number, header: boolean) => {
+    let x = left;
+
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    if (header) {
+      const width = columns.reduce((sum, column) => sum + column.width, 0);
+      doc.rect(left, y, width, height).fill('#eeeeee').fillColor('black');
+    }
+
+    columns.forEach((column, index) => {
+      doc.rect(x, y, column.width, height).stroke();
+      doc.text(cells[index] ?? '', x + CELL_PADDING, y + (height - 9) / 2, {
+        width: column.width - CELL_PADDING * 2,
+        align: column.align ?? 'left',
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+
+    y += height;
+  };
+
+  const headers = columns.map((column) => column.header);
+  drawRow(headers, HEADER_HEIGHT, true);
+
+  for (const row of rows) {
+    if (y + rowHeight > bottom()) {
+      doc.addPage();
+      y = doc.page.margins.top;
+      drawRow(headers, HEADER_HEIGHT, true);
+    }
+    drawRow(row, rowHeight, false);
+  }
+
+  doc.x = left;
+  doc.y = y + 10;
+}
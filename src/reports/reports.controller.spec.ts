@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ReportsController } from './reports.controller';
+import { ReportsService } from './reports.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from '../sessions/sessions.service';
+
+describe('ReportsController', () => {
+  let controller: ReportsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ReportsController],
+      providers: [
+        ReportsService,
+        { provide: PrismaService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: SessionsService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<ReportsController>(ReportsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
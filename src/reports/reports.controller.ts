@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  HttpStatus,
+  UseGuards,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiProduces,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { ReportsService, PdfReport } from './reports.service';
+import { CertificateQueryDto } from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser } from '../auth/decorators';
+import type { AuthenticatedUser } from '../auth/strategies';
+
+/**
+ * Reports Controller
+ * Printable PDF attendance documents
+ */
+@ApiTags('Reports')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiProduces('application/pdf')
+@Controller('reports')
+export class ReportsController {
+  constructor(private readonly reportsService: ReportsService) {}
+
+  /**
+   * Get the printable attendance sheet of a session
+   * Teachers (own sessions) and Admins
+   */
+  @ApiOperation({
+    summary: 'Get a session attendance sheet',
+    description:
+      'PDF listing the students of the session roster with their status, scan time and a signature column',
+  })
+  @ApiParam({
+    name: 'sessionId',
+    description: 'Session UUID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'PDF document',
+  })
+  @ApiForbiddenResponse({
+    description: 'Session belongs to another teacher',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('sessions/:sessionId/attendance-sheet')
+  async attendanceSheet(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('sessionId') sessionId: string,
+  ): Promise<StreamableFile> {
+    return this.toStreamableFile(
+      await this.reportsService.attendanceSheet(user, sessionId),
+    );
+  }
+
+  /**
+   * Get the attendance certificate of a student
+   * Admins and Students (their own)
+   */
+  @ApiOperation({
+    summary: 'Get a student attendance certificate',
+    description:
+      'PDF summarizing the attendance of a student by subject over a period',
+  })
+  @ApiParam({
+    name: 'studentId',
+    description: 'Student UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'PDF document',
+  })
+  @ApiForbiddenResponse({
+    description: 'Certificate of another student',
+  })
+  @ApiNotFoundResponse({
+    description: 'Student not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.STUDENT)
+  @Get('students/:studentId/certificate')
+  async attendanceCertificate(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('studentId') studentId: string,
+    @Query() query: CertificateQueryDto,
+  ): Promise<StreamableFile> {
+    return this.toStreamableFile(
+      await this.reportsService.attendanceCertificate(user, studentId, query),
+    );
+  }
+
+  private toStreamableFile(report: PdfReport): StreamableFile {
+    return new StreamableFile(report.stream, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${report.fileName}"`,
+    });
+  }
+}
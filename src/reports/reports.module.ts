@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { ReportsController } from './reports.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SessionsModule } from '../sessions/sessions.module';
+
+/**
+ * Reports Module
+ * Printable PDF attendance sheets and certificates
+ */
+@Module({
+  imports: [PrismaModule, SessionsModule],
+  controllers: [ReportsController],
+  providers: [ReportsService],
+})
+export class ReportsModule {}
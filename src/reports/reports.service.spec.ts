@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { AttendanceStatus, UserRole } from '@prisma/client';
+import { ReportsService } from './reports.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from '../sessions/sessions.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+
+describe('ReportsService', () => {
+  let service: ReportsService;
+
+  const prisma = {
+    student: { findUnique: jest.fn() },
+    attendanceRecord: { findMany: jest.fn() },
+  };
+
+  const user = (
+    role: UserRole,
+    overrides: Partial<AuthenticatedUser> = {},
+  ): AuthenticatedUser => ({
+    id: 'user-1',
+    email: 'user@example.com',
+    role,
+    createdAt: new Date(),
+    student: null,
+    teacher: null,
+    ...overrides,
+  });
+
+  const admin = user(UserRole.ADMIN);
+  const teacher = user(UserRole.TEACHER, {
+    teacher: { id: 'teacher-1', fullName: 'Amina Benali' },
+  });
+  const student = user(UserRole.STUDENT, {
+    student: {
+      id: 'student-1',
+      studentCode: 'STU001',
+      fullName: 'Yacine Haddad',
+      classroomId: 'classroom-1',
+    },
+  });
+
+  const readAll = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.student.findUnique.mockResolvedValue({
+      studentCode: 'STU001',
+      fullName: 'Yacine Haddad',
+      classroom: { name: 'GL2A' },
+    });
+    prisma.attendanceRecord.findMany.mockResolvedValue([
+      {
+        status: AttendanceStatus.PRESENT,
+        session: {
+          teachingAssignment: {
+            subject: { id: 'subject-1', name: 'Networks', code: 'NET' },
+          },
+        },
+      },
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: SessionsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ReportsService>(ReportsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('attendanceCertificate', () => {
+    it('gives students their own certificate', async () => {
+      const { stream, fileName } = await service.attendanceCertificate(
+        student,
+        'student-1',
+        {},
+      );
+
+      expect((await readAll(stream)).subarray(0, 5).toString()).toBe('%PDF-');
+      expect(fileName).toMatch(/\.pdf$/);
+      expect(prisma.attendanceRecord.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ studentId: 'student-1' }) as object,
+        }),
+      );
+    });
+
+    it('refuses the certificate of another student', async () => {
+      await expect(
+        service.attendanceCertificate(student, 'student-2', {}),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.student.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('refuses teachers', async () => {
+      await expect(
+        service.attendanceCertificate(teacher, 'student-1', {}),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.student.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('gives admins the certificate of any student', async () => {
+      const { stream } = await service.attendanceCertificate(
+        admin,
+        'student-2',
+        {},
+      );
+      await readAll(stream);
+
+      expect(prisma.student.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'student-2' } }),
+      );
+    });
+
+    it('throws NotFoundException for an unknown student', async () => {
+      prisma.student.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.attendanceCertificate(admin, 'student-2', {}),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
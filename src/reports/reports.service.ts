@@ -0,0 +1,358 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import PDFDocument from 'pdfkit';
+import { Readable } from 'stream';
+import { AttendanceStatus, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from '../sessions/sessions.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import { CertificateQueryDto } from './dto';
+import { drawTable } from './pdf-table';
+
+/**
+ * A generated PDF, streamed while it is being drawn
+ */
+export interface PdfReport {
+  stream: Readable;
+  fileName: string;
+}
+
+const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  [AttendanceStatus.PRESENT]: 'Present',
+  [AttendanceStatus.LATE]: 'Late',
+  [AttendanceStatus.ABSENT]: 'Absent',
+  [AttendanceStatus.EXCUSED]: 'Excused',
+};
+
+/**
+ * Reports Service
+ * Printable PDF documents built from attendance records: the attendance
+ * sheet of a session and the attendance certificate of a student
+ * Dates are printed in the timetable time zone
+ */
+@Injectable()
+export class ReportsService {
+  private readonly logger = new Logger(ReportsService.name);
+  private readonly DEFAULT_TIMEZONE = 'Africa/Tunis';
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+  ) {
+    this.timeZone =
+      this.configService.get<string>('TIMETABLE_TIMEZONE') ||
+      this.DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Attendance sheet of a session, with a signature column per student
+   */
+  async attendanceSheet(
+    user: AuthenticatedUser,
+    sessionId: string,
+  ): Promise<PdfReport> {
+    const session = await this.sessionsService.findOne(user, sessionId);
+    const assignment = session.teachingAssignment;
+    const roster = [...session.roster].sort((a, b) =>
+      a.student.fullName.localeCompare(b.student.fullName),
+    );
+
+    const doc = this.createDocument('Attendance sheet');
+
+    doc.font('Helvetica-Bold').fontSize(16).text('Attendance sheet');
+    doc.moveDown(0.5).font('Helvetica').fontSize(10);
+    this.writeField(
+      doc,
+      'Subject',
+      assignment
+        ? `${assignment.subject.name} (${assignment.subject.code})`
+        : '-',
+    );
+    this.writeField(doc, 'Classroom', assignment?.classroom.name ?? '-');
+    this.writeField(doc, 'Teacher', assignment?.teacher.fullName ?? '-');
+    this.writeField(
+      doc,
+      'Session',
+      session.endedAt
+        ? `${this.formatDateTime(session.startedAt)} - ${this.formatTime(session.endedAt)}`
+        : `${this.formatDateTime(session.startedAt)} (open)`,
+    );
+    this.writeField(
+      doc,
+      'Attendance',
+      `${session.summary.present} present, ${session.summary.late} late, ${session.summary.absent} absent, ${session.summary.excused} excused, ${session.summary.unrecorded} unrecorded`,
+    );
+    doc.moveDown();
+
+    drawTable(
+      doc,
+      [
+        { header: '#', width: 25, align: 'right' },
+        { header: 'Student code', width: 80 },
+        { header: 'Full name', width: 150 },
+        { header: 'Status', width: 60 },
+        { header: 'Scanned at', width: 55, align: 'center' },
+        { header: 'Signature', width: 145 },
+      ],
+      roster.map((entry, index) => [
+        String(index + 1),
+        entry.student.studentCode,
+        entry.student.fullName,
+        entry.status ? STATUS_LABELS[entry.status] : '',
+        entry.scannedAt ? this.formatTime(entry.scannedAt) : '',
+        '',
+      ]),
+      24,
+    );
+
+    this.ensureSpace(doc, 60);
+    doc.moveDown().font('Helvetica').fontSize(10);
+    doc.text('Teacher signature:');
+    doc.moveDown(3);
+    this.writeFooter(doc);
+
+    this.logger.log(`Attendance sheet generated for session ${sessionId}`);
+    return {
+      stream: this.finish(doc),
+      fileName: this.fileName([
+        'attendance-sheet',
+        assignment?.classroom.name,
+        assignment?.subject.code,
+        this.formatDate(session.startedAt),
+      ]),
+    };
+  }
+
+  /**
+   * Attendance certificate of a student summarizing presence by subject
+   * Only admins and the student themself can get a certificate
+   */
+  async attendanceCertificate(
+    user: AuthenticatedUser,
+    studentId: string,
+    query: CertificateQueryDto,
+  ): Promise<PdfReport> {
+    if (user.role !== UserRole.ADMIN && user.student?.id !== studentId) {
+      throw new ForbiddenException('You can only access your own certificate');
+    }
+
+    const student = await this.prisma.student.findUnique({
+      where: { id: studentId },
+      select: {
+        studentCode: true,
+        fullName: true,
+        classroom: { select: { name: true } },
+      },
+    });
+
+    if (!student) {
+      throw new NotFoundException(`Student with ID ${studentId} not found`);
+    }
+
+    const records = await this.prisma.attendanceRecord.findMany({
+      where: {
+        studentId,
+        session: {
+          startedAt: {
+            ...(query.from && { gte: new Date(query.from) }),
+            ...(query.to && { lte: new Date(query.to) }),
+          },
+        },
+      },
+      select: {
+        status: true,
+        session: {
+          select: {
+            teachingAssignment: {
+              select: {
+                subject: { select: { id: true, name: true, code: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const bySubject = new Map<
+      string,
+      { name: string; code: string; counts: Record<AttendanceStatus, number> }
+    >();
+
+    for (const record of records) {
+      const { subject } = record.session.teachingAssignment;
+      let group = bySubject.get(subject.id);
+
+      if (!group) {
+        group = {
+          name: subject.name,
+          code: subject.code,
+          counts: { PRESENT: 0, LATE: 0, ABSENT: 0, EXCUSED: 0 },
+        };
+        bySubject.set(subject.id, group);
+      }
+      group.counts[record.status]++;
+    }
+
+    const groups = [...bySubject.values()].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+    const totals = { PRESENT: 0, LATE: 0, ABSENT: 0, EXCUSED: 0 };
+    for (const group of groups) {
+      for (const status of Object.values(AttendanceStatus)) {
+        totals[status] += group.counts[status];
+      }
+    }
+
+    const doc = this.createDocument('Attendance certificate');
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(16)
+      .text('Attendance certificate', { align: 'center' });
+    doc.moveDown().font('Helvetica').fontSize(10);
+    this.writeField(doc, 'Student', student.fullName);
+    this.writeField(doc, 'Student code', student.studentCode);
+    this.writeField(doc, 'Classroom', student.classroom.name);
+    this.writeField(
+      doc,
+      'Period',
+      query.from || query.to
+        ? `${query.from ? this.formatDate(new Date(query.from)) : 'start'} to ${query.to ? this.formatDate(new Date(query.to)) : 'today'}`
+        : 'All recorded sessions',
+    );
+    doc.moveDown();
+
+    const row = (
+      label: string,
+      counts: Record<AttendanceStatus, number>,
+    ): string[] => {
+      const sessions = Object.values(counts).reduce((a, b) => a + b, 0);
+      const attended = counts.PRESENT + counts.LATE;
+
+      return [
+        label,
+        String(sessions),
+        String(counts.PRESENT),
+        String(counts.LATE),
+        String(counts.ABSENT),
+        String(counts.EXCUSED),
+        sessions > 0
+          ? `${Math.round((attended / sessions) * 1000) / 10}%`
+          : '-',
+      ];
+    };
+
+    drawTable(
+      doc,
+      [
+        { header: 'Subject', width: 175 },
+        { header: 'Sessions', width: 55, align: 'right' },
+        { header: 'Present', width: 55, align: 'right' },
+        { header: 'Late', width: 50, align: 'right' },
+        { header: 'Absent', width: 55, align: 'right' },
+        { header: 'Excused', width: 55, align: 'right' },
+        { header: 'Attendance', width: 70, align: 'right' },
+      ],
+      [
+        ...groups.map((group) =>
+          row(`${group.name} (${group.code})`, group.counts),
+        ),
+        row('Total', totals),
+      ],
+    );
+
+    doc
+      .moveDown()
+      .font('Helvetica')
+      .fontSize(9)
+      .text(
+        'Attendance counts late arrivals as attended. Excused absences are covered by an approved justification.',
+      );
+    this.writeFooter(doc);
+
+    this.logger.log(
+      `Attendance certificate generated for student ${studentId}`,
+    );
+    return {
+      stream: this.finish(doc),
+      fileName: this.fileName([
+        'attendance-certificate',
+        student.studentCode,
+        query.from && this.formatDate(new Date(query.from)),
+        query.to && this.formatDate(new Date(query.to)),
+      ]),
+    };
+  }
+
+  private createDocument(title: string): PDFKit.PDFDocument {
+    return new PDFDocument({
+      size: 'A4',
+      margin: 40,
+      info: { Title: title, Author: 'ESPRIT Attendance System' },
+    });
+  }
+
+  /**
+   * End the document; pdfkit emits pages as they are completed
+   */
+  private finish(doc: PDFKit.PDFDocument): Readable {
+    doc.end();
+    return doc as unknown as Readable;
+  }
+
+  private writeField(doc: PDFKit.PDFDocument, label: string, value: string) {
+    doc.font('Helvetica-Bold').text(`${label}: `, { continued: true });
+    doc.font('Helvetica').text(value);
+  }
+
+  private writeFooter(doc: PDFKit.PDFDocument) {
+    doc
+      .moveDown()
+      .font('Helvetica-Oblique')
+      .fontSize(8)
+      .fillColor('gray')
+      .text(`Generated on ${this.formatDateTime(new Date())}`)
+      .fillColor('black');
+  }
+
+  /**
+   * Start a new page when less than the given height is left
+   */
+  private ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+  }
+
+  private fileName(parts: (string | undefined)[]): string {
+    return `${parts
+      .filter(Boolean)
+      .join('-')
+      .replace(/[^A-Za-z0-9_-]+/g, '-')}.pdf`;
+  }
+
+  private formatDate(date: Date): string {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: this.timeZone,
+      dateStyle: 'short',
+    }).format(date);
+  }
+
+  private formatTime(date: Date): string {
+    return new Intl.DateTimeFormat('en-GB', {
+      timeZone: this.timeZone,
+      timeStyle: 'short',
+    }).format(date);
+  }
+
+  private formatDateTime(date: Date): string {
+    return `${this.formatDate(date)} ${this.formatTime(date)}`;
+  }
+}
@@ -0,0 +1,41 @@
+import { IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { SessionStatus } from '@prisma/client';
+
+/**
+ * Query filters for listing sessions
+ */
+export class FindSessionsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only sessions started at or after this date',
+    example: '2026-10-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'From must be a valid ISO 8601 date' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only sessions started at or before this date',
+    example: '2026-10-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'To must be a valid ISO 8601 date' })
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by teaching assignment UUID',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Teaching assignment ID must be a valid UUID' })
+  teachingAssignmentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by session status',
+    enum: SessionStatus,
+    example: SessionStatus.OPEN,
+  })
+  @IsOptional()
+  @IsEnum(SessionStatus, { message: 'Status must be either OPEN or CLOSED' })
+  status?: SessionStatus;
+}
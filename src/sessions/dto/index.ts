@@ -0,0 +1,5 @@
+export * from './open-session.dto';
+export * from './find-sessions-query.dto';
+export * from './session-response.dto';
+export * from './recompute-lateness-result.dto';
+export * from './session-live-event.dto';
@@ -0,0 +1,33 @@
+import { IsDateString, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for opening a class session
+ */
+export class OpenSessionDto {
+  @ApiProperty({
+    description: 'Teaching assignment the session is held for',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID('4', { message: 'Teaching assignment ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Teaching assignment ID is required' })
+  teachingAssignmentId: string;
+
+  @ApiProperty({
+    description:
+      "Device collecting scans, installed in the assignment's classroom",
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID('4', { message: 'Device ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Device ID is required' })
+  deviceId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Planned end of the session. Sessions still open past this time are closed automatically.',
+    example: '2026-10-19T10:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Scheduled end must be a valid ISO 8601 date' })
+  scheduledEndAt?: string;
+}
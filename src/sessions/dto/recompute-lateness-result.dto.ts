@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { EffectiveLatenessPolicyDto } from '../../lateness-policies/dto';
+
+/**
+ * Result of re-applying the lateness policy to a session
+ */
+export class RecomputeLatenessResultDto {
+  @ApiProperty({
+    description: 'Session ID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  sessionId: string;
+
+  @ApiProperty({
+    description: 'Policy applied to the session scans',
+    type: EffectiveLatenessPolicyDto,
+  })
+  policy: EffectiveLatenessPolicyDto;
+
+  @ApiProperty({
+    description:
+      'Number of scanned records re-evaluated (manually corrected records are skipped)',
+    example: 26,
+  })
+  evaluatedCount: number;
+
+  @ApiProperty({
+    description: 'Number of records whose status changed',
+    example: 4,
+  })
+  updatedCount: number;
+}
@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SessionStatus } from '@prisma/client';
+import {
+  SessionRosterEntryDto,
+  SessionSummaryDto,
+} from './session-response.dto';
+
+/**
+ * Data of an `attendance` live event: roster lines that changed and the
+ * counts after the change
+ */
+export class SessionAttendanceEventDto {
+  @ApiProperty({ example: 'aa0e8400-e29b-41d4-a716-446655440000' })
+  sessionId: string;
+
+  @ApiProperty({
+    description: 'Roster entries created or changed',
+    type: [SessionRosterEntryDto],
+  })
+  entries: SessionRosterEntryDto[];
+
+  @ApiProperty({
+    description: 'Attendance counts after the change',
+    type: SessionSummaryDto,
+  })
+  summary: SessionSummaryDto;
+}
+
+/**
+ * Data of a `session` live event, sent when the session is opened or closed
+ */
+export class SessionStatusEventDto {
+  @ApiProperty({ example: 'aa0e8400-e29b-41d4-a716-446655440000' })
+  sessionId: string;
+
+  @ApiProperty({
+    enum: SessionStatus,
+    example: SessionStatus.CLOSED,
+  })
+  status: SessionStatus;
+
+  @ApiProperty({
+    example: '2026-10-19T10:00:00.000Z',
+    nullable: true,
+  })
+  endedAt: Date | null;
+
+  @ApiProperty({
+    description: 'Attendance counts, final once the session is closed',
+    type: SessionSummaryDto,
+  })
+  summary: SessionSummaryDto;
+}
@@ -0,0 +1,232 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AttendanceStatus, SessionStatus } from '@prisma/client';
+
+/**
+ * Teaching assignment information in session response
+ */
+export class SessionAssignmentDto {
+  @ApiProperty({ example: '880e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({
+    example: {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      fullName: 'Dr. Mohamed Salah',
+    },
+  })
+  teacher: {
+    id: string;
+    fullName: string;
+  };
+
+  @ApiProperty({
+    example: {
+      id: '660e8400-e29b-41d4-a716-446655440000',
+      name: 'Flutter Development',
+      code: 'FLUT301',
+    },
+  })
+  subject: {
+    id: string;
+    name: string;
+    code: string;
+  };
+
+  @ApiProperty({
+    example: { id: '770e8400-e29b-41d4-a716-446655440000', name: 'GL2-A' },
+  })
+  classroom: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Device information in session response
+ */
+export class SessionDeviceDto {
+  @ApiProperty({ example: '990e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'ESP32-A1B2C3D4' })
+  deviceUid: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Classroom the device was installed in when the session started (included in session reports)',
+    example: { id: '770e8400-e29b-41d4-a716-446655440000', name: 'GL2-A' },
+    nullable: true,
+  })
+  classroom?: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+/**
+ * Session response DTO
+ */
+export class SessionResponseDto {
+  @ApiProperty({
+    description: 'Session unique identifier',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Teaching assignment ID',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  teachingAssignmentId: string;
+
+  @ApiProperty({
+    description: 'Device ID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Session start timestamp',
+    example: '2026-10-19T08:30:00.000Z',
+  })
+  startedAt: Date;
+
+  @ApiProperty({
+    description: 'Session end timestamp, null while the session is open',
+    example: '2026-10-19T10:00:00.000Z',
+    nullable: true,
+  })
+  endedAt: Date | null;
+
+  @ApiProperty({
+    description: 'Planned end of the session',
+    example: '2026-10-19T10:00:00.000Z',
+    nullable: true,
+  })
+  scheduledEndAt: Date | null;
+
+  @ApiProperty({
+    description: 'Session status',
+    enum: SessionStatus,
+    example: SessionStatus.OPEN,
+  })
+  status: SessionStatus;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2026-10-19T08:30:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2026-10-19T08:30:00.000Z',
+  })
+  updatedAt: Date;
+
+  @ApiPropertyOptional({
+    description: 'Teaching assignment details',
+    type: SessionAssignmentDto,
+  })
+  teachingAssignment?: SessionAssignmentDto;
+
+  @ApiPropertyOptional({
+    description: 'Device details',
+    type: SessionDeviceDto,
+  })
+  device?: SessionDeviceDto;
+
+  @ApiPropertyOptional({
+    description: 'Number of attendance records in the session',
+    example: { attendanceRecords: 24 },
+  })
+  _count?: {
+    attendanceRecords: number;
+  };
+}
+
+/**
+ * One student line of a session roster
+ */
+export class SessionRosterEntryDto {
+  @ApiProperty({
+    example: {
+      id: '770e8400-e29b-41d4-a716-446655440000',
+      studentCode: 'ESP202401',
+      fullName: 'Ahmed Ben Ali',
+    },
+  })
+  student: {
+    id: string;
+    studentCode: string;
+    fullName: string;
+  };
+
+  @ApiProperty({
+    description: 'Attendance record ID, null if the student has no record yet',
+    example: 'bb0e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+  })
+  recordId: string | null;
+
+  @ApiProperty({
+    description: 'Attendance status, null if the student has not scanned yet',
+    enum: AttendanceStatus,
+    example: AttendanceStatus.PRESENT,
+    nullable: true,
+  })
+  status: AttendanceStatus | null;
+
+  @ApiProperty({
+    description: 'Scan timestamp',
+    example: '2026-10-19T08:32:10.000Z',
+    nullable: true,
+  })
+  scannedAt: Date | null;
+}
+
+/**
+ * Attendance counts of a session
+ */
+export class SessionSummaryDto {
+  @ApiProperty({ example: 28 })
+  total: number;
+
+  @ApiProperty({ example: 22 })
+  present: number;
+
+  @ApiProperty({ example: 3 })
+  late: number;
+
+  @ApiProperty({ example: 1 })
+  absent: number;
+
+  @ApiProperty({
+    description: 'Absences covered by an approved justification',
+    example: 0,
+  })
+  excused: number;
+
+  @ApiProperty({
+    description: 'Students without an attendance record',
+    example: 2,
+  })
+  unrecorded: number;
+}
+
+/**
+ * Session response with roster and attendance records
+ */
+export class SessionDetailResponseDto extends SessionResponseDto {
+  @ApiProperty({
+    description: "Students of the assignment's classroom with their attendance",
+    type: [SessionRosterEntryDto],
+  })
+  roster: SessionRosterEntryDto[];
+
+  @ApiProperty({
+    description: 'Attendance counts',
+    type: SessionSummaryDto,
+  })
+  summary: SessionSummaryDto;
+}
@@ -0,0 +1,47 @@
+import { AttendanceStatus } from '@prisma/client';
+
+/**
+ * Emitted after a session was opened, manually or from the timetable
+ */
+export const SESSION_OPENED_EVENT = 'session.opened';
+
+/**
+ * Payload of the session opened event
+ */
+export interface SessionOpenedEvent {
+  sessionId: string;
+}
+
+/**
+ * Emitted after attendance records of a session were created or changed
+ */
+export const ATTENDANCE_CHANGED_EVENT = 'attendance.changed';
+
+/**
+ * Status change of one student's record
+ */
+export interface AttendanceChange {
+  studentId: string;
+  previousStatus: AttendanceStatus | null;
+  status: AttendanceStatus;
+}
+
+/**
+ * Payload of the attendance changed event
+ */
+export interface AttendanceChangedEvent {
+  sessionId: string;
+  changes: AttendanceChange[];
+}
+
+/**
+ * Emitted after a session was closed and its roster completed
+ */
+export const SESSION_CLOSED_EVENT = 'session.closed';
+
+/**
+ * Payload of the session closed event
+ */
+export interface SessionClosedEvent {
+  sessionId: string;
+}
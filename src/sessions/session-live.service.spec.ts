@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MessageEvent } from '@nestjs/common';
+import { Request } from 'express';
+import { SessionStatus, UserRole } from '@prisma/client';
+import { SessionLiveService } from './session-live.service';
+import { SessionsService } from './sessions.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { fromEventStreamQuery } from '../auth/strategies';
+import type { AuthenticatedUser } from '../auth/strategies';
+
+describe('SessionLiveService', () => {
+  let service: SessionLiveService;
+
+  const prisma = {
+    session: { findUniqueOrThrow: jest.fn() },
+  };
+  const sessionsService = {
+    findOne: jest.fn(),
+    findRoster: jest.fn(),
+  };
+
+  const user: AuthenticatedUser = {
+    id: 'user-1',
+    email: 'admin@example.com',
+    role: UserRole.ADMIN,
+    createdAt: new Date(),
+    student: null,
+    teacher: null,
+  };
+
+  const snapshot = { id: 'session-1', status: SessionStatus.OPEN };
+  const summary = { total: 1, present: 1, late: 0, absent: 0, excused: 0 };
+  const entry = { student: { id: 'student-1' }, status: 'PRESENT' };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    sessionsService.findOne.mockResolvedValue(snapshot);
+    sessionsService.findRoster.mockResolvedValue({ roster: [entry], summary });
+    prisma.session.findUniqueOrThrow.mockResolvedValue({
+      status: SessionStatus.CLOSED,
+      endedAt: new Date('2026-10-19T09:30:00Z'),
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionLiveService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SessionsService, useValue: sessionsService },
+      ],
+    }).compile();
+
+    service = module.get<SessionLiveService>(SessionLiveService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('stream', () => {
+    it('checks access before the stream starts', async () => {
+      sessionsService.findOne.mockRejectedValue(new Error('Forbidden'));
+
+      await expect(service.stream(user, 'session-1')).rejects.toThrow(
+        'Forbidden',
+      );
+    });
+
+    it('starts with a snapshot, then sends live events', async () => {
+      const events: MessageEvent[] = [];
+      const subscription = (await service.stream(user, 'session-1')).subscribe(
+        (event) => events.push(event),
+      );
+      await flush();
+
+      service.handleAttendanceChanged({
+        sessionId: 'session-1',
+        changes: [
+          { studentId: 'student-1', previousStatus: null, status: 'PRESENT' },
+        ],
+      });
+      service.handleSessionClosed({ sessionId: 'session-1' });
+      await flush();
+      subscription.unsubscribe();
+
+      expect(events.map((event) => event.type)).toEqual([
+        'snapshot',
+        'attendance',
+        'session',
+      ]);
+      expect(events[1].data).toEqual({
+        sessionId: 'session-1',
+        entries: [entry],
+        summary,
+      });
+      expect(events[2].data).toEqual(
+        expect.objectContaining({ status: SessionStatus.CLOSED }),
+      );
+    });
+
+    it('joins the channel before reading the snapshot', async () => {
+      let sendSnapshot: (value: unknown) => void = () => undefined;
+      sessionsService.findOne
+        .mockResolvedValueOnce(snapshot)
+        .mockReturnValueOnce(
+          new Promise((resolve) => (sendSnapshot = resolve)),
+        );
+
+      const events: MessageEvent[] = [];
+      const subscription = (await service.stream(user, 'session-1')).subscribe(
+        (event) => events.push(event),
+      );
+
+      // A scan lands while the snapshot is being read
+      service.handleAttendanceChanged({
+        sessionId: 'session-1',
+        changes: [
+          { studentId: 'student-1', previousStatus: null, status: 'PRESENT' },
+        ],
+      });
+      await flush();
+
+      expect(sessionsService.findRoster).toHaveBeenCalled();
+      expect(events).toEqual([]);
+
+      sendSnapshot(snapshot);
+      await flush();
+      subscription.unsubscribe();
+
+      expect(events.map((event) => event.type)).toEqual([
+        'snapshot',
+        'attendance',
+      ]);
+    });
+
+    it('stops building events once the last stream is closed', async () => {
+      const subscription = (
+        await service.stream(user, 'session-1')
+      ).subscribe();
+      await flush();
+      subscription.unsubscribe();
+
+      service.handleSessionClosed({ sessionId: 'session-1' });
+      await flush();
+
+      expect(prisma.session.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('event stream query token', () => {
+    const request = (overrides: Partial<Request> = {}): Request =>
+      ({
+        method: 'GET',
+        path: '/api/sessions/session-1/live',
+        url: '/api/sessions/session-1/live?access_token=token',
+        headers: { accept: 'text/event-stream' },
+        ...overrides,
+      }) as Request;
+
+    it('reads the token of event stream requests', () => {
+      expect(fromEventStreamQuery(request())).toBe('token');
+    });
+
+    it('ignores the token on other routes', () => {
+      expect(
+        fromEventStreamQuery(
+          request({
+            path: '/api/sessions/session-1',
+            url: '/api/sessions/session-1?access_token=token',
+          }),
+        ),
+      ).toBeNull();
+    });
+
+    it('ignores the token on requests that are not event streams', () => {
+      expect(
+        fromEventStreamQuery(
+          request({ headers: { accept: 'application/json' } }),
+        ),
+      ).toBeNull();
+      expect(fromEventStreamQuery(request({ method: 'POST' }))).toBeNull();
+    });
+  });
+});
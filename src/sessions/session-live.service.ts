@@ -0,0 +1,202 @@
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Observable, Subject, interval, map, merge } from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import { SessionsService } from './sessions.service';
+import { SessionAttendanceEventDto, SessionStatusEventDto } from './dto';
+import {
+  ATTENDANCE_CHANGED_EVENT,
+  SESSION_CLOSED_EVENT,
+  SESSION_OPENED_EVENT,
+} from './session-events';
+import type {
+  AttendanceChangedEvent,
+  SessionClosedEvent,
+  SessionOpenedEvent,
+} from './session-events';
+
+/**
+ * Live feed of one session shared by all its open streams
+ */
+interface SessionChannel {
+  events: Subject<MessageEvent>;
+  subscribers: number;
+  // Events are built in order, one at a time
+  queue: Promise<void>;
+}
+
+/**
+ * Session Live Service
+ * Pushes attendance changes of a session to the dashboards watching it
+ * Each stream starts with a snapshot of the session, then receives the roster
+ * entries that change along with updated counts, and the session status when
+ * it is opened or closed
+ */
+@Injectable()
+export class SessionLiveService {
+  private readonly logger = new Logger(SessionLiveService.name);
+  private readonly HEARTBEAT_INTERVAL_MS = 25_000;
+  private readonly channels = new Map<string, SessionChannel>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /**
+   * Open a live stream of a session
+   * Access is checked before the stream starts so errors are plain HTTP errors
+   */
+  async stream(
+    user: AuthenticatedUser,
+    sessionId: string,
+  ): Promise<Observable<MessageEvent>> {
+    await this.sessionsService.findOne(user, sessionId);
+
+    return merge(
+      this.follow(user, sessionId),
+      // Keeps proxies from closing an idle connection
+      interval(this.HEARTBEAT_INTERVAL_MS).pipe(
+        map((): MessageEvent => ({ type: 'ping', data: '' })),
+      ),
+    );
+  }
+
+  /**
+   * Push the changed roster entries and the new counts
+   */
+  @OnEvent(ATTENDANCE_CHANGED_EVENT)
+  handleAttendanceChanged(event: AttendanceChangedEvent): void {
+    this.publish(event.sessionId, async () => {
+      const { roster, summary } = await this.sessionsService.findRoster(
+        event.sessionId,
+      );
+      const studentIds = new Set(
+        event.changes.map((change) => change.studentId),
+      );
+
+      return {
+        type: 'attendance',
+        data: {
+          sessionId: event.sessionId,
+          entries: roster.filter((entry) => studentIds.has(entry.student.id)),
+          summary,
+        } satisfies SessionAttendanceEventDto,
+      };
+    });
+  }
+
+  /**
+   * Push the status of an opened session
+   */
+  @OnEvent(SESSION_OPENED_EVENT)
+  handleSessionOpened(event: SessionOpenedEvent): void {
+    this.publish(event.sessionId, () => this.buildStatusEvent(event.sessionId));
+  }
+
+  /**
+   * Push the new status of a closed session with its final counts
+   */
+  @OnEvent(SESSION_CLOSED_EVENT)
+  handleSessionClosed(event: SessionClosedEvent): void {
+    this.publish(event.sessionId, () => this.buildStatusEvent(event.sessionId));
+  }
+
+  /**
+   * Snapshot of a session followed by its live events
+   * The channel is joined before the snapshot is read so no change is missed
+   * in between; events published meanwhile are held until the snapshot is sent
+   */
+  private follow(
+    user: AuthenticatedUser,
+    sessionId: string,
+  ): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      const channel = this.join(sessionId);
+      let held: MessageEvent[] | null = [];
+
+      const events = channel.events.subscribe((event) =>
+        held ? held.push(event) : subscriber.next(event),
+      );
+
+      void this.sessionsService.findOne(user, sessionId).then(
+        (snapshot) => {
+          subscriber.next({ type: 'snapshot', data: snapshot });
+          held?.forEach((event) => subscriber.next(event));
+          held = null;
+        },
+        (error: Error) => subscriber.error(error),
+      );
+
+      return () => {
+        events.unsubscribe();
+        this.leave(sessionId, channel);
+      };
+    });
+  }
+
+  private async buildStatusEvent(sessionId: string): Promise<MessageEvent> {
+    const [session, { summary }] = await Promise.all([
+      this.prisma.session.findUniqueOrThrow({
+        where: { id: sessionId },
+        select: { status: true, endedAt: true },
+      }),
+      this.sessionsService.findRoster(sessionId),
+    ]);
+
+    return {
+      type: 'session',
+      data: {
+        sessionId,
+        status: session.status,
+        endedAt: session.endedAt,
+        summary,
+      } satisfies SessionStatusEventDto,
+    };
+  }
+
+  /**
+   * Build and send an event, only when someone is watching the session
+   */
+  private publish(sessionId: string, build: () => Promise<MessageEvent>): void {
+    const channel = this.channels.get(sessionId);
+
+    if (!channel) {
+      return;
+    }
+
+    channel.queue = channel.queue
+      .then(async () => channel.events.next(await build()))
+      .catch((error: Error) => {
+        this.logger.error(
+          `Failed to publish live event for session ${sessionId}: ${error.message}`,
+        );
+      });
+  }
+
+  private join(sessionId: string): SessionChannel {
+    let channel = this.channels.get(sessionId);
+
+    if (!channel) {
+      channel = {
+        events: new Subject<MessageEvent>(),
+        subscribers: 0,
+        queue: Promise.resolve(),
+      };
+      this.channels.set(sessionId, channel);
+    }
+
+    channel.subscribers++;
+    return channel;
+  }
+
+  private leave(sessionId: string, channel: SessionChannel): void {
+    channel.subscribers--;
+
+    if (channel.subscribers === 0) {
+      this.channels.delete(sessionId);
+      channel.events.complete();
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { SessionStatus } from '@prisma/client';
+import { SessionSweeperService } from './session-sweeper.service';
+import { SessionsService } from './sessions.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SessionSweeperService', () => {
+  let service: SessionSweeperService;
+  let config: Record<string, string>;
+
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  const minutesBeforeNow = (minutes: number) =>
+    new Date(now.getTime() - minutes * 60_000);
+
+  const prisma = {
+    session: { findMany: jest.fn() },
+  };
+
+  const sessionsService = {
+    closeSession: jest.fn(),
+  };
+
+  /**
+   * Thresholds of the stale-session query: started before, scheduled end before
+   */
+  const queriedThresholds = () => {
+    const [[{ where }]] = prisma.session.findMany.mock.calls as [
+      [
+        {
+          where: {
+            status: SessionStatus;
+            OR: [
+              { startedAt: { lte: Date } },
+              { scheduledEndAt: { lte: Date } },
+            ];
+          };
+        },
+      ],
+    ];
+    return {
+      status: where.status,
+      startedBefore: where.OR[0].startedAt.lte,
+      scheduledEndBefore: where.OR[1].scheduledEndAt.lte,
+    };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+    config = {};
+    prisma.session.findMany.mockResolvedValue([]);
+    sessionsService.closeSession.mockResolvedValue({});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionSweeperService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        { provide: SessionsService, useValue: sessionsService },
+      ],
+    }).compile();
+
+    service = module.get<SessionSweeperService>(SessionSweeperService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('sweep', () => {
+    it('looks for OPEN sessions past 240 minutes or 15 minutes after their scheduled end by default', async () => {
+      await service.handleCron();
+
+      expect(queriedThresholds()).toEqual({
+        status: SessionStatus.OPEN,
+        startedBefore: minutesBeforeNow(240),
+        scheduledEndBefore: minutesBeforeNow(15),
+      });
+    });
+
+    it('reads the thresholds from the configuration', async () => {
+      config = {
+        SESSION_MAX_DURATION_MINUTES: '90',
+        SESSION_SCHEDULED_END_GRACE_MINUTES: '5',
+      };
+
+      await service.handleCron();
+
+      expect(queriedThresholds()).toEqual(
+        expect.objectContaining({
+          startedBefore: minutesBeforeNow(90),
+          scheduledEndBefore: minutesBeforeNow(5),
+        }),
+      );
+    });
+
+    it.each(['', 'abc', '0', '-10'])(
+      'falls back to the defaults for "%s"',
+      async (value) => {
+        config = {
+          SESSION_MAX_DURATION_MINUTES: value,
+          SESSION_SCHEDULED_END_GRACE_MINUTES: value,
+        };
+
+        await service.handleCron();
+
+        expect(queriedThresholds()).toEqual(
+          expect.objectContaining({
+            startedBefore: minutesBeforeNow(240),
+            scheduledEndBefore: minutesBeforeNow(15),
+          }),
+        );
+      },
+    );
+
+    it('ends sessions past the maximum duration when it was reached', async () => {
+      const startedAt = minutesBeforeNow(300);
+      prisma.session.findMany.mockResolvedValue([
+        { id: 'session-1', startedAt, scheduledEndAt: null },
+      ]);
+
+      await expect(service.sweep(now)).resolves.toBe(1);
+
+      expect(sessionsService.closeSession).toHaveBeenCalledWith(
+        'session-1',
+        new Date(startedAt.getTime() + 240 * 60_000),
+      );
+    });
+
+    it('ends sessions past their scheduled end at that end', async () => {
+      const scheduledEndAt = minutesBeforeNow(20);
+      prisma.session.findMany.mockResolvedValue([
+        {
+          id: 'session-1',
+          startedAt: minutesBeforeNow(110),
+          scheduledEndAt,
+        },
+      ]);
+
+      await service.sweep(now);
+
+      expect(sessionsService.closeSession).toHaveBeenCalledWith(
+        'session-1',
+        scheduledEndAt,
+      );
+    });
+
+    it('never ends a session after the sweep time', async () => {
+      config = { SESSION_SCHEDULED_END_GRACE_MINUTES: '1' };
+      prisma.session.findMany.mockResolvedValue([
+        {
+          id: 'session-1',
+          startedAt: minutesBeforeNow(60),
+          scheduledEndAt: new Date(now.getTime() + 60_000),
+        },
+      ]);
+
+      await service.sweep(now);
+
+      expect(sessionsService.closeSession).toHaveBeenCalledWith(
+        'session-1',
+        now,
+      );
+    });
+
+    it('keeps sweeping when a session cannot be closed', async () => {
+      prisma.session.findMany.mockResolvedValue(
+        ['closed-meanwhile', 'failing', 'stale'].map((id) => ({
+          id,
+          startedAt: minutesBeforeNow(300),
+          scheduledEndAt: null,
+        })),
+      );
+      sessionsService.closeSession
+        .mockRejectedValueOnce(new ConflictException('Session is not open'))
+        .mockRejectedValueOnce(new Error('Connection lost'))
+        .mockResolvedValueOnce({});
+
+      await expect(service.sweep(now)).resolves.toBe(1);
+      expect(sessionsService.closeSession).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('handleCron', () => {
+    it('does nothing when the sweeper is disabled', async () => {
+      config = { SESSION_SWEEPER_ENABLED: 'false' };
+
+      await service.handleCron();
+
+      expect(prisma.session.findMany).not.toHaveBeenCalled();
+    });
+
+    it('skips ticks while the previous sweep is still running', async () => {
+      let finishSweep!: (sessions: []) => void;
+      prisma.session.findMany.mockReturnValueOnce(
+        new Promise((resolve) => {
+          finishSweep = resolve;
+        }),
+      );
+
+      const firstTick = service.handleCron();
+      await service.handleCron();
+
+      expect(prisma.session.findMany).toHaveBeenCalledTimes(1);
+
+      finishSweep([]);
+      await firstTick;
+      await service.handleCron();
+
+      expect(prisma.session.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('runs again after a failed sweep', async () => {
+      prisma.session.findMany.mockRejectedValueOnce(new Error('Timeout'));
+
+      await expect(service.handleCron()).rejects.toThrow('Timeout');
+      await service.handleCron();
+
+      expect(prisma.session.findMany).toHaveBeenCalledTimes(2);
+    });
+  });
+});
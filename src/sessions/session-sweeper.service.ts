@@ -0,0 +1,123 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SessionStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from './sessions.service';
+
+/**
+ * Session Sweeper Service
+ * Closes sessions a teacher forgot to close so devices are freed for the
+ * next class. A session is stale once it exceeds the maximum duration or
+ * its scheduled end plus a grace period.
+ */
+@Injectable()
+export class SessionSweeperService {
+  private readonly logger = new Logger(SessionSweeperService.name);
+  private readonly DEFAULT_MAX_DURATION_MINUTES = 240;
+  private readonly DEFAULT_SCHEDULED_END_GRACE_MINUTES = 15;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /**
+   * Scheduled entry point, runs every minute
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'session-sweeper' })
+  async handleCron(): Promise<void> {
+    if (this.configService.get<string>('SESSION_SWEEPER_ENABLED') === 'false') {
+      return;
+    }
+
+    // Skip this tick if the previous sweep is still closing sessions
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.sweep();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Close every stale OPEN session
+   * Returns the number of sessions closed
+   */
+  async sweep(now: Date = new Date()): Promise<number> {
+    const maxDurationMs = this.getMinutes(
+      'SESSION_MAX_DURATION_MINUTES',
+      this.DEFAULT_MAX_DURATION_MINUTES,
+    );
+    const graceMs = this.getMinutes(
+      'SESSION_SCHEDULED_END_GRACE_MINUTES',
+      this.DEFAULT_SCHEDULED_END_GRACE_MINUTES,
+    );
+
+    const staleSessions = await this.prisma.session.findMany({
+      where: {
+        status: SessionStatus.OPEN,
+        OR: [
+          { startedAt: { lte: new Date(now.getTime() - maxDurationMs) } },
+          { scheduledEndAt: { lte: new Date(now.getTime() - graceMs) } },
+        ],
+      },
+      select: {
+        id: true,
+        startedAt: true,
+        scheduledEndAt: true,
+      },
+    });
+
+    let closedCount = 0;
+
+    for (const session of staleSessions) {
+      // End the session when it should have ended, not when it was swept
+      const maxEnd = new Date(session.startedAt.getTime() + maxDurationMs);
+      const endedAt =
+        session.scheduledEndAt && session.scheduledEndAt < maxEnd
+          ? session.scheduledEndAt
+          : maxEnd;
+
+      try {
+        await this.sessionsService.closeSession(
+          session.id,
+          endedAt < now ? endedAt : now,
+        );
+        closedCount++;
+        this.logger.log(
+          `Auto-closed session ${session.id} (started ${session.startedAt.toISOString()}, ended ${endedAt.toISOString()})`,
+        );
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          // Closed by its teacher in the meantime
+          continue;
+        }
+        this.logger.error(`Failed to auto-close session ${session.id}`, error);
+      }
+    }
+
+    if (closedCount > 0) {
+      this.logger.log(`Sweep complete: ${closedCount} stale session(s) closed`);
+    }
+
+    return closedCount;
+  }
+
+  /**
+   * Read a minutes setting and convert it to milliseconds
+   */
+  private getMinutes(key: string, defaultMinutes: number): number {
+    const minutes = Number(this.configService.get<string>(key));
+    return (
+      (Number.isFinite(minutes) && minutes > 0 ? minutes : defaultMinutes) *
+      60_000
+    );
+  }
+}
@@ -1,6 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { SessionsController } from './sessions.controller';
 import { SessionsService } from './sessions.service';
+import { SessionLiveService } from './session-live.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LatenessPoliciesService } from '../lateness-policies/lateness-policies.service';
+import { TimetableService } from '../timetable/timetable.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
 
 describe('SessionsController', () => {
   let controller: SessionsController;
@@ -8,7 +14,15 @@ describe('SessionsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [SessionsController],
-      providers: [SessionsService],
+      providers: [
+        SessionsService,
+        { provide: PrismaService, useValue: {} },
+        { provide: LatenessPoliciesService, useValue: {} },
+        { provide: TimetableService, useValue: {} },
+        { provide: AccessPolicyService, useValue: {} },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+        { provide: SessionLiveService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<SessionsController>(SessionsController);
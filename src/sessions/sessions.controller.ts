@@ -1,7 +1,260 @@
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Sse,
+  MessageEvent,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiNotFoundResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiProduces,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { UserRole } from '@prisma/client';
 import { SessionsService } from './sessions.service';
+import { SessionLiveService } from './session-live.service';
+import {
+  OpenSessionDto,
+  FindSessionsQueryDto,
+  SessionResponseDto,
+  SessionDetailResponseDto,
+  RecomputeLatenessResultDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser } from '../auth/decorators';
+import type { AuthenticatedUser } from '../auth/strategies';
 
+/**
+ * Sessions Controller
+ * Handles class session lifecycle HTTP requests
+ */
+@ApiTags('Sessions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('sessions')
 export class SessionsController {
-  constructor(private readonly sessionsService: SessionsService) {}
+  constructor(
+    private readonly sessionsService: SessionsService,
+    private readonly sessionLiveService: SessionLiveService,
+  ) {}
+
+  /**
+   * Open a new session
+   * Teachers (own assignments) and Admins
+   */
+  @ApiOperation({
+    summary: 'Open a session',
+    description:
+      "Open a class session for a teaching assignment on a device installed in the assignment's classroom. A device can only run one open session at a time.",
+  })
+  @ApiCreatedResponse({
+    description: 'Session opened successfully',
+    type: SessionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Invalid input, referenced entities not found, inactive device or device in another classroom',
+  })
+  @ApiForbiddenResponse({
+    description: 'Teaching assignment belongs to another teacher',
+  })
+  @ApiConflictResponse({
+    description: 'Device already has an open session',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  open(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() openSessionDto: OpenSessionDto,
+  ): Promise<SessionResponseDto> {
+    return this.sessionsService.open(user, openSessionDto);
+  }
+
+  /**
+   * Get all sessions
+   * Teachers only see their own sessions
+   */
+  @ApiOperation({
+    summary: 'Get all sessions',
+    description:
+      'Retrieve sessions with optional filtering by date range, teaching assignment and status. Teachers only see sessions of their own assignments.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of sessions',
+    type: [SessionResponseDto],
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid filters',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get()
+  findAll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: FindSessionsQueryDto,
+  ): Promise<SessionResponseDto[]> {
+    return this.sessionsService.findAll(user, query);
+  }
+
+  /**
+   * Get a single session with its roster
+   */
+  @ApiOperation({
+    summary: 'Get session by ID',
+    description:
+      "Retrieve a session with the roster of the assignment's classroom, each student's attendance record and attendance counts",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Session UUID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Session found',
+    type: SessionDetailResponseDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Session belongs to another teacher',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get(':id')
+  findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<SessionDetailResponseDto> {
+    return this.sessionsService.findOne(user, id);
+  }
+
+  /**
+   * Follow the attendance of a session live
+   * Teachers (own sessions) and Admins
+   */
+  @ApiOperation({
+    summary: 'Follow a session live',
+    description:
+      'Server-Sent Events stream. Starts with a `snapshot` event holding the session detail, then sends an `attendance` event (changed roster entries and updated counts) whenever a record is created or changed, a `session` event when the session is opened or closed, and a `ping` event every 25 seconds. EventSource clients, which cannot set headers, may pass the JWT in the access_token query parameter.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Session UUID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiQuery({
+    name: 'access_token',
+    required: false,
+    description: 'JWT, for clients that cannot send the Authorization header',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Event stream of the session',
+  })
+  @ApiForbiddenResponse({
+    description: 'Session belongs to another teacher',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Sse(':id/live')
+  live(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<Observable<MessageEvent>> {
+    return this.sessionLiveService.stream(user, id);
+  }
+
+  /**
+   * Close a session
+   * Teachers (own sessions) and Admins
+   */
+  @ApiOperation({
+    summary: 'Close a session',
+    description:
+      "Close an open session. Every student of the assignment's classroom without an attendance record is marked ABSENT. Scans are no longer accepted afterwards.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Session UUID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Session closed successfully',
+    type: SessionResponseDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Session belongs to another teacher',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session not found',
+  })
+  @ApiConflictResponse({
+    description: 'Session is already closed',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Patch(':id/close')
+  close(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<SessionResponseDto> {
+    return this.sessionsService.close(user, id);
+  }
+
+  /**
+   * Recompute lateness of a session
+   * Teachers (own sessions) and Admins
+   */
+  @ApiOperation({
+    summary: 'Recompute lateness',
+    description:
+      'Re-apply the lateness policy currently in effect to every scanned record of the session, e.g. after the policy was corrected. Scans past a REJECT cut-off become ABSENT.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Session UUID',
+    example: 'aa0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lateness recomputed',
+    type: RecomputeLatenessResultDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Session belongs to another teacher',
+  })
+  @ApiNotFoundResponse({
+    description: 'Session not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Post(':id/recompute-lateness')
+  @HttpCode(HttpStatus.OK)
+  recomputeLateness(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<RecomputeLatenessResultDto> {
+    return this.sessionsService.recomputeLateness(user, id);
+  }
 }
@@ -1,9 +1,22 @@
 import { Module } from '@nestjs/common';
 import { SessionsService } from './sessions.service';
 import { SessionsController } from './sessions.controller';
+import { SessionSweeperService } from './session-sweeper.service';
+import { SessionLiveService } from './session-live.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { LatenessPoliciesModule } from '../lateness-policies/lateness-policies.module';
+import { TimetableModule } from '../timetable/timetable.module';
+import { AuthModule } from '../auth/auth.module';
 
+/**
+ * Sessions Module
+ * Handles the lifecycle of class sessions, including automatic closing and
+ * live attendance streams
+ */
 @Module({
+  imports: [PrismaModule, AuthModule, LatenessPoliciesModule, TimetableModule],
   controllers: [SessionsController],
-  providers: [SessionsService],
+  providers: [SessionsService, SessionSweeperService, SessionLiveService],
+  exports: [SessionsService],
 })
 export class SessionsModule {}
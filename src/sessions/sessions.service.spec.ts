@@ -1,12 +1,81 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConflictException } from '@nestjs/common';
+import {
+  AttendanceStatus,
+  Prisma,
+  SessionStatus,
+  UserRole,
+} from '@prisma/client';
 import { SessionsService } from './sessions.service';
+import {
+  ATTENDANCE_CHANGED_EVENT,
+  SESSION_CLOSED_EVENT,
+  SESSION_OPENED_EVENT,
+} from './session-events';
+import { PrismaService } from '../prisma/prisma.service';
+import { LatenessPoliciesService } from '../lateness-policies/lateness-policies.service';
+import { TimetableService } from '../timetable/timetable.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
 
 describe('SessionsService', () => {
   let service: SessionsService;
 
+  const admin = { id: 'admin-1', role: UserRole.ADMIN } as AuthenticatedUser;
+  const startedAt = new Date('2026-10-19T08:00:00Z');
+
+  const prisma = {
+    session: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    teachingAssignment: {
+      findUniqueOrThrow: jest.fn(),
+    },
+    student: {
+      findMany: jest.fn(),
+    },
+    attendanceRecord: {
+      update: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const latenessPoliciesService = {
+    resolve: jest.fn(),
+    classify: jest.fn(),
+  };
+
+  const timetableService = { findSlotAt: jest.fn() };
+
+  const eventEmitter = { emit: jest.fn() };
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation(
+      (operations: ((tx: typeof prisma) => unknown) | unknown[]) =>
+        typeof operations === 'function'
+          ? operations(prisma)
+          : Promise.all(operations),
+    );
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [SessionsService],
+      providers: [
+        SessionsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LatenessPoliciesService, useValue: latenessPoliciesService },
+        { provide: TimetableService, useValue: timetableService },
+        {
+          provide: AccessPolicyService,
+          useValue: { assertTeacherOwns: jest.fn() },
+        },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
     }).compile();
 
     service = module.get<SessionsService>(SessionsService);
@@ -15,4 +84,315 @@ describe('SessionsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('openFromTimetable', () => {
+    const slot = {
+      teachingAssignmentId: 'assignment-1',
+      startsAt: startedAt,
+      endsAt: new Date('2026-10-19T09:30:00Z'),
+    };
+    const openedSession = {
+      id: 'session-1',
+      device: { deviceUid: 'READER-01' },
+    };
+
+    beforeEach(() => {
+      timetableService.findSlotAt.mockResolvedValue(slot);
+      prisma.teachingAssignment.findUniqueOrThrow.mockResolvedValue({
+        requireExplicitOpening: false,
+      });
+      prisma.session.findFirst.mockResolvedValue(null);
+    });
+
+    it('opens the scheduled session at the slot start', async () => {
+      prisma.session.create.mockResolvedValue(openedSession);
+
+      await expect(
+        service.openFromTimetable('device-1', new Date('2026-10-19T08:05:00Z')),
+      ).resolves.toBe(openedSession);
+
+      expect(prisma.session.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            teachingAssignmentId: 'assignment-1',
+            deviceId: 'device-1',
+            startedAt: slot.startsAt,
+            scheduledEndAt: slot.endsAt,
+          },
+        }),
+      );
+      expect(prisma.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+    });
+
+    it.each([
+      ['the partial unique index', 'P2002'],
+      ['serializable isolation', 'P2034'],
+    ])(
+      'opens one session for concurrent calls refused by %s',
+      async (_, code) => {
+        // Both calls see no session before either creates one
+        prisma.session.create
+          .mockResolvedValueOnce(openedSession)
+          .mockRejectedValueOnce(
+            new Prisma.PrismaClientKnownRequestError('Conflict', {
+              code,
+              clientVersion: Prisma.prismaVersion.client,
+            }),
+          );
+
+        const results = await Promise.all([
+          service.openFromTimetable('device-1', startedAt),
+          service.openFromTimetable('device-1', startedAt),
+        ]);
+
+        expect(results).toEqual([openedSession, null]);
+        expect(prisma.session.findFirst).toHaveBeenCalledTimes(2);
+        expect(
+          eventEmitter.emit.mock.calls.filter(
+            ([event]) => event === SESSION_OPENED_EVENT,
+          ),
+        ).toHaveLength(1);
+      },
+    );
+
+    it('does not open a slot that already has a session', async () => {
+      prisma.session.findFirst.mockResolvedValue({ id: 'session-0' });
+
+      await expect(
+        service.openFromTimetable('device-1', startedAt),
+      ).resolves.toBeNull();
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeSession', () => {
+    const endedAt = new Date('2026-10-19T09:30:00Z');
+
+    // Students of the classroom and the sessions they already have a record in
+    let roster: {
+      id: string;
+      sessionIds: string[];
+      justifications: { id: string }[];
+    }[];
+
+    beforeEach(() => {
+      roster = [
+        { id: 'present', sessionIds: ['session-1'], justifications: [] },
+        { id: 'absent', sessionIds: [], justifications: [] },
+        {
+          id: 'excused',
+          sessionIds: [],
+          justifications: [{ id: 'justification-1' }],
+        },
+      ];
+
+      prisma.session.updateMany.mockResolvedValue({ count: 1 });
+      prisma.session.findUniqueOrThrow.mockImplementation(
+        ({ include }: { include?: object }) =>
+          include
+            ? { id: 'session-1', status: SessionStatus.CLOSED, endedAt }
+            : {
+                startedAt,
+                teachingAssignment: { classroomId: 'classroom-1' },
+              },
+      );
+      prisma.student.findMany.mockImplementation(
+        ({
+          where,
+        }: {
+          where: { attendanceRecords: { none: { sessionId: string } } };
+        }) =>
+          roster
+            .filter(
+              (student) =>
+                !student.sessionIds.includes(
+                  where.attendanceRecords.none.sessionId,
+                ),
+            )
+            .map(({ id, justifications }) => ({ id, justifications })),
+      );
+      prisma.attendanceRecord.createMany.mockResolvedValue({ count: 2 });
+    });
+
+    it('records students without a record as ABSENT or EXCUSED', async () => {
+      await service.closeSession('session-1', endedAt);
+
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', status: SessionStatus.OPEN },
+        data: { status: SessionStatus.CLOSED, endedAt },
+      });
+      expect(prisma.attendanceRecord.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            sessionId: 'session-1',
+            studentId: 'absent',
+            status: AttendanceStatus.ABSENT,
+          },
+          {
+            sessionId: 'session-1',
+            studentId: 'excused',
+            status: AttendanceStatus.EXCUSED,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('looks up justifications covering the session start', async () => {
+      await service.closeSession('session-1', endedAt);
+
+      expect(prisma.student.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          select: expect.objectContaining({
+            justifications: expect.objectContaining({
+              where: expect.objectContaining({
+                startsAt: { lte: startedAt },
+                endsAt: { gte: startedAt },
+              }) as object,
+            }) as object,
+          }) as object,
+        }),
+      );
+    });
+
+    it('leaves students who already have a record untouched', async () => {
+      roster = [
+        { id: 'present', sessionIds: ['session-1'], justifications: [] },
+      ];
+
+      await service.closeSession('session-1', endedAt);
+
+      expect(prisma.attendanceRecord.createMany).toHaveBeenCalledWith({
+        data: [],
+        skipDuplicates: true,
+      });
+      expect(eventEmitter.emit).toHaveBeenCalledWith(ATTENDANCE_CHANGED_EVENT, {
+        sessionId: 'session-1',
+        changes: [],
+      });
+    });
+
+    it('emits the attendance changes and the closing', async () => {
+      await service.closeSession('session-1', endedAt);
+
+      expect(eventEmitter.emit).toHaveBeenCalledWith(ATTENDANCE_CHANGED_EVENT, {
+        sessionId: 'session-1',
+        changes: [
+          {
+            studentId: 'absent',
+            previousStatus: null,
+            status: AttendanceStatus.ABSENT,
+          },
+          {
+            studentId: 'excused',
+            previousStatus: null,
+            status: AttendanceStatus.EXCUSED,
+          },
+        ],
+      });
+      expect(eventEmitter.emit).toHaveBeenCalledWith(SESSION_CLOSED_EVENT, {
+        sessionId: 'session-1',
+      });
+    });
+
+    it('refuses to close a session twice', async () => {
+      prisma.session.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await service.closeSession('session-1', endedAt);
+      jest.clearAllMocks();
+
+      await expect(service.closeSession('session-1', endedAt)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(prisma.attendanceRecord.createMany).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('refuses to close a closed session through close()', async () => {
+      prisma.session.findUnique.mockResolvedValue({
+        id: 'session-1',
+        status: SessionStatus.CLOSED,
+        teachingAssignment: { teacherId: 'teacher-1' },
+      });
+
+      await expect(service.close(admin, 'session-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recomputeLateness', () => {
+    beforeEach(() => {
+      prisma.session.findUnique.mockResolvedValue({
+        id: 'session-1',
+        teachingAssignment: { teacherId: 'teacher-1' },
+      });
+      latenessPoliciesService.resolve.mockResolvedValue({
+        lateAfterMinutes: 10,
+      });
+    });
+
+    it('skips manually corrected records but not those changed by scans', async () => {
+      prisma.session.findUniqueOrThrow.mockResolvedValue({
+        startedAt,
+        teachingAssignmentId: 'assignment-1',
+        attendanceRecords: [],
+      });
+
+      await service.recomputeLateness(admin, 'session-1');
+
+      expect(prisma.session.findUniqueOrThrow).toHaveBeenCalledWith(
+        expect.objectContaining({
+          select: expect.objectContaining({
+            attendanceRecords: expect.objectContaining({
+              where: {
+                scannedAt: { not: null },
+                changes: { none: { changedById: { not: null } } },
+              },
+            }) as object,
+          }) as object,
+        }),
+      );
+    });
+
+    it('updates the records whose status changes under the policy', async () => {
+      prisma.session.findUniqueOrThrow.mockResolvedValue({
+        startedAt,
+        teachingAssignmentId: 'assignment-1',
+        attendanceRecords: [
+          {
+            id: 'record-1',
+            studentId: 'student-1',
+            status: AttendanceStatus.PRESENT,
+            scannedAt: new Date('2026-10-19T08:12:00Z'),
+          },
+          {
+            id: 'record-2',
+            studentId: 'student-2',
+            status: AttendanceStatus.PRESENT,
+            scannedAt: new Date('2026-10-19T08:02:00Z'),
+          },
+        ],
+      });
+      latenessPoliciesService.classify
+        .mockReturnValueOnce(AttendanceStatus.LATE)
+        .mockReturnValueOnce(AttendanceStatus.PRESENT);
+
+      const result = await service.recomputeLateness(admin, 'session-1');
+
+      expect(result).toEqual(
+        expect.objectContaining({ evaluatedCount: 2, updatedCount: 1 }),
+      );
+      expect(prisma.attendanceRecord.update).toHaveBeenCalledTimes(1);
+      expect(prisma.attendanceRecord.update).toHaveBeenCalledWith({
+        where: { id: 'record-1' },
+        data: { status: AttendanceStatus.LATE },
+      });
+    });
+  });
 });
@@ -1,4 +1,739 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  AttendanceStatus,
+  DeviceStatus,
+  JustificationStatus,
+  Prisma,
+  SessionStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LatenessPoliciesService } from '../lateness-policies/lateness-policies.service';
+import { TimetableService } from '../timetable/timetable.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
+import {
+  OpenSessionDto,
+  FindSessionsQueryDto,
+  SessionResponseDto,
+  SessionDetailResponseDto,
+  SessionRosterEntryDto,
+  SessionSummaryDto,
+  SessionDeviceDto,
+  RecomputeLatenessResultDto,
+} from './dto';
+import {
+  ATTENDANCE_CHANGED_EVENT,
+  AttendanceChange,
+  AttendanceChangedEvent,
+  SESSION_OPENED_EVENT,
+  SessionOpenedEvent,
+  SESSION_CLOSED_EVENT,
+  SessionClosedEvent,
+} from './session-events';
 
+/**
+ * Sessions Service
+ * Handles the lifecycle of class sessions: opening, closing and inspection
+ * Core business rule: a device runs at most one OPEN session at a time
+ */
 @Injectable()
-export class SessionsService {}
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  private readonly sessionInclude = {
+    teachingAssignment: {
+      select: {
+        id: true,
+        teacher: {
+          select: {
+            id: true,
+            fullName: true,
+          },
+        },
+        subject: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        classroom: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    },
+    device: {
+      select: {
+        id: true,
+        deviceUid: true,
+      },
+    },
+    _count: {
+      select: {
+        attendanceRecords: true,
+      },
+    },
+  } as const;
+
+  private readonly studentSelect = {
+    id: true,
+    studentCode: true,
+    fullName: true,
+  } as const;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly latenessPoliciesService: LatenessPoliciesService,
+    private readonly timetableService: TimetableService,
+    private readonly accessPolicy: AccessPolicyService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Open a session for a teaching assignment on a device
+   * Teachers can only open sessions for their own assignments
+   */
+  async open(
+    user: AuthenticatedUser,
+    openSessionDto: OpenSessionDto,
+  ): Promise<SessionResponseDto> {
+    const { teachingAssignmentId, deviceId } = openSessionDto;
+    const scheduledEndAt = openSessionDto.scheduledEndAt
+      ? new Date(openSessionDto.scheduledEndAt)
+      : undefined;
+
+    if (scheduledEndAt && scheduledEndAt <= new Date()) {
+      throw new BadRequestException('Scheduled end must be in the future');
+    }
+
+    const assignment = await this.prisma.teachingAssignment.findUnique({
+      where: { id: teachingAssignmentId },
+      select: {
+        id: true,
+        teacherId: true,
+        classroomId: true,
+      },
+    });
+
+    if (!assignment) {
+      throw new BadRequestException(
+        `Teaching assignment with ID ${teachingAssignmentId} not found`,
+      );
+    }
+
+    this.accessPolicy.assertTeacherOwns(user, assignment.teacherId);
+
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id: deviceId },
+      select: {
+        id: true,
+        deviceUid: true,
+        classroomId: true,
+        status: true,
+      },
+    });
+
+    if (!device) {
+      throw new BadRequestException(`Device with ID ${deviceId} not found`);
+    }
+
+    if (device.status !== DeviceStatus.ACTIVE) {
+      throw new BadRequestException(`Device ${device.deviceUid} is inactive`);
+    }
+
+    if (device.classroomId !== assignment.classroomId) {
+      throw new BadRequestException(
+        `Device ${device.deviceUid} is not installed in the assignment's classroom`,
+      );
+    }
+
+    const openSession = await this.findOpenSessionId(deviceId);
+
+    if (openSession) {
+      throw new ConflictException(
+        `Device ${device.deviceUid} already has an open session (${openSession.id})`,
+      );
+    }
+
+    let session: SessionResponseDto;
+
+    // The unique index on OPEN sessions rejects a concurrent open of the device
+    try {
+      session = await this.prisma.session.create({
+        data: {
+          teachingAssignmentId,
+          deviceId,
+          scheduledEndAt,
+        },
+        include: this.sessionInclude,
+      });
+    } catch (error) {
+      if (!this.isLostOpeningRace(error)) {
+        throw error;
+      }
+
+      const concurrentSession = await this.findOpenSessionId(deviceId);
+      throw new ConflictException(
+        `Device ${device.deviceUid} already has an open session${concurrentSession ? ` (${concurrentSession.id})` : ''}`,
+      );
+    }
+
+    this.logger.log(
+      `Session opened: ${session.id} on ${device.deviceUid} for assignment ${teachingAssignmentId}`,
+    );
+    this.eventEmitter.emit(SESSION_OPENED_EVENT, {
+      sessionId: session.id,
+    } satisfies SessionOpenedEvent);
+
+    return session;
+  }
+
+  /**
+   * Open the session the timetable schedules on a device at a given time
+   * The session starts at the slot start so lateness is measured against the
+   * timetable. Returns null when nothing is scheduled, the assignment requires
+   * explicit opening, a session already ran during the slot, or a concurrent
+   * call opened it first.
+   */
+  async openFromTimetable(
+    deviceId: string,
+    at: Date,
+  ): Promise<SessionResponseDto | null> {
+    const slot = await this.timetableService.findSlotAt(deviceId, at);
+
+    if (!slot) {
+      return null;
+    }
+
+    const assignment = await this.prisma.teachingAssignment.findUniqueOrThrow({
+      where: { id: slot.teachingAssignmentId },
+      select: { requireExplicitOpening: true },
+    });
+
+    if (assignment.requireExplicitOpening) {
+      return null;
+    }
+
+    const session = await this.prisma
+      .$transaction(
+        async (tx) => {
+          // Don't reopen a slot the teacher already opened (or opened and closed)
+          const existingSession = await tx.session.findFirst({
+            where: {
+              OR: [
+                { deviceId, status: SessionStatus.OPEN },
+                {
+                  teachingAssignmentId: slot.teachingAssignmentId,
+                  startedAt: { lt: slot.endsAt },
+                  OR: [{ endedAt: null }, { endedAt: { gt: slot.startsAt } }],
+                },
+              ],
+            },
+            select: { id: true },
+          });
+
+          if (existingSession) {
+            return null;
+          }
+
+          return tx.session.create({
+            data: {
+              teachingAssignmentId: slot.teachingAssignmentId,
+              deviceId,
+              startedAt: slot.startsAt,
+              scheduledEndAt: slot.endsAt,
+            },
+            include: this.sessionInclude,
+          });
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+      )
+      // A concurrent scan opened the slot first, the caller reads its session
+      .catch((error: unknown) => {
+        if (this.isLostOpeningRace(error)) {
+          return null;
+        }
+        throw error;
+      });
+
+    if (session) {
+      this.logger.log(
+        `Session auto-opened from timetable: ${session.id} on ${session.device.deviceUid} for assignment ${slot.teachingAssignmentId}`,
+      );
+      this.eventEmitter.emit(SESSION_OPENED_EVENT, {
+        sessionId: session.id,
+      } satisfies SessionOpenedEvent);
+    }
+
+    return session;
+  }
+
+  /**
+   * Close an open session
+   * Teachers can only close sessions of their own assignments
+   */
+  async close(
+    user: AuthenticatedUser,
+    id: string,
+  ): Promise<SessionResponseDto> {
+    const session = await this.findAccessibleSession(user, id);
+
+    if (session.status === SessionStatus.CLOSED) {
+      throw new ConflictException(`Session ${id} is already closed`);
+    }
+
+    return this.closeSession(id);
+  }
+
+  /**
+   * Close a session and record every student without a record as ABSENT,
+   * or EXCUSED when an approved justification covers the session start
+   * Both steps run in one transaction so closed sessions always have a
+   * complete roster of attendance records
+   */
+  async closeSession(
+    id: string,
+    endedAt: Date = new Date(),
+  ): Promise<SessionResponseDto> {
+    const { closedSession, changes } = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.session.updateMany({
+          where: {
+            id,
+            status: SessionStatus.OPEN,
+          },
+          data: {
+            status: SessionStatus.CLOSED,
+            endedAt,
+          },
+        });
+
+        if (count === 0) {
+          throw new ConflictException(`Session ${id} is not open`);
+        }
+
+        const session = await tx.session.findUniqueOrThrow({
+          where: { id },
+          select: {
+            startedAt: true,
+            teachingAssignment: {
+              select: {
+                classroomId: true,
+              },
+            },
+          },
+        });
+
+        // Students of the classroom who never scanned during the session
+        const unrecordedStudents = await tx.student.findMany({
+          where: {
+            classroomId: session.teachingAssignment.classroomId,
+            attendanceRecords: {
+              none: { sessionId: id },
+            },
+          },
+          select: {
+            id: true,
+            justifications: {
+              where: {
+                status: JustificationStatus.APPROVED,
+                startsAt: { lte: session.startedAt },
+                endsAt: { gte: session.startedAt },
+              },
+              select: { id: true },
+              take: 1,
+            },
+          },
+        });
+
+        const changes: AttendanceChange[] = unrecordedStudents.map(
+          (student) => ({
+            studentId: student.id,
+            previousStatus: null,
+            status:
+              student.justifications.length > 0
+                ? AttendanceStatus.EXCUSED
+                : AttendanceStatus.ABSENT,
+          }),
+        );
+
+        await tx.attendanceRecord.createMany({
+          data: changes.map(({ studentId, status }) => ({
+            sessionId: id,
+            studentId,
+            status,
+          })),
+          skipDuplicates: true,
+        });
+
+        const closedSession = await tx.session.findUniqueOrThrow({
+          where: { id },
+          include: this.sessionInclude,
+        });
+
+        return { closedSession, changes };
+      },
+    );
+
+    const excusedCount = changes.filter(
+      (change) => change.status === AttendanceStatus.EXCUSED,
+    ).length;
+    const absentCount = changes.length - excusedCount;
+    this.logger.log(
+      `Session closed: ${id} (${absentCount} student(s) marked ABSENT, ${excusedCount} EXCUSED)`,
+    );
+
+    this.eventEmitter.emit(ATTENDANCE_CHANGED_EVENT, {
+      sessionId: id,
+      changes,
+    } satisfies AttendanceChangedEvent);
+    this.eventEmitter.emit(SESSION_CLOSED_EVENT, {
+      sessionId: id,
+    } satisfies SessionClosedEvent);
+
+    return closedSession;
+  }
+
+  /**
+   * Find sessions with optional filtering
+   * Teachers only see sessions of their own assignments
+   */
+  async findAll(
+    user: AuthenticatedUser,
+    query: FindSessionsQueryDto,
+  ): Promise<SessionResponseDto[]> {
+    const { from, to, teachingAssignmentId, status } = query;
+    const where: Prisma.SessionWhereInput = {};
+
+    if (teachingAssignmentId) where.teachingAssignmentId = teachingAssignmentId;
+    if (status) where.status = status;
+
+    if (from || to) {
+      where.startedAt = {
+        ...(from && { gte: new Date(from) }),
+        ...(to && { lte: new Date(to) }),
+      };
+    }
+
+    // Teachers only see sessions of their own assignments
+    where.teachingAssignment = this.accessPolicy.assignmentScope(user);
+
+    const sessions = await this.prisma.session.findMany({
+      where,
+      include: this.sessionInclude,
+      orderBy: {
+        startedAt: 'desc',
+      },
+    });
+
+    return this.withDeviceClassrooms(sessions);
+  }
+
+  /**
+   * Find a session with its roster and attendance records
+   * The roster lists every student of the assignment's classroom, plus any
+   * student holding a record who has since left the classroom
+   */
+  async findOne(
+    user: AuthenticatedUser,
+    id: string,
+  ): Promise<SessionDetailResponseDto> {
+    await this.findAccessibleSession(user, id);
+
+    const session = await this.prisma.session.findUniqueOrThrow({
+      where: { id },
+      include: this.sessionInclude,
+    });
+
+    const [[sessionWithClassroom], { roster, summary }] = await Promise.all([
+      this.withDeviceClassrooms([session]),
+      this.findRoster(id),
+    ]);
+
+    return {
+      ...sessionWithClassroom,
+      roster,
+      summary,
+    };
+  }
+
+  /**
+   * Roster of a session with its attendance counts
+   * Does not check access: callers go through findOne first
+   */
+  async findRoster(
+    id: string,
+  ): Promise<Pick<SessionDetailResponseDto, 'roster' | 'summary'>> {
+    const { teachingAssignment, attendanceRecords } =
+      await this.prisma.session.findUniqueOrThrow({
+        where: { id },
+        select: {
+          teachingAssignment: {
+            select: {
+              classroomId: true,
+            },
+          },
+          attendanceRecords: {
+            select: {
+              id: true,
+              status: true,
+              scannedAt: true,
+              student: {
+                select: this.studentSelect,
+              },
+            },
+          },
+        },
+      });
+
+    const students = await this.prisma.student.findMany({
+      where: {
+        classroomId: teachingAssignment.classroomId,
+      },
+      select: this.studentSelect,
+    });
+
+    const recordsByStudent = new Map(
+      attendanceRecords.map((record) => [record.student.id, record]),
+    );
+
+    const roster: SessionRosterEntryDto[] = students.map((student) => {
+      const record = recordsByStudent.get(student.id);
+      recordsByStudent.delete(student.id);
+
+      return {
+        student,
+        recordId: record?.id ?? null,
+        status: record?.status ?? null,
+        scannedAt: record?.scannedAt ?? null,
+      };
+    });
+
+    for (const record of recordsByStudent.values()) {
+      roster.push({
+        student: record.student,
+        recordId: record.id,
+        status: record.status,
+        scannedAt: record.scannedAt,
+      });
+    }
+
+    roster.sort((a, b) => a.student.fullName.localeCompare(b.student.fullName));
+
+    return {
+      roster,
+      summary: this.summarize(roster),
+    };
+  }
+
+  /**
+   * Re-apply the current lateness policy to every scanned record of a session
+   * Used after a policy was corrected; scans past a REJECT cut-off become ABSENT
+   */
+  async recomputeLateness(
+    user: AuthenticatedUser,
+    id: string,
+  ): Promise<RecomputeLatenessResultDto> {
+    await this.findAccessibleSession(user, id);
+
+    const session = await this.prisma.session.findUniqueOrThrow({
+      where: { id },
+      select: {
+        startedAt: true,
+        teachingAssignmentId: true,
+        attendanceRecords: {
+          where: {
+            scannedAt: { not: null },
+            // Manually corrected records keep the status set by the teacher;
+            // changes logged by scans (changedById null) do not count
+            changes: { none: { changedById: { not: null } } },
+          },
+          select: {
+            id: true,
+            studentId: true,
+            status: true,
+            scannedAt: true,
+          },
+        },
+      },
+    });
+
+    const policy = await this.latenessPoliciesService.resolve(
+      session.teachingAssignmentId,
+    );
+
+    const changes = session.attendanceRecords
+      .map((record) => ({
+        id: record.id,
+        studentId: record.studentId,
+        previous: record.status,
+        status:
+          this.latenessPoliciesService.classify(
+            policy,
+            session.startedAt,
+            record.scannedAt as Date,
+          ) ?? AttendanceStatus.ABSENT,
+      }))
+      .filter((change) => change.status !== change.previous);
+
+    await this.prisma.$transaction(
+      changes.map((change) =>
+        this.prisma.attendanceRecord.update({
+          where: { id: change.id },
+          data: { status: change.status },
+        }),
+      ),
+    );
+
+    this.logger.log(
+      `Lateness recomputed for session ${id}: ${changes.length} record(s) updated`,
+    );
+
+    if (changes.length > 0) {
+      this.eventEmitter.emit(ATTENDANCE_CHANGED_EVENT, {
+        sessionId: id,
+        changes: changes.map(({ studentId, previous, status }) => ({
+          studentId,
+          previousStatus: previous,
+          status,
+        })),
+      } satisfies AttendanceChangedEvent);
+    }
+
+    return {
+      sessionId: id,
+      policy,
+      evaluatedCount: session.attendanceRecords.length,
+      updatedCount: changes.length,
+    };
+  }
+
+  /**
+   * Add to each session the classroom its device was installed in when the
+   * session started, from the device assignment history
+   */
+  private async withDeviceClassrooms<
+    T extends { deviceId: string; startedAt: Date; device: SessionDeviceDto },
+  >(sessions: T[]): Promise<T[]> {
+    const deviceIds = [...new Set(sessions.map((session) => session.deviceId))];
+
+    if (deviceIds.length === 0) {
+      return sessions;
+    }
+
+    const assignments = await this.prisma.deviceAssignment.findMany({
+      where: {
+        deviceId: { in: deviceIds },
+      },
+      select: {
+        deviceId: true,
+        assignedFrom: true,
+        assignedUntil: true,
+        classroom: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    return sessions.map((session) => {
+      const assignment = assignments.find(
+        (candidate) =>
+          candidate.deviceId === session.deviceId &&
+          candidate.assignedFrom <= session.startedAt &&
+          (!candidate.assignedUntil ||
+            candidate.assignedUntil > session.startedAt),
+      );
+
+      return {
+        ...session,
+        device: {
+          ...session.device,
+          classroom: assignment?.classroom ?? null,
+        },
+      };
+    });
+  }
+
+  /**
+   * Load a session and check the user may act on it
+   */
+  private async findAccessibleSession(user: AuthenticatedUser, id: string) {
+    const session = await this.prisma.session.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        teachingAssignment: {
+          select: {
+            teacherId: true,
+          },
+        },
+      },
+    });
+
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${id} not found`);
+    }
+
+    this.accessPolicy.assertTeacherOwns(
+      user,
+      session.teachingAssignment.teacherId,
+    );
+
+    return session;
+  }
+
+  /**
+   * Count roster entries per attendance status
+   */
+  private summarize(roster: SessionRosterEntryDto[]): SessionSummaryDto {
+    const count = (status: AttendanceStatus) =>
+      roster.filter((entry) => entry.status === status).length;
+
+    return {
+      total: roster.length,
+      present: count(AttendanceStatus.PRESENT),
+      late: count(AttendanceStatus.LATE),
+      absent: count(AttendanceStatus.ABSENT),
+      excused: count(AttendanceStatus.EXCUSED),
+      unrecorded: roster.filter((entry) => entry.status === null).length,
+    };
+  }
+
+  /**
+   * Find the OPEN session of a device
+   */
+  private findOpenSessionId(deviceId: string): Promise<{ id: string } | null> {
+    return this.prisma.session.findFirst({
+      where: {
+        deviceId,
+        status: SessionStatus.OPEN,
+      },
+      select: { id: true },
+    });
+  }
+
+  /**
+   * Whether opening a session failed because a concurrent call opened one:
+   * a serialization failure or the unique index on OPEN sessions per device
+   */
+  private isLostOpeningRace(error: unknown): boolean {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      (error.code === 'P2034' || error.code === 'P2002')
+    );
+  }
+}
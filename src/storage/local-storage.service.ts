@@ -0,0 +1,63 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { StorageService } from './storage.service';
+
+/**
+ * Local Storage Service
+ * Stores files on the local disk under STORAGE_LOCAL_DIR
+ */
+@Injectable()
+export class LocalStorageService extends StorageService {
+  private readonly logger = new Logger(LocalStorageService.name);
+  private readonly root: string;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.root = resolve(
+      this.configService.get<string>('STORAGE_LOCAL_DIR') || 'storage',
+    );
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+
+    this.logger.debug(`Stored ${key} (${data.length} bytes)`);
+  }
+
+  async read(key: string): Promise<Readable> {
+    const path = this.resolveKey(key);
+
+    try {
+      await stat(path);
+    } catch {
+      throw new NotFoundException(`File ${key} not found`);
+    }
+
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path inside the storage root
+   * Keys escaping the root (e.g. with "..") are rejected
+   */
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { StorageService } from './storage.service';
+import { LocalStorageService } from './local-storage.service';
+
+/**
+ * Storage Module
+ * Provides StorageService, backed by the local disk
+ */
+@Module({
+  providers: [
+    {
+      provide: StorageService,
+      useClass: LocalStorageService,
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,25 @@
+import { Readable } from 'stream';
+
+/**
+ * Storage Service
+ * Abstraction over where uploaded files live, so the local disk backend can
+ * be swapped for object storage without touching the features using it
+ * Keys are relative, slash-separated paths such as "justifications/<id>/<file>"
+ */
+export abstract class StorageService {
+  /**
+   * Store a file, replacing any file with the same key
+   */
+  abstract put(key: string, data: Buffer): Promise<void>;
+
+  /**
+   * Open a stored file for reading
+   * Throws NotFoundException when no file has this key
+   */
+  abstract read(key: string): Promise<Readable>;
+
+  /**
+   * Delete a stored file, ignoring missing files
+   */
+  abstract delete(key: string): Promise<void>;
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for binding a card to a student
+ */
+export class AssignCardDto {
+  @ApiProperty({
+    description: 'UID emitted by the reader when the card is tapped',
+    example: '04A2B3C4D5E680',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Card UID is required' })
+  cardUid: string;
+}
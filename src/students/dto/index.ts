@@ -1,4 +1,8 @@
 export * from './create-student.dto';
 export * from './update-student.dto';
 export * from './student-response.dto';
+export * from './assign-card.dto';
+export * from './revoke-card.dto';
+export * from './replace-card.dto';
+export * from './student-card-response.dto';
 
@@ -0,0 +1,30 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CardStatus } from '@prisma/client';
+import { INACTIVE_CARD_STATUSES } from './revoke-card.dto';
+import type { InactiveCardStatus } from './revoke-card.dto';
+
+/**
+ * DTO for replacing a student card with a new one
+ */
+export class ReplaceCardDto {
+  @ApiProperty({
+    description: 'UID of the new card',
+    example: '04F1E2D3C4B5A6',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Card UID is required' })
+  cardUid: string;
+
+  @ApiPropertyOptional({
+    description: 'Status given to the card being replaced',
+    enum: INACTIVE_CARD_STATUSES,
+    default: CardStatus.LOST,
+    example: CardStatus.LOST,
+  })
+  @IsOptional()
+  @IsIn(INACTIVE_CARD_STATUSES, {
+    message: 'Status must be either LOST or REVOKED',
+  })
+  previousCardStatus?: InactiveCardStatus;
+}
@@ -0,0 +1,30 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CardStatus } from '@prisma/client';
+
+/**
+ * Statuses a card can be moved to when it is taken out of service
+ */
+export const INACTIVE_CARD_STATUSES = [
+  CardStatus.LOST,
+  CardStatus.REVOKED,
+] as const;
+
+export type InactiveCardStatus = (typeof INACTIVE_CARD_STATUSES)[number];
+
+/**
+ * DTO for revoking a student card
+ */
+export class RevokeCardDto {
+  @ApiPropertyOptional({
+    description: 'Reason the card is taken out of service',
+    enum: INACTIVE_CARD_STATUSES,
+    default: CardStatus.REVOKED,
+    example: CardStatus.LOST,
+  })
+  @IsOptional()
+  @IsIn(INACTIVE_CARD_STATUSES, {
+    message: 'Status must be either LOST or REVOKED',
+  })
+  status?: InactiveCardStatus;
+}
@@ -0,0 +1,71 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CardStatus } from '@prisma/client';
+
+/**
+ * Student card response DTO
+ */
+export class StudentCardResponseDto {
+  @ApiProperty({
+    description: 'Card unique identifier',
+    example: 'bb0e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Student ID',
+    example: '770e8400-e29b-41d4-a716-446655440000',
+  })
+  studentId: string;
+
+  @ApiProperty({
+    description: 'UID emitted by the reader',
+    example: '04A2B3C4D5E680',
+  })
+  cardUid: string;
+
+  @ApiProperty({
+    description: 'Card status',
+    enum: CardStatus,
+    example: CardStatus.ACTIVE,
+  })
+  status: CardStatus;
+
+  @ApiProperty({
+    description: 'When the card was bound to the student',
+    example: '2025-12-29T10:00:00.000Z',
+  })
+  issuedAt: Date;
+
+  @ApiProperty({
+    description: 'When the card was marked lost or revoked',
+    example: null,
+    nullable: true,
+  })
+  deactivatedAt: Date | null;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2025-12-29T10:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2025-12-29T10:00:00.000Z',
+  })
+  updatedAt: Date;
+
+  @ApiPropertyOptional({
+    description: 'Card holder',
+    example: {
+      id: '770e8400-e29b-41d4-a716-446655440000',
+      studentCode: 'ESP202401',
+      fullName: 'Ahmed Ben Ali',
+    },
+  })
+  student?: {
+    id: string;
+    studentCode: string;
+    fullName: string;
+  };
+}
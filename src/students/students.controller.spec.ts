@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { StudentsController } from './students.controller';
 import { StudentsService } from './students.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
 
 describe('StudentsController', () => {
   let controller: StudentsController;
@@ -8,7 +10,11 @@ describe('StudentsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [StudentsController],
-      providers: [StudentsService],
+      providers: [
+        StudentsService,
+        { provide: PrismaService, useValue: {} },
+        { provide: AccessPolicyService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<StudentsController>(StudentsController);
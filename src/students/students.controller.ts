@@ -22,23 +22,38 @@ import {
   ApiConflictResponse,
   ApiNotFoundResponse,
   ApiCreatedResponse,
+  ApiForbiddenResponse,
 } from '@nestjs/swagger';
 import { StudentsService } from './students.service';
-import { CreateStudentDto, UpdateStudentDto, StudentResponseDto } from './dto';
+import {
+  CreateStudentDto,
+  UpdateStudentDto,
+  StudentResponseDto,
+  AssignCardDto,
+  RevokeCardDto,
+  ReplaceCardDto,
+  StudentCardResponseDto,
+} from './dto';
 import { JwtAuthGuard, RolesGuard } from '../auth/guards';
-import { Roles } from '../auth/decorators';
+import { Roles, CurrentUser } from '../auth/decorators';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
 import { UserRole } from '@prisma/client';
 
 /**
  * Students Controller
  * Handles all student-related HTTP requests
+ * Teachers only see students of classrooms they teach
  */
 @ApiTags('Students')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('students')
 export class StudentsController {
-  constructor(private readonly studentsService: StudentsService) {}
+  constructor(
+    private readonly studentsService: StudentsService,
+    private readonly accessPolicy: AccessPolicyService,
+  ) {}
 
   /**
    * Create a new student
@@ -46,7 +61,8 @@ export class StudentsController {
    */
   @ApiOperation({
     summary: 'Create a new student',
-    description: 'Create a new student account with user credentials. Admin only.',
+    description:
+      'Create a new student account with user credentials. Admin only.',
   })
   @ApiCreatedResponse({
     description: 'Student created successfully',
@@ -61,7 +77,9 @@ export class StudentsController {
   @Roles(UserRole.ADMIN)
   @Post()
   @HttpCode(HttpStatus.CREATED)
-  create(@Body() createStudentDto: CreateStudentDto): Promise<StudentResponseDto> {
+  create(
+    @Body() createStudentDto: CreateStudentDto,
+  ): Promise<StudentResponseDto> {
     return this.studentsService.create(createStudentDto);
   }
 
@@ -71,7 +89,8 @@ export class StudentsController {
    */
   @ApiOperation({
     summary: 'Get all students',
-    description: 'Retrieve all students. Optionally filter by classroom.',
+    description:
+      'Retrieve all students. Optionally filter by classroom. Teachers only see students of classrooms they teach.',
   })
   @ApiQuery({
     name: 'classroomId',
@@ -86,8 +105,14 @@ export class StudentsController {
   })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get()
-  findAll(@Query('classroomId') classroomId?: string): Promise<StudentResponseDto[]> {
-    return this.studentsService.findAll(classroomId);
+  findAll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query('classroomId') classroomId?: string,
+  ): Promise<StudentResponseDto[]> {
+    return this.studentsService.findAll(
+      classroomId,
+      this.accessPolicy.studentScope(user),
+    );
   }
 
   /**
@@ -96,7 +121,7 @@ export class StudentsController {
    */
   @ApiOperation({
     summary: 'Get total student count',
-    description: 'Get the total number of students in the system',
+    description: 'Get the total number of students visible to the caller',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -107,8 +132,12 @@ export class StudentsController {
   })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('count')
-  async count(): Promise<{ count: number }> {
-    const count = await this.studentsService.count();
+  async count(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<{ count: number }> {
+    const count = await this.studentsService.count(
+      this.accessPolicy.studentScope(user),
+    );
     return { count };
   }
 
@@ -129,14 +158,22 @@ export class StudentsController {
     status: HttpStatus.OK,
     description: 'Student count for classroom',
     schema: {
-      example: { classroomId: '550e8400-e29b-41d4-a716-446655440000', count: 25 },
+      example: {
+        classroomId: '550e8400-e29b-41d4-a716-446655440000',
+        count: 25,
+      },
     },
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access classrooms they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('classroom/:classroomId/count')
   async countByClassroom(
+    @CurrentUser() user: AuthenticatedUser,
     @Param('classroomId') classroomId: string,
   ): Promise<{ classroomId: string; count: number }> {
+    await this.accessPolicy.assertClassroomAccess(user, classroomId);
     const count = await this.studentsService.countByClassroom(classroomId);
     return { classroomId, count };
   }
@@ -162,9 +199,16 @@ export class StudentsController {
   @ApiNotFoundResponse({
     description: 'Student not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access students of classrooms they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('code/:studentCode')
-  findByStudentCode(@Param('studentCode') studentCode: string): Promise<StudentResponseDto> {
+  async findByStudentCode(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('studentCode') studentCode: string,
+  ): Promise<StudentResponseDto> {
+    await this.accessPolicy.assertStudentAccess(user, { studentCode });
     return this.studentsService.findByStudentCode(studentCode);
   }
 
@@ -189,10 +233,20 @@ export class StudentsController {
   @ApiNotFoundResponse({
     description: 'Student not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access students of classrooms they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id')
-  findOne(@Param('id') id: string): Promise<StudentResponseDto> {
-    return this.studentsService.findOne(id);
+  async findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<StudentResponseDto> {
+    await this.accessPolicy.assertStudentAccess(user, id);
+    return this.studentsService.findOne(
+      id,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -231,13 +285,167 @@ export class StudentsController {
     return this.studentsService.update(id, updateStudentDto);
   }
 
+  /**
+   * Get student cards
+   * Teachers and Admins
+   */
+  @ApiOperation({
+    summary: 'Get student cards',
+    description:
+      'List all RFID/NFC cards ever bound to a student, most recent first',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Student UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of student cards',
+    type: [StudentCardResponseDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Student not found',
+  })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access students of classrooms they teach',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get(':id/cards')
+  async findCards(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<StudentCardResponseDto[]> {
+    await this.accessPolicy.assertStudentAccess(user, id);
+    return this.studentsService.findCards(id);
+  }
+
+  /**
+   * Bind a card to a student
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Bind a card to a student',
+    description:
+      'Bind a card UID to a student who has no active card. To bind by tapping the card, put a device in enrollment mode instead. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Student UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiCreatedResponse({
+    description: 'Card bound successfully',
+    type: StudentCardResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Student not found',
+  })
+  @ApiConflictResponse({
+    description:
+      'Card UID already registered or student already has an active card',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post(':id/cards')
+  @HttpCode(HttpStatus.CREATED)
+  assignCard(
+    @Param('id') id: string,
+    @Body() assignCardDto: AssignCardDto,
+  ): Promise<StudentCardResponseDto> {
+    return this.studentsService.assignCard(id, assignCardDto);
+  }
+
+  /**
+   * Revoke a student card
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Revoke a student card',
+    description:
+      'Mark an active card as LOST or REVOKED so it can no longer be used. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Student UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({
+    name: 'cardId',
+    description: 'Card UUID',
+    example: 'bb0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Card revoked successfully',
+    type: StudentCardResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Card not found for this student',
+  })
+  @ApiBadRequestResponse({
+    description: 'Card is not active',
+  })
+  @Roles(UserRole.ADMIN)
+  @Patch(':id/cards/:cardId/revoke')
+  revokeCard(
+    @Param('id') id: string,
+    @Param('cardId') cardId: string,
+    @Body() revokeCardDto: RevokeCardDto,
+  ): Promise<StudentCardResponseDto> {
+    return this.studentsService.revokeCard(id, cardId, revokeCardDto);
+  }
+
+  /**
+   * Replace a student card
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Replace a student card',
+    description:
+      'Take an active card out of service (LOST by default) and bind a new card UID in its place. Admin only.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Student UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({
+    name: 'cardId',
+    description: 'UUID of the card being replaced',
+    example: 'bb0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiCreatedResponse({
+    description: 'New card bound successfully',
+    type: StudentCardResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Card not found for this student',
+  })
+  @ApiBadRequestResponse({
+    description: 'Card is not active',
+  })
+  @ApiConflictResponse({
+    description: 'New card UID already registered',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post(':id/cards/:cardId/replace')
+  @HttpCode(HttpStatus.CREATED)
+  replaceCard(
+    @Param('id') id: string,
+    @Param('cardId') cardId: string,
+    @Body() replaceCardDto: ReplaceCardDto,
+  ): Promise<StudentCardResponseDto> {
+    return this.studentsService.replaceCard(id, cardId, replaceCardDto);
+  }
+
   /**
    * Delete a student
    * Admin only
    */
   @ApiOperation({
     summary: 'Delete a student',
-    description: 'Delete a student and their associated user account. Admin only.',
+    description:
+      'Delete a student and their associated user account. Admin only.',
   })
   @ApiParam({
     name: 'id',
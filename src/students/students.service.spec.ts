@@ -1,12 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { StudentsService } from './students.service';
+import { PrismaService } from '../prisma/prisma.service';
 
 describe('StudentsService', () => {
   let service: StudentsService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [StudentsService],
+      providers: [StudentsService, { provide: PrismaService, useValue: {} }],
     }).compile();
 
     service = module.get<StudentsService>(StudentsService);
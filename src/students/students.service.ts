@@ -7,8 +7,16 @@ import {
 } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateStudentDto, UpdateStudentDto, StudentResponseDto } from './dto';
-import { UserRole } from '@prisma/client';
+import {
+  CreateStudentDto,
+  UpdateStudentDto,
+  StudentResponseDto,
+  AssignCardDto,
+  RevokeCardDto,
+  ReplaceCardDto,
+  StudentCardResponseDto,
+} from './dto';
+import { CardStatus, Prisma, UserRole } from '@prisma/client';
 
 /**
  * Students Service
@@ -110,12 +118,16 @@ export class StudentsService {
 
   /**
    * Find all students with optional filtering
+   * The scope restricts the result to students the caller may see
    */
-  async findAll(classroomId?: string): Promise<StudentResponseDto[]> {
+  async findAll(
+    classroomId?: string,
+    scope: Prisma.StudentWhereInput = {},
+  ): Promise<StudentResponseDto[]> {
     const where = classroomId ? { classroomId } : {};
 
     const students = await this.prisma.student.findMany({
-      where,
+      where: { AND: [where, scope] },
       include: {
         user: {
           select: {
@@ -144,8 +156,12 @@ export class StudentsService {
 
   /**
    * Find a student by ID
+   * Only attendance records of teaching assignments within the scope are included
    */
-  async findOne(id: string): Promise<StudentResponseDto> {
+  async findOne(
+    id: string,
+    assignmentScope: Prisma.TeachingAssignmentWhereInput = {},
+  ): Promise<StudentResponseDto> {
     const student = await this.prisma.student.findUnique({
       where: { id },
       include: {
@@ -166,6 +182,11 @@ export class StudentsService {
           },
         },
         attendanceRecords: {
+          where: {
+            session: {
+              teachingAssignment: assignmentScope,
+            },
+          },
           take: 10,
           orderBy: {
             createdAt: 'desc',
@@ -357,6 +378,155 @@ export class StudentsService {
     }
   }
 
+  /**
+   * List all cards ever bound to a student, most recent first
+   */
+  async findCards(studentId: string): Promise<StudentCardResponseDto[]> {
+    await this.ensureStudentExists(studentId);
+
+    return this.prisma.studentCard.findMany({
+      where: { studentId },
+      orderBy: {
+        issuedAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Bind a card to a student
+   * A student can only hold one active card; use replaceCard to swap it
+   */
+  async assignCard(
+    studentId: string,
+    assignCardDto: AssignCardDto,
+  ): Promise<StudentCardResponseDto> {
+    const { cardUid } = assignCardDto;
+
+    await this.ensureStudentExists(studentId);
+    await this.ensureCardUidAvailable(cardUid);
+
+    const activeCard = await this.prisma.studentCard.findFirst({
+      where: { studentId, status: CardStatus.ACTIVE },
+    });
+
+    if (activeCard) {
+      throw new ConflictException(
+        'Student already has an active card. Replace it instead.',
+      );
+    }
+
+    const card = await this.prisma.studentCard.create({
+      data: {
+        studentId,
+        cardUid,
+      },
+    });
+
+    this.logger.log(`Card ${cardUid} bound to student ${studentId}`);
+    return card;
+  }
+
+  /**
+   * Take a student card out of service (lost or revoked)
+   */
+  async revokeCard(
+    studentId: string,
+    cardId: string,
+    revokeCardDto: RevokeCardDto,
+  ): Promise<StudentCardResponseDto> {
+    const card = await this.findActiveCard(studentId, cardId);
+
+    const revokedCard = await this.prisma.studentCard.update({
+      where: { id: card.id },
+      data: {
+        status: revokeCardDto.status ?? CardStatus.REVOKED,
+        deactivatedAt: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `Card ${card.cardUid} of student ${studentId} marked ${revokedCard.status}`,
+    );
+    return revokedCard;
+  }
+
+  /**
+   * Replace an active student card with a new one
+   */
+  async replaceCard(
+    studentId: string,
+    cardId: string,
+    replaceCardDto: ReplaceCardDto,
+  ): Promise<StudentCardResponseDto> {
+    const { cardUid, previousCardStatus } = replaceCardDto;
+
+    const card = await this.findActiveCard(studentId, cardId);
+    await this.ensureCardUidAvailable(cardUid);
+
+    const newCard = await this.prisma.$transaction(async (tx) => {
+      await tx.studentCard.update({
+        where: { id: card.id },
+        data: {
+          status: previousCardStatus ?? CardStatus.LOST,
+          deactivatedAt: new Date(),
+        },
+      });
+
+      return tx.studentCard.create({
+        data: {
+          studentId,
+          cardUid,
+        },
+      });
+    });
+
+    this.logger.log(
+      `Card ${card.cardUid} of student ${studentId} replaced by ${cardUid}`,
+    );
+    return newCard;
+  }
+
+  /**
+   * Bind a card tapped on a device in enrollment mode
+   * Any card the student still holds is revoked in favour of the new one
+   */
+  async enrollCard(
+    studentId: string,
+    cardUid: string,
+  ): Promise<StudentCardResponseDto> {
+    await this.ensureStudentExists(studentId);
+    await this.ensureCardUidAvailable(cardUid);
+
+    const card = await this.prisma.$transaction(async (tx) => {
+      await tx.studentCard.updateMany({
+        where: { studentId, status: CardStatus.ACTIVE },
+        data: {
+          status: CardStatus.REVOKED,
+          deactivatedAt: new Date(),
+        },
+      });
+
+      return tx.studentCard.create({
+        data: {
+          studentId,
+          cardUid,
+        },
+        include: {
+          student: {
+            select: {
+              id: true,
+              studentCode: true,
+              fullName: true,
+            },
+          },
+        },
+      });
+    });
+
+    this.logger.log(`Card ${cardUid} enrolled for student ${studentId}`);
+    return card;
+  }
+
   /**
    * Get student count by classroom
    */
@@ -369,7 +539,60 @@ export class StudentsService {
   /**
    * Get total student count
    */
-  async count(): Promise<number> {
-    return this.prisma.student.count();
+  async count(scope: Prisma.StudentWhereInput = {}): Promise<number> {
+    return this.prisma.student.count({
+      where: scope,
+    });
+  }
+
+  /**
+   * Verify a student exists
+   */
+  private async ensureStudentExists(studentId: string): Promise<void> {
+    const student = await this.prisma.student.findUnique({
+      where: { id: studentId },
+    });
+
+    if (!student) {
+      throw new NotFoundException(`Student with ID ${studentId} not found`);
+    }
+  }
+
+  /**
+   * Verify a card UID is not already bound to any student
+   */
+  private async ensureCardUidAvailable(cardUid: string): Promise<void> {
+    const existingCard = await this.prisma.studentCard.findUnique({
+      where: { cardUid },
+    });
+
+    if (existingCard) {
+      throw new ConflictException(
+        `Card '${cardUid}' is already registered (${existingCard.status})`,
+      );
+    }
+  }
+
+  /**
+   * Find an active card belonging to a student
+   */
+  private async findActiveCard(studentId: string, cardId: string) {
+    const card = await this.prisma.studentCard.findFirst({
+      where: { id: cardId, studentId },
+    });
+
+    if (!card) {
+      throw new NotFoundException(
+        `Card with ID ${cardId} not found for student ${studentId}`,
+      );
+    }
+
+    if (card.status !== CardStatus.ACTIVE) {
+      throw new BadRequestException(
+        `Card '${card.cardUid}' is already ${card.status}`,
+      );
+    }
+
+    return card;
   }
 }
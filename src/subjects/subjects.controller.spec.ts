@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SubjectsController } from './subjects.controller';
 import { SubjectsService } from './subjects.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
 
 describe('SubjectsController', () => {
   let controller: SubjectsController;
@@ -8,7 +9,10 @@ describe('SubjectsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [SubjectsController],
-      providers: [SubjectsService],
+      providers: [
+        SubjectsService,
+        { provide: AccessPolicyService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<SubjectsController>(SubjectsController);
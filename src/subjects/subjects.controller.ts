@@ -22,23 +22,31 @@ import {
   ApiConflictResponse,
   ApiNotFoundResponse,
   ApiCreatedResponse,
+  ApiForbiddenResponse,
 } from '@nestjs/swagger';
 import { SubjectsService } from './subjects.service';
 import { CreateSubjectDto, UpdateSubjectDto, SubjectResponseDto } from './dto';
 import { JwtAuthGuard, RolesGuard } from '../auth/guards';
-import { Roles } from '../auth/decorators';
+import { Roles, CurrentUser } from '../auth/decorators';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
 import { UserRole } from '@prisma/client';
 
 /**
  * Subjects Controller
  * Handles all subject-related HTTP requests
+ * Teachers only see the assignments, teachers and classrooms of subjects
+ * through their own teaching assignments
  */
 @ApiTags('Subjects')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('subjects')
 export class SubjectsController {
-  constructor(private readonly subjectsService: SubjectsService) {}
+  constructor(
+    private readonly subjectsService: SubjectsService,
+    private readonly accessPolicy: AccessPolicyService,
+  ) {}
 
   /**
    * Create a new subject
@@ -132,7 +140,8 @@ export class SubjectsController {
    */
   @ApiOperation({
     summary: 'Get subject statistics',
-    description: 'Get detailed statistics for a specific subject including total students',
+    description:
+      'Get detailed statistics for a specific subject including total students. For teachers, only their own assignments are counted.',
   })
   @ApiParam({
     name: 'id',
@@ -155,10 +164,20 @@ export class SubjectsController {
   @ApiNotFoundResponse({
     description: 'Subject not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access subjects they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id/statistics')
-  getStatistics(@Param('id') id: string) {
-    return this.subjectsService.getStatistics(id);
+  async getStatistics(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.accessPolicy.assertSubjectAccess(user, id);
+    return this.subjectsService.getStatistics(
+      id,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -166,7 +185,8 @@ export class SubjectsController {
    */
   @ApiOperation({
     summary: 'Get subject teaching assignments',
-    description: 'Retrieve all teaching assignments for a specific subject',
+    description:
+      'Retrieve all teaching assignments for a specific subject. Teachers only see their own.',
   })
   @ApiParam({
     name: 'id',
@@ -180,10 +200,20 @@ export class SubjectsController {
   @ApiNotFoundResponse({
     description: 'Subject not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access subjects they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id/assignments')
-  getTeachingAssignments(@Param('id') id: string) {
-    return this.subjectsService.getTeachingAssignments(id);
+  async getTeachingAssignments(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.accessPolicy.assertSubjectAccess(user, id);
+    return this.subjectsService.getTeachingAssignments(
+      id,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -191,7 +221,8 @@ export class SubjectsController {
    */
   @ApiOperation({
     summary: 'Get teachers teaching this subject',
-    description: 'Retrieve all teachers who teach this subject',
+    description:
+      'Retrieve all teachers who teach this subject. Teachers only see themselves.',
   })
   @ApiParam({
     name: 'id',
@@ -205,10 +236,20 @@ export class SubjectsController {
   @ApiNotFoundResponse({
     description: 'Subject not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access subjects they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id/teachers')
-  getTeachers(@Param('id') id: string) {
-    return this.subjectsService.getTeachers(id);
+  async getTeachers(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.accessPolicy.assertSubjectAccess(user, id);
+    return this.subjectsService.getTeachers(
+      id,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -216,7 +257,8 @@ export class SubjectsController {
    */
   @ApiOperation({
     summary: 'Get classrooms for this subject',
-    description: 'Retrieve all classrooms where this subject is taught',
+    description:
+      'Retrieve all classrooms where this subject is taught. Teachers only see the classrooms they teach it in.',
   })
   @ApiParam({
     name: 'id',
@@ -230,10 +272,20 @@ export class SubjectsController {
   @ApiNotFoundResponse({
     description: 'Subject not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access subjects they teach',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id/classrooms')
-  getClassrooms(@Param('id') id: string) {
-    return this.subjectsService.getClassrooms(id);
+  async getClassrooms(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.accessPolicy.assertSubjectAccess(user, id);
+    return this.subjectsService.getClassrooms(
+      id,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -2,13 +2,14 @@ import { Module } from '@nestjs/common';
 import { SubjectsService } from './subjects.service';
 import { SubjectsController } from './subjects.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
 
 /**
  * Subjects Module
  * Handles subject/course management functionality
  */
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AuthModule],
   controllers: [SubjectsController],
   providers: [SubjectsService],
   exports: [SubjectsService],
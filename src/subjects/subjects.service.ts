@@ -5,6 +5,7 @@ import {
   BadRequestException,
   Logger,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateSubjectDto, UpdateSubjectDto, SubjectResponseDto } from './dto';
 
@@ -251,12 +252,17 @@ export class SubjectsService {
 
   /**
    * Get teaching assignments for a subject
+   * Only teaching assignments within the scope are included
    */
-  async getTeachingAssignments(subjectId: string) {
+  async getTeachingAssignments(
+    subjectId: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ) {
     const subject = await this.prisma.subject.findUnique({
       where: { id: subjectId },
       include: {
         teachingAssignments: {
+          where: scope,
           include: {
             teacher: {
               select: {
@@ -291,12 +297,17 @@ export class SubjectsService {
 
   /**
    * Get teachers teaching this subject
+   * Only teaching assignments within the scope are included
    */
-  async getTeachers(subjectId: string) {
+  async getTeachers(
+    subjectId: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ) {
     const subject = await this.prisma.subject.findUnique({
       where: { id: subjectId },
       include: {
         teachingAssignments: {
+          where: scope,
           include: {
             teacher: {
               select: {
@@ -326,12 +337,17 @@ export class SubjectsService {
 
   /**
    * Get classrooms where this subject is taught
+   * Only teaching assignments within the scope are included
    */
-  async getClassrooms(subjectId: string) {
+  async getClassrooms(
+    subjectId: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ) {
     const subject = await this.prisma.subject.findUnique({
       where: { id: subjectId },
       include: {
         teachingAssignments: {
+          where: scope,
           include: {
             classroom: {
               select: {
@@ -355,17 +371,22 @@ export class SubjectsService {
 
   /**
    * Get subject statistics
+   * Only teaching assignments within the scope are included
    */
-  async getStatistics(subjectId: string) {
+  async getStatistics(
+    subjectId: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ) {
     const subject = await this.prisma.subject.findUnique({
       where: { id: subjectId },
       include: {
         _count: {
           select: {
-            teachingAssignments: true,
+            teachingAssignments: { where: scope },
           },
         },
         teachingAssignments: {
+          where: scope,
           include: {
             classroom: {
               include: {
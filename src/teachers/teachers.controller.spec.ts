@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { TeachersController } from './teachers.controller';
 import { TeachersService } from './teachers.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
 
 describe('TeachersController', () => {
   let controller: TeachersController;
@@ -8,7 +9,10 @@ describe('TeachersController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [TeachersController],
-      providers: [TeachersService],
+      providers: [
+        TeachersService,
+        { provide: AccessPolicyService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<TeachersController>(TeachersController);
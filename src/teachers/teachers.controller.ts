@@ -20,11 +20,14 @@ import {
   ApiConflictResponse,
   ApiNotFoundResponse,
   ApiCreatedResponse,
+  ApiForbiddenResponse,
 } from '@nestjs/swagger';
 import { TeachersService } from './teachers.service';
 import { CreateTeacherDto, UpdateTeacherDto, TeacherResponseDto } from './dto';
 import { JwtAuthGuard, RolesGuard } from '../auth/guards';
-import { Roles } from '../auth/decorators';
+import { Roles, CurrentUser } from '../auth/decorators';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
 import { UserRole } from '@prisma/client';
 
 /**
@@ -36,7 +39,10 @@ import { UserRole } from '@prisma/client';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('teachers')
 export class TeachersController {
-  constructor(private readonly teachersService: TeachersService) {}
+  constructor(
+    private readonly teachersService: TeachersService,
+    private readonly accessPolicy: AccessPolicyService,
+  ) {}
 
   /**
    * Create a new teacher
@@ -133,11 +139,12 @@ export class TeachersController {
 
   /**
    * Get teacher's teaching assignments
-   * Admin and Teachers
+   * Admin and Teachers (their own only)
    */
   @ApiOperation({
     summary: 'Get teacher teaching assignments',
-    description: 'Retrieve all teaching assignments for a specific teacher',
+    description:
+      'Retrieve all teaching assignments for a specific teacher. Teachers can only list their own.',
   })
   @ApiParam({
     name: 'id',
@@ -169,9 +176,16 @@ export class TeachersController {
   @ApiNotFoundResponse({
     description: 'Teacher not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access their own teaching assignments',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id/assignments')
-  getTeachingAssignments(@Param('id') id: string) {
+  getTeachingAssignments(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    this.accessPolicy.assertTeacherOwns(user, id);
     return this.teachersService.getTeachingAssignments(id);
   }
 
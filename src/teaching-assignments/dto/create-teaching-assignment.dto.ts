@@ -1,5 +1,5 @@
-import { IsNotEmpty, IsUUID } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 /**
  * DTO for creating a new teaching assignment
@@ -29,5 +29,15 @@ export class CreateTeachingAssignmentDto {
   @IsUUID('4', { message: 'Classroom ID must be a valid UUID' })
   @IsNotEmpty({ message: 'Classroom ID is required' })
   classroomId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'When true, sessions are never opened automatically from the timetable and the teacher must open them',
+    default: false,
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'Require explicit opening must be a boolean' })
+  requireExplicitOpening?: boolean;
 }
 
@@ -79,6 +79,13 @@ export class TeachingAssignmentResponseDto {
   })
   classroomId: string;
 
+  @ApiProperty({
+    description:
+      'Whether sessions must be opened by the teacher instead of automatically from the timetable',
+    example: false,
+  })
+  requireExplicitOpening: boolean;
+
   @ApiProperty({
     description: 'Creation timestamp',
     example: '2025-12-29T10:00:00.000Z',
@@ -1,4 +1,4 @@
-import { IsOptional, IsUUID } from 'class-validator';
+import { IsBoolean, IsOptional, IsUUID } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 
 /**
@@ -29,5 +29,14 @@ export class UpdateTeachingAssignmentDto {
   @IsOptional()
   @IsUUID('4', { message: 'Classroom ID must be a valid UUID' })
   classroomId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'When true, sessions are never opened automatically from the timetable',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'Require explicit opening must be a boolean' })
+  requireExplicitOpening?: boolean;
 }
 
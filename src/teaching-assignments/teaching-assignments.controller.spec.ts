@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { TeachingAssignmentsController } from './teaching-assignments.controller';
 import { TeachingAssignmentsService } from './teaching-assignments.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
 
 describe('TeachingAssignmentsController', () => {
   let controller: TeachingAssignmentsController;
@@ -8,10 +10,16 @@ describe('TeachingAssignmentsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [TeachingAssignmentsController],
-      providers: [TeachingAssignmentsService],
+      providers: [
+        TeachingAssignmentsService,
+        { provide: PrismaService, useValue: {} },
+        { provide: AccessPolicyService, useValue: {} },
+      ],
     }).compile();
 
-    controller = module.get<TeachingAssignmentsController>(TeachingAssignmentsController);
+    controller = module.get<TeachingAssignmentsController>(
+      TeachingAssignmentsController,
+    );
   });
 
   it('should be defined', () => {
@@ -22,6 +22,7 @@ import {
   ApiConflictResponse,
   ApiNotFoundResponse,
   ApiCreatedResponse,
+  ApiForbiddenResponse,
 } from '@nestjs/swagger';
 import { TeachingAssignmentsService } from './teaching-assignments.service';
 import {
@@ -30,20 +31,26 @@ import {
   TeachingAssignmentResponseDto,
 } from './dto';
 import { JwtAuthGuard, RolesGuard } from '../auth/guards';
-import { Roles } from '../auth/decorators';
+import { Roles, CurrentUser } from '../auth/decorators';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import type { AuthenticatedUser } from '../auth/strategies';
 import { UserRole } from '@prisma/client';
 
 /**
  * Teaching Assignments Controller
  * Handles teacher-subject-classroom assignment relationships
  * Core business rule: One teacher teaches one subject to one classroom
+ * Teachers only see their own assignments
  */
 @ApiTags('Teaching Assignments')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('teaching-assignments')
 export class TeachingAssignmentsController {
-  constructor(private readonly teachingAssignmentsService: TeachingAssignmentsService) {}
+  constructor(
+    private readonly teachingAssignmentsService: TeachingAssignmentsService,
+    private readonly accessPolicy: AccessPolicyService,
+  ) {}
 
   /**
    * Create a new teaching assignment
@@ -76,7 +83,8 @@ export class TeachingAssignmentsController {
    */
   @ApiOperation({
     summary: 'Get all teaching assignments',
-    description: 'Retrieve all teaching assignments with optional filtering by teacher, subject, or classroom',
+    description:
+      'Retrieve all teaching assignments with optional filtering by teacher, subject, or classroom. Teachers only see their own assignments.',
   })
   @ApiQuery({
     name: 'teacherId',
@@ -104,11 +112,17 @@ export class TeachingAssignmentsController {
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get()
   findAll(
+    @CurrentUser() user: AuthenticatedUser,
     @Query('teacherId') teacherId?: string,
     @Query('subjectId') subjectId?: string,
     @Query('classroomId') classroomId?: string,
   ): Promise<TeachingAssignmentResponseDto[]> {
-    return this.teachingAssignmentsService.findAll(teacherId, subjectId, classroomId);
+    return this.teachingAssignmentsService.findAll(
+      teacherId,
+      subjectId,
+      classroomId,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -116,7 +130,7 @@ export class TeachingAssignmentsController {
    */
   @ApiOperation({
     summary: 'Get total assignment count',
-    description: 'Get the total number of teaching assignments',
+    description: 'Get the total number of teaching assignments visible to the caller',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -127,8 +141,10 @@ export class TeachingAssignmentsController {
   })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('count')
-  async count(): Promise<{ count: number }> {
-    const count = await this.teachingAssignmentsService.count();
+  async count(@CurrentUser() user: AuthenticatedUser): Promise<{ count: number }> {
+    const count = await this.teachingAssignmentsService.count(
+      this.accessPolicy.assignmentScope(user),
+    );
     return { count };
   }
 
@@ -154,8 +170,14 @@ export class TeachingAssignmentsController {
   })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('teacher/:teacherId')
-  findByTeacher(@Param('teacherId') teacherId: string): Promise<TeachingAssignmentResponseDto[]> {
-    return this.teachingAssignmentsService.findByTeacher(teacherId);
+  findByTeacher(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('teacherId') teacherId: string,
+  ): Promise<TeachingAssignmentResponseDto[]> {
+    return this.teachingAssignmentsService.findByTeacher(
+      teacherId,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -180,8 +202,14 @@ export class TeachingAssignmentsController {
   })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('subject/:subjectId')
-  findBySubject(@Param('subjectId') subjectId: string): Promise<TeachingAssignmentResponseDto[]> {
-    return this.teachingAssignmentsService.findBySubject(subjectId);
+  findBySubject(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('subjectId') subjectId: string,
+  ): Promise<TeachingAssignmentResponseDto[]> {
+    return this.teachingAssignmentsService.findBySubject(
+      subjectId,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -207,9 +235,13 @@ export class TeachingAssignmentsController {
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('classroom/:classroomId')
   findByClassroom(
+    @CurrentUser() user: AuthenticatedUser,
     @Param('classroomId') classroomId: string,
   ): Promise<TeachingAssignmentResponseDto[]> {
-    return this.teachingAssignmentsService.findByClassroom(classroomId);
+    return this.teachingAssignmentsService.findByClassroom(
+      classroomId,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -232,9 +264,13 @@ export class TeachingAssignmentsController {
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('department/:department')
   findByDepartment(
+    @CurrentUser() user: AuthenticatedUser,
     @Param('department') department: string,
   ): Promise<TeachingAssignmentResponseDto[]> {
-    return this.teachingAssignmentsService.findByDepartment(department);
+    return this.teachingAssignmentsService.findByDepartment(
+      department,
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -259,8 +295,14 @@ export class TeachingAssignmentsController {
   })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get('level/:level')
-  findByLevel(@Param('level') level: string): Promise<TeachingAssignmentResponseDto[]> {
-    return this.teachingAssignmentsService.findByLevel(parseInt(level, 10));
+  findByLevel(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('level') level: string,
+  ): Promise<TeachingAssignmentResponseDto[]> {
+    return this.teachingAssignmentsService.findByLevel(
+      parseInt(level, 10),
+      this.accessPolicy.assignmentScope(user),
+    );
   }
 
   /**
@@ -292,9 +334,16 @@ export class TeachingAssignmentsController {
   @ApiNotFoundResponse({
     description: 'Assignment not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access their own teaching assignments',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id/statistics')
-  getStatistics(@Param('id') id: string) {
+  async getStatistics(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.accessPolicy.assertAssignmentAccess(user, id);
     return this.teachingAssignmentsService.getStatistics(id);
   }
 
@@ -318,9 +367,16 @@ export class TeachingAssignmentsController {
   @ApiNotFoundResponse({
     description: 'Teaching assignment not found',
   })
+  @ApiForbiddenResponse({
+    description: 'Teachers can only access their own teaching assignments',
+  })
   @Roles(UserRole.ADMIN, UserRole.TEACHER)
   @Get(':id')
-  findOne(@Param('id') id: string): Promise<TeachingAssignmentResponseDto> {
+  async findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ): Promise<TeachingAssignmentResponseDto> {
+    await this.accessPolicy.assertAssignmentAccess(user, id);
     return this.teachingAssignmentsService.findOne(id);
   }
 
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { TeachingAssignmentsService } from './teaching-assignments.service';
 import { TeachingAssignmentsController } from './teaching-assignments.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
 
 /**
  * Teaching Assignments Module
@@ -9,7 +10,7 @@ import { PrismaModule } from '../prisma/prisma.module';
  * Implements the core business rule: One teacher teaches one subject to one classroom
  */
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AuthModule],
   controllers: [TeachingAssignmentsController],
   providers: [TeachingAssignmentsService],
   exports: [TeachingAssignmentsService],
@@ -1,15 +1,21 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { TeachingAssignmentsService } from './teaching-assignments.service';
+import { PrismaService } from '../prisma/prisma.service';
 
 describe('TeachingAssignmentsService', () => {
   let service: TeachingAssignmentsService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [TeachingAssignmentsService],
+      providers: [
+        TeachingAssignmentsService,
+        { provide: PrismaService, useValue: {} },
+      ],
     }).compile();
 
-    service = module.get<TeachingAssignmentsService>(TeachingAssignmentsService);
+    service = module.get<TeachingAssignmentsService>(
+      TeachingAssignmentsService,
+    );
   });
 
   it('should be defined', () => {
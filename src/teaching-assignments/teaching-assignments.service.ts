@@ -5,6 +5,7 @@ import {
   BadRequestException,
   Logger,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import {
   CreateTeachingAssignmentDto,
@@ -31,7 +32,7 @@ export class TeachingAssignmentsService {
   async create(
     createDto: CreateTeachingAssignmentDto,
   ): Promise<TeachingAssignmentResponseDto> {
-    const { teacherId, subjectId, classroomId } = createDto;
+    const { teacherId, subjectId, classroomId, requireExplicitOpening } = createDto;
 
     // Validate teacher exists
     const teacher = await this.prisma.teacher.findUnique({
@@ -83,6 +84,7 @@ export class TeachingAssignmentsService {
           teacherId,
           subjectId,
           classroomId,
+          requireExplicitOpening,
         },
         include: {
           teacher: {
@@ -126,11 +128,13 @@ export class TeachingAssignmentsService {
 
   /**
    * Find all teaching assignments with optional filtering
+   * The scope restricts the result to assignments the caller may see
    */
   async findAll(
     teacherId?: string,
     subjectId?: string,
     classroomId?: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
   ): Promise<TeachingAssignmentResponseDto[]> {
     const where: any = {};
 
@@ -139,7 +143,7 @@ export class TeachingAssignmentsService {
     if (classroomId) where.classroomId = classroomId;
 
     const assignments = await this.prisma.teachingAssignment.findMany({
-      where,
+      where: { AND: [where, scope] },
       include: {
         teacher: {
           select: {
@@ -241,7 +245,10 @@ export class TeachingAssignmentsService {
   /**
    * Get assignments by teacher
    */
-  async findByTeacher(teacherId: string): Promise<TeachingAssignmentResponseDto[]> {
+  async findByTeacher(
+    teacherId: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ): Promise<TeachingAssignmentResponseDto[]> {
     // Verify teacher exists
     const teacher = await this.prisma.teacher.findUnique({
       where: { id: teacherId },
@@ -251,13 +258,16 @@ export class TeachingAssignmentsService {
       throw new NotFoundException(`Teacher with ID ${teacherId} not found`);
     }
 
-    return this.findAll(teacherId);
+    return this.findAll(teacherId, undefined, undefined, scope);
   }
 
   /**
    * Get assignments by subject
    */
-  async findBySubject(subjectId: string): Promise<TeachingAssignmentResponseDto[]> {
+  async findBySubject(
+    subjectId: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ): Promise<TeachingAssignmentResponseDto[]> {
     // Verify subject exists
     const subject = await this.prisma.subject.findUnique({
       where: { id: subjectId },
@@ -267,13 +277,16 @@ export class TeachingAssignmentsService {
       throw new NotFoundException(`Subject with ID ${subjectId} not found`);
     }
 
-    return this.findAll(undefined, subjectId);
+    return this.findAll(undefined, subjectId, undefined, scope);
   }
 
   /**
    * Get assignments by classroom
    */
-  async findByClassroom(classroomId: string): Promise<TeachingAssignmentResponseDto[]> {
+  async findByClassroom(
+    classroomId: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ): Promise<TeachingAssignmentResponseDto[]> {
     // Verify classroom exists
     const classroom = await this.prisma.classroom.findUnique({
       where: { id: classroomId },
@@ -283,18 +296,19 @@ export class TeachingAssignmentsService {
       throw new NotFoundException(`Classroom with ID ${classroomId} not found`);
     }
 
-    return this.findAll(undefined, undefined, classroomId);
+    return this.findAll(undefined, undefined, classroomId, scope);
   }
 
   /**
    * Get assignments by department
    */
-  async findByDepartment(department: string): Promise<TeachingAssignmentResponseDto[]> {
+  async findByDepartment(
+    department: string,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ): Promise<TeachingAssignmentResponseDto[]> {
     const assignments = await this.prisma.teachingAssignment.findMany({
       where: {
-        classroom: {
-          department,
-        },
+        AND: [{ classroom: { department } }, scope],
       },
       include: {
         teacher: {
@@ -331,16 +345,17 @@ export class TeachingAssignmentsService {
   /**
    * Get assignments by level
    */
-  async findByLevel(level: number): Promise<TeachingAssignmentResponseDto[]> {
+  async findByLevel(
+    level: number,
+    scope: Prisma.TeachingAssignmentWhereInput = {},
+  ): Promise<TeachingAssignmentResponseDto[]> {
     if (level < 1 || level > 5) {
       throw new BadRequestException('Level must be between 1 and 5');
     }
 
     const assignments = await this.prisma.teachingAssignment.findMany({
       where: {
-        classroom: {
-          level,
-        },
+        AND: [{ classroom: { level } }, scope],
       },
       include: {
         teacher: {
@@ -569,8 +584,10 @@ export class TeachingAssignmentsService {
   /**
    * Get total assignment count
    */
-  async count(): Promise<number> {
-    return this.prisma.teachingAssignment.count();
+  async count(scope: Prisma.TeachingAssignmentWhereInput = {}): Promise<number> {
+    return this.prisma.teachingAssignment.count({
+      where: scope,
+    });
   }
 
   /**
@@ -0,0 +1,88 @@
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Format of slot times: 24-hour HH:mm
+ */
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * DTO for creating a weekly timetable slot
+ */
+export class CreateTimetableSlotDto {
+  @ApiProperty({
+    description: 'Teaching assignment taught during the slot',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID('4', { message: 'Teaching assignment ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Teaching assignment ID is required' })
+  teachingAssignmentId: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Reader collecting scans, installed in the assignment's classroom",
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Device ID must be a valid UUID' })
+  deviceId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Room label',
+    example: 'Bloc E - E204',
+  })
+  @IsOptional()
+  @IsString()
+  room?: string;
+
+  @ApiProperty({
+    description: 'Day of the week (1 = Monday ... 7 = Sunday)',
+    example: 1,
+    minimum: 1,
+    maximum: 7,
+  })
+  @IsInt({ message: 'Day of week must be an integer' })
+  @Min(1, { message: 'Day of week must be between 1 and 7' })
+  @Max(7, { message: 'Day of week must be between 1 and 7' })
+  dayOfWeek: number;
+
+  @ApiProperty({
+    description: 'Start time (HH:mm, local time)',
+    example: '08:30',
+  })
+  @Matches(TIME_OF_DAY_PATTERN, {
+    message: 'Start time must be in HH:mm format',
+  })
+  startTime: string;
+
+  @ApiProperty({
+    description: 'End time (HH:mm, local time)',
+    example: '10:00',
+  })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'End time must be in HH:mm format' })
+  endTime: string;
+
+  @ApiProperty({
+    description: 'First day the slot applies (semester start)',
+    example: '2026-09-14',
+  })
+  @IsDateString({}, { message: 'Valid from must be a valid date' })
+  validFrom: string;
+
+  @ApiProperty({
+    description: 'Last day the slot applies (semester end)',
+    example: '2027-01-15',
+  })
+  @IsDateString({}, { message: 'Valid until must be a valid date' })
+  validUntil: string;
+}
@@ -0,0 +1,49 @@
+import { IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Query filters for listing timetable slots
+ */
+export class FindTimetableSlotsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by teaching assignment UUID',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Teaching assignment ID must be a valid UUID' })
+  teachingAssignmentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by teacher UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Teacher ID must be a valid UUID' })
+  teacherId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by classroom UUID',
+    example: '770e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Classroom ID must be a valid UUID' })
+  classroomId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Device ID must be a valid UUID' })
+  deviceId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by day of the week (1 = Monday ... 7 = Sunday)',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Day of week must be an integer' })
+  @Min(1, { message: 'Day of week must be between 1 and 7' })
+  @Max(7, { message: 'Day of week must be between 1 and 7' })
+  dayOfWeek?: number;
+}
@@ -0,0 +1,4 @@
+export * from './create-timetable-slot.dto';
+export * from './update-timetable-slot.dto';
+export * from './find-timetable-slots-query.dto';
+export * from './timetable-slot-response.dto';
@@ -0,0 +1,149 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Teaching assignment information in timetable slot response
+ */
+export class TimetableAssignmentDto {
+  @ApiProperty({ example: '880e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({
+    example: {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      fullName: 'Dr. Mohamed Salah',
+    },
+  })
+  teacher: {
+    id: string;
+    fullName: string;
+  };
+
+  @ApiProperty({
+    example: {
+      id: '660e8400-e29b-41d4-a716-446655440000',
+      name: 'Flutter Development',
+      code: 'FLUT301',
+    },
+  })
+  subject: {
+    id: string;
+    name: string;
+    code: string;
+  };
+
+  @ApiProperty({
+    example: { id: '770e8400-e29b-41d4-a716-446655440000', name: 'GL2-A' },
+  })
+  classroom: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Device information in timetable slot response
+ */
+export class TimetableDeviceDto {
+  @ApiProperty({ example: '990e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'ESP32-A1B2C3D4' })
+  deviceUid: string;
+}
+
+/**
+ * Timetable slot response DTO
+ */
+export class TimetableSlotResponseDto {
+  @ApiProperty({
+    description: 'Slot unique identifier',
+    example: 'dd0e8400-e29b-41d4-a716-446655440000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Teaching assignment ID',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  teachingAssignmentId: string;
+
+  @ApiProperty({
+    description: 'Device ID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+  })
+  deviceId: string | null;
+
+  @ApiProperty({
+    description: 'Room label',
+    example: 'Bloc E - E204',
+    nullable: true,
+  })
+  room: string | null;
+
+  @ApiProperty({
+    description: 'Day of the week (1 = Monday ... 7 = Sunday)',
+    example: 1,
+  })
+  dayOfWeek: number;
+
+  @ApiProperty({ description: 'Start time (HH:mm)', example: '08:30' })
+  startTime: string;
+
+  @ApiProperty({ description: 'End time (HH:mm)', example: '10:00' })
+  endTime: string;
+
+  @ApiProperty({
+    description: 'First day the slot applies',
+    example: '2026-09-14T00:00:00.000Z',
+  })
+  validFrom: Date;
+
+  @ApiProperty({
+    description: 'Last day the slot applies',
+    example: '2027-01-15T00:00:00.000Z',
+  })
+  validUntil: Date;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2026-09-01T10:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2026-09-01T10:00:00.000Z',
+  })
+  updatedAt: Date;
+
+  @ApiPropertyOptional({
+    description: 'Teaching assignment details',
+    type: TimetableAssignmentDto,
+  })
+  teachingAssignment?: TimetableAssignmentDto;
+
+  @ApiPropertyOptional({
+    description: 'Device details',
+    type: TimetableDeviceDto,
+    nullable: true,
+  })
+  device?: TimetableDeviceDto | null;
+}
+
+/**
+ * Slot scheduled at a given moment, with its concrete start and end
+ */
+export class ScheduledSlotResponseDto extends TimetableSlotResponseDto {
+  @ApiProperty({
+    description: 'Start of the slot occurrence',
+    example: '2026-10-19T07:30:00.000Z',
+  })
+  startsAt: Date;
+
+  @ApiProperty({
+    description: 'End of the slot occurrence',
+    example: '2026-10-19T09:00:00.000Z',
+  })
+  endsAt: Date;
+}
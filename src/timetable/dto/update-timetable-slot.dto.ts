@@ -0,0 +1,88 @@
+import {
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { TIME_OF_DAY_PATTERN } from './create-timetable-slot.dto';
+
+/**
+ * DTO for updating a timetable slot
+ * All fields are optional
+ */
+export class UpdateTimetableSlotDto {
+  @ApiPropertyOptional({
+    description: 'Teaching assignment UUID',
+    example: '880e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Teaching assignment ID must be a valid UUID' })
+  teachingAssignmentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Device UUID (null to unlink the device)',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Device ID must be a valid UUID' })
+  deviceId?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Room label (null to clear it)',
+    example: 'Bloc E - E204',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  room?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Day of the week (1 = Monday ... 7 = Sunday)',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Day of week must be an integer' })
+  @Min(1, { message: 'Day of week must be between 1 and 7' })
+  @Max(7, { message: 'Day of week must be between 1 and 7' })
+  dayOfWeek?: number;
+
+  @ApiPropertyOptional({
+    description: 'Start time (HH:mm, local time)',
+    example: '08:30',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, {
+    message: 'Start time must be in HH:mm format',
+  })
+  startTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'End time (HH:mm, local time)',
+    example: '10:00',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'End time must be in HH:mm format' })
+  endTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'First day the slot applies',
+    example: '2026-09-14',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Valid from must be a valid date' })
+  validFrom?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last day the slot applies',
+    example: '2027-01-15',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Valid until must be a valid date' })
+  validUntil?: string;
+}
@@ -0,0 +1,26 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TimetableController } from './timetable.controller';
+import { TimetableService } from './timetable.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('TimetableController', () => {
+  let controller: TimetableController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TimetableController],
+      providers: [
+        TimetableService,
+        { provide: PrismaService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<TimetableController>(TimetableController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiNotFoundResponse,
+  ApiCreatedResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { TimetableService } from './timetable.service';
+import {
+  CreateTimetableSlotDto,
+  UpdateTimetableSlotDto,
+  FindTimetableSlotsQueryDto,
+  TimetableSlotResponseDto,
+  ScheduledSlotResponseDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles } from '../auth/decorators';
+
+/**
+ * Timetable Controller
+ * Handles weekly timetable slot HTTP requests
+ */
+@ApiTags('Timetable')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('timetable')
+export class TimetableController {
+  constructor(private readonly timetableService: TimetableService) {}
+
+  /**
+   * Create a timetable slot
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Create a timetable slot',
+    description:
+      'Schedule a teaching assignment on a weekly slot within a semester. Slots cannot overlap for the same teacher, classroom or device.',
+  })
+  @ApiCreatedResponse({
+    description: 'Timetable slot created successfully',
+    type: TimetableSlotResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Invalid input, referenced entities not found or device in another classroom',
+  })
+  @ApiConflictResponse({
+    description:
+      'Slot overlaps another slot of the same teacher, classroom or device',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post('slots')
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @Body() createDto: CreateTimetableSlotDto,
+  ): Promise<TimetableSlotResponseDto> {
+    return this.timetableService.create(createDto);
+  }
+
+  /**
+   * Get all timetable slots
+   * Teachers and Admins
+   */
+  @ApiOperation({
+    summary: 'Get timetable slots',
+    description:
+      'Retrieve timetable slots with optional filtering by assignment, teacher, classroom, device or day',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of timetable slots',
+    type: [TimetableSlotResponseDto],
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('slots')
+  findAll(
+    @Query() query: FindTimetableSlotsQueryDto,
+  ): Promise<TimetableSlotResponseDto[]> {
+    return this.timetableService.findAll(query);
+  }
+
+  /**
+   * Get the slot scheduled now on a device
+   * Teachers and Admins
+   */
+  @ApiOperation({
+    summary: 'Get slot scheduled now on a device',
+    description:
+      'Return the timetable slot currently scheduled on a device, or null when nothing is scheduled',
+  })
+  @ApiParam({
+    name: 'deviceId',
+    description: 'Device UUID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Slot scheduled now, or null',
+    type: ScheduledSlotResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Device not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('devices/:deviceId/now')
+  findScheduledNow(
+    @Param('deviceId') deviceId: string,
+  ): Promise<ScheduledSlotResponseDto | null> {
+    return this.timetableService.findScheduledNow(deviceId);
+  }
+
+  /**
+   * Get a timetable slot by ID
+   * Teachers and Admins
+   */
+  @ApiOperation({
+    summary: 'Get timetable slot by ID',
+    description: 'Retrieve a single timetable slot',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Timetable slot UUID',
+    example: 'dd0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Timetable slot found',
+    type: TimetableSlotResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Timetable slot not found',
+  })
+  @Roles(UserRole.ADMIN, UserRole.TEACHER)
+  @Get('slots/:id')
+  findOne(@Param('id') id: string): Promise<TimetableSlotResponseDto> {
+    return this.timetableService.findOne(id);
+  }
+
+  /**
+   * Update a timetable slot
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Update timetable slot',
+    description: 'Update a timetable slot. Overlap rules are checked again.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Timetable slot UUID',
+    example: 'dd0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Timetable slot updated successfully',
+    type: TimetableSlotResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Timetable slot not found',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input data or referenced entities not found',
+  })
+  @ApiConflictResponse({
+    description:
+      'Slot overlaps another slot of the same teacher, classroom or device',
+  })
+  @Roles(UserRole.ADMIN)
+  @Patch('slots/:id')
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateTimetableSlotDto,
+  ): Promise<TimetableSlotResponseDto> {
+    return this.timetableService.update(id, updateDto);
+  }
+
+  /**
+   * Delete a timetable slot
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Delete a timetable slot',
+    description: 'Remove a slot from the timetable',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Timetable slot UUID',
+    example: 'dd0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Timetable slot deleted successfully',
+  })
+  @ApiNotFoundResponse({
+    description: 'Timetable slot not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Delete('slots/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.timetableService.remove(id);
+  }
+}
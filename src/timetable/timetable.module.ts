@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TimetableService } from './timetable.service';
+import { TimetableController } from './timetable.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+/**
+ * Timetable Module
+ * Handles the weekly timetable of teaching assignments
+ */
+@Module({
+  imports: [PrismaModule],
+  controllers: [TimetableController],
+  providers: [TimetableService],
+  exports: [TimetableService],
+})
+export class TimetableModule {}
@@ -0,0 +1,217 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { TimetableService } from './timetable.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateTimetableSlotDto } from './dto';
+
+describe('TimetableService', () => {
+  let service: TimetableService;
+
+  const assignment = {
+    teacherId: 'teacher-1',
+    classroomId: 'classroom-1',
+  };
+  const device = {
+    deviceUid: 'RFID-GL2A-001',
+    classroomId: 'classroom-1',
+  };
+
+  const prisma = {
+    teachingAssignment: { findUnique: jest.fn() },
+    ioTDevice: { findUnique: jest.fn() },
+    timetableSlot: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const createDto: CreateTimetableSlotDto = {
+    teachingAssignmentId: 'assignment-1',
+    deviceId: 'device-1',
+    dayOfWeek: 1,
+    startTime: '08:30',
+    endTime: '10:00',
+    validFrom: '2026-09-14',
+    validUntil: '2027-01-15',
+  };
+
+  /**
+   * Slot found overlapping the one being saved
+   */
+  const conflict = (
+    teachingAssignment: { teacherId: string; classroomId: string },
+    deviceId: string | null = null,
+  ) => ({
+    id: 'slot-2',
+    deviceId,
+    dayOfWeek: 1,
+    startTime: '09:00',
+    endTime: '10:30',
+    teachingAssignment: { ...teachingAssignment, subject: { code: 'WEB' } },
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.teachingAssignment.findUnique.mockResolvedValue(assignment);
+    prisma.ioTDevice.findUnique.mockResolvedValue(device);
+    prisma.timetableSlot.findMany.mockResolvedValue([]);
+    prisma.timetableSlot.create.mockImplementation(
+      ({ data }: { data: object }) =>
+        Promise.resolve({
+          id: 'slot-1',
+          ...data,
+          teachingAssignment: {
+            subject: { code: 'ALGO' },
+            classroom: { name: 'GL2A' },
+          },
+        }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TimetableService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<TimetableService>(TimetableService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('overlap detection', () => {
+    it('looks for overlapping slots of the same teacher, classroom or device', async () => {
+      await service.create(createDto);
+
+      expect(prisma.timetableSlot.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            dayOfWeek: 1,
+            startTime: { lt: '10:00' },
+            endTime: { gt: '08:30' },
+            validFrom: { lte: new Date('2027-01-15') },
+            validUntil: { gte: new Date('2026-09-14') },
+            OR: [
+              { teachingAssignment: { teacherId: 'teacher-1' } },
+              { teachingAssignment: { classroomId: 'classroom-1' } },
+              { deviceId: 'device-1' },
+            ],
+          },
+        }),
+      );
+      expect(prisma.timetableSlot.create).toHaveBeenCalled();
+    });
+
+    it('ignores devices when the slot has none', async () => {
+      await service.create({ ...createDto, deviceId: undefined });
+
+      const [{ where }] = prisma.timetableSlot.findMany.mock.calls[0] as [
+        { where: { OR: object[] } },
+      ];
+      expect(where.OR).toEqual([
+        { teachingAssignment: { teacherId: 'teacher-1' } },
+        { teachingAssignment: { classroomId: 'classroom-1' } },
+      ]);
+    });
+
+    it('rejects a slot overlapping the same teacher', async () => {
+      prisma.timetableSlot.findMany.mockResolvedValue([
+        conflict({ teacherId: 'teacher-1', classroomId: 'classroom-2' }),
+      ]);
+
+      await expect(service.create(createDto)).rejects.toThrow(
+        new ConflictException(
+          'Slot overlaps WEB (Mon 09:00-10:30) for the same teacher',
+        ),
+      );
+      expect(prisma.timetableSlot.create).not.toHaveBeenCalled();
+    });
+
+    it('names every shared resource of the conflicting slot', async () => {
+      prisma.timetableSlot.findMany.mockResolvedValue([
+        conflict(
+          { teacherId: 'teacher-2', classroomId: 'classroom-1' },
+          'device-1',
+        ),
+      ]);
+
+      await expect(service.create(createDto)).rejects.toThrow(
+        'for the same classroom, device',
+      );
+    });
+
+    it('excludes the slot itself when updating', async () => {
+      prisma.timetableSlot.findUnique.mockResolvedValue({
+        id: 'slot-1',
+        ...createDto,
+        room: null,
+        validFrom: new Date(createDto.validFrom),
+        validUntil: new Date(createDto.validUntil),
+      });
+
+      await service.update('slot-1', { endTime: '11:00' });
+
+      expect(prisma.timetableSlot.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: { not: 'slot-1' },
+            startTime: { lt: '11:00' },
+            endTime: { gt: '08:30' },
+          }) as object,
+        }),
+      );
+    });
+
+    it('rejects a start time that is not before the end time', async () => {
+      await expect(
+        service.create({ ...createDto, startTime: '10:00' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.timetableSlot.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    beforeEach(() => {
+      prisma.timetableSlot.findUnique.mockResolvedValue({
+        id: 'slot-1',
+        ...createDto,
+        room: 'Bloc E - E204',
+        validFrom: new Date(createDto.validFrom),
+        validUntil: new Date(createDto.validUntil),
+      });
+    });
+
+    it('clears the device and room when set to null', async () => {
+      await service.update('slot-1', { deviceId: null, room: null });
+
+      expect(prisma.timetableSlot.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            deviceId: null,
+            room: null,
+          }) as object,
+        }),
+      );
+    });
+
+    it('keeps the device and room when omitted', async () => {
+      await service.update('slot-1', { startTime: '08:00' });
+
+      expect(prisma.timetableSlot.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            deviceId: 'device-1',
+            room: 'Bloc E - E204',
+            startTime: '08:00',
+          }) as object,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,487 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateTimetableSlotDto,
+  UpdateTimetableSlotDto,
+  FindTimetableSlotsQueryDto,
+  TimetableSlotResponseDto,
+  ScheduledSlotResponseDto,
+} from './dto';
+
+/**
+ * Local calendar position of an instant in the timetable time zone
+ */
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number; // 1 = Monday ... 7 = Sunday
+  time: string; // HH:mm
+}
+
+/**
+ * Timetable Service
+ * Handles recurring weekly slots of teaching assignments
+ * Core business rule: a teacher, a classroom and a device can only be in one
+ * slot at a time
+ */
+@Injectable()
+export class TimetableService {
+  private readonly logger = new Logger(TimetableService.name);
+  private readonly DEFAULT_TIMEZONE = 'Africa/Tunis';
+  private readonly WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+  private readonly slotInclude = {
+    teachingAssignment: {
+      select: {
+        id: true,
+        teacher: {
+          select: {
+            id: true,
+            fullName: true,
+          },
+        },
+        subject: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        classroom: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    },
+    device: {
+      select: {
+        id: true,
+        deviceUid: true,
+      },
+    },
+  } as const;
+
+  private readonly timeZone: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.timeZone =
+      this.configService.get<string>('TIMETABLE_TIMEZONE') ||
+      this.DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Create a timetable slot
+   * Rejects slots overlapping another slot of the same teacher, classroom or device
+   */
+  async create(
+    createDto: CreateTimetableSlotDto,
+  ): Promise<TimetableSlotResponseDto> {
+    const slot = {
+      teachingAssignmentId: createDto.teachingAssignmentId,
+      deviceId: createDto.deviceId ?? null,
+      room: createDto.room ?? null,
+      dayOfWeek: createDto.dayOfWeek,
+      startTime: createDto.startTime,
+      endTime: createDto.endTime,
+      validFrom: new Date(createDto.validFrom),
+      validUntil: new Date(createDto.validUntil),
+    };
+
+    await this.validateSlot(slot);
+
+    const createdSlot = await this.prisma.timetableSlot.create({
+      data: slot,
+      include: this.slotInclude,
+    });
+
+    this.logger.log(
+      `Timetable slot created: ${createdSlot.teachingAssignment.subject.code} → ${createdSlot.teachingAssignment.classroom.name} (${this.describe(createdSlot)})`,
+    );
+    return createdSlot;
+  }
+
+  /**
+   * Find timetable slots with optional filtering
+   */
+  async findAll(
+    query: FindTimetableSlotsQueryDto,
+  ): Promise<TimetableSlotResponseDto[]> {
+    const {
+      teachingAssignmentId,
+      teacherId,
+      classroomId,
+      deviceId,
+      dayOfWeek,
+    } = query;
+    const where: Prisma.TimetableSlotWhereInput = {};
+
+    if (teachingAssignmentId) where.teachingAssignmentId = teachingAssignmentId;
+    if (deviceId) where.deviceId = deviceId;
+    if (dayOfWeek) where.dayOfWeek = dayOfWeek;
+    if (teacherId || classroomId) {
+      where.teachingAssignment = {
+        ...(teacherId && { teacherId }),
+        ...(classroomId && { classroomId }),
+      };
+    }
+
+    return this.prisma.timetableSlot.findMany({
+      where,
+      include: this.slotInclude,
+      orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+    });
+  }
+
+  /**
+   * Find a timetable slot by ID
+   */
+  async findOne(id: string): Promise<TimetableSlotResponseDto> {
+    const slot = await this.prisma.timetableSlot.findUnique({
+      where: { id },
+      include: this.slotInclude,
+    });
+
+    if (!slot) {
+      throw new NotFoundException(`Timetable slot with ID ${id} not found`);
+    }
+
+    return slot;
+  }
+
+  /**
+   * Update a timetable slot
+   */
+  async update(
+    id: string,
+    updateDto: UpdateTimetableSlotDto,
+  ): Promise<TimetableSlotResponseDto> {
+    const existingSlot = await this.prisma.timetableSlot.findUnique({
+      where: { id },
+    });
+
+    if (!existingSlot) {
+      throw new NotFoundException(`Timetable slot with ID ${id} not found`);
+    }
+
+    const slot = {
+      teachingAssignmentId:
+        updateDto.teachingAssignmentId ?? existingSlot.teachingAssignmentId,
+      // Null clears the device or room, undefined keeps them
+      deviceId:
+        updateDto.deviceId !== undefined
+          ? updateDto.deviceId
+          : existingSlot.deviceId,
+      room: updateDto.room !== undefined ? updateDto.room : existingSlot.room,
+      dayOfWeek: updateDto.dayOfWeek ?? existingSlot.dayOfWeek,
+      startTime: updateDto.startTime ?? existingSlot.startTime,
+      endTime: updateDto.endTime ?? existingSlot.endTime,
+      validFrom: updateDto.validFrom
+        ? new Date(updateDto.validFrom)
+        : existingSlot.validFrom,
+      validUntil: updateDto.validUntil
+        ? new Date(updateDto.validUntil)
+        : existingSlot.validUntil,
+    };
+
+    await this.validateSlot(slot, id);
+
+    const updatedSlot = await this.prisma.timetableSlot.update({
+      where: { id },
+      data: slot,
+      include: this.slotInclude,
+    });
+
+    this.logger.log(`Timetable slot updated successfully: ${id}`);
+    return updatedSlot;
+  }
+
+  /**
+   * Delete a timetable slot
+   */
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+
+    await this.prisma.timetableSlot.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Timetable slot deleted successfully: ${id}`);
+  }
+
+  /**
+   * Get the slot scheduled right now on a device
+   */
+  async findScheduledNow(
+    deviceId: string,
+  ): Promise<ScheduledSlotResponseDto | null> {
+    const device = await this.prisma.ioTDevice.findUnique({
+      where: { id: deviceId },
+      select: { id: true },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device with ID ${deviceId} not found`);
+    }
+
+    return this.findSlotAt(deviceId, new Date());
+  }
+
+  /**
+   * Find the slot scheduled on a device at a given instant
+   */
+  async findSlotAt(
+    deviceId: string,
+    at: Date,
+  ): Promise<ScheduledSlotResponseDto | null> {
+    const local = this.toLocalTime(at);
+
+    const slot = await this.prisma.timetableSlot.findFirst({
+      where: {
+        deviceId,
+        dayOfWeek: local.dayOfWeek,
+        startTime: { lte: local.time },
+        endTime: { gt: local.time },
+        validFrom: { lte: new Date(local.date) },
+        validUntil: { gte: new Date(local.date) },
+      },
+      include: this.slotInclude,
+      orderBy: { startTime: 'desc' },
+    });
+
+    if (!slot) {
+      return null;
+    }
+
+    return {
+      ...slot,
+      startsAt: this.toInstant(local.date, slot.startTime),
+      endsAt: this.toInstant(local.date, slot.endTime),
+    };
+  }
+
+  /**
+   * Expand weekly slots into dated occurrences overlapping a time range
+   * Occurrences are sorted by start time
+   */
+  async findOccurrences(
+    where: Prisma.TimetableSlotWhereInput,
+    from: Date,
+    to: Date,
+  ): Promise<ScheduledSlotResponseDto[]> {
+    const first = this.toLocalTime(from);
+    const lastDate = this.toLocalTime(to).date;
+
+    const slots = await this.prisma.timetableSlot.findMany({
+      where: {
+        ...where,
+        validFrom: { lte: new Date(lastDate) },
+        validUntil: { gte: new Date(first.date) },
+      },
+      include: this.slotInclude,
+    });
+
+    const occurrences: ScheduledSlotResponseDto[] = [];
+    let date = first.date;
+    let dayOfWeek = first.dayOfWeek;
+
+    while (date <= lastDate) {
+      const day = new Date(date);
+
+      for (const slot of slots) {
+        if (
+          slot.dayOfWeek !== dayOfWeek ||
+          slot.validFrom > day ||
+          slot.validUntil < day
+        ) {
+          continue;
+        }
+
+        const startsAt = this.toInstant(date, slot.startTime);
+        const endsAt = this.toInstant(date, slot.endTime);
+
+        if (endsAt > from && startsAt < to) {
+          occurrences.push({ ...slot, startsAt, endsAt });
+        }
+      }
+
+      date = new Date(day.getTime() + 86_400_000).toISOString().slice(0, 10);
+      dayOfWeek = (dayOfWeek % 7) + 1;
+    }
+
+    return occurrences.sort(
+      (a, b) => a.startsAt.getTime() - b.startsAt.getTime(),
+    );
+  }
+
+  /**
+   * Position of an instant in the timetable time zone
+   */
+  toLocalTime(at: Date): LocalTime {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timeZone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      parts.find((p) => p.type === type)?.value ?? '';
+
+    return {
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+      dayOfWeek: this.WEEKDAYS.indexOf(part('weekday')) + 1,
+      time: `${part('hour')}:${part('minute')}`,
+    };
+  }
+
+  /**
+   * Instant of a local date and HH:mm time in the timetable time zone
+   */
+  toInstant(date: string, time: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+    // Shift by the zone offset observed at that wall-clock time
+    const local = this.toLocalTime(new Date(wallClock));
+    const [localYear, localMonth, localDay] = local.date.split('-').map(Number);
+    const [localHours, localMinutes] = local.time.split(':').map(Number);
+    const offset =
+      Date.UTC(localYear, localMonth - 1, localDay, localHours, localMinutes) -
+      wallClock;
+
+    return new Date(wallClock - offset);
+  }
+
+  /**
+   * Validate time ranges, references and overlaps of a slot
+   */
+  private async validateSlot(
+    slot: {
+      teachingAssignmentId: string;
+      deviceId: string | null;
+      dayOfWeek: number;
+      startTime: string;
+      endTime: string;
+      validFrom: Date;
+      validUntil: Date;
+    },
+    excludeId?: string,
+  ): Promise<void> {
+    if (slot.startTime >= slot.endTime) {
+      throw new BadRequestException('Start time must be before end time');
+    }
+
+    if (slot.validFrom > slot.validUntil) {
+      throw new BadRequestException(
+        'Valid from must be on or before valid until',
+      );
+    }
+
+    const assignment = await this.prisma.teachingAssignment.findUnique({
+      where: { id: slot.teachingAssignmentId },
+      select: {
+        teacherId: true,
+        classroomId: true,
+      },
+    });
+
+    if (!assignment) {
+      throw new BadRequestException(
+        `Teaching assignment with ID ${slot.teachingAssignmentId} not found`,
+      );
+    }
+
+    if (slot.deviceId) {
+      const device = await this.prisma.ioTDevice.findUnique({
+        where: { id: slot.deviceId },
+        select: {
+          deviceUid: true,
+          classroomId: true,
+        },
+      });
+
+      if (!device) {
+        throw new BadRequestException(
+          `Device with ID ${slot.deviceId} not found`,
+        );
+      }
+
+      if (device.classroomId !== assignment.classroomId) {
+        throw new BadRequestException(
+          `Device ${device.deviceUid} is not installed in the assignment's classroom`,
+        );
+      }
+    }
+
+    const overlapping = await this.prisma.timetableSlot.findMany({
+      where: {
+        ...(excludeId && { id: { not: excludeId } }),
+        dayOfWeek: slot.dayOfWeek,
+        startTime: { lt: slot.endTime },
+        endTime: { gt: slot.startTime },
+        validFrom: { lte: slot.validUntil },
+        validUntil: { gte: slot.validFrom },
+        OR: [
+          { teachingAssignment: { teacherId: assignment.teacherId } },
+          { teachingAssignment: { classroomId: assignment.classroomId } },
+          ...(slot.deviceId ? [{ deviceId: slot.deviceId }] : []),
+        ],
+      },
+      include: {
+        teachingAssignment: {
+          select: {
+            teacherId: true,
+            classroomId: true,
+            subject: {
+              select: {
+                code: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (overlapping.length > 0) {
+      const [conflict] = overlapping;
+      const reasons = [
+        conflict.teachingAssignment.teacherId === assignment.teacherId &&
+          'teacher',
+        conflict.teachingAssignment.classroomId === assignment.classroomId &&
+          'classroom',
+        slot.deviceId && conflict.deviceId === slot.deviceId && 'device',
+      ].filter(Boolean);
+
+      throw new ConflictException(
+        `Slot overlaps ${conflict.teachingAssignment.subject.code} (${this.describe(conflict)}) for the same ${reasons.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Short human-readable description of a slot
+   */
+  private describe(slot: {
+    dayOfWeek: number;
+    startTime: string;
+    endTime: string;
+  }): string {
+    return `${this.WEEKDAYS[slot.dayOfWeek - 1]} ${slot.startTime}-${slot.endTime}`;
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Events a webhook subscription can receive
+ */
+export enum WebhookEventType {
+  SESSION_OPENED = 'session.opened',
+  SESSION_CLOSED = 'session.closed',
+  ATTENDANCE_RECORDED = 'attendance.recorded',
+  STUDENT_ELIMINATED = 'student.eliminated',
+}
+
+/**
+ * DTO for creating a webhook subscription
+ */
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty({
+    description:
+      'HTTP(S) endpoint receiving the events as JSON POST requests. Hosts resolving to loopback, link-local or private addresses are refused unless listed in WEBHOOK_ALLOWED_HOSTS.',
+    example: 'https://erp.esprit.tn/hooks/attendance',
+  })
+  @IsUrl(
+    {
+      protocols: ['http', 'https'],
+      require_protocol: true,
+      require_tld: false,
+    },
+    { message: 'URL must be a valid http(s) URL' },
+  )
+  @IsNotEmpty({ message: 'URL is required' })
+  url: string;
+
+  @ApiProperty({
+    description: 'Events delivered to the endpoint',
+    enum: WebhookEventType,
+    isArray: true,
+    example: [WebhookEventType.SESSION_CLOSED],
+  })
+  @IsArray({ message: 'Events must be an array' })
+  @ArrayNotEmpty({ message: 'At least one event is required' })
+  @ArrayUnique({ message: 'Events must be unique' })
+  @IsEnum(WebhookEventType, {
+    each: true,
+    message: `Events must be among: ${Object.values(WebhookEventType).join(', ')}`,
+  })
+  events: WebhookEventType[];
+
+  @ApiPropertyOptional({
+    description:
+      'Key used to sign deliveries (HMAC-SHA256). Generated when omitted; only returned on creation.',
+    example: 'b6f1c9d2e8a74f3e9c0d5a1b7e2f4c6a',
+    minLength: 16,
+  })
+  @IsOptional()
+  @IsString({ message: 'Secret must be a string' })
+  @MinLength(16, { message: 'Secret must be at least 16 characters' })
+  @MaxLength(256, { message: 'Secret must not exceed 256 characters' })
+  secret?: string;
+
+  @ApiPropertyOptional({
+    description: 'What the endpoint is used for',
+    example: 'School ERP',
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(200, { message: 'Description must not exceed 200 characters' })
+  description?: string;
+}
@@ -0,0 +1,35 @@
+import { IsEnum, IsOptional, IsString, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookDeliveryStatus } from '@prisma/client';
+
+/**
+ * Query filters for the webhook delivery log
+ */
+export class FindWebhookDeliveriesQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by subscription UUID',
+    example: 'ff0e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Subscription ID must be a valid UUID' })
+  subscriptionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by delivery status',
+    enum: WebhookDeliveryStatus,
+    example: WebhookDeliveryStatus.FAILED,
+  })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus, {
+    message: 'Status must be PENDING, SUCCEEDED or FAILED',
+  })
+  status?: WebhookDeliveryStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by event type',
+    example: 'session.closed',
+  })
+  @IsOptional()
+  @IsString({ message: 'Event must be a string' })
+  event?: string;
+}
@@ -0,0 +1,4 @@
+export * from './create-webhook-subscription.dto';
+export * from './update-webhook-subscription.dto';
+export * from './find-webhook-deliveries-query.dto';
+export * from './webhook-response.dto';
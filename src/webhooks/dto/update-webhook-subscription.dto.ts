@@ -0,0 +1,80 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEventType } from './create-webhook-subscription.dto';
+
+/**
+ * DTO for updating a webhook subscription
+ * All fields are optional
+ */
+export class UpdateWebhookSubscriptionDto {
+  @ApiPropertyOptional({
+    description:
+      'HTTP(S) endpoint receiving the events, under the same host restrictions as on creation',
+    example: 'https://erp.esprit.tn/hooks/attendance',
+  })
+  @IsOptional()
+  @IsUrl(
+    {
+      protocols: ['http', 'https'],
+      require_protocol: true,
+      require_tld: false,
+    },
+    { message: 'URL must be a valid http(s) URL' },
+  )
+  url?: string;
+
+  @ApiPropertyOptional({
+    description: 'Events delivered to the endpoint',
+    enum: WebhookEventType,
+    isArray: true,
+    example: [WebhookEventType.SESSION_CLOSED],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Events must be an array' })
+  @ArrayNotEmpty({ message: 'At least one event is required' })
+  @ArrayUnique({ message: 'Events must be unique' })
+  @IsEnum(WebhookEventType, {
+    each: true,
+    message: `Events must be among: ${Object.values(WebhookEventType).join(', ')}`,
+  })
+  events?: WebhookEventType[];
+
+  @ApiPropertyOptional({
+    description: 'New signing key; deliveries are signed with it right away',
+    example: 'b6f1c9d2e8a74f3e9c0d5a1b7e2f4c6a',
+    minLength: 16,
+  })
+  @IsOptional()
+  @IsString({ message: 'Secret must be a string' })
+  @MinLength(16, { message: 'Secret must be at least 16 characters' })
+  @MaxLength(256, { message: 'Secret must not exceed 256 characters' })
+  secret?: string;
+
+  @ApiPropertyOptional({
+    description: 'What the endpoint is used for',
+    example: 'School ERP',
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(200, { message: 'Description must not exceed 200 characters' })
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Inactive subscriptions receive no new events',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'Active must be a boolean' })
+  active?: boolean;
+}
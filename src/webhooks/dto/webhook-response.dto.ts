@@ -0,0 +1,109 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { WebhookEventType } from './create-webhook-subscription.dto';
+
+/**
+ * Webhook subscription response DTO
+ * The signing secret is only returned when the subscription is created
+ */
+export class WebhookSubscriptionResponseDto {
+  @ApiProperty({ example: 'ff0e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'https://erp.esprit.tn/hooks/attendance' })
+  url: string;
+
+  @ApiProperty({
+    enum: WebhookEventType,
+    isArray: true,
+    example: [WebhookEventType.SESSION_CLOSED],
+  })
+  events: string[];
+
+  @ApiProperty({ example: 'School ERP', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: true })
+  active: boolean;
+
+  @ApiProperty({ example: '2026-10-19T08:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2026-10-19T08:00:00.000Z' })
+  updatedAt: Date;
+}
+
+/**
+ * Webhook subscription as returned on creation, with its signing secret
+ */
+export class WebhookSubscriptionCreatedDto extends WebhookSubscriptionResponseDto {
+  @ApiProperty({
+    description: 'Key of the X-Webhook-Signature HMAC-SHA256 signature',
+    example: 'b6f1c9d2e8a74f3e9c0d5a1b7e2f4c6a',
+  })
+  secret: string;
+}
+
+/**
+ * Webhook delivery log entry
+ */
+export class WebhookDeliveryResponseDto {
+  @ApiProperty({ example: '120e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'ff0e8400-e29b-41d4-a716-446655440000' })
+  subscriptionId: string;
+
+  @ApiProperty({ example: 'session.closed' })
+  event: string;
+
+  @ApiProperty({
+    description: 'JSON body sent to the endpoint',
+    example: {
+      id: '130e8400-e29b-41d4-a716-446655440000',
+      event: 'session.closed',
+      createdAt: '2026-10-19T10:00:00.000Z',
+      data: { session: { id: 'aa0e8400-e29b-41d4-a716-446655440000' } },
+    },
+  })
+  payload: unknown;
+
+  @ApiProperty({
+    enum: WebhookDeliveryStatus,
+    example: WebhookDeliveryStatus.SUCCEEDED,
+  })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({ example: 1 })
+  attempts: number;
+
+  @ApiProperty({
+    description: 'When the next retry is due, null once the delivery is over',
+    example: null,
+    nullable: true,
+  })
+  nextAttemptAt: Date | null;
+
+  @ApiProperty({ example: '2026-10-19T10:00:01.000Z', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @ApiProperty({
+    description: 'HTTP status returned by the endpoint on the last attempt',
+    example: 200,
+    nullable: true,
+  })
+  responseStatus: number | null;
+
+  @ApiProperty({
+    description: 'Why the last attempt failed',
+    example: null,
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({ example: '2026-10-19T10:00:01.000Z', nullable: true })
+  deliveredAt: Date | null;
+
+  @ApiProperty({ example: '2026-10-19T10:00:00.000Z' })
+  createdAt: Date;
+}
@@ -0,0 +1,243 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookUrlPolicyService } from './webhook-url-policy.service';
+import { SecretCipherService } from '../auth/secret-cipher.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from '../sessions/sessions.service';
+
+describe('WebhookDispatcherService', () => {
+  let service: WebhookDispatcherService;
+  let config: Record<string, string>;
+  let fetchMock: jest.SpiedFunction<typeof fetch>;
+
+  const prisma = {
+    webhookDelivery: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  const urlPolicy = { findViolation: jest.fn() };
+  const secretCipher = { decrypt: jest.fn() };
+
+  const secret = 'b6f1c9d2e8a74f3e9c0d5a1b7e2f4c6a';
+  const payload = {
+    id: 'cc0e8400-e29b-41d4-a716-446655440000',
+    event: 'session.closed',
+    createdAt: '2026-10-19T10:00:00.000Z',
+    data: { sessionId: 'aa0e8400-e29b-41d4-a716-446655440000' },
+  };
+
+  /**
+   * Delivery loaded for an attempt, after the given number of attempts
+   */
+  const delivery = (attempts = 0) => ({
+    id: 'dd0e8400-e29b-41d4-a716-446655440000',
+    event: payload.event,
+    payload,
+    attempts,
+    subscription: {
+      url: 'https://erp.esprit.tn/hooks/attendance',
+      secretCiphertext: 'v1.iv.tag.ciphertext',
+    },
+  });
+
+  /**
+   * Send the delivery through the public entry point and return the update
+   */
+  const attempt = async () => {
+    await service.send('subscription-1', payload.event, payload);
+
+    const [{ data }] = prisma.webhookDelivery.update.mock.calls[0] as [
+      {
+        data: {
+          status: WebhookDeliveryStatus;
+          attempts: number;
+          responseStatus: number | null;
+          error: string | null;
+          nextAttemptAt: Date | null;
+          deliveredAt: Date | null;
+        };
+      },
+    ];
+    return data;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = {};
+    prisma.webhookDelivery.create.mockResolvedValue({ id: delivery().id });
+    prisma.webhookDelivery.updateMany.mockResolvedValue({ count: 1 });
+    prisma.webhookDelivery.findUniqueOrThrow.mockResolvedValue(delivery());
+    urlPolicy.findViolation.mockResolvedValue(null);
+    secretCipher.decrypt.mockReturnValue(secret);
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 204 }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDispatcherService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        { provide: SessionsService, useValue: {} },
+        { provide: WebhookUrlPolicyService, useValue: urlPolicy },
+        { provide: SecretCipherService, useValue: secretCipher },
+      ],
+    }).compile();
+
+    service = module.get<WebhookDispatcherService>(WebhookDispatcherService);
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('signing', () => {
+    it('signs the timestamp and body with the subscription secret', async () => {
+      const before = Math.floor(Date.now() / 1000);
+      await attempt();
+
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      const timestamp = headers['X-Webhook-Timestamp'];
+
+      expect(url).toBe(delivery().subscription.url);
+      expect(init.body).toBe(JSON.stringify(payload));
+      expect(Number(timestamp)).toBeGreaterThanOrEqual(before);
+      expect(headers['X-Webhook-Signature']).toBe(
+        `sha256=${createHmac('sha256', secret)
+          .update(`${timestamp}.${JSON.stringify(payload)}`)
+          .digest('hex')}`,
+      );
+      expect(headers['X-Webhook-Id']).toBe(delivery().id);
+      expect(headers['X-Webhook-Event']).toBe(payload.event);
+    });
+
+    it('does not send deliveries whose secret cannot be decrypted', async () => {
+      secretCipher.decrypt.mockImplementation(() => {
+        throw new Error('Unsupported state or unable to authenticate data');
+      });
+
+      await expect(attempt()).resolves.toEqual(
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.PENDING,
+          error: 'Signing secret cannot be decrypted, set a new secret',
+        }),
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('does not follow redirects', async () => {
+      await attempt();
+
+      const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(init.redirect).toBe('manual');
+    });
+  });
+
+  describe('retries', () => {
+    it('marks a delivery answered with a 2xx SUCCEEDED', async () => {
+      await expect(attempt()).resolves.toEqual(
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.SUCCEEDED,
+          attempts: 1,
+          responseStatus: 204,
+          error: null,
+          nextAttemptAt: null,
+          deliveredAt: expect.any(Date) as Date,
+        }),
+      );
+    });
+
+    it('backs off exponentially from 30 seconds', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+
+      for (const [previousAttempts, delayMs] of [
+        [0, 30_000],
+        [1, 60_000],
+        [3, 240_000],
+      ]) {
+        prisma.webhookDelivery.update.mockClear();
+        prisma.webhookDelivery.findUniqueOrThrow.mockResolvedValue(
+          delivery(previousAttempts),
+        );
+
+        const before = Date.now();
+        const data = await attempt();
+        const after = Date.now();
+
+        expect(data).toEqual(
+          expect.objectContaining({
+            status: WebhookDeliveryStatus.PENDING,
+            attempts: previousAttempts + 1,
+            responseStatus: 500,
+            error: 'Endpoint responded with HTTP 500',
+            deliveredAt: null,
+          }),
+        );
+        expect(data.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(
+          before + delayMs,
+        );
+        expect(data.nextAttemptAt!.getTime()).toBeLessThanOrEqual(
+          after + delayMs,
+        );
+      }
+    });
+
+    it('gives up after the last attempt', async () => {
+      config = { WEBHOOK_MAX_ATTEMPTS: '3' };
+      prisma.webhookDelivery.findUniqueOrThrow.mockResolvedValue(delivery(2));
+      fetchMock.mockRejectedValue(
+        new TypeError('fetch failed', {
+          cause: new Error('connect ECONNREFUSED'),
+        }),
+      );
+
+      await expect(attempt()).resolves.toEqual(
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.FAILED,
+          attempts: 3,
+          responseStatus: null,
+          error: 'fetch failed: connect ECONNREFUSED',
+          nextAttemptAt: null,
+        }),
+      );
+    });
+
+    it('does not contact endpoints refused by the URL policy', async () => {
+      urlPolicy.findViolation.mockResolvedValue(
+        'Host erp.esprit.tn resolves to the non-public address 10.0.0.12',
+      );
+
+      await expect(attempt()).resolves.toEqual(
+        expect.objectContaining({
+          status: WebhookDeliveryStatus.PENDING,
+          error:
+            'Host erp.esprit.tn resolves to the non-public address 10.0.0.12',
+        }),
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('skips deliveries claimed by another attempt', async () => {
+      prisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.send('subscription-1', payload.event, payload);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(prisma.webhookDelivery.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,451 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHmac, randomUUID } from 'crypto';
+import { Prisma, WebhookDelivery, WebhookDeliveryStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from '../sessions/sessions.service';
+import {
+  ATTENDANCE_CHANGED_EVENT,
+  SESSION_CLOSED_EVENT,
+  SESSION_OPENED_EVENT,
+} from '../sessions/session-events';
+import type {
+  AttendanceChangedEvent,
+  SessionClosedEvent,
+  SessionOpenedEvent,
+} from '../sessions/session-events';
+import { STUDENT_ELIMINATED_EVENT } from '../eliminations/eliminations.service';
+import type { StudentEliminatedEvent } from '../eliminations/eliminations.service';
+import { WebhookEventType } from './dto';
+import { WebhookUrlPolicyService } from './webhook-url-policy.service';
+import { SecretCipherService } from '../auth/secret-cipher.service';
+
+/**
+ * Body of every webhook request
+ * The id identifies the event and is kept when a delivery is sent again
+ */
+export interface WebhookEnvelope {
+  id: string;
+  event: string;
+  createdAt: string;
+  data: Prisma.InputJsonValue;
+}
+
+/**
+ * Webhook Dispatcher Service
+ * Turns domain events into webhook deliveries and sends them
+ * Each request is signed: X-Webhook-Signature is sha256= followed by the
+ * hex HMAC-SHA256 of "{X-Webhook-Timestamp}.{body}" keyed with the
+ * subscription secret. Failed deliveries are retried with exponential
+ * backoff until they succeed or run out of attempts.
+ */
+@Injectable()
+export class WebhookDispatcherService {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private readonly DEFAULT_MAX_ATTEMPTS = 6;
+  private readonly DEFAULT_TIMEOUT_SECONDS = 10;
+  private readonly RETRY_BASE_DELAY_MS = 30_000;
+  private readonly RETRY_BATCH_SIZE = 50;
+  private running = false;
+
+  private readonly sessionSelect = {
+    id: true,
+    status: true,
+    startedAt: true,
+    endedAt: true,
+    scheduledEndAt: true,
+    teachingAssignment: {
+      select: {
+        id: true,
+        teacher: { select: { id: true, fullName: true } },
+        subject: { select: { id: true, name: true, code: true } },
+        classroom: { select: { id: true, name: true } },
+      },
+    },
+    device: { select: { id: true, deviceUid: true } },
+  } as const;
+
+  private readonly studentSelect = {
+    id: true,
+    studentCode: true,
+    fullName: true,
+  } as const;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+    private readonly urlPolicy: WebhookUrlPolicyService,
+    private readonly secretCipher: SecretCipherService,
+  ) {}
+
+  @OnEvent(SESSION_OPENED_EVENT)
+  async handleSessionOpened(event: SessionOpenedEvent): Promise<void> {
+    await this.publish(WebhookEventType.SESSION_OPENED, async () => ({
+      session: await this.findSession(event.sessionId),
+    }));
+  }
+
+  @OnEvent(SESSION_CLOSED_EVENT)
+  async handleSessionClosed(event: SessionClosedEvent): Promise<void> {
+    await this.publish(WebhookEventType.SESSION_CLOSED, async () => {
+      const [session, { summary }] = await Promise.all([
+        this.findSession(event.sessionId),
+        this.sessionsService.findRoster(event.sessionId),
+      ]);
+
+      return { session, summary: { ...summary } };
+    });
+  }
+
+  @OnEvent(ATTENDANCE_CHANGED_EVENT)
+  async handleAttendanceChanged(event: AttendanceChangedEvent): Promise<void> {
+    await this.publish(WebhookEventType.ATTENDANCE_RECORDED, async () => {
+      const [session, records] = await Promise.all([
+        this.findSession(event.sessionId),
+        this.prisma.attendanceRecord.findMany({
+          where: {
+            sessionId: event.sessionId,
+            studentId: {
+              in: event.changes.map((change) => change.studentId),
+            },
+          },
+          select: {
+            id: true,
+            studentId: true,
+            scannedAt: true,
+            student: { select: this.studentSelect },
+          },
+        }),
+      ]);
+
+      return {
+        session,
+        records: event.changes.flatMap((change) => {
+          const record = records.find(
+            (candidate) => candidate.studentId === change.studentId,
+          );
+
+          return record
+            ? [
+                {
+                  recordId: record.id,
+                  student: record.student,
+                  previousStatus: change.previousStatus,
+                  status: change.status,
+                  scannedAt: record.scannedAt?.toISOString() ?? null,
+                },
+              ]
+            : [];
+        }),
+      };
+    });
+  }
+
+  @OnEvent(STUDENT_ELIMINATED_EVENT)
+  async handleStudentEliminated(event: StudentEliminatedEvent): Promise<void> {
+    await this.publish(WebhookEventType.STUDENT_ELIMINATED, async () => {
+      const [student, teachingAssignment] = await Promise.all([
+        this.prisma.student.findUniqueOrThrow({
+          where: { id: event.studentId },
+          select: this.studentSelect,
+        }),
+        this.prisma.teachingAssignment.findUniqueOrThrow({
+          where: { id: event.teachingAssignmentId },
+          select: this.sessionSelect.teachingAssignment.select,
+        }),
+      ]);
+
+      return {
+        student,
+        teachingAssignment,
+        rule: { ...event.rule },
+        standing: { ...event.evaluation },
+      };
+    });
+  }
+
+  /**
+   * Build the body of an event
+   */
+  createEnvelope(event: string, data: Prisma.InputJsonValue): WebhookEnvelope {
+    return {
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+  }
+
+  /**
+   * Queue a delivery for one subscription and make its first attempt now
+   * Used for pings and manual redeliveries; retries follow the usual schedule
+   */
+  async send(
+    subscriptionId: string,
+    event: string,
+    payload: Prisma.InputJsonValue,
+  ): Promise<WebhookDelivery> {
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: { subscriptionId, event, payload, nextAttemptAt: new Date() },
+    });
+
+    await this.attempt(delivery.id);
+
+    return this.prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: delivery.id },
+    });
+  }
+
+  /**
+   * Scheduled entry point, runs every 30 seconds
+   */
+  @Cron(CronExpression.EVERY_30_SECONDS, { name: 'webhook-retries' })
+  async handleCron(): Promise<void> {
+    // Skip this tick if the previous retries are still being sent
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.retryDue();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Attempt the pending deliveries whose retry is due
+   * Returns the number of deliveries attempted
+   */
+  async retryDue(now: Date = new Date()): Promise<number> {
+    const due = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { lte: now },
+      },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.RETRY_BATCH_SIZE,
+    });
+
+    for (const delivery of due) {
+      await this.attempt(delivery.id);
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Queue an event for every active subscription listening to it and make
+   * the first attempts. The payload is only built when someone listens.
+   */
+  private async publish(
+    event: WebhookEventType,
+    buildData: () => Promise<Prisma.InputJsonValue>,
+  ): Promise<void> {
+    try {
+      const subscriptions = await this.prisma.webhookSubscription.findMany({
+        where: { active: true, events: { has: event } },
+        select: { id: true },
+      });
+
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const payload = this.createEnvelope(event, await buildData());
+      const now = new Date();
+
+      const deliveries = await this.prisma.$transaction(
+        subscriptions.map((subscription) =>
+          this.prisma.webhookDelivery.create({
+            data: {
+              subscriptionId: subscription.id,
+              event,
+              payload: payload as unknown as Prisma.InputJsonObject,
+              nextAttemptAt: now,
+            },
+            select: { id: true },
+          }),
+        ),
+      );
+
+      // Event handlers should not wait on remote endpoints
+      for (const delivery of deliveries) {
+        void this.attempt(delivery.id);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to queue ${event} webhooks`, error);
+    }
+  }
+
+  /**
+   * Make one attempt at a delivery and schedule the next one on failure
+   * The delivery is claimed first so an immediate send and the retry job
+   * never post it at the same time
+   */
+  private async attempt(id: string): Promise<void> {
+    const now = new Date();
+    const timeoutMs = this.getTimeoutMs();
+
+    try {
+      const { count } = await this.prisma.webhookDelivery.updateMany({
+        where: {
+          id,
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: { lte: now },
+        },
+        data: { nextAttemptAt: new Date(now.getTime() + timeoutMs * 2) },
+      });
+
+      if (count === 0) {
+        return;
+      }
+
+      const delivery = await this.prisma.webhookDelivery.findUniqueOrThrow({
+        where: { id },
+        include: {
+          subscription: { select: { url: true, secretCiphertext: true } },
+        },
+      });
+
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(now.getTime() / 1000).toString();
+      const secret = this.decryptSecret(delivery.subscription.secretCiphertext);
+
+      let responseStatus: number | null = null;
+      let error =
+        secret === null
+          ? 'Signing secret cannot be decrypted, set a new secret'
+          : await this.urlPolicy.findViolation(delivery.subscription.url);
+
+      // Endpoints are not contacted when they resolve to a non-public address
+      if (secret !== null && !error) {
+        const signature = createHmac('sha256', secret)
+          .update(`${timestamp}.${body}`)
+          .digest('hex');
+
+        try {
+          const response = await fetch(delivery.subscription.url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'User-Agent': 'ESPRIT-Attendance-Webhooks',
+              'X-Webhook-Id': delivery.id,
+              'X-Webhook-Event': delivery.event,
+              'X-Webhook-Timestamp': timestamp,
+              'X-Webhook-Signature': `sha256=${signature}`,
+            },
+            body,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+
+          responseStatus = response.status;
+          if (!response.ok) {
+            error = `Endpoint responded with HTTP ${response.status}`;
+          }
+          // Only the status matters; release the connection
+          await response.body?.cancel();
+        } catch (requestError) {
+          error = this.describeError(requestError);
+        }
+      }
+
+      const attempts = delivery.attempts + 1;
+      const exhausted = attempts >= this.getMaxAttempts();
+
+      let status: WebhookDeliveryStatus = WebhookDeliveryStatus.SUCCEEDED;
+      if (error) {
+        status = exhausted
+          ? WebhookDeliveryStatus.FAILED
+          : WebhookDeliveryStatus.PENDING;
+      }
+
+      await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: {
+          status,
+          attempts,
+          lastAttemptAt: now,
+          responseStatus,
+          error,
+          nextAttemptAt:
+            status === WebhookDeliveryStatus.PENDING
+              ? new Date(
+                  Date.now() + this.RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+                )
+              : null,
+          deliveredAt: error ? null : new Date(),
+        },
+      });
+
+      if (error) {
+        this.logger.warn(
+          `Webhook delivery ${id} (${delivery.event}) attempt ${attempts} failed: ${error}${exhausted ? ', giving up' : ''}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Failed to attempt webhook delivery ${id}`, error);
+    }
+  }
+
+  private async findSession(id: string) {
+    const session = await this.prisma.session.findUniqueOrThrow({
+      where: { id },
+      select: this.sessionSelect,
+    });
+
+    return {
+      ...session,
+      startedAt: session.startedAt.toISOString(),
+      endedAt: session.endedAt?.toISOString() ?? null,
+      scheduledEndAt: session.scheduledEndAt?.toISOString() ?? null,
+    };
+  }
+
+  private decryptSecret(secretCiphertext: string): string | null {
+    try {
+      return this.secretCipher.decrypt(secretCiphertext);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Network errors from fetch carry the actual reason in their cause
+   */
+  private describeError(error: unknown): string {
+    if (!(error instanceof Error)) {
+      return String(error);
+    }
+
+    return error.cause instanceof Error
+      ? `${error.message}: ${error.cause.message}`
+      : error.message;
+  }
+
+  private getMaxAttempts(): number {
+    const attempts = Number(
+      this.configService.get<string>('WEBHOOK_MAX_ATTEMPTS'),
+    );
+    return Number.isInteger(attempts) && attempts > 0
+      ? attempts
+      : this.DEFAULT_MAX_ATTEMPTS;
+  }
+
+  private getTimeoutMs(): number {
+    const seconds = Number(
+      this.configService.get<string>('WEBHOOK_TIMEOUT_SECONDS'),
+    );
+    return (
+      (Number.isFinite(seconds) && seconds > 0
+        ? seconds
+        : this.DEFAULT_TIMEOUT_SECONDS) * 1000
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { WebhookUrlPolicyService } from './webhook-url-policy.service';
+
+describe('WebhookUrlPolicyService', () => {
+  let service: WebhookUrlPolicyService;
+  let config: Record<string, string>;
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookUrlPolicyService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhookUrlPolicyService>(WebhookUrlPolicyService);
+  };
+
+  beforeEach(async () => {
+    config = {};
+    await createService();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it.each([
+    'http://127.0.0.1/hook',
+    'http://localhost:3000/hook',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://10.0.0.12/hook',
+    'http://172.16.5.1/hook',
+    'https://192.168.1.10/hook',
+    'http://0.0.0.0/hook',
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://[fd00::1]/hook',
+    'http://[fe80::1]/hook',
+  ])('refuses %s', async (url) => {
+    await expect(service.findViolation(url)).resolves.toMatch(
+      /non-public address/,
+    );
+  });
+
+  it('accepts public addresses', async () => {
+    await expect(
+      service.findViolation('https://93.184.215.14/hook'),
+    ).resolves.toBeNull();
+    await expect(
+      service.findViolation('https://[2606:4700::1111]/hook'),
+    ).resolves.toBeNull();
+  });
+
+  it('accepts non-public hosts listed in WEBHOOK_ALLOWED_HOSTS', async () => {
+    config = { WEBHOOK_ALLOWED_HOSTS: 'erp.internal, 10.0.0.12' };
+    await createService();
+
+    await expect(
+      service.findViolation('http://10.0.0.12/hook'),
+    ).resolves.toBeNull();
+    await expect(
+      service.findViolation('http://ERP.internal/hook'),
+    ).resolves.toBeNull();
+    await expect(
+      service.findViolation('http://10.0.0.13/hook'),
+    ).resolves.not.toBeNull();
+  });
+
+  it('refuses hosts that do not resolve', async () => {
+    await expect(
+      service.findViolation('http://webhooks.invalid/hook'),
+    ).resolves.toBe('Host webhooks.invalid could not be resolved');
+  });
+});
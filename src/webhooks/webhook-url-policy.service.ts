@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Webhook URL Policy Service
+ * Keeps webhooks from reaching the server's own network: endpoints resolving
+ * to loopback, link-local (e.g. cloud metadata at 169.254.169.254), private
+ * or otherwise reserved addresses are refused unless their host is listed in
+ * WEBHOOK_ALLOWED_HOSTS
+ * Checked when a subscription is saved and again before each delivery, as
+ * DNS records can change in between
+ */
+@Injectable()
+export class WebhookUrlPolicyService {
+  private readonly allowedHosts: Set<string>;
+  private readonly blockedAddresses = new BlockList();
+
+  constructor(private readonly configService: ConfigService) {
+    this.allowedHosts = new Set(
+      (this.configService.get<string>('WEBHOOK_ALLOWED_HOSTS') ?? '')
+        .split(',')
+        .map((host) => host.trim().toLowerCase())
+        .filter(Boolean),
+    );
+
+    for (const [network, prefix] of [
+      ['0.0.0.0', 8], // "This" network
+      ['10.0.0.0', 8], // Private
+      ['100.64.0.0', 10], // Carrier-grade NAT
+      ['127.0.0.0', 8], // Loopback
+      ['169.254.0.0', 16], // Link-local
+      ['172.16.0.0', 12], // Private
+      ['192.0.0.0', 24], // IETF protocol assignments
+      ['192.168.0.0', 16], // Private
+      ['198.18.0.0', 15], // Benchmarking
+      ['224.0.0.0', 4], // Multicast
+      ['240.0.0.0', 4], // Reserved and broadcast
+    ] as const) {
+      this.blockedAddresses.addSubnet(network, prefix, 'ipv4');
+    }
+
+    // IPv4-mapped addresses are checked against the IPv4 ranges
+    for (const [network, prefix] of [
+      ['::', 127], // Unspecified and loopback
+      ['64:ff9b::', 96], // IPv4/IPv6 translation
+      ['fc00::', 7], // Unique local
+      ['fe80::', 10], // Link-local
+      ['ff00::', 8], // Multicast
+    ] as const) {
+      this.blockedAddresses.addSubnet(network, prefix, 'ipv6');
+    }
+  }
+
+  /**
+   * Why a URL may not receive webhooks, or null when it may
+   */
+  async findViolation(url: string): Promise<string | null> {
+    let hostname: string;
+    try {
+      // IPv6 hosts come in brackets
+      hostname = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    } catch {
+      return 'URL is invalid';
+    }
+
+    if (this.allowedHosts.has(hostname)) {
+      return null;
+    }
+
+    let addresses: { address: string; family: number }[];
+    try {
+      addresses = isIP(hostname)
+        ? [{ address: hostname, family: isIP(hostname) }]
+        : await lookup(hostname, { all: true, verbatim: true });
+    } catch {
+      return `Host ${hostname} could not be resolved`;
+    }
+
+    const blocked = addresses.find(({ address, family }) =>
+      this.blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+    );
+
+    return blocked
+      ? `Host ${hostname} resolves to the non-public address ${blocked.address}; add it to WEBHOOK_ALLOWED_HOSTS to allow it`
+      : null;
+  }
+}
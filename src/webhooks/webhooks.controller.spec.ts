@@ -0,0 +1,30 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookUrlPolicyService } from './webhook-url-policy.service';
+import { SecretCipherService } from '../auth/secret-cipher.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('WebhooksController', () => {
+  let controller: WebhooksController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WebhooksController],
+      providers: [
+        WebhooksService,
+        { provide: PrismaService, useValue: {} },
+        { provide: WebhookDispatcherService, useValue: {} },
+        { provide: WebhookUrlPolicyService, useValue: {} },
+        { provide: SecretCipherService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<WebhooksController>(WebhooksController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,282 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { WebhooksService } from './webhooks.service';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  FindWebhookDeliveriesQueryDto,
+  WebhookSubscriptionResponseDto,
+  WebhookSubscriptionCreatedDto,
+  WebhookDeliveryResponseDto,
+} from './dto';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles } from '../auth/decorators';
+
+/**
+ * Webhooks Controller
+ * Handles webhook subscriptions of external systems and their delivery log
+ */
+@ApiTags('Webhooks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  /**
+   * Create a webhook subscription
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Create a webhook subscription',
+    description:
+      'Events are POSTed as JSON {id, event, createdAt, data} with the headers X-Webhook-Id, X-Webhook-Event, X-Webhook-Timestamp and X-Webhook-Signature (sha256= followed by the hex HMAC-SHA256 of "{timestamp}.{body}" keyed with the secret). Any 2xx response acknowledges the delivery; otherwise it is retried with exponential backoff up to WEBHOOK_MAX_ATTEMPTS attempts.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Subscription created, with its signing secret',
+    type: WebhookSubscriptionCreatedDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid URL, events or secret',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post('subscriptions')
+  create(
+    @Body() createDto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionCreatedDto> {
+    return this.webhooksService.create(createDto);
+  }
+
+  /**
+   * Get all webhook subscriptions
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Get all webhook subscriptions',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of subscriptions',
+    type: [WebhookSubscriptionResponseDto],
+  })
+  @Roles(UserRole.ADMIN)
+  @Get('subscriptions')
+  findAll(): Promise<WebhookSubscriptionResponseDto[]> {
+    return this.webhooksService.findAll();
+  }
+
+  /**
+   * Get a webhook subscription by ID
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Get a webhook subscription',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Subscription UUID',
+    example: 'ff0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Subscription found',
+    type: WebhookSubscriptionResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Subscription not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Get('subscriptions/:id')
+  findOne(@Param('id') id: string): Promise<WebhookSubscriptionResponseDto> {
+    return this.webhooksService.findOne(id);
+  }
+
+  /**
+   * Update a webhook subscription
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Update a webhook subscription',
+    description:
+      'Change the URL, events, secret or description, or deactivate the subscription',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Subscription UUID',
+    example: 'ff0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Subscription updated',
+    type: WebhookSubscriptionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input',
+  })
+  @ApiNotFoundResponse({
+    description: 'Subscription not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Patch('subscriptions/:id')
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionResponseDto> {
+    return this.webhooksService.update(id, updateDto);
+  }
+
+  /**
+   * Delete a webhook subscription
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Delete a webhook subscription',
+    description: 'Delete a subscription and its delivery log',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Subscription UUID',
+    example: 'ff0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Subscription deleted successfully',
+  })
+  @ApiNotFoundResponse({
+    description: 'Subscription not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Delete('subscriptions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.webhooksService.remove(id);
+  }
+
+  /**
+   * Send a test event to a webhook subscription
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Ping a webhook subscription',
+    description:
+      'Send a signed "ping" event to the endpoint right away and return the resulting delivery',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Subscription UUID',
+    example: 'ff0e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Delivery of the ping',
+    type: WebhookDeliveryResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Subscription not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post('subscriptions/:id/ping')
+  @HttpCode(HttpStatus.OK)
+  ping(@Param('id') id: string): Promise<WebhookDeliveryResponseDto> {
+    return this.webhooksService.ping(id);
+  }
+
+  /**
+   * Get the webhook delivery log
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Get webhook deliveries',
+    description:
+      'The 200 most recent deliveries matching the filters, newest first',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of deliveries',
+    type: [WebhookDeliveryResponseDto],
+  })
+  @Roles(UserRole.ADMIN)
+  @Get('deliveries')
+  findDeliveries(
+    @Query() query: FindWebhookDeliveriesQueryDto,
+  ): Promise<WebhookDeliveryResponseDto[]> {
+    return this.webhooksService.findDeliveries(query);
+  }
+
+  /**
+   * Get a webhook delivery by ID
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Get a webhook delivery',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Delivery UUID',
+    example: '120e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Delivery found',
+    type: WebhookDeliveryResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Delivery not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Get('deliveries/:id')
+  findDelivery(@Param('id') id: string): Promise<WebhookDeliveryResponseDto> {
+    return this.webhooksService.findDelivery(id);
+  }
+
+  /**
+   * Send a delivery again
+   * Admin only
+   */
+  @ApiOperation({
+    summary: 'Redeliver a webhook delivery',
+    description:
+      'Send the payload of a delivery again as a new delivery, attempted right away. The payload keeps its event id so receivers can detect duplicates.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Delivery UUID',
+    example: '120e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'New delivery',
+    type: WebhookDeliveryResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Delivery not found',
+  })
+  @Roles(UserRole.ADMIN)
+  @Post('deliveries/:id/redeliver')
+  @HttpCode(HttpStatus.OK)
+  redeliver(@Param('id') id: string): Promise<WebhookDeliveryResponseDto> {
+    return this.webhooksService.redeliver(id);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookUrlPolicyService } from './webhook-url-policy.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { AuthModule } from '../auth/auth.module';
+
+/**
+ * Webhooks Module
+ * Notifies external systems of session, attendance and elimination events
+ */
+@Module({
+  imports: [PrismaModule, SessionsModule, AuthModule],
+  controllers: [WebhooksController],
+  providers: [
+    WebhooksService,
+    WebhookDispatcherService,
+    WebhookUrlPolicyService,
+  ],
+})
+export class WebhooksModule {}
@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookUrlPolicyService } from './webhook-url-policy.service';
+import { SecretCipherService } from '../auth/secret-cipher.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        { provide: PrismaService, useValue: {} },
+        { provide: WebhookDispatcherService, useValue: {} },
+        { provide: WebhookUrlPolicyService, useValue: {} },
+        { provide: SecretCipherService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<WebhooksService>(WebhooksService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+});
@@ -0,0 +1,225 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookUrlPolicyService } from './webhook-url-policy.service';
+import { SecretCipherService } from '../auth/secret-cipher.service';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  FindWebhookDeliveriesQueryDto,
+  WebhookSubscriptionResponseDto,
+  WebhookSubscriptionCreatedDto,
+  WebhookDeliveryResponseDto,
+} from './dto';
+
+/**
+ * Webhooks Service
+ * Handles webhook subscriptions and their delivery log
+ */
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+  private readonly PING_EVENT = 'ping';
+  private readonly MAX_DELIVERIES_LISTED = 200;
+
+  // The signing secret is never returned after creation
+  private readonly subscriptionSelect = {
+    id: true,
+    url: true,
+    events: true,
+    description: true,
+    active: true,
+    createdAt: true,
+    updatedAt: true,
+  } as const;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly dispatcher: WebhookDispatcherService,
+    private readonly urlPolicy: WebhookUrlPolicyService,
+    private readonly secretCipher: SecretCipherService,
+  ) {}
+
+  /**
+   * Create a subscription, generating its secret when none is given
+   * The secret is stored encrypted and only returned here
+   */
+  async create(
+    createDto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionCreatedDto> {
+    await this.assertUrlAllowed(createDto.url);
+
+    const { secret: givenSecret, ...data } = createDto;
+    const secret = givenSecret ?? randomBytes(32).toString('hex');
+
+    const subscription = await this.prisma.webhookSubscription.create({
+      data: { ...data, secretCiphertext: this.secretCipher.encrypt(secret) },
+      select: this.subscriptionSelect,
+    });
+
+    this.logger.log(
+      `Webhook subscription created: ${subscription.id} → ${subscription.url}`,
+    );
+    return { ...subscription, secret };
+  }
+
+  /**
+   * Find all subscriptions
+   */
+  async findAll(): Promise<WebhookSubscriptionResponseDto[]> {
+    return this.prisma.webhookSubscription.findMany({
+      select: this.subscriptionSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Find a subscription by ID
+   */
+  async findOne(id: string): Promise<WebhookSubscriptionResponseDto> {
+    const subscription = await this.prisma.webhookSubscription.findUnique({
+      where: { id },
+      select: this.subscriptionSelect,
+    });
+
+    if (!subscription) {
+      throw new NotFoundException(
+        `Webhook subscription with ID ${id} not found`,
+      );
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Update a subscription
+   */
+  async update(
+    id: string,
+    updateDto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionResponseDto> {
+    await this.findOne(id);
+
+    if (updateDto.url !== undefined) {
+      await this.assertUrlAllowed(updateDto.url);
+    }
+
+    const { secret, ...data } = updateDto;
+
+    const subscription = await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(secret !== undefined && {
+          secretCiphertext: this.secretCipher.encrypt(secret),
+        }),
+      },
+      select: this.subscriptionSelect,
+    });
+
+    this.logger.log(`Webhook subscription updated: ${id}`);
+    return subscription;
+  }
+
+  /**
+   * Delete a subscription with its delivery log
+   */
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+
+    await this.prisma.webhookSubscription.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Webhook subscription deleted: ${id}`);
+  }
+
+  /**
+   * Send a ping event to a subscription to check its endpoint
+   * Sent even when the subscription is inactive
+   */
+  async ping(id: string): Promise<WebhookDeliveryResponseDto> {
+    await this.findOne(id);
+
+    return this.dispatcher.send(
+      id,
+      this.PING_EVENT,
+      this.dispatcher.createEnvelope(this.PING_EVENT, {
+        subscriptionId: id,
+      }) as unknown as Prisma.InputJsonObject,
+    );
+  }
+
+  /**
+   * Get the delivery log, newest first
+   */
+  async findDeliveries(
+    query: FindWebhookDeliveriesQueryDto,
+  ): Promise<WebhookDeliveryResponseDto[]> {
+    return this.prisma.webhookDelivery.findMany({
+      where: {
+        subscriptionId: query.subscriptionId,
+        status: query.status,
+        event: query.event,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: this.MAX_DELIVERIES_LISTED,
+    });
+  }
+
+  /**
+   * Find a delivery by ID
+   */
+  async findDelivery(id: string): Promise<WebhookDeliveryResponseDto> {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery with ID ${id} not found`);
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Send the payload of a delivery again as a new delivery
+   * The event keeps its id so receivers can recognize the duplicate
+   */
+  async redeliver(id: string): Promise<WebhookDeliveryResponseDto> {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id },
+      select: {
+        subscriptionId: true,
+        event: true,
+        payload: true,
+      },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery with ID ${id} not found`);
+    }
+
+    this.logger.log(`Redelivering webhook delivery ${id}`);
+    return this.dispatcher.send(
+      delivery.subscriptionId,
+      delivery.event,
+      delivery.payload as Prisma.InputJsonValue,
+    );
+  }
+
+  private async assertUrlAllowed(url: string): Promise<void> {
+    const violation = await this.urlPolicy.findViolation(url);
+
+    if (violation) {
+      throw new BadRequestException(violation);
+    }
+  }
+}
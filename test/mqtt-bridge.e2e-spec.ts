@@ -0,0 +1,283 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createServer, Server, AddressInfo } from 'net';
+import { once } from 'events';
+import { createHmac } from 'crypto';
+import { createBroker } from 'aedes';
+import type Aedes from 'aedes';
+import { connectAsync, MqttClient } from 'mqtt';
+import { MqttBridgeService } from './../src/mqtt/mqtt-bridge.service';
+import { AuthService } from './../src/auth/auth.service';
+import { AttendanceService } from './../src/attendance/attendance.service';
+import { DevicesService } from './../src/devices/devices.service';
+import { DeviceCommandsService } from './../src/devices/device-commands.service';
+import { DeviceCommandResponseDto } from './../src/devices/dto';
+import { SignedDeviceRequest } from './../src/auth/strategies';
+
+const DEVICE_UID = 'RFID-GL2A-001';
+const DEVICE_SECRET = 'device-secret';
+const PREFIX = 'esprit/devices';
+
+const sign = (secret: string, content: string) =>
+  `sha256=${createHmac('sha256', secret).update(content).digest('hex')}`;
+
+/**
+ * Message published by the bridge
+ */
+type BridgeMessage = Record<string, unknown> & {
+  requestId?: string;
+  status?: string;
+  error?: { statusCode: number; message: string | string[] };
+};
+
+describe('MqttBridge (e2e)', () => {
+  let app: INestApplication;
+  let broker: Aedes;
+  let server: Server;
+  let device: MqttClient;
+  let nonces = 0;
+
+  const authenticatedDevice = {
+    id: '990e8400-e29b-41d4-a716-446655440000',
+    deviceUid: DEVICE_UID,
+    status: 'ACTIVE',
+  };
+  const authService = {
+    validateDevice: jest.fn(
+      (deviceUid: string, signedRequest: SignedDeviceRequest) =>
+        Promise.resolve(
+          deviceUid === DEVICE_UID &&
+            signedRequest.signature ===
+              sign(
+                DEVICE_SECRET,
+                `${signedRequest.timestamp}.${signedRequest.nonce}.${signedRequest.target}.${signedRequest.body}`,
+              )
+            ? authenticatedDevice
+            : null,
+        ),
+    ),
+  };
+  const attendanceService = {
+    recordScan: jest.fn(),
+    recordBufferedScans: jest.fn(),
+  };
+  const devicesService = {
+    recordHeartbeat: jest.fn(),
+  };
+  const deviceCommandsService = {
+    poll: jest.fn(),
+    acknowledge: jest.fn(),
+    markDelivered: jest.fn(),
+  };
+
+  /**
+   * Wrap a device message in a signed envelope
+   */
+  const envelope = (topic: string, message: object, secret = DEVICE_SECRET) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const nonce = `nonce-${++nonces}`;
+    const body = JSON.stringify(message);
+
+    return {
+      timestamp,
+      nonce,
+      signature: sign(secret, `${timestamp}.${nonce}.${topic}.${body}`),
+      body,
+    };
+  };
+
+  /**
+   * Publish a signed device message and wait for the first reply on a topic
+   */
+  const request = async (
+    topic: string,
+    message: object,
+    replyTopic: string,
+    secret?: string,
+  ): Promise<BridgeMessage> => {
+    await device.subscribeAsync(replyTopic, { qos: 1 });
+    const reply = new Promise<BridgeMessage>((resolve) => {
+      const onMessage = (receivedTopic: string, payload: Buffer) => {
+        if (receivedTopic === replyTopic) {
+          device.off('message', onMessage);
+          resolve(JSON.parse(payload.toString()) as BridgeMessage);
+        }
+      };
+      device.on('message', onMessage);
+    });
+    await device.publishAsync(
+      topic,
+      JSON.stringify(envelope(topic, message, secret)),
+      { qos: 1 },
+    );
+    return reply;
+  };
+
+  beforeAll(async () => {
+    broker = createBroker();
+    server = createServer(broker.handle);
+    server.listen(0);
+    await once(server, 'listening');
+    const { port } = server.address() as AddressInfo;
+
+    const config: Record<string, string> = {
+      MQTT_URL: `mqtt://127.0.0.1:${port}`,
+      MQTT_CLIENT_ID: 'attendance-backend-e2e',
+    };
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      providers: [
+        MqttBridgeService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+        { provide: AuthService, useValue: authService },
+        { provide: AttendanceService, useValue: attendanceService },
+        { provide: DevicesService, useValue: devicesService },
+        { provide: DeviceCommandsService, useValue: deviceCommandsService },
+      ],
+    }).compile();
+
+    // Wait until the bridge has subscribed to the device topics
+    const subscribed = once(broker, 'subscribe');
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    await subscribed;
+
+    device = await connectAsync(`mqtt://127.0.0.1:${port}`, {
+      clientId: DEVICE_UID,
+    });
+  });
+
+  afterAll(async () => {
+    await device.endAsync();
+    await app.close();
+    await new Promise<void>((resolve) => broker.close(() => resolve()));
+    server.close();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records a scan and publishes the result', async () => {
+    attendanceService.recordScan.mockResolvedValue({
+      result: 'RECORDED',
+      message: 'Attendance recorded',
+    });
+
+    const reply = await request(
+      `${PREFIX}/${DEVICE_UID}/scan`,
+      { requestId: 'r-1', cardUid: '04A1B2C3D4' },
+      `${PREFIX}/${DEVICE_UID}/scan/result`,
+    );
+
+    expect(reply).toEqual({
+      requestId: 'r-1',
+      result: 'RECORDED',
+      message: 'Attendance recorded',
+    });
+    expect(attendanceService.recordScan).toHaveBeenCalledWith(
+      authenticatedDevice,
+      expect.objectContaining({ cardUid: '04A1B2C3D4' }),
+    );
+  });
+
+  it('rejects invalid credentials', async () => {
+    const reply = await request(
+      `${PREFIX}/${DEVICE_UID}/scan`,
+      { requestId: 'r-2', cardUid: '04A1B2C3D4' },
+      `${PREFIX}/${DEVICE_UID}/scan/result`,
+      'wrong',
+    );
+
+    expect(reply.requestId).toBe('r-2');
+    expect(reply.error?.statusCode).toBe(401);
+    expect(attendanceService.recordScan).not.toHaveBeenCalled();
+  });
+
+  it('validates payloads like the REST endpoints', async () => {
+    const reply = await request(
+      `${PREFIX}/${DEVICE_UID}/heartbeat`,
+      { batteryLevel: 140, unknownField: true },
+      `${PREFIX}/${DEVICE_UID}/heartbeat/result`,
+    );
+
+    expect(reply.error?.statusCode).toBe(400);
+    expect(reply.error?.message).toEqual(
+      expect.arrayContaining([
+        'Battery level must not exceed 100',
+        'property unknownField should not exist',
+      ]),
+    );
+    expect(devicesService.recordHeartbeat).not.toHaveBeenCalled();
+  });
+
+  it('publishes pending commands on poll', async () => {
+    const command = { id: 'ee0e8400', type: 'REBOOT', status: 'DELIVERED' };
+    deviceCommandsService.poll.mockResolvedValue([command]);
+
+    const reply = await request(
+      `${PREFIX}/${DEVICE_UID}/commands/poll`,
+      {},
+      `${PREFIX}/${DEVICE_UID}/commands`,
+    );
+
+    expect(reply).toEqual(command);
+    expect(deviceCommandsService.poll).toHaveBeenCalledWith(
+      authenticatedDevice.id,
+    );
+  });
+
+  it('acknowledges a command', async () => {
+    deviceCommandsService.acknowledge.mockResolvedValue({
+      id: 'ee0e8400',
+      status: 'ACKNOWLEDGED',
+    });
+
+    const reply = await request(
+      `${PREFIX}/${DEVICE_UID}/commands/ee0e8400/ack`,
+      { success: true },
+      `${PREFIX}/${DEVICE_UID}/commands/ee0e8400/ack/result`,
+    );
+
+    expect(reply.status).toBe('ACKNOWLEDGED');
+    expect(deviceCommandsService.acknowledge).toHaveBeenCalledWith(
+      authenticatedDevice.id,
+      'ee0e8400',
+      expect.objectContaining({ success: true }),
+    );
+  });
+
+  it('pushes queued commands to devices seen over MQTT', async () => {
+    const command = { id: 'ff0e8400', type: 'RESYNC_CLOCK' };
+    deviceCommandsService.markDelivered.mockResolvedValue({
+      ...command,
+      status: 'DELIVERED',
+    });
+
+    const commandsTopic = `${PREFIX}/${DEVICE_UID}/commands`;
+    await device.subscribeAsync(commandsTopic, { qos: 1 });
+    const pushed = new Promise<BridgeMessage>((resolve) => {
+      const onMessage = (topic: string, payload: Buffer) => {
+        if (topic === commandsTopic) {
+          device.off('message', onMessage);
+          resolve(JSON.parse(payload.toString()) as BridgeMessage);
+        }
+      };
+      device.on('message', onMessage);
+    });
+
+    await app.get(MqttBridgeService).handleCommandQueued({
+      deviceUid: DEVICE_UID,
+      command: command as unknown as DeviceCommandResponseDto,
+    });
+
+    expect(await pushed).toEqual({ ...command, status: 'DELIVERED' });
+    expect(deviceCommandsService.markDelivered).toHaveBeenCalledWith(
+      command.id,
+    );
+  });
+});